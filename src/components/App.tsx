@@ -1,37 +1,68 @@
 import React, { useState, useEffect } from 'react';
 import { HiMenu, HiX } from 'react-icons/hi';
 import { SimulationController } from '../controller/simulationController';
-import { SimulationState, SimulationParameters, EngineType, Basis, NoiseChannel } from '../engine/types';
+import { ComparisonController } from '../controller/comparisonController';
+import { MAX_RUN_ROUNDS, RunProgress } from '../controller/backgroundRun';
+import { SimulationState, SimulationParameters, EngineType, Basis } from '../engine/types';
+import { TraceFormat, createTraceCsv, createTraceJson } from '../engine/traceExport';
+import { downloadTextFile } from '../utils/download';
+import { DEFAULT_SCENARIO, Scenario, decodeScenario, scenarioLink } from '../utils/urlState';
+import { DEFAULT_REFERENCE_STATE, ReferenceState } from '../utils/referenceState';
+import { randomSeed } from '../engine_real_calculations/utils/random';
 import ControlPanel from './ControlPanel';
 import EnsembleDisplay from './EnsembleDisplay';
+import FidelityChart from './FidelityChart';
+import ComparisonView from './ComparisonView';
+import SweepPanel from './SweepPanel';
+import CollapsibleSection from './CollapsibleSection';
 import SimulationControls from './SimulationControls';
 import InfoWindow from './InfoWindow';
 import Attribution from './Attribution';
 import './App.css';
 
+// Keep the address bar in sync, so reloading or bookmarking the page keeps the scenario
+const showScenarioInUrl = (scenario: Scenario) => {
+  window.history.replaceState(window.history.state, '', scenarioLink(scenario, window.location.href));
+};
+
+// Runs without a chosen seed get a fresh one, so every run can be shared and replayed from its link
+const withRunSeed = (params: SimulationParameters): SimulationParameters =>
+  params.seed === undefined ? { ...params, seed: randomSeed() } : params;
+
 const App: React.FC = () => {
+  // A shared link opens the scenario in its query; without one this is the default scenario
+  const [initialScenario] = useState(() => decodeScenario(window.location.search));
   const [state, setState] = useState<SimulationState | null>(null);
   const [controller, setController] = useState<SimulationController | null>(null);
-  const [engineType, setEngineType] = useState<EngineType>(EngineType.MonteCarlo);
-  const [viewBasis, setViewBasis] = useState<Basis>(Basis.Bell);
+  const [engineType, setEngineType] = useState<EngineType>(initialScenario.engineType);
+  const [viewBasis, setViewBasis] = useState<Basis>(initialScenario.viewBasis);
+  const [referenceState, setReferenceState] = useState<ReferenceState>(DEFAULT_REFERENCE_STATE);
+  // Second run shown next to the main one while comparing engines
+  const [comparison, setComparison] = useState<{ controller: SimulationController; engineType: EngineType } | null>(null);
+  const [comparisonState, setComparisonState] = useState<SimulationState | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [infoOpen, setInfoOpen] = useState(false);
+  // Set while Run All works in the background
+  const [runProgress, setRunProgress] = useState<Omit<RunProgress, 'state'> | null>(null);
+  // Bumped when parameters come from outside the control panel, so its inputs start over from them
+  const [controlPanelKey, setControlPanelKey] = useState(0);
   
   useEffect(() => {
-    // Initialize controller with default parameters
-    const initialParams: SimulationParameters = {
-      initialPairs: 32,
-      noiseParameter: 0.3,
-      targetFidelity: 0.95,
-      noiseChannel: NoiseChannel.UniformNoise
-    };
-    
-    const newController = new SimulationController(
-      initialParams,
+    const createController = (params: SimulationParameters) => new SimulationController(
+      params,
       (newState: SimulationState) => setState(newState),
       engineType
     );
     
+    let newController: SimulationController;
+    try {
+      newController = createController(withRunSeed(initialScenario.params));
+    } catch (error) {
+      // A link can carry parameters the engines reject, e.g. an imported matrix of the wrong size
+      console.error('Cannot simulate the linked parameters, using the defaults:', error);
+      newController = createController(withRunSeed(DEFAULT_SCENARIO.params));
+    }
+    
     setController(newController);
   }, []);
   
@@ -39,9 +70,80 @@ const App: React.FC = () => {
     return <div>Loading simulation...</div>;
   }
 
+  // While comparing, every action goes to both runs
+  const driver = comparison ? new ComparisonController(controller, comparison.controller) : controller;
+  
+  const currentScenario = (): Scenario => ({ params: controller.getParameters(), engineType, viewBasis });
+  
+  const handleParametersChange = (params: SimulationParameters) => {
+    const runParams = withRunSeed(params);
+    const previous = controller.getParameters();
+    try {
+      driver.updateParameters(runParams);
+    } catch (error) {
+      // E.g. an imported state or a loaded configuration the engines reject; the engines may be half-updated
+      console.error('Cannot simulate these parameters, keeping the previous ones:', error);
+      driver.updateParameters(previous);
+      return;
+    }
+    showScenarioInUrl({ ...currentScenario(), params: runParams });
+  };
+  
+  const handleLoadConfiguration = (params: SimulationParameters) => {
+    handleParametersChange(params);
+    setControlPanelKey(key => key + 1);
+  };
+  
   const handleEngineTypeChange = (type: EngineType) => {
     controller.updateEngineType(type);
+    // The new engine starts over, so the comparison run does too
+    comparison?.controller.reset();
     setEngineType(type);
+    showScenarioInUrl({ ...currentScenario(), engineType: type });
+  };
+  
+  const handleComparisonEngineTypeChange = (type: EngineType | undefined) => {
+    if (!type) {
+      comparison?.controller.cancelRun();
+      setComparison(null);
+      setComparisonState(null);
+      return;
+    }
+    if (comparison) {
+      comparison.controller.updateEngineType(type);
+      setComparison({ ...comparison, engineType: type });
+    } else {
+      const comparisonController = new SimulationController(controller.getParameters(), setComparisonState, type);
+      setComparison({ controller: comparisonController, engineType: type });
+    }
+    // Both runs start together from their initial states
+    controller.reset();
+  };
+  
+  const handleViewBasisChange = (basis: Basis) => {
+    setViewBasis(basis);
+    showScenarioInUrl({ ...currentScenario(), viewBasis: basis });
+  };
+  
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(scenarioLink(currentScenario(), window.location.href));
+  };
+  
+  const handleRunAll = () => {
+    setRunProgress({ completedRounds: 0, maxRounds: MAX_RUN_ROUNDS });
+    driver.runUntilCompleteAsync(({ completedRounds, maxRounds }) => setRunProgress({ completedRounds, maxRounds }))
+      .catch(error => console.error('Simulation run failed:', error))
+      .finally(() => setRunProgress(null));
+  };
+  
+  const handleExportTrace = (format: TraceFormat) => {
+    const trace = controller.getTrace();
+    if (format === 'json') {
+      const json = createTraceJson(trace, controller.getParameters(), controller.getEngineType());
+      downloadTextFile('simulation-trace.json', json, 'application/json');
+    } else {
+      downloadTextFile('simulation-trace.csv', createTraceCsv(trace), 'text/csv');
+    }
   };
   
   return (
@@ -67,36 +169,87 @@ const App: React.FC = () => {
         )}
         <div className="simulation-area">
           <SimulationControls
-            onNextStep={() => controller.nextStep()}
-            onCompleteRound={() => controller.completeRound()}
-            onRunAll={() => controller.runUntilComplete()}
-            onReset={() => controller.reset()}
-            isComplete={state.complete}
+            onNextStep={() => driver.nextStep()}
+            onCompleteRound={() => driver.completeRound()}
+            onRunAll={handleRunAll}
+            onReset={() => driver.reset()}
+            isComplete={state.complete && (!comparisonState || comparisonState.complete)}
             currentStep={state.purificationStep}
+            onUndo={() => driver.undo()}
+            onRedo={() => driver.redo()}
+            onGoTo={(index) => driver.goTo(index)}
+            canUndo={driver.canUndo()}
+            canRedo={driver.canRedo()}
+            historyIndex={controller.getHistoryIndex()}
+            historyLength={controller.getHistoryLength()}
+            isRunning={runProgress !== null}
+            onCancel={() => driver.cancelRun()}
+            completedRounds={runProgress?.completedRounds}
+            maxRounds={runProgress?.maxRounds}
           />
           
           <div className="simulation-content">
             <ControlPanel
+              key={controlPanelKey}
               className={drawerOpen ? 'open' : ''}
               isDrawerOpen={drawerOpen}
               onDrawerClose={() => setDrawerOpen(false)}
-              onParametersChanged={(params) => controller.updateParameters(params)}
+              onParametersChanged={handleParametersChange}
               onEngineTypeChanged={handleEngineTypeChange}
-              onViewBasisChanged={setViewBasis}
+              onViewBasisChanged={handleViewBasisChange}
+              onReferenceStateChanged={setReferenceState}
+              onExportTrace={handleExportTrace}
+              onCopyLink={handleCopyLink}
+              comparisonEngineType={comparison?.engineType}
+              onComparisonEngineTypeChanged={handleComparisonEngineTypeChange}
+              initialParameters={controller.getParameters()}
               currentRound={state.round}
               currentStep={state.purificationStep}
               pairsRemaining={state.pairs.length}
               averageFidelity={state.averageFidelity}
+              memoryFidelityLoss={state.memoryFidelityLoss}
+              seed={state.seed}
+              statistics={state.statistics}
               engineType={engineType}
               viewBasis={viewBasis}
+              referenceState={referenceState}
             />
             
-            <EnsembleDisplay 
-              pairs={state.pairs} 
-              pendingPairs={state.pendingPairs} 
-              purificationStep={state.purificationStep} 
-              viewBasis={viewBasis}
-            />
+            <div className="simulation-display-column">
+              {comparison && comparisonState ? (
+                <ComparisonView
+                  left={{ engineType, state }}
+                  right={{ engineType: comparison.engineType, state: comparisonState }}
+                  viewBasis={viewBasis}
+                  referenceState={referenceState}
+                />
+              ) : (
+                <>
+                  <EnsembleDisplay 
+                    pairs={state.pairs} 
+                    pendingPairs={state.pendingPairs} 
+                    purificationStep={state.purificationStep} 
+                    viewBasis={viewBasis}
+                    referenceState={referenceState}
+                    pumpingHistory={state.pumpingHistory}
+                    rawPairsConsumed={state.rawPairsConsumed}
+                  />
+                  
+                  <FidelityChart
+                    states={controller.getTimeline()}
+                    targetFidelity={controller.getParameters().targetFidelity}
+                  />
+                </>
+              )}
+              
+              <CollapsibleSection title="Parameter Sweep" defaultExpanded={false} className="sweep-section">
+                <SweepPanel
+                  baseParameters={controller.getParameters()}
+                  engineType={engineType}
+                  onLoadConfiguration={handleLoadConfiguration}
+                />
+              </CollapsibleSection>
+            </div>
           </div>
         </div>
       </main>
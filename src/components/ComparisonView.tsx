@@ -0,0 +1,70 @@
+import React from 'react';
+import { Basis, EngineType, SimulationState } from '../engine/types';
+import { compareStates } from '../controller/comparisonController';
+import EnsembleDisplay from './EnsembleDisplay';
+import { ReferenceState } from '../utils/referenceState';
+import './ComparisonView.css';
+
+interface ComparisonSide {
+  engineType: EngineType;
+  state: SimulationState;
+}
+
+interface ComparisonViewProps {
+  left: ComparisonSide;
+  right: ComparisonSide;
+  viewBasis: Basis;
+  referenceState?: ReferenceState;
+}
+
+const ENGINE_NAMES: Record<EngineType, string> = {
+  [EngineType.MonteCarlo]: 'Monte Carlo',
+  [EngineType.Average]: 'Average',
+  [EngineType.Dejmps]: 'DEJMPS',
+  [EngineType.Exact]: 'Exact'
+};
+
+// Differences always show their sign, so "no change" reads as +0
+const signed = (value: number, digits: number): string => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(digits)}`;
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ left, right, viewBasis, referenceState }) => {
+  const difference = compareStates(left.state, right.state);
+
+  const renderSide = ({ engineType, state }: ComparisonSide, side: 'left' | 'right') => (
+    <section className="comparison-side" data-testid={`comparison-${side}`}>
+      <h3>{ENGINE_NAMES[engineType]}</h3>
+      <p className="comparison-status">
+        Round {state.round} · {state.pairs.length} pairs · F̄ = {state.averageFidelity.toFixed(3)}
+        {state.complete && ' · complete'}
+      </p>
+      <EnsembleDisplay
+        pairs={state.pairs}
+        pendingPairs={state.pendingPairs}
+        purificationStep={state.purificationStep}
+        viewBasis={viewBasis}
+        referenceState={referenceState}
+        pumpingHistory={state.pumpingHistory}
+        rawPairsConsumed={state.rawPairsConsumed}
+        idPrefix={`${side}-`}
+      />
+    </section>
+  );
+
+  return (
+    <div className="comparison-view">
+      <div className="comparison-delta" data-testid="comparison-delta">
+        <span className="comparison-delta-title">
+          {ENGINE_NAMES[right.engineType]} − {ENGINE_NAMES[left.engineType]}:
+        </span>
+        <span><strong>Δ Average Fidelity:</strong> {signed(difference.averageFidelity, 3)}</span>
+        <span><strong>Δ Pairs Remaining:</strong> {signed(difference.pairsRemaining, 0)}</span>
+      </div>
+      <div className="comparison-sides">
+        {renderSide(left, 'left')}
+        {renderSide(right, 'right')}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,55 +1,283 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { SimulationParameters, PurificationStep, EngineType, Basis, NoiseChannel } from '../engine/types';
+import { SimulationParameters, PurificationStep, EngineType, Basis, NoiseChannel, PurificationScheme, PairingStrategy, OutcomeStatistics, QubitNoise, PauliProbabilities, InitialStateMode, BellDiagonalWeights } from '../engine/types';
 import './ControlPanel.css';
 import HelpPanel from './HelpPanel';
 import Popup from './Popup';
 import CollapsibleSection from './CollapsibleSection';
+import { MAX_SEED, randomSeed } from '../engine_real_calculations/utils/random';
+import { parseKrausOperators } from '../engine_real_calculations/channels/krausParser';
+import { validateKrausOperators } from '../engine_real_calculations/channels/noise';
+import { Matrix } from '../engine_real_calculations/matrix/matrix';
+import { ComplexNum } from '../engine_real_calculations/types/complex';
+import { validateBellDiagonalWeights } from '../engine/quantumStates';
+import { importDensityMatrix } from '../engine/stateImport';
+import { TraceFormat } from '../engine/traceExport';
+import { BellState } from '../engine_real_calculations/bell/bell-basis';
+import { DEFAULT_REFERENCE_STATE, ENGINE_TARGET, ReferenceState, RotationAxis } from '../utils/referenceState';
+import { INITIAL_PAIRS_RANGE } from '../utils/urlState';
 
 interface ControlPanelProps {
   onParametersChanged: (params: SimulationParameters) => void;
   onEngineTypeChanged: (type: EngineType) => void;
   onViewBasisChanged: (basis: Basis) => void;
+  onReferenceStateChanged?: (reference: ReferenceState) => void; // Choose the state the hover cards compare pairs with
+  onExportTrace?: (format: TraceFormat) => void; // Save every state of the run so far
+  onCopyLink?: () => Promise<void>; // Copy a link that opens the current scenario
+  comparisonEngineType?: EngineType; // Engine of the second run shown side by side (unset = no comparison)
+  onComparisonEngineTypeChanged?: (type: EngineType | undefined) => void;
+  initialParameters?: SimulationParameters; // Settings the inputs start with, e.g. from a shared link
   currentRound: number;
   currentStep: PurificationStep;
   pairsRemaining: number;
   averageFidelity: number;
+  memoryFidelityLoss?: number;
+  seed?: number;
+  statistics?: OutcomeStatistics;
   engineType: EngineType;
   viewBasis: Basis;
+  referenceState?: ReferenceState;
   className?: string;
   isDrawerOpen?: boolean;
   onDrawerClose?: () => void;
 }
 
+// Starting point for the custom channel: dephasing with probability 0.1
+const DEFAULT_KRAUS_TEXT = 'sqrt(0.9) 0\n0 sqrt(0.9)\n\nsqrt(0.1) 0\n0 -sqrt(0.1)';
+
+// Parsed operators, or the message of the first problem found
+const checkKrausText = (text: string): { operators?: ComplexNum[][][]; error?: string } => {
+  try {
+    const operators = parseKrausOperators(text);
+    validateKrausOperators(operators.map(entries => new Matrix(entries)));
+    return { operators };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+// Bell-diagonal weights in the order of BellDiagonalWeights, with the labels of their inputs
+const BELL_WEIGHT_LABELS = ['Φ+', 'Φ-', 'Ψ+', 'Ψ-'];
+const DEFAULT_BELL_WEIGHTS = ['0.1', '0.1', '0.1', '0.7'];
+
+// Parsed weights, or the message of the first problem found
+const checkBellWeights = (inputs: string[]): { weights?: BellDiagonalWeights; error?: string } => {
+  const weights = inputs.map(input => parseFloat(input));
+  try {
+    validateBellDiagonalWeights(weights);
+    return { weights: weights as BellDiagonalWeights };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+// Pair count within the range links accept, or the message of the problem
+const checkInitialPairs = (text: string): { count?: number; error?: string } => {
+  const [min, max] = INITIAL_PAIRS_RANGE;
+  const count = Number(text);
+  return text.trim() !== '' && Number.isInteger(count) && count >= min && count <= max
+    ? { count }
+    : { error: `Initial pairs must be a whole number from ${min} to ${max}` };
+};
+
+// Starting point for imports: the F = 0.7 Werner state in the computational basis
+const DEFAULT_IMPORT_TEXT = '[[0.1, 0, 0, 0],\n [0, 0.4, -0.3, 0],\n [0, -0.3, 0.4, 0],\n [0, 0, 0, 0.1]]';
+
+// Imported density matrix (computational basis), or the message of the first problem found
+const checkImportText = (text: string, basis: Basis): { entries?: ComplexNum[][]; error?: string } => {
+  try {
+    return { entries: importDensityMatrix(text, basis).data };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+};
+
+// Pair numbers (from 1) such as "1, 3" as pair indices; empty means every pair
+const parsePairList = (text: string, pairCount: number): { indices?: number[]; error?: string } => {
+  const fields = text.split(/[\s,]+/).filter(field => field.length > 0);
+  const numbers = fields.map(field => Number(field));
+  if (numbers.some(number => !Number.isInteger(number) || number < 1 || number > pairCount)) {
+    return { error: `Pair numbers must be whole numbers from 1 to ${pairCount}` };
+  }
+  return { indices: numbers.map(number => number - 1) };
+};
+
+// Starting point for the Pauli channel
+const DEFAULT_PAULI_PROBABILITIES: PauliProbabilities = { x: 0.05, y: 0.05, z: 0.1 };
+
+// Alice's qubit can stay perfect, copy Bob's single-qubit channel, or use a channel of its own
+type AliceNoiseChoice = 'none' | 'same' | NoiseChannel;
+
+// Matrix entries as text the Kraus and import parsers read back: "0.5", "0.5-0.2i"
+const formatComplex = ({ re, im }: ComplexNum): string =>
+  im === 0 ? String(re) : `${re}${im < 0 ? '-' : '+'}${Math.abs(im)}i`;
+
+const formatKrausText = (operators: ComplexNum[][][]): string =>
+  operators.map(operator => operator.map(row => row.map(formatComplex).join(' ')).join('\n')).join('\n\n');
+
+const formatImportText = (entries: ComplexNum[][]): string =>
+  '[' + entries.map(row => '[' + row.map(({ re, im }) => (im === 0 ? String(re) : `[${re}, ${im}]`)).join(', ') + ']').join(',\n ') + ']';
+
+// Bob's channel as getBobNoise builds it, to recognise an Alice channel that copies it
+const bobNoiseOf = (params: SimulationParameters): QubitNoise => ({
+  channel: params.noiseChannel,
+  parameter: params.noiseParameter,
+  krausOperators: params.krausOperators,
+  thermalPopulation: params.thermalPopulation,
+  pauliProbabilities: params.pauliProbabilities
+});
+
+const aliceNoiseChoiceOf = (params?: SimulationParameters): AliceNoiseChoice => {
+  if (!params?.aliceNoise) {
+    return 'none';
+  }
+  return JSON.stringify(params.aliceNoise) === JSON.stringify(bobNoiseOf(params)) ? 'same' : params.aliceNoise.channel;
+};
+
+// An empty or invalid seed input leaves the seed unset, and the run draws a new one
+const parseSeed = (value: string): number | undefined => {
+  const seed = parseInt(value, 10);
+  return Number.isFinite(seed) && seed >= 0 && seed <= MAX_SEED ? seed : undefined;
+};
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   onParametersChanged,
   onEngineTypeChanged,
   onViewBasisChanged,
+  onReferenceStateChanged,
+  onExportTrace,
+  onCopyLink,
+  comparisonEngineType,
+  onComparisonEngineTypeChanged,
+  initialParameters: initial,
   currentRound,
   currentStep,
   pairsRemaining,
   averageFidelity,
+  memoryFidelityLoss,
+  seed,
+  statistics,
   engineType,
   viewBasis,
+  referenceState = DEFAULT_REFERENCE_STATE,
   className = '',
   isDrawerOpen = false,
   onDrawerClose
 }) => {
-  const [initialPairs, setInitialPairs] = useState(32);
-  const [noiseParameter, setNoiseParameter] = useState(0.3);
-  const [targetFidelity, setTargetFidelity] = useState(0.95);
-  const [noiseChannel, setNoiseChannel] = useState<NoiseChannel>(NoiseChannel.UniformNoise);
+  // Imports for some pairs are passed as pairInitialStates in channel mode
+  const initialImport = initial?.importedState ?? (initial?.pairInitialStates && Object.values(initial.pairInitialStates)[0]);
+  const [initialPairsInput, setInitialPairsInput] = useState(String(initial?.initialPairs ?? 32));
+  const [noiseParameter, setNoiseParameter] = useState(initial?.noiseParameter ?? 0.3);
+  const [targetFidelity, setTargetFidelity] = useState(initial?.targetFidelity ?? 0.95);
+  const [initialStateMode, setInitialStateMode] = useState<InitialStateMode>(
+    initial?.pairInitialStates ? InitialStateMode.Imported : initial?.initialStateMode ?? InitialStateMode.Channel
+  );
+  const [bellWeightInputs, setBellWeightInputs] = useState(initial?.bellDiagonalWeights?.map(String) ?? DEFAULT_BELL_WEIGHTS);
+  const [wernerFidelity, setWernerFidelity] = useState(initial?.wernerFidelity ?? 0.7);
+  const [importText, setImportText] = useState(initialImport ? formatImportText(initialImport) : DEFAULT_IMPORT_TEXT);
+  const [importBasis, setImportBasis] = useState<Basis>(Basis.Computational);
+  const [importPairsInput, setImportPairsInput] = useState(
+    initial?.pairInitialStates ? Object.keys(initial.pairInitialStates).map(index => Number(index) + 1).join(', ') : ''
+  );
+  const [noiseChannel, setNoiseChannel] = useState<NoiseChannel>(initial?.noiseChannel ?? NoiseChannel.UniformNoise);
+  const [krausText, setKrausText] = useState(initial?.krausOperators ? formatKrausText(initial.krausOperators) : DEFAULT_KRAUS_TEXT);
+  const [thermalPopulation, setThermalPopulation] = useState(initial?.thermalPopulation ?? 0.1);
+  const [pauliProbabilities, setPauliProbabilities] = useState<PauliProbabilities>(initial?.pauliProbabilities ?? DEFAULT_PAULI_PROBABILITIES);
+  const [aliceNoiseChoice, setAliceNoiseChoice] = useState<AliceNoiseChoice>(() => aliceNoiseChoiceOf(initial));
+  const [aliceNoiseParameter, setAliceNoiseParameter] = useState(initial?.aliceNoise?.parameter ?? 0.3);
+  const [purificationScheme, setPurificationScheme] = useState<PurificationScheme>(initial?.purificationScheme ?? PurificationScheme.Recurrence);
+  const [pairingStrategy, setPairingStrategy] = useState<PairingStrategy>(initial?.pairingStrategy ?? PairingStrategy.IndexOrder);
+  const [cnotErrorProbability, setCnotErrorProbability] = useState(initial?.cnotErrorProbability ?? 0);
+  const [readoutErrorProbability, setReadoutErrorProbability] = useState(initial?.readoutErrorProbability ?? 0);
+  const [memoryT1, setMemoryT1] = useState(initial?.memoryT1 ?? 0);
+  const [memoryT2, setMemoryT2] = useState(initial?.memoryT2 ?? 0);
+  const [stepDuration, setStepDuration] = useState(initial?.stepDuration ?? 0);
+  const [seedInput, setSeedInput] = useState(initial?.seed !== undefined ? String(initial.seed) : '');
+  const [linkStatus, setLinkStatus] = useState<'copied' | 'failed' | null>(null);
   const [showHelp, setShowHelp] = useState(false);
+  // Gate and readout errors are only simulated by the Monte Carlo engines
+  const supportsLocalErrors = engineType === EngineType.MonteCarlo || engineType === EngineType.Dejmps;
+  const supportsMemory = engineType !== EngineType.Exact;
+  const isBellDiagonal = initialStateMode === InitialStateMode.BellDiagonal;
+  const bellWeights = useMemo(() => checkBellWeights(bellWeightInputs), [bellWeightInputs]);
+  const isImported = initialStateMode === InitialStateMode.Imported;
+  const imported = useMemo(() => checkImportText(importText, importBasis), [importText, importBasis]);
+  const pairCount = checkInitialPairs(initialPairsInput);
+  const importPairs = parsePairList(importPairsInput, pairCount.count ?? INITIAL_PAIRS_RANGE[1]);
+  // An import for some of the pairs leaves the others to the noise channel
+  const importsSomePairs = isImported && importPairs.indices !== undefined && importPairs.indices.length > 0;
+  const usesNoiseChannel = initialStateMode === InitialStateMode.Channel || importsSomePairs;
+  const isCustomKraus = noiseChannel === NoiseChannel.CustomKraus;
+  const kraus = useMemo(() => checkKrausText(krausText), [krausText]);
+  const isGeneralizedDamping = noiseChannel === NoiseChannel.GeneralizedAmplitudeDamping;
+  const isPauli = noiseChannel === NoiseChannel.Pauli;
+  const pauliError = pauliProbabilities.x + pauliProbabilities.y + pauliProbabilities.z > 1 + 1e-9
+    ? 'The X, Y and Z probabilities add up to more than 1'
+    : undefined;
+  // Two-qubit channels already act on Alice's qubit too, so they cannot be copied to her side
+  const bobActsOnPair = noiseChannel === NoiseChannel.CorrelatedDepolarizing ||
+    (isCustomKraus && kraus.operators !== undefined && kraus.operators[0].length === 4);
+  const hasOwnAliceChannel = aliceNoiseChoice !== 'none' && aliceNoiseChoice !== 'same';
+  
+  // Bob's channel, with only the settings that apply to it
+  const getBobNoise = (): QubitNoise => ({
+    channel: noiseChannel,
+    parameter: noiseParameter,
+    krausOperators: isCustomKraus ? kraus.operators : undefined,
+    thermalPopulation: isGeneralizedDamping ? thermalPopulation : undefined,
+    pauliProbabilities: isPauli ? pauliProbabilities : undefined
+  });
+  
+  const getAliceNoise = (): QubitNoise | undefined => {
+    if (aliceNoiseChoice === 'same') {
+      return bobActsOnPair ? undefined : getBobNoise();
+    }
+    return aliceNoiseChoice === 'none' ? undefined : { channel: aliceNoiseChoice, parameter: aliceNoiseParameter };
+  };
   
   const handleParameterChange = () => {
+    // Invalid counts, operators, probabilities or weights are reported below their inputs and keep the current parameters
+    if (pairCount.count === undefined) {
+      return;
+    }
+    if (usesNoiseChannel && ((isCustomKraus && !kraus.operators) || (isPauli && pauliError))) {
+      return;
+    }
+    if ((isBellDiagonal && !bellWeights.weights) || (isImported && (!imported.entries || importPairs.error))) {
+      return;
+    }
+    const bob = getBobNoise();
     onParametersChanged({
-      initialPairs,
+      initialPairs: pairCount.count,
       noiseParameter,
       targetFidelity,
-      noiseChannel
+      noiseChannel,
+      initialStateMode: importsSomePairs ? InitialStateMode.Channel : initialStateMode,
+      bellDiagonalWeights: isBellDiagonal ? bellWeights.weights : undefined,
+      wernerFidelity: initialStateMode === InitialStateMode.Werner ? wernerFidelity : undefined,
+      importedState: isImported && !importsSomePairs ? imported.entries : undefined,
+      pairInitialStates: importsSomePairs
+        ? Object.fromEntries(importPairs.indices!.map(index => [index, imported.entries!]))
+        : undefined,
+      krausOperators: bob.krausOperators,
+      thermalPopulation: bob.thermalPopulation,
+      pauliProbabilities: bob.pauliProbabilities,
+      aliceNoise: getAliceNoise(),
+      purificationScheme,
+      pairingStrategy,
+      cnotErrorProbability,
+      readoutErrorProbability,
+      memoryT1,
+      memoryT2,
+      stepDuration,
+      seed: parseSeed(seedInput)
     });
   };
   
+  const handleCopyLink = () => {
+    onCopyLink?.().then(() => setLinkStatus('copied'), () => setLinkStatus('failed'));
+  };
+  
   // Register keyboard shortcuts with enableOnFormTags to ensure they work when select elements have focus
   useHotkeys('p', handleParameterChange, { enableOnFormTags: true });
   useHotkeys('?', () => setShowHelp(prev => !prev), { enableOnFormTags: true });
@@ -94,6 +322,58 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           >
             <option value={EngineType.MonteCarlo}>Monte Carlo</option>
             <option value={EngineType.Average}>Average</option>
+            <option value={EngineType.Dejmps}>DEJMPS</option>
+            <option value={EngineType.Exact}>Exact</option>
+          </select>
+        </div>
+        
+        {onComparisonEngineTypeChanged && (
+          <div className="parameter-input">
+            <label htmlFor="comparisonEngineType">Compare With:</label>
+            <select
+              id="comparisonEngineType"
+              value={comparisonEngineType ?? ''}
+              onChange={(e) => onComparisonEngineTypeChanged((e.target.value || undefined) as EngineType | undefined)}
+            >
+              <option value="">No comparison</option>
+              <option value={EngineType.MonteCarlo}>Monte Carlo</option>
+              <option value={EngineType.Average}>Average</option>
+              <option value={EngineType.Dejmps}>DEJMPS</option>
+              <option value={EngineType.Exact}>Exact</option>
+            </select>
+            {comparisonEngineType && (
+              <small className="parameter-hint">
+                Both engines run the same parameters in lockstep, starting over together. Engine Type sets the left side.
+              </small>
+            )}
+          </div>
+        )}
+        
+        <div className="parameter-input">
+          <label htmlFor="purificationScheme">Purification Scheme:</label>
+          <select
+            id="purificationScheme"
+            value={purificationScheme}
+            onChange={(e) => setPurificationScheme(e.target.value as PurificationScheme)}
+          >
+            <option value={PurificationScheme.Recurrence}>Recurrence</option>
+            <option value={PurificationScheme.Pumping}>Pumping</option>
+          </select>
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="pairingStrategy">Pairing Strategy:</label>
+          <select
+            id="pairingStrategy"
+            value={pairingStrategy}
+            disabled={purificationScheme === PurificationScheme.Pumping}
+            onChange={(e) => setPairingStrategy(e.target.value as PairingStrategy)}
+          >
+            <option value={PairingStrategy.IndexOrder}>Index Order</option>
+            <option value={PairingStrategy.SortByFidelity}>Sort by Fidelity</option>
+            <option value={PairingStrategy.BestWithWorst}>Best with Worst</option>
+            <option value={PairingStrategy.Random}>Random</option>
+            <option value={PairingStrategy.SameGeneration}>Same Generation</option>
           </select>
         </div>
         
@@ -102,40 +382,349 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <input
             id="initialPairs"
             type="number"
-            min="2"
-            max="50"
-            value={initialPairs}
-            onChange={(e) => setInitialPairs(parseInt(e.target.value))}
+            min={INITIAL_PAIRS_RANGE[0]}
+            max={INITIAL_PAIRS_RANGE[1]}
+            step="1"
+            value={initialPairsInput}
+            onChange={(e) => setInitialPairsInput(e.target.value)}
           />
+          {pairCount.error && <p className="parameter-error" role="alert">{pairCount.error}</p>}
         </div>
 
         <div className="parameter-input">
-          <label htmlFor="noiseChannel">Noise Channel:</label>
+          <label htmlFor="initialStateMode">Initial State:</label>
           <select
-            id="noiseChannel"
-            value={noiseChannel}
-            onChange={(e) => setNoiseChannel(e.target.value as NoiseChannel)}
+            id="initialStateMode"
+            value={initialStateMode}
+            onChange={(e) => setInitialStateMode(e.target.value as InitialStateMode)}
           >
-            <option value={NoiseChannel.UniformNoise}>Uniform Noise</option>
-            <option value={NoiseChannel.AmplitudeDamping}>Amplitude Damping</option>
-            <option value={NoiseChannel.Dephasing}>Dephasing</option>
-            <option value={NoiseChannel.Depolarizing}>Depolarizing</option>
+            <option value={InitialStateMode.Channel}>Noisy EPR Pair</option>
+            <option value={InitialStateMode.BellDiagonal}>Bell-Diagonal Weights</option>
+            <option value={InitialStateMode.Werner}>Werner State</option>
+            <option value={InitialStateMode.Imported}>Imported Density Matrix</option>
           </select>
         </div>
         
+        {isBellDiagonal && (
+          <div className="parameter-input">
+            {BELL_WEIGHT_LABELS.map((label, i) => (
+              <React.Fragment key={label}>
+                <label htmlFor={`bellWeight-${i}`}>{label} Weight:</label>
+                <input
+                  id={`bellWeight-${i}`}
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={bellWeightInputs[i]}
+                  aria-invalid={bellWeights.error !== undefined}
+                  onChange={(e) => setBellWeightInputs(prev => prev.map((input, j) => j === i ? e.target.value : input))}
+                />
+              </React.Fragment>
+            ))}
+            {bellWeights.error && <p className="parameter-error" role="alert">{bellWeights.error}</p>}
+          </div>
+        )}
+        
+        {initialStateMode === InitialStateMode.Werner && (
+          <div className="parameter-input">
+            <label htmlFor="wernerFidelity">Werner Fidelity:</label>
+            <div className="parameter-input-row">
+              <input
+                id="wernerFidelity"
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={wernerFidelity}
+                onChange={(e) => setWernerFidelity(parseFloat(e.target.value))}
+              />
+              <span>{wernerFidelity.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+        
+        {isImported && (
+          <div className="parameter-input">
+            <label htmlFor="importedState">Density Matrix (JSON or CSV):</label>
+            <textarea
+              id="importedState"
+              rows={6}
+              spellCheck={false}
+              value={importText}
+              aria-invalid={imported.error !== undefined}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <label htmlFor="importFile">Load File:</label>
+            <input
+              id="importFile"
+              type="file"
+              accept=".json,.csv,.txt"
+              onChange={(e) => e.target.files?.[0]?.text().then(setImportText)}
+            />
+            <label htmlFor="importBasis">Matrix Basis:</label>
+            <select
+              id="importBasis"
+              value={importBasis}
+              onChange={(e) => setImportBasis(e.target.value as Basis)}
+            >
+              <option value={Basis.Computational}>Computational (|00⟩, |01⟩, |10⟩, |11⟩)</option>
+              <option value={Basis.Bell}>Bell (Φ+, Φ-, Ψ+, Ψ-)</option>
+            </select>
+            <label htmlFor="importPairs">Imported Pairs:</label>
+            <input
+              id="importPairs"
+              type="text"
+              placeholder="All pairs"
+              value={importPairsInput}
+              aria-invalid={importPairs.error !== undefined}
+              onChange={(e) => setImportPairsInput(e.target.value)}
+            />
+            <small className="parameter-hint">
+              A JSON array of 4 rows with entries like 0.5, [0.5, -0.2] or "0.5-0.2i", or CSV lines of re,im (or row,col,re,im).
+              List pair numbers such as 1, 3 to import only those pairs; the other pairs then use the noise channel.
+            </small>
+            {imported.error && <p className="parameter-error" role="alert">{imported.error}</p>}
+            {importPairs.error && <p className="parameter-error" role="alert">{importPairs.error}</p>}
+          </div>
+        )}
+        
+        {usesNoiseChannel && (
+          <>
+          <div className="parameter-input">
+            <label htmlFor="noiseChannel">Noise Channel:</label>
+            <select
+              id="noiseChannel"
+              value={noiseChannel}
+              onChange={(e) => setNoiseChannel(e.target.value as NoiseChannel)}
+            >
+              <option value={NoiseChannel.UniformNoise}>Uniform Noise</option>
+              <option value={NoiseChannel.AmplitudeDamping}>Amplitude Damping</option>
+              <option value={NoiseChannel.Dephasing}>Dephasing</option>
+              <option value={NoiseChannel.Depolarizing}>Depolarizing</option>
+              <option value={NoiseChannel.BitFlip}>Bit Flip</option>
+              <option value={NoiseChannel.BitPhaseFlip}>Bit-Phase Flip</option>
+              <option value={NoiseChannel.GeneralizedAmplitudeDamping}>Generalized Amplitude Damping</option>
+              <option value={NoiseChannel.Pauli}>Pauli (X, Y, Z)</option>
+              <option value={NoiseChannel.CustomKraus}>Custom Kraus</option>
+              <option value={NoiseChannel.CorrelatedDepolarizing}>Correlated Depolarizing (pair)</option>
+            </select>
+          </div>
+        
+          {isCustomKraus && (
+            <div className="parameter-input">
+              <label htmlFor="krausOperators">Kraus Operators (2×2 on Bob's qubit or 4×4 on the pair):</label>
+              <textarea
+                id="krausOperators"
+                rows={6}
+                spellCheck={false}
+                value={krausText}
+                aria-invalid={kraus.error !== undefined}
+                onChange={(e) => setKrausText(e.target.value)}
+              />
+              <small className="parameter-hint">
+                One row per line, entries separated by spaces, a blank line between operators. Entries may be complex, e.g. 0.5-0.2i or sqrt(0.5).
+              </small>
+              {kraus.error && <p className="parameter-error" role="alert">{kraus.error}</p>}
+            </div>
+          )}
+        
+          <div className="parameter-input">
+            <label htmlFor="noiseParameter">Noise Parameter:</label>
+            <div className="parameter-input-row">
+              <input
+                id="noiseParameter"
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={noiseParameter}
+                disabled={isCustomKraus || isPauli}
+                onChange={(e) => setNoiseParameter(parseFloat(e.target.value))}
+              />
+              <span>{noiseParameter.toFixed(2)}</span>
+            </div>
+          </div>
+        
+          {isGeneralizedDamping && (
+            <div className="parameter-input">
+              <label htmlFor="thermalPopulation">Thermal Population:</label>
+              <div className="parameter-input-row">
+                <input
+                  id="thermalPopulation"
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={thermalPopulation}
+                  onChange={(e) => setThermalPopulation(parseFloat(e.target.value))}
+                />
+                <span>{thermalPopulation.toFixed(2)}</span>
+              </div>
+              <small className="parameter-hint">
+                Excited-state population of the environment. The noise parameter is the damping rate.
+              </small>
+            </div>
+          )}
+        
+          {isPauli && (
+            <div className="parameter-input">
+              {(['x', 'y', 'z'] as const).map(pauli => (
+                <React.Fragment key={pauli}>
+                  <label htmlFor={`pauliProbability-${pauli}`}>{pauli.toUpperCase()} Error Probability:</label>
+                  <div className="parameter-input-row">
+                    <input
+                      id={`pauliProbability-${pauli}`}
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={pauliProbabilities[pauli]}
+                      aria-invalid={pauliError !== undefined}
+                      onChange={(e) => setPauliProbabilities(prev => ({ ...prev, [pauli]: parseFloat(e.target.value) }))}
+                    />
+                    <span>{pauliProbabilities[pauli].toFixed(2)}</span>
+                  </div>
+                </React.Fragment>
+              ))}
+              {pauliError && <p className="parameter-error" role="alert">{pauliError}</p>}
+            </div>
+          )}
+        
+          <div className="parameter-input">
+            <label htmlFor="aliceNoiseChannel">Alice's Noise:</label>
+            <select
+              id="aliceNoiseChannel"
+              value={aliceNoiseChoice}
+              onChange={(e) => setAliceNoiseChoice(e.target.value as AliceNoiseChoice)}
+            >
+              <option value="none">None</option>
+              <option value="same" disabled={bobActsOnPair}>Same as Bob</option>
+              <option value={NoiseChannel.UniformNoise}>Uniform Noise</option>
+              <option value={NoiseChannel.AmplitudeDamping}>Amplitude Damping</option>
+              <option value={NoiseChannel.Dephasing}>Dephasing</option>
+              <option value={NoiseChannel.Depolarizing}>Depolarizing</option>
+              <option value={NoiseChannel.BitFlip}>Bit Flip</option>
+              <option value={NoiseChannel.BitPhaseFlip}>Bit-Phase Flip</option>
+            </select>
+          </div>
+        
+          {hasOwnAliceChannel && (
+            <div className="parameter-input">
+              <label htmlFor="aliceNoiseParameter">Alice's Noise Parameter:</label>
+              <div className="parameter-input-row">
+                <input
+                  id="aliceNoiseParameter"
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={aliceNoiseParameter}
+                  onChange={(e) => setAliceNoiseParameter(parseFloat(e.target.value))}
+                />
+                <span>{aliceNoiseParameter.toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+          </>
+        )}
+        
         <div className="parameter-input">
-          <label htmlFor="noiseParameter">Noise Parameter:</label>
+          <label htmlFor="cnotErrorProbability">CNOT Error:</label>
           <div className="parameter-input-row">
             <input
-              id="noiseParameter"
+              id="cnotErrorProbability"
               type="range"
               min="0"
-              max="1"
-              step="0.01"
-              value={noiseParameter}
-              onChange={(e) => setNoiseParameter(parseFloat(e.target.value))}
+              max="0.2"
+              step="0.005"
+              value={cnotErrorProbability}
+              disabled={!supportsLocalErrors}
+              onChange={(e) => setCnotErrorProbability(parseFloat(e.target.value))}
+            />
+            <span>{cnotErrorProbability.toFixed(3)}</span>
+          </div>
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="readoutErrorProbability">Readout Error:</label>
+          <div className="parameter-input-row">
+            <input
+              id="readoutErrorProbability"
+              type="range"
+              min="0"
+              max="0.2"
+              step="0.005"
+              value={readoutErrorProbability}
+              disabled={!supportsLocalErrors}
+              onChange={(e) => setReadoutErrorProbability(parseFloat(e.target.value))}
             />
-            <span>{noiseParameter.toFixed(2)}</span>
+            <span>{readoutErrorProbability.toFixed(3)}</span>
+          </div>
+          {!supportsLocalErrors && (
+            <small className="parameter-hint">
+              Only the Monte Carlo and DEJMPS engines model gate and readout errors.
+            </small>
+          )}
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="memoryT1">Memory T1 (0 = ∞):</label>
+          <input
+            id="memoryT1"
+            type="number"
+            min="0"
+            step="any"
+            value={memoryT1}
+            disabled={!supportsMemory}
+            onChange={(e) => setMemoryT1(parseFloat(e.target.value) || 0)}
+          />
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="memoryT2">Memory T2 (0 = ∞):</label>
+          <input
+            id="memoryT2"
+            type="number"
+            min="0"
+            step="any"
+            value={memoryT2}
+            disabled={!supportsMemory}
+            onChange={(e) => setMemoryT2(parseFloat(e.target.value) || 0)}
+          />
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="stepDuration">Step Duration:</label>
+          <input
+            id="stepDuration"
+            type="number"
+            min="0"
+            step="any"
+            value={stepDuration}
+            disabled={!supportsMemory}
+            onChange={(e) => setStepDuration(parseFloat(e.target.value) || 0)}
+          />
+          {!supportsMemory && (
+            <small className="parameter-hint">
+              The Exact engine does not model memory decoherence.
+            </small>
+          )}
+        </div>
+        
+        <div className="parameter-input">
+          <label htmlFor="seed">Random Seed (empty = new seed):</label>
+          <div className="parameter-input-row">
+            <input
+              id="seed"
+              type="number"
+              min="0"
+              max={MAX_SEED}
+              step="1"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+            />
+            <button type="button" onClick={() => setSeedInput(String(randomSeed()))}>New Seed</button>
           </div>
         </div>
         
@@ -171,13 +760,92 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </select>
         </div>
         
+        {onReferenceStateChanged && (
+          <div className="parameter-input">
+            <label htmlFor="referenceBellState">Reference State:</label>
+            <select
+              id="referenceBellState"
+              value={referenceState.bellState}
+              onChange={(e) => onReferenceStateChanged({
+                ...referenceState,
+                bellState: e.target.value === ENGINE_TARGET ? ENGINE_TARGET : Number(e.target.value) as BellState
+              })}
+            >
+              <option value={ENGINE_TARGET}>Engine target</option>
+              <option value={BellState.PHI_PLUS}>Φ+</option>
+              <option value={BellState.PHI_MINUS}>Φ-</option>
+              <option value={BellState.PSI_PLUS}>Ψ+</option>
+              <option value={BellState.PSI_MINUS}>Ψ-</option>
+            </select>
+            <div className="parameter-input-row">
+              <select
+                aria-label="Rotation axis"
+                value={referenceState.axis}
+                onChange={(e) => onReferenceStateChanged({ ...referenceState, axis: e.target.value as RotationAxis })}
+              >
+                <option value="x">Rx on Bob</option>
+                <option value="y">Ry on Bob</option>
+                <option value="z">Rz on Bob</option>
+              </select>
+              <input
+                type="number"
+                step="any"
+                aria-label="Rotation angle in degrees"
+                value={referenceState.angle}
+                onChange={(e) => onReferenceStateChanged({ ...referenceState, angle: parseFloat(e.target.value) || 0 })}
+              />
+              <span>°</span>
+            </div>
+            <small className="parameter-hint">
+              Hover cards give each pair's fidelity and distances to this state. The engine target is Ψ-, except from the exchange to the end of a round, when the pairs are kept in the Φ+ frame. The pair fidelities shown elsewhere stay with the engine's target.
+            </small>
+          </div>
+        )}
+        
         <div className="status-info">
           <p><strong>Distillation Round:</strong> {currentRound}</p>
           <p><strong>Current Step:</strong> {currentStep}</p>
           <p><strong>Pairs Remaining:</strong> {pairsRemaining}</p>
           <p><strong>Average Fidelity:</strong> {averageFidelity.toFixed(3)}</p>
+          <p><strong>Seed:</strong> {seed !== undefined ? seed : 'unseeded'}</p>
+          {memoryFidelityLoss !== undefined && memoryFidelityLoss > 0 && (
+            <p><strong>Lost to Memory:</strong> {memoryFidelityLoss.toFixed(3)}</p>
+          )}
           <p><strong>Status:</strong> {currentStep === 'completed' ? 'Complete' : 'In Progress'}</p>
         </div>
+        
+        {statistics && (
+          <div className="status-info" data-testid="outcome-statistics">
+            <p><strong>Expected Pairs:</strong> {statistics.expectedPairs.toFixed(2)} ± {Math.sqrt(statistics.pairsVariance).toFixed(2)}</p>
+            <p><strong>Expected Fidelity:</strong> {statistics.expectedFidelity.toFixed(3)}</p>
+            <p><strong>P(Target Reached):</strong> {statistics.targetProbability.toFixed(3)}</p>
+            <p><strong>Outcomes Tracked:</strong> {statistics.configurations}</p>
+          </div>
+        )}
+        
+        {onExportTrace && (
+          <div className="parameter-input">
+            <label>Export Trace:</label>
+            <div className="parameter-input-row">
+              <button type="button" onClick={() => onExportTrace('json')}>JSON</button>
+              <button type="button" onClick={() => onExportTrace('csv')}>CSV</button>
+            </div>
+            <small className="parameter-hint">
+              Every state since the last reset, with all pair fidelities and density matrices.
+            </small>
+          </div>
+        )}
+        
+        {onCopyLink && (
+          <div className="parameter-input">
+            <button type="button" onClick={handleCopyLink}>Copy Link</button>
+            <small className="parameter-hint">
+              {linkStatus === 'copied' && 'Link copied. '}
+              {linkStatus === 'failed' && 'Could not copy the link; the address bar shows the same link. '}
+              The link opens the applied parameters, engine and view, with the run's seed, so it repeats the same random draws.
+            </small>
+          </div>
+        )}
       </CollapsibleSection>
       
 
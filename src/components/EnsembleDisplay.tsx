@@ -15,6 +15,8 @@ import './EnsembleDisplay.css';
 import './EnhancedXarrow.css';
 import { DensityMatrix } from '../engine_real_calculations';
 import Popup from './Popup';
+import { getFidelityColor } from '../utils/fidelityColors';
+import { ReferenceState } from '../utils/referenceState';
 
 interface EnsembleDisplayProps {
   pairs: QubitPairType[];
@@ -29,9 +31,13 @@ interface EnsembleDisplayProps {
   };
   purificationStep: string;
   viewBasis: Basis;
+  referenceState?: ReferenceState; // State the hover cards compare each pair with
+  pumpingHistory?: number[]; // Fidelity of the accumulating pair per round (pumping scheme only)
+  rawPairsConsumed?: number;
+  idPrefix?: string; // Prepended to element ids, so two displays can share a page
 }
 
-const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs, purificationStep, viewBasis }) => {
+const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs, purificationStep, viewBasis, referenceState, pumpingHistory, rawPairsConsumed, idPrefix = '' }) => {
   const [selectedJointState, setSelectedJointState] = useState<{
     jointState: DensityMatrix;
     controlId: number;
@@ -156,8 +162,8 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
   // Helper function to render CNOT arrows for a participant
   const renderCnotArrow = (participant: 'alice' | 'bob', control: QubitPairType, target: QubitPairType) => (
     <EnhancedXarrow
-      start={`${participant}-${control.id}`}
-      end={`${participant}-${target.id}`}
+      start={`${idPrefix}${participant}-${control.id}`}
+      end={`${idPrefix}${participant}-${target.id}`}
       fidelity={control.fidelity}
       connectionType="cnot"
       path="grid"
@@ -176,8 +182,8 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
   // Helper function to render measured arrows for a participant
   const renderMeasuredArrow = (participant: 'alice' | 'bob', control: QubitPairType, target: QubitPairType, isSuccessful: boolean) => (
     <EnhancedXarrow
-      start={`${participant}-${control.id}`}
-      end={`${participant}-${target.id}`}
+      start={`${idPrefix}${participant}-${control.id}`}
+      end={`${idPrefix}${participant}-${target.id}`}
       fidelity={control.fidelity}
       connectionType="measurement"
       measurementSuccess={isSuccessful}
@@ -206,7 +212,7 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
             <div className="participant-label alice-label">Alice</div>
             <div className="pair-row alice-row">
               {pairs.map(pair => (
-                <div key={pair.id} id={`alice-${pair.id}`} onClick={() => handlePairClick(pair)}>
+                <div key={pair.id} id={`${idPrefix}alice-${pair.id}`} onClick={() => handlePairClick(pair)}>
                   <QubitPair 
                     pair={pair} 
                     location="alice" 
@@ -215,6 +221,7 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
                     partnerId={getPartnerId(pair)}
                     purificationStep={purificationStep}
                     viewBasis={viewBasis}
+                    referenceState={referenceState}
                   />
                 </div>
               ))}
@@ -225,7 +232,7 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
             <div className="participant-label bob-label">Bob</div>
             <div className="pair-row bob-row">
               {pairs.map(pair => (
-                <div key={pair.id} id={`bob-${pair.id}`} onClick={() => handlePairClick(pair)}>
+                <div key={pair.id} id={`${idPrefix}bob-${pair.id}`} onClick={() => handlePairClick(pair)}>
                   <QubitPair 
                     pair={pair} 
                     location="bob" 
@@ -234,12 +241,34 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
                     partnerId={getPartnerId(pair)}
                     purificationStep={purificationStep}
                     viewBasis={viewBasis}
+                    referenceState={referenceState}
                   />
                 </div>
               ))}
             </div>
           </div>
         </div>
+        {/* Pumped fidelity trajectory */}
+        {pumpingHistory && (
+          <div className="pumping-panel" data-testid="pumping-panel">
+            <div className="pumping-summary">
+              <strong>Entanglement Pumping</strong>
+              <span>Raw pairs consumed: {rawPairsConsumed ?? 0}</span>
+            </div>
+            <div className="pumping-trajectory">
+              {pumpingHistory.map((fidelity, round) => (
+                <span
+                  key={round}
+                  className="pumping-step"
+                  title={`Round ${round}`}
+                  style={{ borderColor: getFidelityColor(fidelity) }}
+                >
+                  {fidelity.toFixed(3)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
         {/* CNOT connections */}
         {pendingPairs && purificationStep === 'cnot' && pendingPairs.controlPairs.map((control, idx) => {
           const target = pendingPairs.targetPairs[idx];
@@ -276,8 +305,8 @@ const EnsembleDisplay: React.FC<EnsembleDisplayProps> = ({ pairs, pendingPairs,
         {pairs.map(pair => (
           <EnhancedXarrow 
             key={`entangle-${pair.id}`} 
-            start={`alice-${pair.id}`} 
-            end={`bob-${pair.id}`} 
+            start={`${idPrefix}alice-${pair.id}`} 
+            end={`${idPrefix}bob-${pair.id}`} 
             fidelity={pair.fidelity}
             connectionType="entanglement"
             willBeDiscarded={willBeDiscarded(pair)}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { SimulationState } from '../engine/types';
+import { ChartPoint, chartPoints } from '../utils/fidelityChart';
+import './FidelityChart.css';
+
+interface FidelityChartProps {
+  states: SimulationState[]; // States of the run in order, e.g. SimulationController.getTimeline()
+  targetFidelity: number;
+}
+
+// Drawing area in SVG units; the chart scales with its container
+const WIDTH = 640;
+const HEIGHT = 260;
+const MARGIN = { top: 16, right: 48, bottom: 36, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// Path through the points that have a value; missing values (no pairs left) break the line
+const linePath = (points: ChartPoint[], value: (point: ChartPoint) => number | undefined, x: (p: number) => number, y: (v: number) => number): string => {
+  let path = '';
+  let drawing = false;
+  for (const point of points) {
+    const v = value(point);
+    if (v === undefined) {
+      drawing = false;
+      continue;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(point.position).toFixed(1)},${y(v).toFixed(1)} `;
+    drawing = true;
+  }
+  return path.trim();
+};
+
+// The pair count only changes at steps, so it is drawn as a staircase
+const stepPath = (points: ChartPoint[], x: (p: number) => number, y: (v: number) => number): string =>
+  points
+    .map((point, i) => (i === 0 ? `M${x(point.position).toFixed(1)},${y(point.pairs).toFixed(1)}` : `H${x(point.position).toFixed(1)} V${y(point.pairs).toFixed(1)}`))
+    .join(' ');
+
+const FidelityChart: React.FC<FidelityChartProps> = ({ states, targetFidelity }) => {
+  const points = chartPoints(states);
+  if (points.length === 0) {
+    return (
+      <div className="fidelity-chart" data-testid="fidelity-chart">
+        <p className="fidelity-chart-empty">No states to plot yet.</p>
+      </div>
+    );
+  }
+
+  const lastPosition = points[points.length - 1].position;
+  const maxRound = Math.max(1, Math.ceil(lastPosition));
+  const lowestFidelity = Math.min(targetFidelity, ...points.map(point => point.minFidelity ?? 1));
+  const fidelityFloor = Math.max(0, Math.floor(lowestFidelity * 10) / 10);
+  const maxPairs = Math.max(1, ...points.map(point => point.pairs));
+
+  const x = (position: number) => MARGIN.left + (position / maxRound) * PLOT_WIDTH;
+  const yFidelity = (fidelity: number) => MARGIN.top + ((1 - fidelity) / (1 - fidelityFloor || 1)) * PLOT_HEIGHT;
+  const yPairs = (pairs: number) => MARGIN.top + (1 - pairs / maxPairs) * PLOT_HEIGHT;
+
+  const roundStep = Math.ceil(maxRound / 10);
+  const roundTicks = Array.from({ length: Math.floor(maxRound / roundStep) + 1 }, (_, i) => i * roundStep);
+  const fidelityTicks = Array.from({ length: Math.round((1 - fidelityFloor) * 10) + 1 }, (_, i) => fidelityFloor + i / 10)
+    .filter((_, i, ticks) => ticks.length <= 6 || i % 2 === 0);
+  const pairTicks = [0, Math.round(maxPairs / 2), maxPairs];
+  const last = points[points.length - 1];
+
+  return (
+    <div className="fidelity-chart" data-testid="fidelity-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Pair fidelity and remaining pairs by round">
+        {fidelityTicks.map(tick => (
+          <g key={`f${tick}`} className="chart-grid">
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={yFidelity(tick)} y2={yFidelity(tick)} />
+            <text x={MARGIN.left - 6} y={yFidelity(tick)} textAnchor="end" dominantBaseline="middle">{tick.toFixed(1)}</text>
+          </g>
+        ))}
+        {pairTicks.map(tick => (
+          <text key={`p${tick}`} className="chart-pairs-tick" x={WIDTH - MARGIN.right + 6} y={yPairs(tick)} dominantBaseline="middle">
+            {tick}
+          </text>
+        ))}
+        {roundTicks.map(round => (
+          <g key={`r${round}`} className="chart-grid">
+            <line x1={x(round)} x2={x(round)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} />
+            <text x={x(round)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle">{round}</text>
+          </g>
+        ))}
+        <text className="chart-axis-label" x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 4} textAnchor="middle">Round</text>
+
+        <line
+          data-testid="target-line"
+          className="chart-target"
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={yFidelity(targetFidelity)}
+          y2={yFidelity(targetFidelity)}
+        />
+        <path data-testid="pairs-line" className="chart-pairs" d={stepPath(points, x, yPairs)} />
+        <path data-testid="min-fidelity-line" className="chart-range" d={linePath(points, point => point.minFidelity, x, yFidelity)} />
+        <path data-testid="max-fidelity-line" className="chart-range" d={linePath(points, point => point.maxFidelity, x, yFidelity)} />
+        <path
+          data-testid="average-fidelity-line"
+          className="chart-average"
+          d={linePath(points, point => (point.pairs > 0 ? point.averageFidelity : undefined), x, yFidelity)}
+        />
+        {points.filter(point => point.pairs > 0).map(point => (
+          <circle
+            key={point.position}
+            className={`chart-point${point === last ? ' current' : ''}`}
+            cx={x(point.position)}
+            cy={yFidelity(point.averageFidelity)}
+            r={point === last ? 4 : 2.5}
+          >
+            <title>
+              {`Round ${point.round}, ${point.step}: average ${point.averageFidelity.toFixed(3)}, ` +
+                `min ${point.minFidelity!.toFixed(3)}, max ${point.maxFidelity!.toFixed(3)}, ${point.pairs} pairs`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <ul className="fidelity-chart-legend">
+        <li><span className="swatch average" />Average fidelity</li>
+        <li><span className="swatch range" />Min / max fidelity</li>
+        <li><span className="swatch pairs" />Pairs (right axis)</li>
+        <li><span className="swatch target" />Target {targetFidelity.toFixed(2)}</li>
+      </ul>
+    </div>
+  );
+};
+
+export default FidelityChart;
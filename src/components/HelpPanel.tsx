@@ -12,6 +12,9 @@ const HelpPanel: React.FC = () => {
     { key: 'C', description: 'Complete the current round' },
     { key: 'A', description: 'Run all steps until completion' },
     { key: 'R', description: 'Reset the simulation' },
+    { key: 'U', description: 'Undo the last step' },
+    { key: 'Y', description: 'Redo an undone step' },
+    { key: 'Esc', description: 'Cancel a running simulation' },
     { key: 'P', description: 'Apply parameter changes' },
     { key: '?', description: 'Toggle this help panel' },
   ];
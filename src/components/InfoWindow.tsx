@@ -138,13 +138,16 @@ const InfoWindow: React.FC<InfoWindowProps> = ({ isOpen, onClose }) => {
             <ul>
               <li><strong>Next Step (N):</strong> Execute the next step in the purification protocol</li>
               <li><strong>Complete Round (C):</strong> Complete the current purification round</li>
-              <li><strong>Run All (A):</strong> Run the simulation until completion or target fidelity is reached</li>
+              <li><strong>Run All (A):</strong> Run the simulation until completion or target fidelity is reached. The run happens in the background and can be stopped with Cancel (Esc)</li>
               <li><strong>Reset (R):</strong> Reset the simulation to initial conditions</li>
+              <li><strong>Export Trace:</strong> Download every state since the last reset as JSON or CSV, with the fidelity and density matrix (computational basis) of each pair, for analysis in a notebook</li>
+              <li><strong>Copy Link:</strong> Copy a link that opens the applied parameters, engine and view basis. The address bar is kept up to date too. Every run has a seed, drawn fresh when the seed input is empty, and the link carries it, so it repeats the same random draws. Links with a pair count outside 2 to 50 open with the default count, and seeds above 4294967295 (2³² − 1) are ignored</li>
+              <li><strong>Parameter Sweep:</strong> Below the ensemble, pick one or two parameters with a range and run the selected engine at every combination, in the background so the page stays responsive. The heatmap shows the final fidelity, rounds used or surviving pairs of each point. Click a cell to load its parameters into the simulation</li>
             </ul>
 
             <h4>Parameters</h4>
             <ul>
-              <li><strong>Initial Pairs:</strong> Number of entangled pairs to start with</li>
+              <li><strong>Initial Pairs:</strong> Number of entangled pairs to start with, a whole number from 2 to 50. Apply Parameters waits until the count is valid</li>
               <li><strong>Target Fidelity:</strong> Desired fidelity level to achieve through purification</li>
               <li><strong>Noise Channel:</strong> Type of noise affecting the initial quantum states. The channel is applied on Bob's qubits, while Alice's qubits remain perfect</li>
               <li><strong>Noise Parameter:</strong> Amount of noise in the initial pairs (0 = perfect, 1 = maximal noise - depending on the noise channel)</li>
@@ -155,13 +158,18 @@ const InfoWindow: React.FC<InfoWindowProps> = ({ isOpen, onClose }) => {
               <li><strong>Qubit Pairs:</strong> Each pair shows Alice's and Bob's qubits with their quantum states</li>
               <li><strong>Colors:</strong> For qubits: green indicates higher fidelity, red indicates low fidelity. For connections between qubits: green indicates successful operation, red indicates a failure (discarded pair)</li>
               <li><strong>Density Matrices:</strong> Hover (or touch) over qubits to see their quantum state representation. While in the CNOT step, clicking a pair will show the joint density matrix or the 4 qubit state (2 pairs)</li>
+              <li><strong>State Measures:</strong> Below each pair's density matrix are its concurrence, negativity, logarithmic negativity, entanglement of formation, purity, linear entropy and von Neumann entropy. A pair can have a fair Bell-state fidelity and still be separable (Werner states up to fidelity 0.5 are), so the card also says whether the pair is still entangled</li>
+              <li><strong>Reference State:</strong> The card also gives the fidelity, trace distance and Hilbert–Schmidt distance from a reference state. Choose it under Display &amp; Status: a Bell state, optionally rotated on Bob's qubit. The default is the engine target: Ψ-, except from the exchange to the end of a round, when the pairs are in the Φ+ frame and the target is Φ+</li>
               <li><strong>CNOT Operations:</strong> Black connections show which pairs are being operated on</li>
+              <li><strong>Fidelity Chart:</strong> Below the pairs, a chart follows the average (solid), minimum and maximum (dashed) fidelity of the pairs and the number of pairs left (right axis) through every step and round up to the state shown, so undone steps disappear from it. The dashed green line is the target fidelity. Hover over a point for its values</li>
             </ul>
 
             <h4>Simulation Engines</h4>
             <ul>
               <li><strong>Monte Carlo Engine:</strong> Performs randomized operations in computational basis for realistic simulation.</li>
-              <li><strong>Average Engine:</strong> Calculates expected outcomes using Bell basis operations. No randomness is at play except for the initial channel application.</li>
+              <li><strong>Average Engine:</strong> Calculates expected outcomes using Bell basis operations. Only the initial channel application and the success of each purification step are random.</li>
+              <li><strong>Exact Engine:</strong> Never samples. Tracks the probability of every possible ensemble outcome and reports the expected number of pairs, its spread, and the probability of reaching the target fidelity. One step is one full round.</li>
+              <li><strong>Compare With:</strong> Runs a second engine next to the first on the same parameters and seed. Both take every step together, and the readout above them shows how far the second engine's average fidelity and pair count are from the first. Comparing Average with Monte Carlo shows what the averaging approximation costs</li>
             </ul>
 
             <h4>Noise Channels</h4>
@@ -170,9 +178,16 @@ const InfoWindow: React.FC<InfoWindowProps> = ({ isOpen, onClose }) => {
               <li><strong><a href="https://en.wikipedia.org/wiki/Quantum_depolarizing_channel" target="_blank" rel="noopener noreferrer">Depolarizing</a>:</strong> Randomly applies X, Y, or Z <a href="https://en.wikipedia.org/wiki/Pauli_matrices" target="_blank" rel="noopener noreferrer">Pauli gates</a> with equal probability</li>
               <li><strong><a href="https://learning.quantum.ibm.com/course/general-formulation-of-quantum-information/quantum-channels" target="_blank" rel="noopener noreferrer">Dephasing</a>:</strong> Applies phase-flip (Z) errors, destroying phase coherence</li>
               <li><strong><a href="https://en.wikipedia.org/wiki/Amplitude_damping_channel" target="_blank" rel="noopener noreferrer">Amplitude Damping</a>:</strong> Models energy loss from excited states (spontaneous emission)</li>
+              <li><strong>Bit Flip and Bit-Phase Flip:</strong> Like dephasing, but with X (bit-flip) or Y (bit-phase-flip) errors</li>
+              <li><strong>Generalized Amplitude Damping:</strong> Amplitude damping towards an environment at finite temperature. The thermal population sets how often the qubit is excited instead of decaying</li>
+              <li><strong>Pauli (X, Y, Z):</strong> Applies X, Y and Z errors with independent probabilities. This prepares any Bell-diagonal pair</li>
               <li><strong>Uniform Noise:</strong> Applies random <a href="https://en.wikipedia.org/wiki/Unitary_matrix" target="_blank" rel="noopener noreferrer">unitary transformations</a> from the <a href="https://en.wikipedia.org/wiki/Haar_measure" target="_blank" rel="noopener noreferrer">Haar measure</a></li>
+              <li><strong>Custom Kraus:</strong> Applies your own <a href="https://en.wikipedia.org/wiki/Quantum_operation#Kraus_operators" target="_blank" rel="noopener noreferrer">Kraus operators</a>, either 2×2 on Bob's qubit or 4×4 on the whole pair. Entries may be complex. The operators must satisfy Σ K†K = I</li>
+              <li><strong>Correlated Depolarizing (pair):</strong> Applies one of the 15 two-qubit Pauli errors to the pair as a whole. Only X⊗X, Y⊗Y and Z⊗Z leave Ψ- unchanged, so the Ψ- fidelity drops to 1 - 4p/5</li>
             </ul>
-            <p>For all channels, the strength of the channel is controlled by the noise parameter.</p>
+            <p>For the built-in channels, the strength of the channel is controlled by the noise parameter.</p>
+            <p>Instead of a noise channel, the <em>Initial State</em> setting can also start every pair in a given state: either four Bell-diagonal weights (Φ+, Φ-, Ψ+, Ψ-, non-negative and summing to 1) or a Werner state with fidelity F, such as the F = 0.7 Werner states of textbook BBPSSW examples. You can also import a density matrix measured in the lab as JSON or CSV, in the computational or Bell basis, for every pair or for selected pairs. Imported matrices must be Hermitian and positive semidefinite, with trace 1.</p>
+            <p>By default only Bob's qubit is noisy. Set <em>Alice's Noise</em> to send her qubit through a noisy channel too, either the same one as Bob's or a channel of its own, as when a central source distributes both halves of each pair.</p>
           </section>
 
           <section className="info-section">
@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  DensityMatrix,
+  EntanglementMeasures,
+  entanglementMeasures,
+  fidelity,
+  hilbertSchmidtDistance,
+  traceDistance
+} from '../engine_real_calculations';
+import { PurificationStep } from '../engine/types';
+import { DEFAULT_REFERENCE_STATE, ReferenceState, referenceDensityMatrix, referenceStateLabel } from '../utils/referenceState';
+import './PairMeasures.css';
+
+interface PairMeasuresProps {
+  matrix: DensityMatrix; // Two-qubit state in the computational basis
+  reference?: ReferenceState; // State the comparison rows measure against
+  step?: PurificationStep; // Decides which Bell state the engine target is
+}
+
+// Below this the state counts as separable (for two qubits, zero negativity means separable)
+const SEPARABLE_TOLERANCE = 1e-9;
+
+const ROWS: { key: keyof EntanglementMeasures; label: string; title: string }[] = [
+  { key: 'concurrence', label: 'Concurrence', title: 'Wootters concurrence: 0 for separable states, 1 for a Bell state' },
+  { key: 'negativity', label: 'Negativity', title: 'Negative eigenvalues of the partial transpose: 0 for separable states, 0.5 for a Bell state' },
+  { key: 'logarithmicNegativity', label: 'Log Negativity', title: 'log₂(2N + 1), in ebits' },
+  { key: 'entanglementOfFormation', label: 'Ent. of Formation', title: 'Entanglement of formation, in ebits' },
+  { key: 'purity', label: 'Purity', title: 'Tr(ρ²): 1 for a pure state, 0.25 for the maximally mixed state' },
+  { key: 'linearEntropy', label: 'Linear Entropy', title: '1 − Tr(ρ²)' },
+  { key: 'vonNeumannEntropy', label: 'Von Neumann Entropy', title: '−Tr(ρ log₂ ρ), in bits' }
+];
+
+const COMPARISONS: { label: string; title: string; measure: (rho: DensityMatrix, sigma: DensityMatrix) => number }[] = [
+  { label: 'Fidelity', title: 'Uhlmann fidelity (Tr √(√ρ σ √ρ))²: 1 for the reference state itself', measure: fidelity },
+  { label: 'Trace Distance', title: '½‖ρ − σ‖₁: 0 for the reference state, 1 for a state orthogonal to it', measure: traceDistance },
+  { label: 'HS Distance', title: 'Hilbert–Schmidt distance √Tr((ρ − σ)²)', measure: hilbertSchmidtDistance }
+];
+
+// A measure that cannot be computed for this matrix shows as "n/a" instead of taking the page down
+function attempt<T>(compute: () => T): T | undefined {
+  try {
+    return compute();
+  } catch {
+    return undefined;
+  }
+}
+
+const formatMeasure = (value: number | undefined): string => value === undefined ? 'n/a' : value.toFixed(3);
+
+const PairMeasures: React.FC<PairMeasuresProps> = ({ matrix, reference = DEFAULT_REFERENCE_STATE, step = 'initial' }) => {
+  const measures = attempt(() => entanglementMeasures(matrix));
+  const separable = measures !== undefined && measures.negativity < SEPARABLE_TOLERANCE;
+  const referenceMatrix = referenceDensityMatrix(reference, step);
+
+  return (
+    <div className="pair-measures" data-testid="pair-measures">
+      <div className="pair-measures-title">
+        State Measures
+        {measures && (
+          <span className={separable ? 'separable-indicator' : 'entangled-indicator'}>
+            {separable ? 'Separable' : 'Entangled'}
+          </span>
+        )}
+      </div>
+      <dl>
+        {ROWS.map(({ key, label, title }) => (
+          <div key={key} className="pair-measure" title={title}>
+            <dt>{label}</dt>
+            <dd>{formatMeasure(measures?.[key])}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="pair-measures-title pair-measures-reference">Compared with {referenceStateLabel(reference, step)}</div>
+      <dl>
+        {COMPARISONS.map(({ label, title, measure }) => (
+          <div key={label} className="pair-measure" title={title}>
+            <dt>{label}</dt>
+            <dd>{formatMeasure(attempt(() => measure(matrix, referenceMatrix)))}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default PairMeasures;
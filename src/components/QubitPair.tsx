@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { QubitPair as QubitPairType, Basis } from '../engine/types';
+import { QubitPair as QubitPairType, Basis, PurificationStep } from '../engine/types';
 import DensityMatrixView from './DensityMatrixView';
+import PairMeasures from './PairMeasures';
 import { isWerner } from '../utils/matrixFormatting';
 import { toBellBasis, toComputationalBasis } from '../engine_real_calculations/bell/bell-basis';
 import { DensityMatrix } from '../engine_real_calculations';
 import { getFidelityColor, getBorderGlow } from '../utils/fidelityColors';
+import { ReferenceState } from '../utils/referenceState';
 import './QubitPair.css';
 
 interface QubitPairProps {
@@ -16,6 +18,7 @@ interface QubitPairProps {
   partnerId?: number; // New prop to indicate which pair it's connected to
   purificationStep: string; // Add this to show connection at the right steps
   viewBasis: Basis; // Add viewBasis prop to control basis display
+  referenceState?: ReferenceState; // State the hover card compares the pair with
 }
 
 const QubitPair: React.FC<QubitPairProps> = ({ 
@@ -25,7 +28,8 @@ const QubitPair: React.FC<QubitPairProps> = ({
   pairRole,
   partnerId,
   purificationStep,
-  viewBasis
+  viewBasis,
+  referenceState
 }) => {
   const [showMatrix, setShowMatrix] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -156,6 +160,13 @@ const QubitPair: React.FC<QubitPairProps> = ({
       ? new DensityMatrix(toBellBasis(pair.densityMatrix))
       : new DensityMatrix(toComputationalBasis(pair.densityMatrix));
   
+  // The measures need the state itself, i.e. its computational-basis matrix, whatever the view shows
+  const computationalMatrix = () => viewBasis === Basis.Computational
+    ? displayMatrix
+    : pair.basis === Basis.Computational
+      ? pair.densityMatrix
+      : new DensityMatrix(toComputationalBasis(pair.densityMatrix));
+  
   // Desktop portal popup content
   const DesktopPopupContent = () => (
     <div 
@@ -175,6 +186,7 @@ const QubitPair: React.FC<QubitPairProps> = ({
         isWerner={werner} 
         basis={viewBasis}
       />
+      <PairMeasures matrix={computationalMatrix()} reference={referenceState} step={purificationStep as PurificationStep} />
     </div>
   );
   
@@ -200,6 +212,7 @@ const QubitPair: React.FC<QubitPairProps> = ({
         isWerner={werner} 
         basis={viewBasis}
       />
+      <PairMeasures matrix={computationalMatrix()} reference={referenceState} step={purificationStep as PurificationStep} />
     </div>
   );
   
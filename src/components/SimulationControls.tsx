@@ -10,6 +10,17 @@ interface SimulationControlsProps {
   onReset: () => void;
   isComplete: boolean;
   currentStep: PurificationStep;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onGoTo?: (index: number) => void; // Jump to a recorded state
+  canUndo?: boolean;
+  canRedo?: boolean;
+  historyIndex?: number; // Position in the history, 0 = oldest recorded state
+  historyLength?: number;
+  isRunning?: boolean; // A background run is in progress; everything but Cancel is disabled
+  onCancel?: () => void;
+  completedRounds?: number; // Progress of the background run
+  maxRounds?: number;
 }
 
 const SimulationControls: React.FC<SimulationControlsProps> = ({
@@ -18,13 +29,31 @@ const SimulationControls: React.FC<SimulationControlsProps> = ({
   onRunAll,
   onReset,
   isComplete,
-  currentStep
+  currentStep,
+  onUndo,
+  onRedo,
+  onGoTo,
+  canUndo = false,
+  canRedo = false,
+  historyIndex = 0,
+  historyLength = 0,
+  isRunning = false,
+  onCancel,
+  completedRounds = 0,
+  maxRounds = 0
 }) => {
+  const canStep = !isComplete && !isRunning;
+  const undoEnabled = canUndo && !isRunning;
+  const redoEnabled = canRedo && !isRunning;
+  
   // Register keyboard shortcuts with enableOnFormTags to ensure they work when select elements have focus
-  useHotkeys('n', () => !isComplete && onNextStep(), { enabled: !isComplete, enableOnFormTags: true });
-  useHotkeys('c', () => !isComplete && onCompleteRound(), { enabled: !isComplete, enableOnFormTags: true });
-  useHotkeys('a', () => !isComplete && onRunAll(), { enabled: !isComplete, enableOnFormTags: true });
-  useHotkeys('r', onReset, { enableOnFormTags: true });
+  useHotkeys('n', () => canStep && onNextStep(), { enabled: canStep, enableOnFormTags: true });
+  useHotkeys('c', () => canStep && onCompleteRound(), { enabled: canStep, enableOnFormTags: true });
+  useHotkeys('a', () => canStep && onRunAll(), { enabled: canStep, enableOnFormTags: true });
+  useHotkeys('r', () => !isRunning && onReset(), { enabled: !isRunning, enableOnFormTags: true });
+  useHotkeys('u', () => undoEnabled && onUndo?.(), { enabled: undoEnabled, enableOnFormTags: true });
+  useHotkeys('y', () => redoEnabled && onRedo?.(), { enabled: redoEnabled, enableOnFormTags: true });
+  useHotkeys('escape', () => isRunning && onCancel?.(), { enabled: isRunning, enableOnFormTags: true });
   
   // Helper function to get the name of the current/next step
   const getStepName = (step: PurificationStep): string => {
@@ -48,18 +77,49 @@ const SimulationControls: React.FC<SimulationControlsProps> = ({
   
   return (
     <div className="simulation-controls">
-      <button onClick={onNextStep} disabled={isComplete} className="control-button primary">
+      <button onClick={onNextStep} disabled={!canStep} className="control-button primary">
         {nextStepText}
       </button>
-      <button onClick={onCompleteRound} disabled={isComplete} className="control-button">
+      <button onClick={onCompleteRound} disabled={!canStep} className="control-button">
         Complete Round [C]
       </button>
-      <button onClick={onRunAll} disabled={isComplete} className="control-button">
+      <button onClick={onRunAll} disabled={!canStep} className="control-button">
         Run All [A]
       </button>
-      <button onClick={onReset} className="control-button secondary">
+      <button onClick={onReset} disabled={isRunning} className="control-button secondary">
         Reset [R]
       </button>
+      <button onClick={onUndo} disabled={!undoEnabled} className="control-button secondary">
+        Undo [U]
+      </button>
+      <button onClick={onRedo} disabled={!redoEnabled} className="control-button secondary">
+        Redo [Y]
+      </button>
+      {isRunning && (
+        <>
+          <button onClick={onCancel} className="control-button cancel">
+            Cancel [Esc]
+          </button>
+          <label className="run-progress">
+            Round {completedRounds}
+            <progress value={completedRounds} max={maxRounds} aria-label="Run progress" />
+          </label>
+        </>
+      )}
+      {onGoTo && historyLength > 1 && (
+        <label className="history-slider">
+          History: {historyIndex + 1} / {historyLength}
+          <input
+            type="range"
+            min={0}
+            max={historyLength - 1}
+            value={historyIndex}
+            disabled={isRunning}
+            onChange={(e) => onGoTo(parseInt(e.target.value, 10))}
+            aria-label="History position"
+          />
+        </label>
+      )}
     </div>
   );
 };
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EngineType, SimulationParameters } from '../engine/types';
+import {
+  MAX_SWEEP_STEPS,
+  RunningSweep,
+  SWEEP_PARAMETERS,
+  SweepCell,
+  SweepParameter,
+  SweepProgress,
+  SweepResult,
+  startSweep
+} from '../controller/parameterSweep';
+import { getFidelityColor } from '../utils/fidelityColors';
+import './SweepPanel.css';
+
+interface SweepPanelProps {
+  baseParameters: SimulationParameters; // Every grid point starts from these
+  engineType: EngineType;
+  onLoadConfiguration: (params: SimulationParameters) => void;
+}
+
+type SweepMetric = 'finalFidelity' | 'roundsUsed' | 'survivingPairs';
+
+const PARAMETER_LABELS: Record<SweepParameter, string> = {
+  noiseParameter: 'Noise Parameter',
+  initialPairs: 'Initial Pairs',
+  targetFidelity: 'Target Fidelity',
+  wernerFidelity: 'Werner Fidelity',
+  thermalPopulation: 'Thermal Population',
+  cnotErrorProbability: 'CNOT Error',
+  readoutErrorProbability: 'Readout Error',
+  memoryT1: 'Memory T1',
+  memoryT2: 'Memory T2',
+  stepDuration: 'Step Duration'
+};
+
+// Range an axis starts with when its parameter is picked
+const DEFAULT_RANGES: Record<SweepParameter, [number, number]> = {
+  noiseParameter: [0, 0.5],
+  initialPairs: [8, 64],
+  targetFidelity: [0.8, 0.99],
+  wernerFidelity: [0.5, 1],
+  thermalPopulation: [0, 0.5],
+  cnotErrorProbability: [0, 0.05],
+  readoutErrorProbability: [0, 0.05],
+  memoryT1: [10, 100],
+  memoryT2: [10, 100],
+  stepDuration: [0, 5]
+};
+
+const METRIC_LABELS: Record<SweepMetric, string> = {
+  finalFidelity: 'Final Fidelity',
+  roundsUsed: 'Rounds Used',
+  survivingPairs: 'Surviving Pairs'
+};
+
+interface AxisInput {
+  parameter: SweepParameter;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+const axisFor = (parameter: SweepParameter, steps: number): AxisInput => {
+  const [min, max] = DEFAULT_RANGES[parameter];
+  return { parameter, min, max, steps };
+};
+
+const formatValue = (value: number): string => (Number.isInteger(value) ? String(value) : value.toFixed(3));
+
+const formatMetric = (metric: SweepMetric, value: number): string =>
+  metric === 'finalFidelity' ? value.toFixed(3) : value.toFixed(1);
+
+// Fidelity keeps its usual colours; rounds and pairs are scaled to the map, with fewer rounds and more pairs greener
+const cellColor = (metric: SweepMetric, value: number, lowest: number, highest: number): string => {
+  if (metric === 'finalFidelity') {
+    return getFidelityColor(value);
+  }
+  const scaled = highest > lowest ? (value - lowest) / (highest - lowest) : 1;
+  return getFidelityColor(metric === 'roundsUsed' ? 1 - scaled : scaled);
+};
+
+const cellTitle = (cell: SweepCell): string =>
+  `Final fidelity ${cell.finalFidelity.toFixed(3)} · ${cell.roundsUsed.toFixed(1)} rounds · ` +
+  `${cell.survivingPairs.toFixed(1)} pairs · success ${(cell.successRate * 100).toFixed(0)}%`;
+
+const SweepPanel: React.FC<SweepPanelProps> = ({ baseParameters, engineType, onLoadConfiguration }) => {
+  const [xAxis, setXAxis] = useState<AxisInput>(() => axisFor('noiseParameter', 6));
+  const [yAxis, setYAxis] = useState<AxisInput | null>(null);
+  const [trials, setTrials] = useState(1);
+  const [metric, setMetric] = useState<SweepMetric>('finalFidelity');
+  const [progress, setProgress] = useState<SweepProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [loadedCell, setLoadedCell] = useState<string | null>(null);
+  const running = useRef<RunningSweep | null>(null);
+
+  // A sweep left running would keep simulating for a panel that is gone
+  useEffect(() => () => running.current?.cancel(), []);
+
+  const handleRun = () => {
+    setError(null);
+    let sweep: RunningSweep;
+    try {
+      sweep = startSweep(baseParameters, xAxis, yAxis ?? undefined, { engineType, trials }, setProgress);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    running.current = sweep;
+    setProgress({ completedPoints: 0, totalPoints: sweep.totalPoints });
+    setLoadedCell(null);
+    sweep.result
+      .then(setResult)
+      .catch(e => setError(`The sweep failed: ${e instanceof Error ? e.message : String(e)}`))
+      .finally(() => {
+        running.current = null;
+        setProgress(null);
+      });
+  };
+
+  const handleLoad = (cell: SweepCell, key: string) => {
+    setLoadedCell(key);
+    onLoadConfiguration(cell.params);
+  };
+
+  const renderAxis = (axis: AxisInput, name: 'x' | 'y', update: (axis: AxisInput) => void) => (
+    <div className="sweep-axis-range">
+      <label>
+        Min
+        <input
+          type="number"
+          step="any"
+          aria-label={`${name.toUpperCase()} minimum`}
+          value={axis.min}
+          onChange={(e) => update({ ...axis, min: parseFloat(e.target.value) })}
+        />
+      </label>
+      <label>
+        Max
+        <input
+          type="number"
+          step="any"
+          aria-label={`${name.toUpperCase()} maximum`}
+          value={axis.max}
+          onChange={(e) => update({ ...axis, max: parseFloat(e.target.value) })}
+        />
+      </label>
+      <label>
+        Steps
+        <input
+          type="number"
+          min="1"
+          max={MAX_SWEEP_STEPS}
+          step="1"
+          aria-label={`${name.toUpperCase()} steps`}
+          value={axis.steps}
+          onChange={(e) => update({ ...axis, steps: parseInt(e.target.value, 10) })}
+        />
+      </label>
+    </div>
+  );
+
+  const renderHeatmap = (sweep: SweepResult) => {
+    const values = sweep.cells.flat().map(cell => cell[metric]);
+    const lowest = Math.min(...values);
+    const highest = Math.max(...values);
+    const rowLabels = sweep.yAxis ? sweep.yValues.map(formatValue) : [''];
+
+    return (
+      <div className="sweep-heatmap-container">
+        <table className="sweep-heatmap" data-testid="sweep-heatmap">
+          <caption>
+            {METRIC_LABELS[metric]} by {PARAMETER_LABELS[sweep.xAxis.parameter]}
+            {sweep.yAxis && ` and ${PARAMETER_LABELS[sweep.yAxis.parameter]}`}
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col">{sweep.yAxis ? `${PARAMETER_LABELS[sweep.yAxis.parameter]} ↓ ${PARAMETER_LABELS[sweep.xAxis.parameter]} →` : PARAMETER_LABELS[sweep.xAxis.parameter]}</th>
+              {sweep.xValues.map(x => <th scope="col" key={x}>{formatValue(x)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rowLabels.map((label, row) => (
+              <tr key={row}>
+                <th scope="row">{label}</th>
+                {sweep.xValues.map((_, column) => {
+                  const cell = sweep.cells[row]?.[column];
+                  const key = `${row}-${column}`;
+                  if (!cell) {
+                    // Not reached before the sweep was cancelled
+                    return <td key={key} className="sweep-cell-missing" />;
+                  }
+                  return (
+                    <td key={key}>
+                      <button
+                        type="button"
+                        className={`sweep-cell${loadedCell === key ? ' loaded' : ''}`}
+                        data-testid={`sweep-cell-${key}`}
+                        style={{ backgroundColor: cellColor(metric, cell[metric], lowest, highest) }}
+                        title={cellTitle(cell)}
+                        onClick={() => handleLoad(cell, key)}
+                      >
+                        {formatMetric(metric, cell[metric])}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <small className="sweep-hint">Click a cell to load its configuration into the simulation.</small>
+      </div>
+    );
+  };
+
+  return (
+    <div className="sweep-panel" data-testid="sweep-panel">
+      <div className="sweep-axis">
+        <label htmlFor="sweepXParameter">X Axis:</label>
+        <select
+          id="sweepXParameter"
+          value={xAxis.parameter}
+          onChange={(e) => setXAxis(axisFor(e.target.value as SweepParameter, xAxis.steps))}
+        >
+          {SWEEP_PARAMETERS.map(parameter => (
+            <option key={parameter} value={parameter}>{PARAMETER_LABELS[parameter]}</option>
+          ))}
+        </select>
+        {renderAxis(xAxis, 'x', setXAxis)}
+      </div>
+
+      <div className="sweep-axis">
+        <label htmlFor="sweepYParameter">Y Axis:</label>
+        <select
+          id="sweepYParameter"
+          value={yAxis?.parameter ?? ''}
+          onChange={(e) => setYAxis(e.target.value ? axisFor(e.target.value as SweepParameter, yAxis?.steps ?? 4) : null)}
+        >
+          <option value="">None</option>
+          {SWEEP_PARAMETERS.map(parameter => (
+            <option key={parameter} value={parameter}>{PARAMETER_LABELS[parameter]}</option>
+          ))}
+        </select>
+        {yAxis && renderAxis(yAxis, 'y', setYAxis)}
+      </div>
+
+      <div className="sweep-options">
+        <label htmlFor="sweepTrials">Trials per Point:</label>
+        <input
+          id="sweepTrials"
+          type="number"
+          min="1"
+          step="1"
+          value={trials}
+          onChange={(e) => setTrials(parseInt(e.target.value, 10))}
+        />
+        {progress ? (
+          <button type="button" onClick={() => running.current?.cancel()}>Cancel Sweep</button>
+        ) : (
+          <button type="button" onClick={handleRun}>Run Sweep</button>
+        )}
+      </div>
+      <small className="sweep-hint">
+        Points run from the applied parameters with the selected engine. Parameters the noise model does not use leave the map flat.
+      </small>
+
+      {progress && (
+        <p className="sweep-progress" role="status">
+          {progress.completedPoints} / {progress.totalPoints} points
+        </p>
+      )}
+      {error && <p className="sweep-error" role="alert">{error}</p>}
+
+      {result && (
+        <>
+          <div className="sweep-options">
+            <label htmlFor="sweepMetric">Show:</label>
+            <select id="sweepMetric" value={metric} onChange={(e) => setMetric(e.target.value as SweepMetric)}>
+              {(Object.keys(METRIC_LABELS) as SweepMetric[]).map(key => (
+                <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {renderHeatmap(result)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SweepPanel;
@@ -0,0 +1,157 @@
+import { EngineType, SimulationParameters, SimulationState, createEngine } from '../engine/types';
+import { cloneSimulationState, reviveSimulationState } from '../engine/snapshot';
+
+// Safety limit on the rounds of one run; SimulationController, runBatch and the sweeps all use it
+export const MAX_RUN_ROUNDS = 100;
+
+// Everything a worker needs to continue a simulation on its own engine
+export interface RunRequest {
+  engineType: EngineType;
+  params: SimulationParameters;
+  state: SimulationState; // The run continues from this state
+  maxRounds: number;
+}
+
+// Messages posted back by the worker
+export type RunMessage =
+  | { type: 'progress'; state: SimulationState; completedRounds: number }
+  | { type: 'done'; state: SimulationState; completedRounds: number }
+  | { type: 'error'; message: string };
+
+export interface RunProgress {
+  state: SimulationState; // State after the latest round
+  completedRounds: number;
+  maxRounds: number;
+}
+
+export interface RunResult {
+  state: SimulationState; // Final state, or the last one reached before cancelling
+  completedRounds: number;
+  cancelled: boolean;
+}
+
+export interface BackgroundRun {
+  result: Promise<RunResult>;
+  cancel: () => void; // Stop the run; the result keeps the state after the last finished round
+}
+
+/**
+ * Full rounds from the requested state until the simulation completes or maxRounds is reached.
+ * Yields the state after every round.
+ */
+export function* runRounds(request: RunRequest): Generator<SimulationState, void> {
+  const engine = createEngine(request.engineType, request.params);
+  engine.restoreState(request.state);
+  let state = engine.getCurrentState();
+  for (let round = 0; round < request.maxRounds && !state.complete; round++) {
+    state = engine.step();
+    yield state;
+  }
+}
+
+/**
+ * Run a request to the end, posting a progress message after every round and a final done message.
+ * This is the body of the worker; failures are reported as an error message instead of thrown.
+ */
+export function executeRun(request: RunRequest, post: (message: RunMessage) => void): void {
+  try {
+    let state = request.state;
+    let completedRounds = 0;
+    for (const next of runRounds(request)) {
+      state = next;
+      completedRounds++;
+      post({ type: 'progress', state, completedRounds });
+    }
+    post({ type: 'done', state, completedRounds });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function runInWorker(request: RunRequest, onProgress?: (progress: RunProgress) => void): BackgroundRun {
+  const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+  let state = request.state;
+  let completedRounds = 0;
+  let cancel = () => {};
+
+  const result = new Promise<RunResult>((resolve, reject) => {
+    const finish = (cancelled: boolean) => {
+      worker.terminate();
+      resolve({ state, completedRounds, cancelled });
+    };
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+
+    worker.onmessage = (event: MessageEvent<RunMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          state = reviveSimulationState(message.state);
+          completedRounds = message.completedRounds;
+          onProgress?.({ state, completedRounds, maxRounds: request.maxRounds });
+          break;
+        case 'done':
+          state = reviveSimulationState(message.state);
+          completedRounds = message.completedRounds;
+          finish(false);
+          break;
+        case 'error':
+          fail(message.message);
+          break;
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => fail(event.message || 'Simulation worker failed');
+    // The worker is busy in a synchronous loop and would never read a cancel message, so stop it outright
+    cancel = () => finish(true);
+  });
+
+  worker.postMessage(request);
+  return { result, cancel };
+}
+
+// Fallback without workers (tests, old browsers): one round per task, so the page can repaint and cancel in between
+function runInThread(request: RunRequest, onProgress?: (progress: RunProgress) => void): BackgroundRun {
+  let cancelled = false;
+
+  const run = async (): Promise<RunResult> => {
+    const rounds = runRounds(request);
+    let state = request.state;
+    let completedRounds = 0;
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (cancelled) {
+        return { state, completedRounds, cancelled: true };
+      }
+      const next = rounds.next();
+      if (next.done) {
+        return { state, completedRounds, cancelled: false };
+      }
+      // The engine keeps updating its state object, so hand out copies
+      state = cloneSimulationState(next.value);
+      completedRounds++;
+      onProgress?.({ state, completedRounds, maxRounds: request.maxRounds });
+    }
+  };
+
+  return {
+    result: run(),
+    cancel: () => {
+      cancelled = true;
+    }
+  };
+}
+
+/**
+ * Run a simulation to completion off the UI thread, in a Web Worker when the environment has one.
+ * The run uses its own engine, so the caller's engine is untouched until it restores the result.
+ */
+export function startBackgroundRun(
+  request: RunRequest,
+  onProgress?: (progress: RunProgress) => void
+): BackgroundRun {
+  return typeof Worker === 'undefined'
+    ? runInThread(request, onProgress)
+    : runInWorker(request, onProgress);
+}
@@ -0,0 +1,147 @@
+import { EngineType, SimulationParameters, SimulationState, createEngine } from '../engine/types';
+import { MAX_RUN_ROUNDS } from './backgroundRun';
+
+export interface BatchOptions {
+  engineType?: EngineType; // Defaults to Monte Carlo
+  maxRounds?: number; // Safety limit per trial (defaults to MAX_RUN_ROUNDS, like SimulationController)
+  onProgress?: (completedTrials: number, totalTrials: number) => void;
+}
+
+// Sample mean and standard deviation of one quantity
+export interface SummaryStatistics {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+// Ensemble statistics across trials after a given number of rounds
+export interface RoundStatistics {
+  round: number;
+  fidelity: SummaryStatistics; // Average fidelity of each trial's ensemble (trials without pairs are left out)
+  survivors: SummaryStatistics; // Number of pairs left in each trial
+  completedTrials: number; // Trials that had already completed by this round
+}
+
+export interface BatchResult {
+  parameters: SimulationParameters;
+  engineType: EngineType;
+  trials: number;
+  seeds: (number | undefined)[]; // Seed of each trial, undefined when the batch is unseeded
+  rounds: RoundStatistics[]; // Index 0 is the initial ensemble
+  roundsToCompletion: SummaryStatistics; // Over trials that completed within maxRounds
+  completedTrials: number;
+  successRate: number; // Fraction of trials in which some pair reached the target fidelity
+}
+
+// One snapshot per round of a single trial
+interface TrialSnapshot {
+  fidelity: number;
+  survivors: number;
+  complete: boolean;
+}
+
+/**
+ * Summarise a list of values with the mean, sample standard deviation and range.
+ */
+export function summarize(values: number[]): SummaryStatistics {
+  if (values.length === 0) {
+    return { mean: 0, std: 0, min: 0, max: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return {
+    mean,
+    std: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values)
+  };
+}
+
+// Seed of the i-th trial: seeded batches give every trial its own, reproducible seed
+export function trialSeed(params: SimulationParameters, trial: number): number | undefined {
+  return params.seed === undefined ? undefined : (params.seed + trial) >>> 0;
+}
+
+function snapshot(state: SimulationState): TrialSnapshot {
+  return {
+    fidelity: state.averageFidelity,
+    survivors: state.pairs.length,
+    complete: state.complete
+  };
+}
+
+function reachedTarget(state: SimulationState, targetFidelity: number): boolean {
+  return state.pairs.some(pair => pair.fidelity >= targetFidelity);
+}
+
+/**
+ * Run independent trials of one parameter set without any UI and aggregate them per round.
+ *
+ * Each trial runs full rounds until it completes or hits maxRounds. Trials that finished early keep
+ * contributing their final ensemble to later rounds, so every round averages over all trials.
+ * If the parameters have a seed, trial i uses seed + i, which makes the whole batch reproducible.
+ */
+export function runBatch(
+  params: SimulationParameters,
+  trials: number,
+  options: BatchOptions = {}
+): BatchResult {
+  const { engineType = EngineType.MonteCarlo, maxRounds = MAX_RUN_ROUNDS, onProgress } = options;
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new Error('Number of trials must be a positive integer');
+  }
+
+  const seeds: (number | undefined)[] = [];
+  const histories: TrialSnapshot[][] = [];
+  const completionRounds: number[] = [];
+  let successes = 0;
+
+  for (let trial = 0; trial < trials; trial++) {
+    const seed = trialSeed(params, trial);
+    const engine = createEngine(engineType, { ...params, seed });
+    let state = engine.getCurrentState();
+    const history = [snapshot(state)];
+
+    while (!state.complete && history.length <= maxRounds) {
+      state = engine.step();
+      history.push(snapshot(state));
+    }
+
+    seeds.push(seed);
+    histories.push(history);
+    if (state.complete) {
+      completionRounds.push(state.round);
+    }
+    if (reachedTarget(state, params.targetFidelity)) {
+      successes++;
+    }
+    onProgress?.(trial + 1, trials);
+  }
+
+  const roundCount = Math.max(...histories.map(history => history.length));
+  const rounds: RoundStatistics[] = [];
+  for (let round = 0; round < roundCount; round++) {
+    // Completed trials are frozen at their last snapshot
+    const snapshots = histories.map(history => history[Math.min(round, history.length - 1)]);
+    rounds.push({
+      round,
+      fidelity: summarize(snapshots.filter(s => s.survivors > 0).map(s => s.fidelity)),
+      survivors: summarize(snapshots.map(s => s.survivors)),
+      completedTrials: snapshots.filter(s => s.complete).length
+    });
+  }
+
+  return {
+    parameters: params,
+    engineType,
+    trials,
+    seeds,
+    rounds,
+    roundsToCompletion: summarize(completionRounds),
+    completedTrials: completionRounds.length,
+    successRate: successes / trials
+  };
+}
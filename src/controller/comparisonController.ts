@@ -0,0 +1,87 @@
+import { SimulationParameters, SimulationState } from '../engine/types';
+import { RunProgress, RunResult } from './backgroundRun';
+import { SimulationController } from './simulationController';
+
+// How the right-hand run differs from the left-hand one (right minus left)
+export interface StateDifference {
+  averageFidelity: number;
+  pairsRemaining: number;
+}
+
+export function compareStates(left: SimulationState, right: SimulationState): StateDifference {
+  return {
+    averageFidelity: right.averageFidelity - left.averageFidelity,
+    pairsRemaining: right.pairs.length - left.pairs.length
+  };
+}
+
+/**
+ * Drives two simulation controllers, usually with different engines, in lockstep: every action goes to both,
+ * so they stay at the same step of the same parameters. Each controller keeps its own state callback and history.
+ *
+ * Lockstep means the same calls, not the same protocol position: the exact engine does a whole round per step,
+ * so compare it with another engine round by round (completeRound).
+ */
+export class ComparisonController {
+  constructor(
+    private readonly left: SimulationController,
+    private readonly right: SimulationController
+  ) {}
+
+  private both(action: (controller: SimulationController) => void): void {
+    action(this.left);
+    action(this.right);
+  }
+
+  public nextStep(): void {
+    this.both(controller => controller.nextStep());
+  }
+
+  public completeRound(): void {
+    this.both(controller => controller.completeRound());
+  }
+
+  public reset(): void {
+    this.both(controller => controller.reset());
+  }
+
+  public updateParameters(params: SimulationParameters): void {
+    this.both(controller => controller.updateParameters(params));
+  }
+
+  public undo(): void {
+    this.both(controller => controller.undo());
+  }
+
+  public redo(): void {
+    this.both(controller => controller.redo());
+  }
+
+  public goTo(index: number): void {
+    this.both(controller => controller.goTo(index));
+  }
+
+  /**
+   * Run both simulations to completion in the background. Progress is reported for the left run;
+   * the promise settles once both runs have ended.
+   */
+  public runUntilCompleteAsync(onProgress?: (progress: RunProgress) => void): Promise<[RunResult, RunResult]> {
+    return Promise.all([
+      this.left.runUntilCompleteAsync(onProgress),
+      this.right.runUntilCompleteAsync()
+    ]);
+  }
+
+  public cancelRun(): void {
+    this.both(controller => controller.cancelRun());
+  }
+
+  // Both histories grow together, so the left one stands for the pair
+  public canUndo(): boolean {
+    return this.left.canUndo() && this.right.canUndo();
+  }
+
+  public canRedo(): boolean {
+    return this.left.canRedo() && this.right.canRedo();
+  }
+}
@@ -0,0 +1,309 @@
+import { EngineType, SimulationParameters, SimulationState, createEngine } from '../engine/types';
+import { summarize, trialSeed } from './batchRunner';
+import { MAX_RUN_ROUNDS } from './backgroundRun';
+
+// Numeric parameters a sweep can vary
+export type SweepParameter =
+  | 'noiseParameter'
+  | 'initialPairs'
+  | 'targetFidelity'
+  | 'wernerFidelity'
+  | 'thermalPopulation'
+  | 'cnotErrorProbability'
+  | 'readoutErrorProbability'
+  | 'memoryT1'
+  | 'memoryT2'
+  | 'stepDuration';
+
+export const SWEEP_PARAMETERS: SweepParameter[] = [
+  'noiseParameter', 'initialPairs', 'targetFidelity', 'wernerFidelity', 'thermalPopulation',
+  'cnotErrorProbability', 'readoutErrorProbability', 'memoryT1', 'memoryT2', 'stepDuration'
+];
+
+// Parameters that only take whole numbers
+const INTEGER_PARAMETERS: SweepParameter[] = ['initialPairs'];
+
+// Upper limit on the points per axis, so a sweep stays interactive
+export const MAX_SWEEP_STEPS = 25;
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  min: number;
+  max: number;
+  steps: number; // Number of evenly spaced values from min to max (1 = just min)
+}
+
+export interface SweepOptions {
+  engineType?: EngineType; // Defaults to Monte Carlo
+  trials?: number; // Runs averaged at every grid point (defaults to 1)
+  maxRounds?: number;
+}
+
+// Outcome at one grid point, averaged over its trials
+export interface SweepCell {
+  x: number;
+  y?: number;
+  params: SimulationParameters; // The full configuration of this point
+  finalFidelity: number; // Average fidelity of the final ensemble (0 when no pairs survive)
+  roundsUsed: number; // Rounds until the run completed (all rounds run if no trial completed)
+  survivingPairs: number;
+  successRate: number; // Fraction of trials in which some pair reached the target fidelity
+}
+
+export interface SweepResult {
+  xAxis: SweepAxis;
+  yAxis?: SweepAxis;
+  xValues: number[];
+  yValues: number[]; // Empty without a y axis
+  cells: SweepCell[][]; // cells[row][column]; rows follow yValues (a single row without a y axis), columns xValues
+  engineType: EngineType;
+  trials: number;
+}
+
+export interface SweepProgress {
+  completedPoints: number;
+  totalPoints: number;
+}
+
+// One point of the grid with its full configuration
+export interface SweepPoint {
+  x: number;
+  y?: number;
+  params: SimulationParameters;
+}
+
+// Everything a worker needs to run a whole sweep on its own
+export interface SweepRequest {
+  engineType: EngineType;
+  trials: number;
+  maxRounds: number;
+  rows: SweepPoint[][]; // Row by row, like SweepResult.cells
+}
+
+// A finished point and the row it belongs to
+export interface SweepCellUpdate {
+  row: number;
+  cell: SweepCell;
+}
+
+// Messages posted back by the sweep worker
+export type SweepMessage =
+  | ({ type: 'cell' } & SweepCellUpdate)
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface RunningSweep {
+  result: Promise<SweepResult>; // Rejects if a point cannot be simulated
+  totalPoints: number;
+  cancel: () => void; // Stop right away; the result then has the points finished so far
+}
+
+/**
+ * The values of an axis from min to max. Whole-number parameters are rounded, and repeated values dropped.
+ */
+export function sweepValues(axis: SweepAxis): number[] {
+  const { parameter, min, max, steps } = axis;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+    throw new Error(`The range of ${parameter} must go from a smaller to a larger number`);
+  }
+  if (!Number.isInteger(steps) || steps < 1 || steps > MAX_SWEEP_STEPS) {
+    throw new Error(`The steps of ${parameter} must be a whole number from 1 to ${MAX_SWEEP_STEPS}`);
+  }
+  const values = Array.from({ length: steps }, (_, i) => (steps === 1 ? min : min + ((max - min) * i) / (steps - 1)));
+  return INTEGER_PARAMETERS.includes(parameter)
+    ? [...new Set(values.map(value => Math.round(value)))]
+    : values;
+}
+
+function withValue(params: SimulationParameters, parameter: SweepParameter, value: number): SimulationParameters {
+  return { ...params, [parameter]: value };
+}
+
+// A point's cell, averaged over the final state and rounds run of every trial like runBatch
+function cellFromTrials(
+  params: SimulationParameters,
+  x: number,
+  y: number | undefined,
+  trials: { state: SimulationState; completedRounds: number }[]
+): SweepCell {
+  const finals = trials.map(trial => trial.state);
+  const completed = finals.filter(state => state.complete);
+  return {
+    x,
+    y,
+    params,
+    finalFidelity: summarize(finals.filter(state => state.pairs.length > 0).map(state => state.averageFidelity)).mean,
+    roundsUsed: completed.length > 0
+      ? summarize(completed.map(state => state.round)).mean
+      : Math.max(...trials.map(trial => trial.completedRounds)),
+    survivingPairs: summarize(finals.map(state => state.pairs.length)).mean,
+    successRate: finals.filter(state => state.pairs.some(pair => pair.fidelity >= params.targetFidelity)).length / finals.length
+  };
+}
+
+// Configurations of the grid, row by row; everything is checked before anything runs
+function sweepGrid(base: SimulationParameters, xAxis: SweepAxis, yAxis: SweepAxis | undefined, options: SweepOptions) {
+  if (yAxis && yAxis.parameter === xAxis.parameter) {
+    throw new Error('The two axes must sweep different parameters');
+  }
+  const trials = options.trials ?? 1;
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new Error('Number of trials must be a positive integer');
+  }
+  const xValues = sweepValues(xAxis);
+  const yValues = yAxis ? sweepValues(yAxis) : [];
+  const rows: SweepPoint[][] = (yAxis ? yValues : [undefined]).map(y =>
+    xValues.map(x => {
+      const params = withValue(base, xAxis.parameter, x);
+      return { x, y, params: yAxis && y !== undefined ? withValue(params, yAxis.parameter, y) : params };
+    })
+  );
+  const engineType = options.engineType ?? EngineType.MonteCarlo;
+  const request: SweepRequest = { engineType, trials, maxRounds: options.maxRounds ?? MAX_RUN_ROUNDS, rows };
+  const result = (cells: SweepCell[][]): SweepResult => ({ xAxis, yAxis, xValues, yValues, cells, engineType, trials });
+  return { request, totalPoints: xValues.length * rows.length, result };
+}
+
+/**
+ * Every round of every trial of every point, in grid order. The trials of a point run one after the other
+ * like runBatch, each on a fresh engine. Yields a point's cell once its last trial has run, and null after
+ * every other round, so a caller on the page can pause in between.
+ */
+export function* sweepRounds(request: SweepRequest): Generator<SweepCellUpdate | null, void> {
+  for (const [row, points] of request.rows.entries()) {
+    for (const { x, y, params } of points) {
+      const trials: { state: SimulationState; completedRounds: number }[] = [];
+      for (let trial = 0; trial < request.trials; trial++) {
+        const engine = createEngine(request.engineType, { ...params, seed: trialSeed(params, trial) });
+        let state = engine.getCurrentState();
+        let completedRounds = 0;
+        while (completedRounds < request.maxRounds && !state.complete) {
+          state = engine.step();
+          completedRounds++;
+          yield null;
+        }
+        trials.push({ state, completedRounds });
+      }
+      yield { row, cell: cellFromTrials(params, x, y, trials) };
+    }
+  }
+}
+
+/**
+ * Run a whole sweep, posting a cell message after every point and a final done message.
+ * This is the body of the sweep worker; failures are reported as an error message instead of thrown.
+ */
+export function executeSweep(request: SweepRequest, post: (message: SweepMessage) => void): void {
+  try {
+    for (const update of sweepRounds(request)) {
+      if (update) {
+        post({ type: 'cell', ...update });
+      }
+    }
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+interface SweepRun {
+  finished: Promise<void>;
+  cancel: () => void;
+}
+
+// The whole grid in one worker, which streams the cells back
+function sweepInWorker(request: SweepRequest, onCell: (update: SweepCellUpdate) => void): SweepRun {
+  const worker = new Worker(new URL('./sweepWorker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const finished = new Promise<void>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      resolve();
+    };
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+
+    worker.onmessage = (event: MessageEvent<SweepMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'cell':
+          onCell(message);
+          break;
+        case 'done':
+          finish();
+          break;
+        case 'error':
+          fail(message.message);
+          break;
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => fail(event.message || 'Sweep worker failed');
+    // Like a background run, the worker never reads messages while it sweeps, so stop it outright
+    cancel = finish;
+  });
+
+  worker.postMessage(request);
+  return { finished, cancel };
+}
+
+// Fallback without workers (tests, old browsers): one round per task, so the page can repaint and cancel in between
+function sweepInThread(request: SweepRequest, onCell: (update: SweepCellUpdate) => void): SweepRun {
+  let cancelled = false;
+
+  const run = async (): Promise<void> => {
+    const rounds = sweepRounds(request);
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (cancelled) {
+        return;
+      }
+      const next = rounds.next();
+      if (next.done) {
+        return;
+      }
+      if (next.value) {
+        onCell(next.value);
+      }
+    }
+  };
+
+  return {
+    finished: run(),
+    cancel: () => {
+      cancelled = true;
+    }
+  };
+}
+
+/**
+ * Run the engine at every point of a one- or two-dimensional grid around the base parameters, with the trials
+ * of each point seeded like runBatch. If the base parameters have a seed, every point uses it, so neighbouring
+ * points differ only by the swept values. The whole grid runs in one Web Worker where there is one, so the page
+ * does no simulation work. Invalid axes or options throw right away; failures while running reject the result.
+ */
+export function startSweep(
+  base: SimulationParameters,
+  xAxis: SweepAxis,
+  yAxis?: SweepAxis,
+  options: SweepOptions = {},
+  onProgress?: (progress: SweepProgress) => void
+): RunningSweep {
+  const { request, totalPoints, result } = sweepGrid(base, xAxis, yAxis, options);
+  const cells: SweepCell[][] = [];
+  let completedPoints = 0;
+
+  const onCell = ({ row, cell }: SweepCellUpdate) => {
+    (cells[row] ??= []).push(cell);
+    onProgress?.({ completedPoints: ++completedPoints, totalPoints });
+  };
+  const sweep = typeof Worker === 'undefined' ? sweepInThread(request, onCell) : sweepInWorker(request, onCell);
+
+  return {
+    result: sweep.finished.then(() => result(cells)),
+    totalPoints,
+    cancel: sweep.cancel
+  };
+}
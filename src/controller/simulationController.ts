@@ -1,26 +1,89 @@
 import { ISimulationEngine, SimulationParameters, SimulationState, EngineType, createEngine } from '../engine/types';
+import { BatchOptions, BatchResult, runBatch } from './batchRunner';
+import { DEFAULT_HISTORY_LIMIT, SimulationHistory } from './simulationHistory';
+import { BackgroundRun, MAX_RUN_ROUNDS, RunProgress, RunResult, startBackgroundRun } from './backgroundRun';
+import { cloneSimulationState } from '../engine/snapshot';
 
 export class SimulationController {
   private engine: ISimulationEngine;
   private onStateChange: (state: SimulationState) => void;
   private currentParams: SimulationParameters;
+  private history: SimulationHistory;
+  private engineType: EngineType;
+  private activeRun: BackgroundRun | null = null;
+  // Every state the engine produced since the run started, in order (undo and redo add nothing)
+  private trace: SimulationState[] = [];
+  // The traced states along the current branch of the history, and where each history entry ends in it
+  private timeline: SimulationState[] = [];
+  private timelineEnds: number[] = [];
   
   constructor(
     initialParams: SimulationParameters, 
     onStateChange: (state: SimulationState) => void,
-    engineType: EngineType = EngineType.Average
+    engineType: EngineType = EngineType.Average,
+    historyLimit: number = DEFAULT_HISTORY_LIMIT
   ) {
     this.currentParams = initialParams;
+    this.engineType = engineType;
     this.engine = createEngine(engineType, initialParams);
     this.onStateChange = onStateChange;
+    this.history = new SimulationHistory(historyLimit);
     
     // Initial state notification
-    this.onStateChange(this.engine.getCurrentState());
+    this.startHistory(this.engine.getCurrentState());
+  }
+  
+  // A new run (reset, parameter or engine change) starts a fresh history
+  private startHistory(state: SimulationState): void {
+    this.abandonRun();
+    this.history.clear(state);
+    this.trace = [cloneSimulationState(state)];
+    this.timeline = [this.trace[0]];
+    this.timelineEnds = [1];
+    this.onStateChange(state);
+  }
+  
+  // Engines update their state in place, so the trace keeps copies
+  private traceState(state: SimulationState): void {
+    const copy = cloneSimulationState(state);
+    this.trace.push(copy);
+    this.branchTimeline();
+    this.timeline.push(copy);
+  }
+  
+  // New states after an undo or a jump start a branch; the undone states leave the timeline, as they leave the history
+  private branchTimeline(): void {
+    const index = this.history.getIndex();
+    if (index < this.timelineEnds.length - 1) {
+      this.timelineEnds = this.timelineEnds.slice(0, index + 1);
+      this.timeline = this.timeline.slice(0, this.timelineEnds[index]);
+    }
+  }
+  
+  private recordState(state: SimulationState, alreadyTraced = false): void {
+    if (!alreadyTraced) {
+      this.traceState(state);
+    }
+    this.branchTimeline();
+    this.history.record(state);
+    this.timelineEnds.push(this.timeline.length);
+    // The history drops its oldest states beyond its limit
+    this.timelineEnds = this.timelineEnds.slice(-this.history.getLength());
+    this.onStateChange(state);
+  }
+  
+  // Move the engine back (or forward) to a recorded state
+  private restoreState(state: SimulationState | null): void {
+    if (!state) {
+      return;
+    }
+    this.engine.restoreState(state);
+    this.onStateChange(state);
   }
   
   public nextStep(): void {
     const newState = this.engine.nextStep();
-    this.onStateChange(newState);
+    this.recordState(newState);
   }
   
   public completeRound(): void {
@@ -29,37 +92,150 @@ export class SimulationController {
   
   public step(): void {
     const newState = this.engine.step();
-    this.onStateChange(newState);
+    this.recordState(newState);
   }
   
   public reset(): void {
     const newState = this.engine.reset();
-    this.onStateChange(newState);
+    this.startHistory(newState);
   }
   
   public runUntilComplete(): void {
     let state = this.engine.getCurrentState();
     
     // To prevent infinite loops, add a safety exit condition
-    const maxRounds = 100;
+    const maxRounds = MAX_RUN_ROUNDS;
     let rounds = 0;
     
     while (!state.complete && rounds < maxRounds) {
       state = this.engine.step();
+      this.traceState(state);
       rounds++;
     }
     
-    this.onStateChange(state);
+    this.recordState(state, rounds > 0);
+  }
+  
+  /**
+   * Same as runUntilComplete, but in the background so the UI stays responsive.
+   * Every round is passed to onStateChange as it arrives; only the final state is added to the history.
+   */
+  public async runUntilCompleteAsync(onProgress?: (progress: RunProgress) => void): Promise<RunResult> {
+    if (this.activeRun) {
+      throw new Error('A simulation run is already in progress');
+    }
+    const run: BackgroundRun = startBackgroundRun(
+      {
+        engineType: this.engineType,
+        params: this.currentParams,
+        state: this.engine.getCurrentState(),
+        maxRounds: MAX_RUN_ROUNDS
+      },
+      progress => {
+        if (this.activeRun === run) {
+          this.traceState(progress.state);
+          this.onStateChange(progress.state);
+          onProgress?.(progress);
+        }
+      }
+    );
+    this.activeRun = run;
+
+    try {
+      const result = await run.result;
+      // A reset or parameter change while running abandons the run; its result is stale then
+      if (this.activeRun === run) {
+        this.engine.restoreState(result.state);
+        this.recordState(result.state, result.completedRounds > 0);
+      }
+      return result;
+    } finally {
+      if (this.activeRun === run) {
+        this.activeRun = null;
+      }
+    }
+  }
+  
+  // Stop a background run; the engine continues from the last round it finished
+  public cancelRun(): void {
+    this.activeRun?.cancel();
+  }
+  
+  public isRunning(): boolean {
+    return this.activeRun !== null;
+  }
+  
+  private abandonRun(): void {
+    const run = this.activeRun;
+    this.activeRun = null;
+    run?.cancel();
+  }
+  
+  public undo(): void {
+    this.restoreState(this.history.undo());
+  }
+  
+  public redo(): void {
+    this.restoreState(this.history.redo());
+  }
+  
+  // Jump to any recorded state; 0 is the oldest one still kept
+  public goTo(index: number): void {
+    this.restoreState(this.history.goTo(index));
+  }
+  
+  public canUndo(): boolean {
+    return this.history.canUndo();
+  }
+  
+  public canRedo(): boolean {
+    return this.history.canRedo();
+  }
+  
+  public getHistoryIndex(): number {
+    return this.history.getIndex();
+  }
+  
+  public getHistoryLength(): number {
+    return this.history.getLength();
+  }
+  
+  // States visited since the last reset or parameter change, for exporting
+  public getTrace(): SimulationState[] {
+    return [...this.trace];
+  }
+  
+  /**
+   * The traced states leading to the displayed one, e.g. for charts. Unlike the trace it follows undo and
+   * history jumps, and states on an abandoned branch drop out. A background run shows its rounds as they arrive.
+   */
+  public getTimeline(): SimulationState[] {
+    const end = this.activeRun ? this.timeline.length : this.timelineEnds[this.history.getIndex()];
+    return this.timeline.slice(0, end);
+  }
+  
+  public getParameters(): SimulationParameters {
+    return this.currentParams;
+  }
+  
+  public getEngineType(): EngineType {
+    return this.engineType;
+  }
+  
+  // Run independent trials of the current parameters; the displayed simulation is not touched
+  public runBatch(trials: number, options: BatchOptions = {}): BatchResult {
+    return runBatch(this.currentParams, trials, options);
   }
   
   public updateParameters(params: SimulationParameters): void {
     this.currentParams = params;
     this.engine.updateParams(params);
-    this.onStateChange(this.engine.getCurrentState());
+    this.startHistory(this.engine.getCurrentState());
   }
 
   public updateEngineType(type: EngineType): void {
+    this.engineType = type;
     this.engine = createEngine(type, this.currentParams);
-    this.onStateChange(this.engine.getCurrentState());
+    this.startHistory(this.engine.getCurrentState());
   }
 } 
\ No newline at end of file
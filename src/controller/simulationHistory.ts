@@ -0,0 +1,71 @@
+import { SimulationState } from '../engine/types';
+import { cloneSimulationState } from '../engine/snapshot';
+
+// Number of snapshots kept by default; the oldest ones are dropped first
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Bounded list of deep-copied simulation states with a cursor for undo/redo.
+ *
+ * Recording a new state drops everything after the cursor, like the undo stack of an editor.
+ * States go in and come out as copies, so nobody can change a snapshot after the fact.
+ */
+export class SimulationHistory {
+  private states: SimulationState[] = [];
+  private index = -1;
+  private readonly limit: number;
+
+  constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('History limit must be a positive integer');
+    }
+    this.limit = limit;
+  }
+
+  // Start over with a single state, e.g. after a reset or a parameter change
+  public clear(initialState: SimulationState): void {
+    this.states = [cloneSimulationState(initialState)];
+    this.index = 0;
+  }
+
+  public record(state: SimulationState): void {
+    this.states = this.states.slice(0, this.index + 1);
+    this.states.push(cloneSimulationState(state));
+    if (this.states.length > this.limit) {
+      this.states.splice(0, this.states.length - this.limit);
+    }
+    this.index = this.states.length - 1;
+  }
+
+  public canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.index < this.states.length - 1;
+  }
+
+  public undo(): SimulationState | null {
+    return this.canUndo() ? this.goTo(this.index - 1) : null;
+  }
+
+  public redo(): SimulationState | null {
+    return this.canRedo() ? this.goTo(this.index + 1) : null;
+  }
+
+  public goTo(index: number): SimulationState {
+    if (!Number.isInteger(index) || index < 0 || index >= this.states.length) {
+      throw new Error(`History index ${index} is out of range`);
+    }
+    this.index = index;
+    return cloneSimulationState(this.states[index]);
+  }
+
+  public getIndex(): number {
+    return this.index;
+  }
+
+  public getLength(): number {
+    return this.states.length;
+  }
+}
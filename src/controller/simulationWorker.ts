@@ -0,0 +1,8 @@
+// Web Worker entry: runs one simulation request per message (see backgroundRun.ts)
+import { RunMessage, RunRequest, executeRun } from './backgroundRun';
+import { reviveSimulationState } from '../engine/snapshot';
+
+self.onmessage = (event: MessageEvent<RunRequest>) => {
+  const request = { ...event.data, state: reviveSimulationState(event.data.state) };
+  executeRun(request, (message: RunMessage) => self.postMessage(message));
+};
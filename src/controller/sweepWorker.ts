@@ -0,0 +1,6 @@
+// Web Worker entry: runs one whole parameter sweep per message (see parameterSweep.ts)
+import { SweepMessage, SweepRequest, executeSweep } from './parameterSweep';
+
+self.onmessage = (event: MessageEvent<SweepRequest>) => {
+  executeSweep(event.data, (message: SweepMessage) => self.postMessage(message));
+};
@@ -1,16 +1,21 @@
-import {Basis, ISimulationEngine, QubitPair, SimulationParameters, SimulationState} from './types';
-import {createNoisyEPRWithChannel} from './quantumStates';
-import {bilateralCNOT, depolarize, exchangePsiMinusPhiPlus, preparePairsForCNOT} from './operations';
-import {BellState, fidelityFromBellBasisMatrix, toBellBasis} from "../engine_real_calculations/bell/bell-basis.ts";
+import {Basis, ISimulationEngine, PurificationScheme, QubitPair, SimulationParameters, SimulationState} from './types';
+import {createInitialPair} from './quantumStates';
+import {bilateralCNOT, countRawPairs, depolarize, exchangePsiMinusPhiPlus, preparePairsForCNOT} from './operations';
+import {BellState, fidelityFromBellBasisMatrix, toBellBasis, toComputationalBasis} from "../engine_real_calculations/bell/bell-basis.ts";
 import {DensityMatrix} from "../engine_real_calculations/matrix/densityMatrix";
 import {calculateAverageFidelity} from '../utils/fidelityUtils';
+import {RandomSource, SeededRandom, createRandomSource} from "../engine_real_calculations/utils/random";
+import {cloneSimulationState} from './snapshot';
+import {applyMemoryDecoherence, getMemoryDecay, mapStoredPairs, memoryReferenceState} from './memory';
 
 export class AverageSimulationEngine implements ISimulationEngine {
   private params: SimulationParameters;
   private state: SimulationState;
+  private random: RandomSource;
 
   constructor(params: SimulationParameters) {
     this.params = params;
+    this.random = createRandomSource(params.seed);
     this.state = this.initialize();
   }
 
@@ -19,9 +24,9 @@ export class AverageSimulationEngine implements ISimulationEngine {
     // Create initial noisy EPR pairs in Bell basis
     for (let i = 0; i < this.params.initialPairs; i++) {
       // Use noise channel selection for better consistency between engines
-      let densityMatrix = createNoisyEPRWithChannel(this.params.noiseParameter, this.params.noiseChannel)
+      let densityMatrix = createInitialPair(this.params, this.random, i);
       
-      // Convert to Bell basis (since createNoisyEPRWithChannel returns computational basis)
+      // Convert to Bell basis (since createInitialPair returns computational basis)
       densityMatrix = new DensityMatrix(toBellBasis(densityMatrix));
 
       // Now all matrices are in Bell basis, so use Bell basis fidelity calculation
@@ -31,7 +36,8 @@ export class AverageSimulationEngine implements ISimulationEngine {
         id: i,
         densityMatrix,
         fidelity,
-        basis: Basis.Bell
+        basis: Basis.Bell,
+        generation: 0
       });
     }
 
@@ -42,7 +48,11 @@ export class AverageSimulationEngine implements ISimulationEngine {
       round: 0,
       complete: false,
       purificationStep: 'initial',
-      averageFidelity
+      averageFidelity,
+      rawPairsConsumed: 0,
+      memoryFidelityLoss: 0,
+      seed: this.params.seed,
+      pumpingHistory: this.isPumping() && pairs.length > 0 ? [pairs[0].fidelity] : undefined
     };
   }
 
@@ -82,11 +92,23 @@ export class AverageSimulationEngine implements ISimulationEngine {
       return;
     }
 
-    const { controlPairs, targetPairs } = preparePairsForCNOT(this.state.pairs);
+    const { controlPairs, targetPairs, unpairedPairs } = preparePairsForCNOT(this.state.pairs, {
+      scheme: this.params.purificationScheme,
+      strategy: this.params.pairingStrategy,
+      random: this.random
+    });
+    if (controlPairs.length === 0) {
+      // No pair has a partner (e.g. all generations differ), so the run cannot continue
+      this.state.complete = true;
+      this.state.purificationStep = 'completed';
+      return;
+    }
+    this.state.rawPairsConsumed = (this.state.rawPairsConsumed ?? 0) + countRawPairs([...controlPairs, ...targetPairs]);
 
     this.state.pendingPairs = {
       controlPairs,
-      targetPairs
+      targetPairs,
+      unpairedPairs
     };
 
     this.state.purificationStep = 'cnot';
@@ -108,7 +130,7 @@ export class AverageSimulationEngine implements ISimulationEngine {
       const targetPair = targetPairs[i];
 
       // Apply bilateral CNOT
-      const result = bilateralCNOT(controlPair.densityMatrix, targetPair.densityMatrix);
+      const result = bilateralCNOT(controlPair.densityMatrix, targetPair.densityMatrix, this.random);
 
       results.push({
         control: {
@@ -137,16 +159,14 @@ export class AverageSimulationEngine implements ISimulationEngine {
     for (const result of this.state.pendingPairs.results) {
       if (result.successful) {
         newPairs.push({
-          ...result.control
+          ...result.control,
+          generation: (result.control.generation ?? 0) + 1
         });
       }
     }
 
-    // If odd number of pairs, the last one doesn't participate
-    const { hasUnpairedPair } = preparePairsForCNOT(this.state.pairs);
-    if (hasUnpairedPair) {
-      newPairs.push(this.state.pairs[this.state.pairs.length - 1]);
-    }
+    // Pairs that did not participate this round are kept as they are
+    newPairs.push(...(this.state.pendingPairs.unpairedPairs ?? []));
 
     this.state.pairs = newPairs;
     this.state.pendingPairs = undefined;
@@ -181,6 +201,42 @@ export class AverageSimulationEngine implements ISimulationEngine {
       // Reset to initial state for the next round
       this.state.purificationStep = 'initial';
     }
+
+    this.recordPumpingHistory();
+  }
+
+  private isPumping(): boolean {
+    return this.params.purificationScheme === PurificationScheme.Pumping;
+  }
+
+  // Track the accumulating pair's fidelity after each pumping round
+  private recordPumpingHistory(): void {
+    if (this.state.pumpingHistory && this.state.pairs.length > 0) {
+      this.state.pumpingHistory = [...this.state.pumpingHistory, this.state.pairs[0].fidelity];
+    }
+  }
+
+  // Stored pairs decohere while they wait in memory for one step
+  private waitInMemory(): void {
+    const decay = getMemoryDecay(this.params);
+    if (!decay) {
+      return;
+    }
+
+    const reference = memoryReferenceState(this.state.purificationStep);
+    const fidelityBefore = calculateAverageFidelity(this.state.pairs);
+    this.state = mapStoredPairs(this.state, pair => {
+      // The memory channels act on qubits, so leave the Bell basis for the duration of the step
+      const computationalRho = new DensityMatrix(toComputationalBasis(pair.densityMatrix));
+      const decayedRho = new DensityMatrix(toBellBasis(applyMemoryDecoherence(computationalRho, decay)));
+      return {
+        ...pair,
+        densityMatrix: decayedRho,
+        fidelity: fidelityFromBellBasisMatrix(decayedRho, reference)
+      };
+    });
+    this.state.memoryFidelityLoss = (this.state.memoryFidelityLoss ?? 0) +
+      fidelityBefore - calculateAverageFidelity(this.state.pairs);
   }
 
   // Public methods
@@ -190,6 +246,8 @@ export class AverageSimulationEngine implements ISimulationEngine {
       return this.getCurrentState();
     }
 
+    this.waitInMemory();
+
     switch (this.state.purificationStep) {
       case 'initial':
         this.depolarizeAllPairs();
@@ -222,21 +280,27 @@ export class AverageSimulationEngine implements ISimulationEngine {
     // Complete a full round of purification
     if (!this.state.complete) {
       if (this.state.purificationStep === 'initial') {
+        this.waitInMemory();
         this.depolarizeAllPairs();
       }
       if (this.state.purificationStep === 'twirled') {
+        this.waitInMemory();
         this.exchangePsiPhiComponents();
       }
       if (this.state.purificationStep === 'exchanged') {
+        this.waitInMemory();
         this.applyBilateralCNOT();
       }
       if (this.state.purificationStep === 'cnot') {
+        this.waitInMemory();
         this.performMeasurement();
       }
       if (this.state.purificationStep === 'measured') {
+        this.waitInMemory();
         this.discardFailed();
       }
       if (this.state.purificationStep === 'discard') {
+        this.waitInMemory();
         this.twirlExchange();
       }
     }
@@ -244,6 +308,8 @@ export class AverageSimulationEngine implements ISimulationEngine {
   }
 
   public reset(): SimulationState {
+    // Restart the random sequence too, so a seeded run replays identically
+    this.random = createRandomSource(this.params.seed);
     this.state = this.initialize();
     return this.getCurrentState();
   }
@@ -252,10 +318,19 @@ export class AverageSimulationEngine implements ISimulationEngine {
     const averageFidelity = calculateAverageFidelity(this.state.pairs);
     return { 
       ...this.state,
-      averageFidelity
+      averageFidelity,
+      randomState: this.random instanceof SeededRandom ? this.random.getState() : undefined
     };
   }
 
+  public restoreState(state: SimulationState): void {
+    this.state = cloneSimulationState(state);
+    // Rewind the generator too, so stepping on from here repeats the original run
+    if (state.randomState !== undefined && this.random instanceof SeededRandom) {
+      this.random.setState(state.randomState);
+    }
+  }
+
   public updateParams(params: SimulationParameters): void {
     this.params = params;
     this.reset();
@@ -0,0 +1,257 @@
+import {
+  Basis,
+  ISimulationEngine,
+  OutcomeStatistics,
+  PairingStrategy,
+  QubitPair,
+  SimulationParameters,
+  SimulationState
+} from './types';
+import {countRawPairs, preparePairsForCNOT, purificationOutcome} from './operations';
+import {createExpectedInitialPair, createWernerState} from './quantumStates';
+import {BellState, fidelityFromComputationalBasisMatrix} from "../engine_real_calculations/bell/bell-basis";
+import {calculateAverageFidelity} from '../utils/fidelityUtils';
+
+// After twirling, a pair is fully described by its Werner fidelity
+type ExactPair = {
+  id: number;
+  fidelity: number;
+  generation: number;
+};
+
+// One possible state of the whole ensemble, together with the probability of reaching it
+type Configuration = {
+  pairs: ExactPair[];
+  probability: number;
+  complete: boolean;
+};
+
+// Fidelities that agree to this many digits are treated as equal when merging configurations
+const FIDELITY_DIGITS = 12;
+
+const configurationKey = (configuration: Configuration): string =>
+  (configuration.complete ? 'complete:' : '') +
+  configuration.pairs.map(pair => `${pair.fidelity.toFixed(FIDELITY_DIGITS)}/${pair.generation}`).join(',');
+
+// Add a configuration to a distribution, summing the probabilities of identical ensembles
+const addConfiguration = (distribution: Map<string, Configuration>, configuration: Configuration): void => {
+  if (configuration.probability <= 0) {
+    return;
+  }
+  const key = configurationKey(configuration);
+  const existing = distribution.get(key);
+  if (existing) {
+    existing.probability += configuration.probability;
+  } else {
+    distribution.set(key, { ...configuration });
+  }
+};
+
+/**
+ * Exact Simulation Engine that propagates the probability distribution over ensemble outcomes
+ * instead of sampling a single run.
+ *
+ * Pairs are Werner states, so each round applies the BBPSSW success probability and fidelity
+ * (`purificationOutcome`) to every match and branches on success/failure. Every pair starts as the same
+ * noisy EPR pair, except pairs given in pairInitialStates. Uniform noise enters with its fidelity averaged over
+ * the random unitary, so the result does not depend on the seed.
+ * One `nextStep` is one full round.
+ * The random pairing strategy falls back to index order, and gate, readout and memory errors are not modelled.
+ */
+export class ExactSimulationEngine implements ISimulationEngine {
+  private params: SimulationParameters;
+  private state: SimulationState;
+  private configurations: Configuration[] = [];
+
+  constructor(params: SimulationParameters) {
+    this.params = params;
+    this.state = this.initialize();
+  }
+
+  private initialize(): SimulationState {
+    const initialRho = createExpectedInitialPair(this.params);
+    const fidelity = fidelityFromComputationalBasisMatrix(initialRho, BellState.PSI_MINUS);
+
+    const pairs: ExactPair[] = [];
+    for (let i = 0; i < this.params.initialPairs; i++) {
+      // Pairs with a state of their own keep their fidelity; all others share the one drawn above
+      const pairFidelity = this.params.pairInitialStates?.[i]
+        ? fidelityFromComputationalBasisMatrix(createExpectedInitialPair(this.params, i), BellState.PSI_MINUS)
+        : fidelity;
+      pairs.push({ id: i, fidelity: pairFidelity, generation: 0 });
+    }
+    this.configurations = [{ pairs, probability: 1, complete: false }];
+
+    const displayedPairs = this.mostLikelyPairs();
+    return {
+      pairs: displayedPairs,
+      round: 0,
+      complete: false,
+      purificationStep: 'initial',
+      averageFidelity: calculateAverageFidelity(displayedPairs),
+      rawPairsConsumed: 0,
+      seed: this.params.seed,
+      statistics: this.computeStatistics()
+    };
+  }
+
+  // The random strategy has no single outcome to follow, so it is treated as index order
+  private pairingStrategy(): PairingStrategy | undefined {
+    return this.params.pairingStrategy === PairingStrategy.Random
+      ? PairingStrategy.IndexOrder
+      : this.params.pairingStrategy;
+  }
+
+  // One purification round for every configuration that is still running
+  private purifyRound(): void {
+    const next = new Map<string, Configuration>();
+    let rawPairsConsumed = 0;
+
+    for (const configuration of this.configurations) {
+      if (configuration.complete) {
+        addConfiguration(next, configuration);
+        continue;
+      }
+      if (configuration.pairs.length < 2) {
+        addConfiguration(next, { ...configuration, complete: true });
+        continue;
+      }
+
+      const { controlPairs, targetPairs, unpairedPairs } = preparePairsForCNOT(configuration.pairs, {
+        scheme: this.params.purificationScheme,
+        strategy: this.pairingStrategy()
+      });
+      if (controlPairs.length === 0) {
+        // No pair has a partner (e.g. all generations differ), so nothing can improve any more
+        addConfiguration(next, { ...configuration, complete: true });
+        continue;
+      }
+      rawPairsConsumed += configuration.probability * countRawPairs([...controlPairs, ...targetPairs]);
+
+      // Branch on each match in turn, merging identical partial outcomes as we go
+      let outcomes = new Map<string, Configuration>();
+      addConfiguration(outcomes, { pairs: [], probability: configuration.probability, complete: false });
+      controlPairs.forEach((control, i) => {
+        const { successProbability, fidelity } = purificationOutcome(control.fidelity, targetPairs[i].fidelity);
+        const branched = new Map<string, Configuration>();
+        for (const outcome of outcomes.values()) {
+          addConfiguration(branched, {
+            ...outcome,
+            pairs: [...outcome.pairs, { id: control.id, fidelity, generation: control.generation + 1 }],
+            probability: outcome.probability * successProbability
+          });
+          addConfiguration(branched, {
+            ...outcome,
+            probability: outcome.probability * (1 - successProbability)
+          });
+        }
+        outcomes = branched;
+      });
+
+      // Survivors come first, followed by the pairs that sat out (same order as the other engines)
+      for (const outcome of outcomes.values()) {
+        const pairs = [...outcome.pairs, ...unpairedPairs];
+        const complete = pairs.length < 2 || pairs[0].fidelity >= this.params.targetFidelity;
+        addConfiguration(next, { pairs, probability: outcome.probability, complete });
+      }
+    }
+
+    this.configurations = [...next.values()];
+    this.state.rawPairsConsumed = (this.state.rawPairsConsumed ?? 0) + rawPairsConsumed;
+    this.state.round++;
+    this.state.pairs = this.mostLikelyPairs();
+    this.state.statistics = this.computeStatistics();
+
+    if (this.configurations.every(configuration => configuration.complete)) {
+      this.state.complete = true;
+      this.state.purificationStep = 'completed';
+    }
+  }
+
+  // The ensemble shown in the UI is the single most likely configuration
+  private mostLikelyPairs(): QubitPair[] {
+    const mostLikely = this.configurations.reduce((best, configuration) =>
+      configuration.probability > best.probability ? configuration : best
+    );
+    return mostLikely.pairs.map(pair => ({
+      id: pair.id,
+      densityMatrix: createWernerState(pair.fidelity),
+      fidelity: pair.fidelity,
+      basis: Basis.Bell,
+      generation: pair.generation
+    }));
+  }
+
+  private computeStatistics(): OutcomeStatistics {
+    let expectedPairs = 0;
+    let secondMoment = 0;
+    let targetProbability = 0;
+    let nonEmptyProbability = 0;
+    let fidelitySum = 0;
+    const pairCountDistribution: number[] = Array(this.params.initialPairs + 1).fill(0);
+
+    for (const { pairs, probability } of this.configurations) {
+      const count = pairs.length;
+      expectedPairs += probability * count;
+      secondMoment += probability * count * count;
+      pairCountDistribution[count] += probability;
+      if (pairs.some(pair => pair.fidelity >= this.params.targetFidelity)) {
+        targetProbability += probability;
+      }
+      if (count > 0) {
+        nonEmptyProbability += probability;
+        fidelitySum += probability * pairs.reduce((sum, pair) => sum + pair.fidelity, 0) / count;
+      }
+    }
+
+    return {
+      expectedPairs,
+      // Clamp rounding noise for (nearly) deterministic outcomes
+      pairsVariance: Math.max(secondMoment - expectedPairs * expectedPairs, 0),
+      expectedFidelity: nonEmptyProbability > 0 ? fidelitySum / nonEmptyProbability : 0,
+      targetProbability,
+      pairCountDistribution,
+      configurations: this.configurations.length
+    };
+  }
+
+  // Public methods
+
+  public nextStep(): SimulationState {
+    if (!this.state.complete) {
+      this.purifyRound();
+    }
+    return this.getCurrentState();
+  }
+
+  public step(): SimulationState {
+    // Every step of this engine is already a full round
+    return this.nextStep();
+  }
+
+  public reset(): SimulationState {
+    this.state = this.initialize();
+    return this.getCurrentState();
+  }
+
+  public getCurrentState(): SimulationState {
+    const averageFidelity = calculateAverageFidelity(this.state.pairs);
+    return {
+      ...this.state,
+      averageFidelity
+    };
+  }
+
+  public restoreState(state: SimulationState): void {
+    // The distribution is not part of the state, but it is deterministic, so replay the rounds up to it
+    this.state = this.initialize();
+    while (this.state.round < state.round && !this.state.complete) {
+      this.purifyRound();
+    }
+  }
+
+  public updateParams(params: SimulationParameters): void {
+    this.params = params;
+    this.reset();
+  }
+}
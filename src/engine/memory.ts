@@ -0,0 +1,99 @@
+import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix';
+import { applyAmplitudeDamping, applyDephasing } from '../engine_real_calculations/channels/noise';
+import { BellState } from '../engine_real_calculations/bell/bell-basis';
+import { PurificationStep, QubitPair, SimulationParameters, SimulationState } from './types';
+
+// Per-step decay of a stored qubit, derived from the memory T1/T2 times
+export type MemoryDecay = {
+  gamma: number; // Amplitude damping probability per step
+  dephasing: number; // Additional (pure) dephasing probability per step
+};
+
+/**
+ * Translate the memory parameters into per-step channel strengths.
+ *
+ * Amplitude damping alone already decays coherences with T2 = 2·T1, so only the remaining
+ * pure dephasing rate 1/T2 - 1/(2·T1) is applied on top. Returns null when memory is ideal.
+ */
+export function getMemoryDecay(params: SimulationParameters): MemoryDecay | null {
+  const { memoryT1, memoryT2, stepDuration } = params;
+  if (!stepDuration || stepDuration <= 0) {
+    return null;
+  }
+
+  const t1Rate = memoryT1 && memoryT1 > 0 ? 1 / memoryT1 : 0;
+  const t2Rate = memoryT2 && memoryT2 > 0 ? 1 / memoryT2 : 0;
+  // T2 cannot exceed 2·T1, so the pure dephasing rate is clamped at zero
+  const pureDephasingRate = Math.max(t2Rate - t1Rate / 2, 0);
+
+  if (t1Rate === 0 && pureDephasingRate === 0) {
+    return null;
+  }
+
+  return {
+    gamma: 1 - Math.exp(-stepDuration * t1Rate),
+    dephasing: 1 - Math.exp(-stepDuration * pureDephasingRate)
+  };
+}
+
+/**
+ * Let every qubit of a state (computational basis) wait in memory for one step:
+ * both qubits of a pair, or all four of a joint state during a bilateral CNOT.
+ */
+export function applyMemoryDecoherence(rho: DensityMatrix, decay: MemoryDecay): DensityMatrix {
+  let result = rho;
+  for (let qubit = 0; qubit < Math.log2(rho.rows); qubit++) {
+    if (decay.gamma > 0) {
+      result = applyAmplitudeDamping(result, qubit, decay.gamma);
+    }
+    if (decay.dephasing > 0) {
+      result = applyDephasing(result, qubit, decay.dephasing);
+    }
+  }
+  return result;
+}
+
+/**
+ * The Bell state pairs are compared against at a given step:
+ * |Φ+⟩ between the exchange and the end of the round, |Ψ-⟩ otherwise.
+ */
+export function memoryReferenceState(step: PurificationStep): BellState {
+  switch (step) {
+    case 'exchanged':
+    case 'cnot':
+    case 'measured':
+    case 'discard':
+      return BellState.PHI_PLUS;
+    default:
+      return BellState.PSI_MINUS;
+  }
+}
+
+/**
+ * Apply a per-pair update to every pair the state is holding, including the ones
+ * referenced from a round in progress. Joint states of a running bilateral CNOT go through
+ * updateJoint, so the measurement that follows sees the same change as the pairs.
+ */
+export function mapStoredPairs(
+  state: SimulationState,
+  update: (pair: QubitPair) => QubitPair,
+  updateJoint: (jointState: DensityMatrix) => DensityMatrix = jointState => jointState
+): SimulationState {
+  const pendingPairs = state.pendingPairs && {
+    ...state.pendingPairs,
+    jointStates: state.pendingPairs.jointStates?.map(updateJoint),
+    controlPairs: state.pendingPairs.controlPairs.map(update),
+    targetPairs: state.pendingPairs.targetPairs.map(update),
+    unpairedPairs: state.pendingPairs.unpairedPairs?.map(update),
+    results: state.pendingPairs.results?.map(result => ({
+      ...result,
+      control: update(result.control)
+    }))
+  };
+
+  return {
+    ...state,
+    pairs: state.pairs.map(update),
+    pendingPairs
+  };
+}
@@ -1,52 +1,40 @@
-import {QubitPair, SimulationParameters, SimulationState, ISimulationEngine, Basis, NoiseChannel} from './types';
+import {QubitPair, SimulationParameters, SimulationState, ISimulationEngine, Basis, PurificationScheme} from './types';
 import {DensityMatrix} from "../engine_real_calculations/matrix/densityMatrix";
-import {applyAmplitudeDamping, applyUniformNoise, applyDepolarizing, applyDephasing} from "../engine_real_calculations/channels/noise";
+import {applyTwoQubitDepolarizing} from "../engine_real_calculations/channels/noise";
 import {fidelityFromComputationalBasisMatrix, BellState} from "../engine_real_calculations/bell/bell-basis";
 import {pauliTwirl} from "../engine_real_calculations/operations/pauliTwirling";
+import {applyDejmpsRotation} from "../engine_real_calculations/operations/dejmpsRotation";
 import {applyPauli, applyCNOT, tensor, measureQubit} from "../engine_real_calculations";
 import {partialTrace} from "../engine_real_calculations/operations/partialTrace";
-import {preparePairsForCNOT} from "./operations";
+import {countRawPairs, preparePairsForCNOT} from "./operations";
+import {createInitialPair} from './quantumStates';
 import {calculateAverageFidelity} from '../utils/fidelityUtils';
+import {RandomSource, SeededRandom, createRandomSource} from "../engine_real_calculations/utils/random";
+import {cloneSimulationState} from './snapshot';
+import {applyMemoryDecoherence, getMemoryDecay, mapStoredPairs, memoryReferenceState} from './memory';
 
 /**
  * Monte Carlo Simulation Engine that uses the computational basis for calculations
  * and randomizes operations rather than computing averages.
  */
 export class MonteCarloSimulationEngine implements ISimulationEngine {
-  private params: SimulationParameters;
-  private state: SimulationState;
+  protected params: SimulationParameters;
+  protected state: SimulationState;
+  private random: RandomSource;
   
   constructor(params: SimulationParameters) {
     this.params = params;
+    this.random = createRandomSource(params.seed);
     this.state = this.initialize();
   }
   
   private initialize(): SimulationState {
     const pairs: QubitPair[] = [];
     
-    // Create initial Bell pairs (Psi-minus) and apply noise to Bob's qubit
+    // Create initial Bell pairs (Psi-minus) and apply the configured noise
     for (let i = 0; i < this.params.initialPairs; i++) {
-      // Create a perfect Bell state |Ψ-⟩ = (|01⟩ - |10⟩)/√2
-      const pureRho = DensityMatrix.bellPsiMinus();
-      
-      // Apply selected noise channel to Bob's qubit (qubit 1)
-      let noisyRho: DensityMatrix;
-      switch (this.params.noiseChannel) {
-        case NoiseChannel.Depolarizing:
-          noisyRho = applyDepolarizing(pureRho, 1, this.params.noiseParameter);
-          break;
-        case NoiseChannel.Dephasing:
-          noisyRho = applyDephasing(pureRho, 1, this.params.noiseParameter);
-          break;
-        case NoiseChannel.AmplitudeDamping:
-          noisyRho = applyAmplitudeDamping(pureRho, 1, this.params.noiseParameter);
-          break;
-        case NoiseChannel.UniformNoise:
-          noisyRho = applyUniformNoise(pureRho, 1, this.params.noiseParameter);
-          break;
-        default:
-          throw new Error(`Unknown noise channel: ${this.params.noiseChannel}`);
-      }
+      // Perfect |Ψ-⟩ with Bob's (and, if set, Alice's) noise channel applied
+      const noisyRho = createInitialPair(this.params, this.random, i);
 
       // Calculate fidelity with respect to the Psi-Minus Bell state
       const fidelity = fidelityFromComputationalBasisMatrix(noisyRho, BellState.PSI_MINUS);
@@ -55,7 +43,8 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
         id: i,
         densityMatrix: noisyRho,
         fidelity,
-        basis: Basis.Computational
+        basis: Basis.Computational,
+        generation: 0
       });
     }
     
@@ -66,16 +55,20 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       round: 0,
       complete: false,
       purificationStep: 'initial',
-      averageFidelity
+      averageFidelity,
+      rawPairsConsumed: 0,
+      memoryFidelityLoss: 0,
+      seed: this.params.seed,
+      pumpingHistory: this.isPumping() && pairs.length > 0 ? [pairs[0].fidelity] : undefined
     };
   }
   
   // Step 1: Apply random twirling operations instead of depolarizing
-  private applyRandomTwirling(): void {
+  protected applyRandomTwirling(): void {
     // Apply Pauli twirling to each pair
     this.state.pairs = this.state.pairs.map(pair => {
       // Apply random Pauli twirl to create a Werner state
-      const twirledRho = pauliTwirl(pair.densityMatrix);
+      const twirledRho = this.twirlPair(pair.densityMatrix);
       
       // Recalculate fidelity with respect to the Psi-Minus Bell state
       const fidelity = fidelityFromComputationalBasisMatrix(twirledRho, BellState.PSI_MINUS);
@@ -90,8 +83,13 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     this.state.purificationStep = 'twirled';
   }
   
+  // Local operation applied to every pair in the twirl step
+  protected twirlPair(rho: DensityMatrix): DensityMatrix {
+    return pauliTwirl(rho, this.random);
+  }
+  
   // Step 2: Exchange |Ψ-⟩ and |Φ+⟩ components by applying Y gate on Alice's qubit
-  private exchangePsiPhiComponents(): void {
+  protected exchangePsiPhiComponents(): void {
     // Apply Y gate on Alice's qubit (qubit 0) to exchange Psi-Minus and Phi-Plus
     this.state.pairs = this.state.pairs.map(pair => {
       // Apply Y gate on Alice's qubit to achieve the exchange
@@ -118,7 +116,18 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       return;
     }
     
-    const { controlPairs, targetPairs } = preparePairsForCNOT(this.state.pairs);
+    const { controlPairs, targetPairs, unpairedPairs } = preparePairsForCNOT(this.state.pairs, {
+      scheme: this.params.purificationScheme,
+      strategy: this.params.pairingStrategy,
+      random: this.random
+    });
+    if (controlPairs.length === 0) {
+      // No pair has a partner (e.g. all generations differ), so the run cannot continue
+      this.state.complete = true;
+      this.state.purificationStep = 'completed';
+      return;
+    }
+    this.state.rawPairsConsumed = (this.state.rawPairsConsumed ?? 0) + countRawPairs([...controlPairs, ...targetPairs]);
     const jointStates: DensityMatrix[] = [];
     const updatedControlPairs: QubitPair[] = [];
     const updatedTargetPairs: QubitPair[] = [];
@@ -134,9 +143,11 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       
       // Apply CNOT on Alice's side (qubit 0 controls qubit 2)
       jointState = applyCNOT(jointState, 0, 2);
+      jointState = this.applyCNOTError(jointState, 0, 2);
       
       // Apply CNOT on Bob's side (qubit 1 controls qubit 3)
       jointState = applyCNOT(jointState, 1, 3);
+      jointState = this.applyCNOTError(jointState, 1, 3);
       
       // Store the resulting joint state
       jointStates.push(jointState);
@@ -173,6 +184,7 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     this.state.pendingPairs = {
       controlPairs: updatedControlPairs,
       targetPairs: updatedTargetPairs,
+      unpairedPairs,
       jointStates
     };
     
@@ -196,6 +208,21 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     this.state.purificationStep = 'cnot';
   }
   
+  // Imperfect gate: two-qubit depolarizing error on the qubits the CNOT acted on
+  private applyCNOTError(jointState: DensityMatrix, control: number, target: number): DensityMatrix {
+    const p = this.params.cnotErrorProbability ?? 0;
+    return p > 0 ? applyTwoQubitDepolarizing(jointState, control, target, p) : jointState;
+  }
+  
+  // Imperfect readout: the classical outcome is flipped with the readout error probability
+  private readOutcome(outcome: 0 | 1): 0 | 1 {
+    const p = this.params.readoutErrorProbability ?? 0;
+    if (p > 0 && this.random.next() < p) {
+      return outcome === 0 ? 1 : 0;
+    }
+    return outcome;
+  }
+  
   // Step 4: Perform measurement with Monte Carlo randomization
   private performMeasurement(): void {
     if (!this.state.pendingPairs) {
@@ -221,17 +248,17 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       const jointState = jointStates[i];
       
       // Measure Alice's target qubit (qubit 2)
-      const aliceMeasurement = measureQubit(jointState, 2);
+      const aliceMeasurement = measureQubit(jointState, 2, this.random);
       // console.log('aliceMeasurement', aliceMeasurement);
       // console.log('aliceMeasurement postState', partialTrace(aliceMeasurement.postState, [2]));
 
       // Measure Bob's target qubit (qubit 3) on the post-measurement state
-      const bobMeasurement = measureQubit(aliceMeasurement.postState, 3);
+      const bobMeasurement = measureQubit(aliceMeasurement.postState, 3, this.random);
       // console.log('bobMeasurement', bobMeasurement);
       // console.log('bobMeasurement postState', partialTrace(bobMeasurement.postState, [2,3]));
       
-      // Success if both measurements yield the same result
-      const successful = aliceMeasurement.outcome === bobMeasurement.outcome;
+      // Success if both recorded outcomes agree (the readout may misreport the actual outcome)
+      const successful = this.readOutcome(aliceMeasurement.outcome) === this.readOutcome(bobMeasurement.outcome);
       
       // The post-measurement state is now a 4-qubit state with qubits 2 and 3 measured
       // Trace out qubits 2 and 3 to get the reduced state of the control pair (qubits 0 and 1)
@@ -288,16 +315,14 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     for (const result of this.state.pendingPairs.results) {
       if (result.successful) {
         newPairs.push({
-          ...result.control
+          ...result.control,
+          generation: (result.control.generation ?? 0) + 1
         });
       }
     }
     
-    // If odd number of pairs, the last one doesn't participate
-    const { hasUnpairedPair } = preparePairsForCNOT(this.state.pairs);
-    if (hasUnpairedPair) {
-      newPairs.push(this.state.pairs[this.state.pairs.length - 1]);
-    }
+    // Pairs that did not participate this round are kept as they are
+    newPairs.push(...(this.state.pendingPairs.unpairedPairs ?? []));
     
     this.state.pairs = newPairs;
     this.state.pendingPairs = undefined;
@@ -318,17 +343,55 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       this.state.purificationStep = 'completed';
     } else {
       // Now apply the operations for the next round
-      // First exchange psiPhi components
-      this.exchangePsiPhiComponents();
-      
-      // Then apply random twirling 
-      this.applyRandomTwirling();
+      this.prepareNextRound();
       
       // Reset to initial state for the next round
       this.state.purificationStep = 'initial';
     }
     
     this.state.pendingPairs = undefined;
+    this.recordPumpingHistory();
+  }
+  
+  private isPumping(): boolean {
+    return this.params.purificationScheme === PurificationScheme.Pumping;
+  }
+  
+  // Track the accumulating pair's fidelity after each pumping round
+  private recordPumpingHistory(): void {
+    if (this.state.pumpingHistory && this.state.pairs.length > 0) {
+      this.state.pumpingHistory = [...this.state.pumpingHistory, this.state.pairs[0].fidelity];
+    }
+  }
+  
+  // Stored pairs decohere while they wait in memory for one step
+  private waitInMemory(): void {
+    const decay = getMemoryDecay(this.params);
+    if (!decay) {
+      return;
+    }
+    
+    const reference = memoryReferenceState(this.state.purificationStep);
+    const fidelityBefore = calculateAverageFidelity(this.state.pairs);
+    this.state = mapStoredPairs(this.state, pair => {
+      const decayedRho = applyMemoryDecoherence(pair.densityMatrix, decay);
+      return {
+        ...pair,
+        densityMatrix: decayedRho,
+        fidelity: fidelityFromComputationalBasisMatrix(decayedRho, reference)
+      };
+    }, jointState => applyMemoryDecoherence(jointState, decay));
+    this.state.memoryFidelityLoss = (this.state.memoryFidelityLoss ?? 0) +
+      fidelityBefore - calculateAverageFidelity(this.state.pairs);
+  }
+  
+  // Bring survivors back to the |Ψ-⟩ frame before the next round starts
+  protected prepareNextRound(): void {
+    // First exchange psiPhi components
+    this.exchangePsiPhiComponents();
+    
+    // Then apply random twirling 
+    this.applyRandomTwirling();
   }
   
   // Public methods - same API as AverageSimulationEngine
@@ -338,6 +401,8 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
       return this.getCurrentState();
     }
     
+    this.waitInMemory();
+    
     switch (this.state.purificationStep) {
       case 'initial':
         this.applyRandomTwirling();
@@ -371,21 +436,27 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     // Complete a full round of purification
     if (!this.state.complete) {
       if (this.state.purificationStep === 'initial') {
+        this.waitInMemory();
         this.applyRandomTwirling();
       }
       if (this.state.purificationStep === 'twirled') {
+        this.waitInMemory();
         this.exchangePsiPhiComponents();
       }
       if (this.state.purificationStep === 'exchanged') {
+        this.waitInMemory();
         this.applyBilateralCNOT();
       }
       if (this.state.purificationStep === 'cnot') {
+        this.waitInMemory();
         this.performMeasurement();
       }
       if (this.state.purificationStep === 'measured') {
+        this.waitInMemory();
         this.discardFailed();
       }
       if (this.state.purificationStep === 'discard') {
+        this.waitInMemory();
         this.twirlExchange();
       }
     }
@@ -393,6 +464,8 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
   }
   
   public reset(): SimulationState {
+    // Restart the random sequence too, so a seeded run replays identically
+    this.random = createRandomSource(this.params.seed);
     this.state = this.initialize();
     return this.getCurrentState();
   }
@@ -401,12 +474,49 @@ export class MonteCarloSimulationEngine implements ISimulationEngine {
     const averageFidelity = calculateAverageFidelity(this.state.pairs);
     return { 
       ...this.state,
-      averageFidelity
+      averageFidelity,
+      randomState: this.random instanceof SeededRandom ? this.random.getState() : undefined
     };
   }
   
+  public restoreState(state: SimulationState): void {
+    this.state = cloneSimulationState(state);
+    // Rewind the generator too, so stepping on from here repeats the original run
+    if (state.randomState !== undefined && this.random instanceof SeededRandom) {
+      this.random.setState(state.randomState);
+    }
+  }
+  
   public updateParams(params: SimulationParameters): void {
     this.params = params;
     this.reset();
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * DEJMPS (Deutsch et al.) purification engine.
+ *
+ * Runs the same Monte Carlo round as the BBPSSW engine (exchange, bilateral CNOT, measure,
+ * discard) but replaces the random Pauli twirl with the fixed bilateral ±π/2 rotation.
+ * Pairs are never depolarized to Werner form, so Bell-diagonal weights are kept between rounds.
+ * It lives next to its base class so that `types.ts` can import both without a circular init.
+ */
+export class DejmpsSimulationEngine extends MonteCarloSimulationEngine {
+  // Step 1: Bilateral ±π/2 rotation instead of a Pauli twirl
+  protected twirlPair(rho: DensityMatrix): DensityMatrix {
+    return applyDejmpsRotation(rho);
+  }
+
+  // Step 5b: Only undo the exchange; the rotation is applied again at the start of the next round
+  protected prepareNextRound(): void {
+    this.state.pairs = this.state.pairs.map(pair => {
+      const swappedBack = applyPauli(pair.densityMatrix, [0], ['Y']);
+
+      return {
+        ...pair,
+        densityMatrix: swappedBack,
+        fidelity: fidelityFromComputationalBasisMatrix(swappedBack, BellState.PSI_MINUS)
+      };
+    });
+  }
+}
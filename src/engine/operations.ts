@@ -1,6 +1,7 @@
 import { ComplexNum } from '../engine_real_calculations/types/complex';
 import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix';
-import { QubitPair } from './types';
+import { RandomSource, defaultRandom } from '../engine_real_calculations/utils/random';
+import { PairingStrategy, PurificationScheme, QubitPair } from './types';
 
 // Depolarize/Twirl a pair to convert to Werner form
 export const depolarize = (rho: DensityMatrix): DensityMatrix => {
@@ -40,9 +41,8 @@ export const depolarize = (rho: DensityMatrix): DensityMatrix => {
 
 // Exchange |Ψ⁻⟩ and |Φ⁺⟩ components (Step 2 of BBPSSW)
 export const exchangePsiMinusPhiPlus = (rho: DensityMatrix): DensityMatrix => {
-  // Create a copy of the input density matrix data
-  // NOTE: DensityMatrix constructor likely performs a deep copy if Matrix does
-  const result = new DensityMatrix(rho.data);
+  // Create a copy of the input density matrix
+  const result = new DensityMatrix(rho);
   
   // Exchange the |Ψ⁻⟩ and |Φ⁺⟩ components
   // In Bell basis, |Ψ⁻⟩ is at index 3 and |Φ⁺⟩ is at index 0
@@ -77,8 +77,29 @@ export const exchangePsiMinusPhiPlus = (rho: DensityMatrix): DensityMatrix => {
   return result;
 };
 
+// Success probability and fidelity after success of one BBPSSW step on two Werner pairs
+export const purificationOutcome = (f1: number, f2: number): {
+  successProbability: number,
+  fidelity: number
+} => {
+  // F' = (F1 F2 + (1-F1)(1-F2)/9) / (F1 F2 + F1(1-F2)/3 + (1-F1)F2/3 + 5(1-F1)(1-F2)/9)
+  // For F1 = F2 = f this reduces to the textbook (f^2 + (1-f)^2/9) / (f^2 + 2f(1-f)/3 + 5(1-f)^2/9)
+  const numerator = f1 * f2 + (1 - f1) * (1 - f2) / 9;
+  // The denominator is also the success probability
+  const denominator = f1 * f2 + f1 * (1 - f2) / 3 + (1 - f1) * f2 / 3 + 5 * (1 - f1) * (1 - f2) / 9;
+  return {
+    successProbability: denominator,
+    // Handle potential division by zero or NaN
+    fidelity: denominator === 0 ? 0 : numerator / denominator
+  };
+};
+
 // Create a bilateral CNOT gate operation on two pairs
-export const bilateralCNOT = (control: DensityMatrix, target: DensityMatrix): { 
+export const bilateralCNOT = (
+  control: DensityMatrix,
+  target: DensityMatrix,
+  random: RandomSource = defaultRandom
+): { 
   resultAfterCNOT: DensityMatrix,
   afterMeasurement: { 
     controlPair: DensityMatrix,
@@ -97,21 +118,13 @@ export const bilateralCNOT = (control: DensityMatrix, target: DensityMatrix): {
   // For simplicity, we'll compute the probabilities directly
   
   // In the BBPSSW protocol with |Φ⁺⟩ as the target state after exchange,
-  // the success probability depends on the fidelity F
-  const f = control.get(0, 0).re;
-
-  // Calculate improved fidelity after successful purification
-  // F' = (f^2 + (1-f)^2/9) / (f^2 + 2f(1-f)/3 + 5(1-f)^2/9)
-  const numerator = f * f + Math.pow(1 - f, 2) / 9;
-  const denominator = f * f + 2 * f * (1 - f) / 3 + 5 * Math.pow(1 - f, 2) / 9;
-  // Handle potential division by zero or NaN
-  const fPrime = denominator === 0 ? 0 : numerator / denominator;
-  
-  // Success probability is p_success = f^2 + 2 f (1-f) / 3 + 5 (1-f)^2 /9
-  const successProbability = denominator
+  // the success probability depends on the fidelities F1 (control) and F2 (target)
+  const f1 = control.get(0, 0).re;
+  const f2 = target.get(0, 0).re;
+  const { successProbability, fidelity: fPrime } = purificationOutcome(f1, f2);
   
   // Determine success based on probability
-  const successful = Math.random() < successProbability;
+  const successful = random.next() < successProbability;
   
   let controlPair: DensityMatrix;
   
@@ -141,31 +154,121 @@ export const bilateralCNOT = (control: DensityMatrix, target: DensityMatrix): {
   };
 };
 
+// Pairing only looks at fidelity and generation, so it also works on lighter pair representations
+type PairingCandidate = Pick<QubitPair, 'fidelity' | 'generation'>;
+
+// Order pairs so that neighbours (0 with 1, 2 with 3, ...) form control/target matches,
+// returning the pairs that could not be matched separately
+const matchPairs = <T extends PairingCandidate>(
+  pairs: T[],
+  strategy: PairingStrategy,
+  random: RandomSource
+): { matched: T[], unmatched: T[] } => {
+  const byFidelity = () => [...pairs].sort((a, b) => b.fidelity - a.fidelity);
+  const neighbours = (ordered: T[]) => {
+    const numPairsToProcess = Math.floor(ordered.length / 2) * 2;
+    return {
+      matched: ordered.slice(0, numPairsToProcess),
+      unmatched: ordered.slice(numPairsToProcess)
+    };
+  };
+
+  switch (strategy) {
+    case PairingStrategy.SortByFidelity:
+      return neighbours(byFidelity());
+    case PairingStrategy.BestWithWorst: {
+      const sorted = byFidelity();
+      const matched: T[] = [];
+      for (let i = 0; i < Math.floor(sorted.length / 2); i++) {
+        matched.push(sorted[i], sorted[sorted.length - 1 - i]);
+      }
+      const unmatched = sorted.length % 2 !== 0 ? [sorted[Math.floor(sorted.length / 2)]] : [];
+      return { matched, unmatched };
+    }
+    case PairingStrategy.Random: {
+      // Fisher-Yates shuffle
+      const shuffled = [...pairs];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random.next() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return neighbours(shuffled);
+    }
+    case PairingStrategy.SameGeneration: {
+      // Group by generation (lowest first), pair neighbours within each group
+      const generations = [...new Set(pairs.map(pair => pair.generation ?? 0))].sort((a, b) => a - b);
+      const matched: T[] = [];
+      const unmatched: T[] = [];
+      for (const generation of generations) {
+        const group = neighbours(pairs.filter(pair => (pair.generation ?? 0) === generation));
+        matched.push(...group.matched);
+        unmatched.push(...group.unmatched);
+      }
+      return { matched, unmatched };
+    }
+    case PairingStrategy.IndexOrder:
+    default:
+      return neighbours(pairs);
+  }
+};
+
 // Utility function to prepare control and target pairs for CNOT operation
-export const preparePairsForCNOT = (pairs: QubitPair[]): { 
-  controlPairs: QubitPair[], 
-  targetPairs: QubitPair[],
+export const preparePairsForCNOT = <T extends PairingCandidate>(
+  pairs: T[],
+  options: {
+    scheme?: PurificationScheme,
+    strategy?: PairingStrategy,
+    random?: RandomSource
+  } = {}
+): { 
+  controlPairs: T[], 
+  targetPairs: T[],
+  unpairedPairs: T[],
   hasUnpairedPair: boolean
 } => {
-  const controlPairs: QubitPair[] = [];
-  const targetPairs: QubitPair[] = [];
-  
-  // Group pairs for purification, ensuring we only group complete pairs
-  const numPairsToProcess = Math.floor(pairs.length / 2) * 2;
-  for (let i = 0; i < numPairsToProcess; i++) {
-    if (i % 2 === 0) {
-      controlPairs.push(pairs[i]);
+  const {
+    scheme = PurificationScheme.Recurrence,
+    strategy = PairingStrategy.IndexOrder,
+    random = defaultRandom
+  } = options;
+  const controlPairs: T[] = [];
+  const targetPairs: T[] = [];
+  let unpairedPairs: T[] = [];
+  
+  if (scheme === PurificationScheme.Pumping) {
+    // The accumulating pair (first) is purified by the next elementary pair; everyone else waits
+    if (pairs.length >= 2) {
+      controlPairs.push(pairs[0]);
+      targetPairs.push(pairs[1]);
+      unpairedPairs = pairs.slice(2);
     } else {
-      targetPairs.push(pairs[i]);
+      unpairedPairs = [...pairs];
     }
+  } else {
+    // Group pairs for purification, ensuring we only group complete pairs
+    const { matched, unmatched } = matchPairs(pairs, strategy, random);
+    for (let i = 0; i < matched.length; i++) {
+      if (i % 2 === 0) {
+        controlPairs.push(matched[i]);
+      } else {
+        targetPairs.push(matched[i]);
+      }
+    }
+    unpairedPairs = unmatched;
   }
   
-  // Check if we have an odd number of pairs
-  const hasUnpairedPair = pairs.length % 2 !== 0;
+  // Check if any pair sits out this round
+  const hasUnpairedPair = unpairedPairs.length > 0;
   
   return {
     controlPairs,
     targetPairs,
+    unpairedPairs,
     hasUnpairedPair
   };
-}; 
+};
+
+// Count the raw (never purified) pairs among the given pairs
+export const countRawPairs = (pairs: Pick<QubitPair, 'generation'>[]): number => {
+  return pairs.filter(pair => (pair.generation ?? 0) === 0).length;
+};
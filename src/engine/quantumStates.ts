@@ -1,28 +1,181 @@
 import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix'; // Import class
-import { NoiseChannel } from './types';
+import { Matrix } from '../engine_real_calculations/matrix/matrix';
+import { ComplexNum } from '../engine_real_calculations/types/complex';
+import { BellDiagonalWeights, InitialStateMode, NoiseChannel, QubitNoise, SimulationParameters } from './types';
+import { toComputationalBasis } from '../engine_real_calculations/bell/bell-basis';
 import { 
   applyDepolarizing, 
   applyDephasing, 
   applyAmplitudeDamping, 
-  applyUniformNoise 
+  applyUniformNoise,
+  applyCustomKraus,
+  applyCorrelatedDephasing,
+  applyTwoQubitDepolarizing,
+  applyBitFlip,
+  applyBitPhaseFlip,
+  applyGeneralizedAmplitudeDamping,
+  applyPauliChannel,
+  uniformNoiseFidelity
 } from '../engine_real_calculations/channels/noise';
+import { RandomSource, defaultRandom } from '../engine_real_calculations/utils/random';
 
-// Create a noisy EPR pair using selected noise channel
-export const createNoisyEPRWithChannel = (noiseParam: number, noiseChannel: NoiseChannel): DensityMatrix => {
-  // Start with perfect Bell state |Ψ-⟩ in computational basis
-  const pureRho = DensityMatrix.bellPsiMinus();
-  
-  // Apply selected noise to Bob's qubit (qubit 1)
-  switch (noiseChannel) {
+// Apply a noise channel to one qubit of a pair; two-qubit channels act on the whole pair
+export const applyNoiseChannel = (
+  rho: DensityMatrix,
+  qubit: number,
+  noise: QubitNoise,
+  random: RandomSource = defaultRandom
+): DensityMatrix => {
+  const { channel, parameter } = noise;
+  switch (channel) {
     case NoiseChannel.Depolarizing:
-      return applyDepolarizing(pureRho, 1, noiseParam);
+      return applyDepolarizing(rho, qubit, parameter);
     case NoiseChannel.Dephasing:
-      return applyDephasing(pureRho, 1, noiseParam);
+      return applyDephasing(rho, qubit, parameter);
+    case NoiseChannel.BitFlip:
+      return applyBitFlip(rho, qubit, parameter);
+    case NoiseChannel.BitPhaseFlip:
+      return applyBitPhaseFlip(rho, qubit, parameter);
     case NoiseChannel.AmplitudeDamping:
-      return applyAmplitudeDamping(pureRho, 1, noiseParam);
+      return applyAmplitudeDamping(rho, qubit, parameter);
+    case NoiseChannel.GeneralizedAmplitudeDamping:
+      return applyGeneralizedAmplitudeDamping(rho, qubit, parameter, noise.thermalPopulation ?? 0);
     case NoiseChannel.UniformNoise:
-      return applyUniformNoise(pureRho, 1, noiseParam);
+      return applyUniformNoise(rho, qubit, parameter, random);
+    case NoiseChannel.CorrelatedDephasing:
+      return applyCorrelatedDephasing(rho, 0, 1, parameter);
+    case NoiseChannel.CorrelatedDepolarizing:
+      return applyTwoQubitDepolarizing(rho, 0, 1, parameter);
+    case NoiseChannel.Pauli: {
+      if (!noise.pauliProbabilities) {
+        throw new Error('The Pauli channel needs X, Y and Z probabilities');
+      }
+      const { x, y, z } = noise.pauliProbabilities;
+      return applyPauliChannel(rho, qubit, x, y, z);
+    }
+    case NoiseChannel.CustomKraus:
+      if (!noise.krausOperators) {
+        throw new Error('The custom Kraus channel needs Kraus operators');
+      }
+      return applyCustomKraus(rho, qubit, noise.krausOperators.map(entries => new Matrix(entries)));
     default:
-      throw new Error(`Unknown noise channel: ${noiseChannel}`);
+      throw new Error(`Unknown noise channel: ${channel}`);
+  }
+};
+
+// Create a noisy EPR pair using selected noise channel
+export const createNoisyEPRWithChannel = (
+  noiseParam: number,
+  noiseChannel: NoiseChannel,
+  random: RandomSource = defaultRandom,
+  krausOperators?: ComplexNum[][][] // Only used by the custom Kraus channel
+): DensityMatrix => {
+  // Start with perfect Bell state |Ψ-⟩ in computational basis and apply the noise to Bob's qubit (qubit 1)
+  return applyNoiseChannel(
+    DensityMatrix.bellPsiMinus(),
+    1,
+    { channel: noiseChannel, parameter: noiseParam, krausOperators },
+    random
+  );
+};
+
+/**
+ * Initial pair of a run, in the computational basis.
+ * In channel mode, Bob's qubit gets noiseChannel/noiseParameter, then Alice's qubit gets aliceNoise (if set).
+ * Bob's noise is drawn first, so runs without aliceNoise use the random source exactly as before.
+ * The other modes build the state directly and ignore the noise settings, and so does a state given for
+ * this pair in pairInitialStates.
+ */
+export const createInitialPair = (
+  params: SimulationParameters,
+  random: RandomSource = defaultRandom,
+  pairIndex?: number
+): DensityMatrix => {
+  const pairState = pairIndex === undefined ? undefined : params.pairInitialStates?.[pairIndex];
+  if (pairState) {
+    return new DensityMatrix(pairState);
   }
-}; 
\ No newline at end of file
+
+  switch (params.initialStateMode) {
+    case InitialStateMode.BellDiagonal:
+      if (!params.bellDiagonalWeights) {
+        throw new Error('The Bell-diagonal initial state needs weights');
+      }
+      return new DensityMatrix(toComputationalBasis(createBellDiagonalState(params.bellDiagonalWeights)));
+    case InitialStateMode.Werner:
+      if (params.wernerFidelity === undefined || params.wernerFidelity < 0 || params.wernerFidelity > 1) {
+        throw new Error('The Werner initial state needs a fidelity between 0 and 1');
+      }
+      return new DensityMatrix(toComputationalBasis(createWernerState(params.wernerFidelity)));
+    case InitialStateMode.Imported:
+      if (!params.importedState) {
+        throw new Error('The imported initial state needs a density matrix');
+      }
+      return new DensityMatrix(params.importedState);
+  }
+
+  const bob: QubitNoise = {
+    channel: params.noiseChannel,
+    parameter: params.noiseParameter,
+    krausOperators: params.krausOperators,
+    thermalPopulation: params.thermalPopulation,
+    pauliProbabilities: params.pauliProbabilities
+  };
+  const rho = applyNoiseChannel(DensityMatrix.bellPsiMinus(), 1, bob, random);
+  return params.aliceNoise ? applyNoiseChannel(rho, 0, params.aliceNoise, random) : rho;
+};
+
+// A channel averaged over its random draws; uniform noise is the only channel that draws, and its average is depolarizing
+const expectedNoise = (noise: QubitNoise): QubitNoise =>
+  noise.channel === NoiseChannel.UniformNoise
+    ? { channel: NoiseChannel.Depolarizing, parameter: 1 - uniformNoiseFidelity(noise.parameter) }
+    : noise;
+
+/**
+ * createInitialPair averaged over the random draws of its noise channels, for engines that do not sample.
+ * The result does not depend on the seed.
+ */
+export const createExpectedInitialPair = (params: SimulationParameters, pairIndex?: number): DensityMatrix => {
+  const bob = expectedNoise({ channel: params.noiseChannel, parameter: params.noiseParameter });
+  return createInitialPair({
+    ...params,
+    noiseChannel: bob.channel,
+    noiseParameter: bob.parameter,
+    aliceNoise: params.aliceNoise && expectedNoise(params.aliceNoise)
+  }, defaultRandom, pairIndex);
+};
+
+// Diagonal density matrix (Bell basis) with the given weights of Φ+, Φ-, Ψ+, Ψ-
+const bellDiagonalMatrix = (diagonal: number[]): DensityMatrix =>
+  new DensityMatrix(diagonal.map((value, i) =>
+    diagonal.map((_, j) => ({ re: i === j ? value : 0, im: 0 }))
+  ));
+
+/**
+ * Check that Bell-diagonal weights describe a state: four non-negative weights summing to 1 (within the tolerance).
+ * Throws an error describing the first problem found.
+ */
+export const validateBellDiagonalWeights = (weights: number[], tolerance: number = 1e-6): void => {
+  if (weights.length !== 4) {
+    throw new Error(`Bell-diagonal states need 4 weights, but ${weights.length} were given`);
+  }
+  if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) {
+    throw new Error('Bell-diagonal weights must be non-negative numbers');
+  }
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+  if (Math.abs(sum - 1) > tolerance) {
+    throw new Error(`Bell-diagonal weights must sum to 1, but they sum to ${sum.toFixed(4)}`);
+  }
+};
+
+// Create a Bell-diagonal state with the given weights, in the Bell basis
+export const createBellDiagonalState = (weights: BellDiagonalWeights): DensityMatrix => {
+  validateBellDiagonalWeights(weights);
+  return bellDiagonalMatrix(weights);
+};
+
+// Create a Werner state with the given |Ψ-⟩ fidelity, in the Bell basis
+export const createWernerState = (fidelity: number): DensityMatrix => {
+  const nonTarget = (1 - fidelity) / 3;
+  return bellDiagonalMatrix([nonTarget, nonTarget, nonTarget, fidelity]); // Φ+, Φ-, Ψ+, Ψ-
+};
@@ -0,0 +1,55 @@
+import { QubitPair, SimulationState } from './types';
+import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix';
+import { MatrixValues } from '../engine_real_calculations/matrix/matrix';
+
+// Copy of a state with every density matrix replaced by fn(matrix)
+function mapDensityMatrices(
+  state: SimulationState,
+  fn: (rho: DensityMatrix) => DensityMatrix
+): SimulationState {
+  const mapPair = (pair: QubitPair): QubitPair => ({
+    ...pair,
+    densityMatrix: fn(pair.densityMatrix)
+  });
+
+  const pendingPairs = state.pendingPairs && {
+    controlPairs: state.pendingPairs.controlPairs.map(mapPair),
+    targetPairs: state.pendingPairs.targetPairs.map(mapPair),
+    unpairedPairs: state.pendingPairs.unpairedPairs?.map(mapPair),
+    jointStates: state.pendingPairs.jointStates?.map(fn),
+    results: state.pendingPairs.results?.map(result => ({
+      ...result,
+      control: mapPair(result.control)
+    }))
+  };
+
+  return {
+    ...state,
+    pairs: state.pairs.map(mapPair),
+    pumpingHistory: state.pumpingHistory && [...state.pumpingHistory],
+    statistics: state.statistics && {
+      ...state.statistics,
+      pairCountDistribution: [...state.statistics.pairCountDistribution]
+    },
+    pendingPairs
+  };
+}
+
+/**
+ * Deep copy of a simulation state, including every density matrix.
+ * Engines update their state in place, so snapshots kept for later (e.g. undo history) must not share any of it.
+ */
+export function cloneSimulationState(state: SimulationState): SimulationState {
+  return mapDensityMatrices(state, rho => rho.clone());
+}
+
+/**
+ * Turn a state that went through `postMessage` back into a usable one.
+ * Structured cloning keeps the matrix storage but drops the classes, so each density matrix is rebuilt
+ * around its (already normalized) values.
+ */
+export function reviveSimulationState(state: SimulationState): SimulationState {
+  return mapDensityMatrices(state, rho =>
+    new DensityMatrix(rho as unknown as MatrixValues, { normalize: false })
+  );
+}
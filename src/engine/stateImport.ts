@@ -0,0 +1,196 @@
+import { Basis } from './types';
+import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix';
+import { Matrix } from '../engine_real_calculations/matrix/matrix';
+import { ComplexNum } from '../engine_real_calculations/types/complex';
+import { toComputationalBasis } from '../engine_real_calculations/bell/bell-basis';
+import { parseComplex } from '../engine_real_calculations/channels/krausParser';
+
+export type ImportFormat = 'json' | 'csv';
+
+// Imported states are two-qubit density matrices
+const SIZE = 4;
+
+// JSON starts with an array or object; anything else is read as CSV
+export function detectImportFormat(text: string): ImportFormat {
+  const first = text.trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+}
+
+// One JSON entry: a number, [re, im], { re, im } or a string such as "0.5-0.2i"
+function jsonEntry(value: unknown, i: number, j: number): ComplexNum {
+  const where = `Entry (${i + 1}, ${j + 1})`;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return ComplexNum.fromReal(value);
+  }
+  if (Array.isArray(value) && value.length === 2 && value.every(part => typeof part === 'number' && Number.isFinite(part))) {
+    return new ComplexNum(value[0], value[1]);
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const { re, im = 0 } = value as { re?: unknown; im?: unknown };
+    if (typeof re === 'number' && typeof im === 'number' && Number.isFinite(re) && Number.isFinite(im)) {
+      return new ComplexNum(re, im);
+    }
+  }
+  if (typeof value === 'string') {
+    try {
+      return parseComplex(value);
+    } catch (error) {
+      throw new Error(`${where}: ${(error as Error).message}`);
+    }
+  }
+  throw new Error(`${where} is not a complex number; use a number, [re, im], {"re": …, "im": …} or a string like "0.5-0.2i"`);
+}
+
+/**
+ * Parse a 4×4 matrix from JSON: an array of 4 rows of 4 entries, or 16 entries in row-major order.
+ * An object with the matrix under "matrix" or "densityMatrix" is accepted too.
+ */
+export function parseDensityMatrixJson(text: string): ComplexNum[][] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The text is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+    const wrapper = json as { matrix?: unknown; densityMatrix?: unknown };
+    json = wrapper.matrix ?? wrapper.densityMatrix;
+  }
+  if (!Array.isArray(json)) {
+    throw new Error('Expected a JSON array of matrix entries');
+  }
+
+  const entries = json;
+  if (entries.length === SIZE * SIZE) {
+    return Array.from({ length: SIZE }, (_, i) =>
+      Array.from({ length: SIZE }, (_, j) => jsonEntry(entries[i * SIZE + j], i, j))
+    );
+  }
+  if (entries.length !== SIZE || !entries.every(row => Array.isArray(row) && row.length === SIZE)) {
+    throw new Error(`Expected ${SIZE} rows of ${SIZE} entries (or ${SIZE * SIZE} entries in row-major order)`);
+  }
+  return (entries as unknown[][]).map((row, i) => row.map((value, j) => jsonEntry(value, i, j)));
+}
+
+/**
+ * Parse a 4×4 matrix from CSV with one entry per line. Fields are separated by commas, semicolons or tabs,
+ * and empty lines and lines starting with # are skipped.
+ *
+ * Without a header, lines are either `re,im` (16 lines in row-major order) or `row,col,re,im`.
+ * A header names the columns instead: `re` and `im` (or `real` and `imag`), plus optionally `row` and `col`.
+ * Row and column indices start at 0, like the computational basis states |00⟩ … |11⟩.
+ */
+export function parseDensityMatrixCsv(text: string): ComplexNum[][] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ fields: line.split(/[,;\t]/).map(field => field.trim()), number: index + 1 }))
+    .filter(({ fields }) => fields.join('') !== '' && !fields[0].startsWith('#'));
+  if (lines.length === 0) {
+    throw new Error('The CSV has no entries');
+  }
+
+  let columns: { row?: number; col?: number; re: number; im: number };
+  const isHeader = lines[0].fields.some(field => !Number.isFinite(Number(field)));
+  if (isHeader) {
+    const names = lines.shift()!.fields.map(field => field.toLowerCase());
+    const find = (...aliases: string[]) => {
+      const index = names.findIndex(name => aliases.includes(name));
+      return index < 0 ? undefined : index;
+    };
+    const re = find('re', 'real');
+    const im = find('im', 'imag', 'imaginary');
+    if (re === undefined || im === undefined) {
+      throw new Error('The CSV header needs "re" and "im" columns');
+    }
+    columns = { row: find('row', 'i'), col: find('col', 'column', 'j'), re, im };
+    if ((columns.row === undefined) !== (columns.col === undefined)) {
+      throw new Error('The CSV header needs both "row" and "col" columns, or neither');
+    }
+  } else if (lines[0].fields.length === 2) {
+    columns = { re: 0, im: 1 };
+  } else if (lines[0].fields.length === 4) {
+    columns = { row: 0, col: 1, re: 2, im: 3 };
+  } else {
+    throw new Error('CSV lines need 2 columns (re, im) or 4 columns (row, col, re, im)');
+  }
+
+  const number = (fields: string[], column: number, line: number): number => {
+    const value = Number(fields[column]);
+    if (fields[column] === undefined || fields[column] === '' || !Number.isFinite(value)) {
+      throw new Error(`Line ${line}: "${fields[column] ?? ''}" is not a number`);
+    }
+    return value;
+  };
+
+  const entries: (ComplexNum | undefined)[][] = Array.from({ length: SIZE }, () => new Array(SIZE).fill(undefined));
+  if (columns.row === undefined || columns.col === undefined) {
+    if (lines.length !== SIZE * SIZE) {
+      throw new Error(`Expected ${SIZE * SIZE} entries in row-major order, but the CSV has ${lines.length}`);
+    }
+    lines.forEach(({ fields, number: line }, k) => {
+      entries[Math.floor(k / SIZE)][k % SIZE] = new ComplexNum(number(fields, columns.re, line), number(fields, columns.im, line));
+    });
+  } else {
+    for (const { fields, number: line } of lines) {
+      const i = number(fields, columns.row, line);
+      const j = number(fields, columns.col, line);
+      if (![i, j].every(index => Number.isInteger(index) && index >= 0 && index < SIZE)) {
+        throw new Error(`Line ${line}: row and column must be whole numbers from 0 to ${SIZE - 1}`);
+      }
+      if (entries[i][j]) {
+        throw new Error(`Line ${line}: entry (${i}, ${j}) is given twice`);
+      }
+      entries[i][j] = new ComplexNum(number(fields, columns.re, line), number(fields, columns.im, line));
+    }
+  }
+
+  return entries.map((row, i) => row.map((entry, j) => {
+    if (!entry) {
+      throw new Error(`Entry (${i}, ${j}) is missing`);
+    }
+    return entry;
+  }));
+}
+
+/**
+ * Check that a matrix is a physical state: Hermitian with trace 1 (DensityMatrix.validate) and positive semidefinite.
+ * Throws an error describing the first problem found.
+ */
+export function checkDensityMatrix(rho: DensityMatrix, tolerance: number = 1e-4): void {
+  if (!rho.validate(tolerance)) {
+    const trace = rho.trace();
+    if (Math.abs(trace.re - 1) > tolerance || Math.abs(trace.im) > tolerance) {
+      throw new Error(`The trace is ${trace.re.toFixed(4)} instead of 1`);
+    }
+    for (let i = 0; i < rho.rows; i++) {
+      for (let j = i + 1; j < rho.cols; j++) {
+        const a = rho.get(i, j);
+        const b = rho.get(j, i);
+        if (Math.abs(a.re - b.re) > tolerance || Math.abs(a.im + b.im) > tolerance) {
+          throw new Error(`The matrix is not Hermitian: entry (${j + 1}, ${i + 1}) is not the complex conjugate of entry (${i + 1}, ${j + 1})`);
+        }
+      }
+    }
+  }
+  if (!rho.isPositiveSemidefinite(tolerance)) {
+    throw new Error('The matrix is not positive semidefinite: it has a negative eigenvalue');
+  }
+}
+
+/**
+ * Read a two-qubit density matrix from JSON or CSV text (see parseDensityMatrixJson and parseDensityMatrixCsv),
+ * given in the computational or Bell basis (Φ+, Φ-, Ψ+, Ψ- order). Returns it in the computational basis,
+ * the basis engines expect for initial pairs, after checking with checkDensityMatrix.
+ */
+export function importDensityMatrix(
+  text: string,
+  basis: Basis,
+  format: ImportFormat = detectImportFormat(text)
+): DensityMatrix {
+  const entries = format === 'json' ? parseDensityMatrixJson(text) : parseDensityMatrixCsv(text);
+  const matrix = new Matrix(entries);
+  const rho = new DensityMatrix(basis === Basis.Bell ? toComputationalBasis(matrix) : matrix, { normalize: false });
+  checkDensityMatrix(rho);
+  // Remove the rounding left in measured data
+  return rho.normalize();
+}
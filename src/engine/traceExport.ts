@@ -0,0 +1,162 @@
+import { Basis, EngineType, QubitPair, SimulationParameters, SimulationState } from './types';
+import { Matrix } from '../engine_real_calculations/matrix/matrix';
+import { toComputationalBasis } from '../engine_real_calculations/bell/bell-basis';
+
+export type TraceFormat = 'json' | 'csv';
+
+// Bump when the layout of TraceExport changes, so notebooks can tell old files apart
+export const TRACE_FORMAT_VERSION = 1;
+
+// Density matrices are exported in the computational basis as rows of [re, im] entries
+export type ExportedMatrix = [number, number][][];
+
+export interface ExportedPair {
+  id: number;
+  fidelity: number;
+  generation?: number;
+  densityMatrix: ExportedMatrix;
+}
+
+// Who does what in the round in progress; pairs are referred to by id
+export interface ExportedPendingPairs {
+  matches: { control: number; target: number }[]; // control[i] is purified with target[i]
+  unpaired: number[];
+  results?: { control: number; successful: boolean; fidelity: number }[];
+}
+
+export interface ExportedState {
+  index: number; // Position in the trace, from 0
+  round: number;
+  purificationStep: SimulationState['purificationStep'];
+  complete: boolean;
+  averageFidelity: number;
+  pairs: ExportedPair[];
+  pending?: ExportedPendingPairs;
+}
+
+export interface TraceExport {
+  format: 'epp-simulation-trace';
+  version: typeof TRACE_FORMAT_VERSION;
+  exportedAt: string; // ISO 8601
+  engineType: EngineType;
+  parameters: SimulationParameters;
+  states: ExportedState[];
+}
+
+function computationalMatrix(pair: QubitPair): ExportedMatrix {
+  const rho: Matrix = pair.basis === Basis.Bell ? toComputationalBasis(pair.densityMatrix) : pair.densityMatrix;
+  return rho.data.map(row => row.map(({ re, im }) => [re, im] as [number, number]));
+}
+
+function exportPair(pair: QubitPair): ExportedPair {
+  return {
+    id: pair.id,
+    fidelity: pair.fidelity,
+    generation: pair.generation,
+    densityMatrix: computationalMatrix(pair)
+  };
+}
+
+function exportPending(pending: NonNullable<SimulationState['pendingPairs']>): ExportedPendingPairs {
+  return {
+    matches: pending.controlPairs.map((control, i) => ({ control: control.id, target: pending.targetPairs[i]?.id })),
+    unpaired: (pending.unpairedPairs ?? []).map(pair => pair.id),
+    results: pending.results?.map(result => ({
+      control: result.control.id,
+      successful: result.successful,
+      fidelity: result.control.fidelity
+    }))
+  };
+}
+
+export function exportState(state: SimulationState, index: number): ExportedState {
+  return {
+    index,
+    round: state.round,
+    purificationStep: state.purificationStep,
+    complete: state.complete,
+    averageFidelity: state.averageFidelity,
+    pairs: state.pairs.map(exportPair),
+    pending: state.pendingPairs && exportPending(state.pendingPairs)
+  };
+}
+
+/**
+ * Versioned JSON of a whole trace: the parameters of the run and every state in order,
+ * with the full density matrix of each pair.
+ */
+export function createTraceJson(
+  states: SimulationState[],
+  parameters: SimulationParameters,
+  engineType: EngineType,
+  exportedAt: Date = new Date()
+): string {
+  const trace: TraceExport = {
+    format: 'epp-simulation-trace',
+    version: TRACE_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    engineType,
+    parameters,
+    states: states.map(exportState)
+  };
+  return JSON.stringify(trace, null, 2);
+}
+
+const MATRIX_COLUMNS = Array.from({ length: 16 }, (_, k) => {
+  const i = Math.floor(k / 4);
+  const j = k % 4;
+  return [`rho_${i}${j}_re`, `rho_${i}${j}_im`];
+}).flat();
+
+export const TRACE_CSV_COLUMNS = [
+  'state', 'round', 'step', 'complete', 'pair_id', 'generation', 'fidelity', 'role', 'partner_id', 'result',
+  ...MATRIX_COLUMNS
+];
+
+// Role of a pair in the round in progress, with its partner and, once measured, the outcome
+function pairRoles(pending: ExportedPendingPairs | undefined): Map<number, [string, string, string]> {
+  const roles = new Map<number, [string, string, string]>();
+  if (!pending) {
+    return roles;
+  }
+  for (const { control, target } of pending.matches) {
+    const result = pending.results?.find(r => r.control === control);
+    const outcome = result ? (result.successful ? 'success' : 'failure') : '';
+    roles.set(control, ['control', String(target ?? ''), outcome]);
+    if (target !== undefined) {
+      roles.set(target, ['target', String(control), outcome]);
+    }
+  }
+  for (const id of pending.unpaired) {
+    roles.set(id, ['unpaired', '', '']);
+  }
+  return roles;
+}
+
+/**
+ * Flattened trace with one line per pair per state. The density matrix (computational basis) is spread
+ * over rho_ij_re / rho_ij_im columns; role, partner_id and result describe the round in progress.
+ */
+export function createTraceCsv(states: SimulationState[]): string {
+  const lines = [TRACE_CSV_COLUMNS.join(',')];
+  states.map(exportState).forEach(state => {
+    const roles = pairRoles(state.pending);
+    for (const pair of state.pairs) {
+      const [role, partner, result] = roles.get(pair.id) ?? ['', '', ''];
+      lines.push([
+        state.index,
+        state.round,
+        state.purificationStep,
+        state.complete,
+        pair.id,
+        pair.generation ?? '',
+        pair.fidelity,
+        role,
+        partner,
+        result,
+        ...pair.densityMatrix.flat(2)
+      ].join(','));
+    }
+  });
+  return lines.join('\n') + '\n';
+}
@@ -1,6 +1,8 @@
 import { DensityMatrix } from "../engine_real_calculations/matrix/densityMatrix";
-import { MonteCarloSimulationEngine } from './monteCarloSimulationEngine';
+import { ComplexNum } from "../engine_real_calculations/types/complex";
+import { MonteCarloSimulationEngine, DejmpsSimulationEngine } from './monteCarloSimulationEngine';
 import { AverageSimulationEngine } from './averageSimulationEngine';
+import { ExactSimulationEngine } from './exactSimulationEngine';
 
 export enum Basis {
   'Bell' = 'bell',
@@ -11,7 +13,58 @@ export enum NoiseChannel {
   UniformNoise = 'uniform-noise',
   AmplitudeDamping = 'amplitude-damping',
   Dephasing = 'dephasing',
-  Depolarizing = 'depolarizing'
+  Depolarizing = 'depolarizing',
+  CustomKraus = 'custom-kraus', // User-defined Kraus operators (SimulationParameters.krausOperators)
+  CorrelatedDephasing = 'correlated-dephasing', // Two-qubit: the same phase flip on both qubits of the pair
+  CorrelatedDepolarizing = 'correlated-depolarizing', // Two-qubit: one of the 15 two-qubit Pauli errors on the pair
+  BitFlip = 'bit-flip',
+  BitPhaseFlip = 'bit-phase-flip',
+  GeneralizedAmplitudeDamping = 'generalized-amplitude-damping', // Noise parameter is the damping rate
+  Pauli = 'pauli' // Independent X, Y and Z probabilities (pauliProbabilities); the noise parameter is not used
+}
+
+// Probabilities of an X, Y and Z error in the Pauli channel; they must sum to at most 1
+export type PauliProbabilities = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+// How the initial pairs are prepared
+export enum InitialStateMode {
+  Channel = 'channel', // |Ψ-⟩ sent through the noise channels
+  BellDiagonal = 'bell-diagonal', // Given Bell-diagonal weights (bellDiagonalWeights)
+  Werner = 'werner', // Werner state with the given |Ψ-⟩ fidelity (wernerFidelity)
+  Imported = 'imported' // The same imported density matrix for every pair (importedState)
+}
+
+// Weights of Φ+, Φ-, Ψ+ and Ψ-, in this order; non-negative and summing to 1
+export type BellDiagonalWeights = [number, number, number, number];
+
+// Noise on one side of each initial pair; two-qubit channels act on the whole pair
+export type QubitNoise = {
+  channel: NoiseChannel;
+  parameter: number;
+  krausOperators?: ComplexNum[][][]; // Custom Kraus channel only
+  thermalPopulation?: number; // Generalized amplitude damping only (defaults to 0)
+  pauliProbabilities?: PauliProbabilities; // Pauli channel only
+};
+
+// How pairs are combined in each purification round
+export enum PurificationScheme {
+  // Recurrence: the ensemble is split into control/target halves of equal generation every round
+  Recurrence = 'recurrence',
+  // Pumping (Dür–Briegel): one accumulating pair is repeatedly purified by fresh elementary pairs
+  Pumping = 'pumping'
+}
+
+// How pairs are matched for the bilateral CNOT in the recurrence scheme
+export enum PairingStrategy {
+  IndexOrder = 'index-order', // Neighbours by array index (0 with 1, 2 with 3, ...)
+  SortByFidelity = 'sort-by-fidelity', // Sort by fidelity, then pair neighbours (best with second best, ...)
+  BestWithWorst = 'best-with-worst', // Best remaining pair with worst remaining pair
+  Random = 'random', // Random matching
+  SameGeneration = 'same-generation' // Only pair pairs that went through the same number of rounds
 }
 
 export type QubitPair = {
@@ -19,6 +72,7 @@ export type QubitPair = {
   densityMatrix: DensityMatrix; // Placeholder - will be updated later if needed by other files
   basis: Basis;
   fidelity: number;
+  generation?: number; // Number of successful purification rounds this pair went through (0 = raw pair)
 };
 
 export type SimulationParameters = {
@@ -26,6 +80,33 @@ export type SimulationParameters = {
   noiseParameter: number;  // Controls the amount of noise in initial pairs
   targetFidelity: number;  // Purification target
   noiseChannel: NoiseChannel; // Type of noise to apply
+  initialStateMode?: InitialStateMode; // Defaults to channel; the other modes ignore all noise settings
+  bellDiagonalWeights?: BellDiagonalWeights; // Bell-diagonal mode only
+  wernerFidelity?: number; // Werner mode only
+  importedState?: ComplexNum[][]; // Imported mode only: 4×4 density matrix in the computational basis
+  pairInitialStates?: Record<number, ComplexNum[][]>; // Initial states of individual pairs by index (computational basis), in any mode
+  krausOperators?: ComplexNum[][][]; // Entries of the Kraus operators, 2×2 (Bob's qubit) or 4×4 (both qubits); custom Kraus channel only
+  thermalPopulation?: number; // Excited-state population of the bath for generalized amplitude damping (defaults to 0)
+  pauliProbabilities?: PauliProbabilities; // Pauli channel only
+  aliceNoise?: QubitNoise; // Noise on Alice's qubit, applied after Bob's (unset = Alice's qubit stays perfect)
+  purificationScheme?: PurificationScheme; // Defaults to recurrence
+  pairingStrategy?: PairingStrategy; // Defaults to index order (recurrence scheme only)
+  cnotErrorProbability?: number; // Two-qubit depolarizing probability after each CNOT gate (Monte Carlo engines, defaults to 0)
+  readoutErrorProbability?: number; // Probability that a measurement outcome is flipped when read out (Monte Carlo engines, defaults to 0)
+  memoryT1?: number; // Memory relaxation time, in the same unit as stepDuration (unset = no relaxation)
+  memoryT2?: number; // Memory coherence time, in the same unit as stepDuration (unset = no dephasing)
+  stepDuration?: number; // Time stored pairs wait in memory per step (unset or 0 = ideal memory)
+  seed?: number; // Seed for all random draws of a run (unset = Math.random, not reproducible)
+};
+
+// Outcome distribution of the exact engine after the current round
+export type OutcomeStatistics = {
+  expectedPairs: number; // Expected number of surviving pairs
+  pairsVariance: number; // Variance of the number of surviving pairs
+  expectedFidelity: number; // Expected average fidelity, over outcomes that still have pairs
+  targetProbability: number; // Probability that at least one pair has reached targetFidelity
+  pairCountDistribution: number[]; // Probability of having k pairs left, indexed by k
+  configurations: number; // Number of distinct ensemble configurations being tracked
 };
 
 export type PurificationStep = 'initial' | 'twirled' | 'exchanged' | 'cnot' | 'measured' | 'discard' | 'twirlExchange' | 'completed';
@@ -36,9 +117,16 @@ export interface SimulationState {
   complete: boolean;
   purificationStep: PurificationStep;  // Track which step we're on within a round
   averageFidelity: number; // Add average fidelity calculation
+  rawPairsConsumed?: number; // Number of raw (generation 0) pairs that entered a bilateral CNOT so far
+  pumpingHistory?: number[]; // Fidelity of the accumulating pair after each round (pumping scheme only)
+  memoryFidelityLoss?: number; // Average fidelity lost to memory decoherence so far
+  seed?: number; // Seed the run was started with (undefined for unseeded runs)
+  randomState?: number; // Generator state at this point of a seeded run, so a restored state continues identically
+  statistics?: OutcomeStatistics; // Only reported by the exact engine
   pendingPairs?: { // Store intermediate state during a round
     controlPairs: QubitPair[];
     targetPairs: QubitPair[];
+    unpairedPairs?: QubitPair[]; // Pairs that sit out this round
     jointStates?: DensityMatrix[]; // Store the 4-qubit joint states after applying bilateral CNOT
     results?: {
       control: QubitPair;
@@ -53,6 +141,7 @@ export interface ISimulationEngine {
   step(): SimulationState;
   reset(): SimulationState;
   getCurrentState(): SimulationState;
+  restoreState(state: SimulationState): void; // Continue from an earlier state of the same run (e.g. undo)
   updateParams(params: SimulationParameters): void;
 }
 
@@ -69,6 +158,16 @@ export enum EngineType {
     When we calculate the twirling procedure we actually randomize the twirling operation and don't calculate the average.
    */
   MonteCarlo = 'monte-carlo',
+  /*
+    The DEJMPS protocol (Deutsch et al.) runs like the monte-carlo engine, but replaces the random twirl
+    with bilateral ±π/2 rotations. States are not forced into Werner form, so Bell-diagonal weights survive between rounds.
+   */
+  Dejmps = 'dejmps',
+  /*
+    The exact engine never samples outcomes. It propagates the probability distribution over all ensemble
+    configurations (number of pairs and their fidelities) from round to round, and reports expected yields.
+   */
+  Exact = 'exact',
 }
 
 // Factory function to create the appropriate engine
@@ -79,6 +178,10 @@ export function createEngine(
   switch(type) {
     case EngineType.MonteCarlo:
       return new MonteCarloSimulationEngine(params);
+    case EngineType.Dejmps:
+      return new DejmpsSimulationEngine(params);
+    case EngineType.Exact:
+      return new ExactSimulationEngine(params);
     case EngineType.Average:
     default:
       return new AverageSimulationEngine(params);
@@ -0,0 +1,65 @@
+import { evaluate, isComplex } from 'mathjs';
+import { ComplexNum } from '../types/complex';
+
+/**
+ * Parse one matrix entry. Entries are math expressions with `i` as the imaginary unit,
+ * e.g. `0.5`, `-0.3+0.2i`, `sqrt(0.9)` or `exp(i*pi/4)`.
+ */
+export function parseComplex(text: string): ComplexNum {
+  let value: unknown;
+  try {
+    value = evaluate(text);
+  } catch {
+    throw new Error(`"${text}" is not a number`);
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return ComplexNum.fromReal(value);
+  }
+  if (isComplex(value) && Number.isFinite(value.re) && Number.isFinite(value.im)) {
+    return new ComplexNum(value.re, value.im);
+  }
+  throw new Error(`"${text}" is not a finite complex number`);
+}
+
+/**
+ * Parse Kraus operators from text.
+ *
+ * Operators are separated by blank lines. Within an operator, rows are separated by new lines or `;`
+ * and entries by commas or spaces (so an entry must not contain spaces). Brackets around an operator are ignored:
+ *
+ *     sqrt(0.9) 0
+ *     0 sqrt(0.9)
+ *
+ *     [sqrt(0.1), 0; 0, -sqrt(0.1)]
+ *
+ * Only the format is checked here; use validateKrausOperators for sizes and completeness.
+ */
+export function parseKrausOperators(text: string): ComplexNum[][][] {
+  const blocks = text
+    .split(/\n\s*\n/)
+    .map(block => block.trim().replace(/^\[|\]$/g, '').trim())
+    .filter(block => block.length > 0);
+  if (blocks.length === 0) {
+    throw new Error('At least one Kraus operator is required');
+  }
+
+  return blocks.map((block, k) => {
+    const rows = block
+      .split(/[\n;]/)
+      .map(row => row.trim())
+      .filter(row => row.length > 0)
+      .map((row, r) => row.split(/[\s,]+/).map(entry => {
+        try {
+          return parseComplex(entry);
+        } catch (error) {
+          throw new Error(`Kraus operator ${k + 1}, row ${r + 1}: ${(error as Error).message}`);
+        }
+      }));
+    rows.forEach((row, r) => {
+      if (row.length !== rows[0].length) {
+        throw new Error(`Kraus operator ${k + 1}: row ${r + 1} has ${row.length} entries, but row 1 has ${rows[0].length}`);
+      }
+    });
+    return rows;
+  });
+}
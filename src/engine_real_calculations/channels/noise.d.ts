@@ -20,6 +20,12 @@ export declare function applyAmplitudeDamping(rho: DensityMatrix, qubit: number,
  * @param noiseStrength Parameter from 0 to 1, where 1 applies the full random unitary and 0 applies identity
  */
 export declare function applyUniformNoise(rho: DensityMatrix, qubit: number, noiseStrength: number): DensityMatrix;
+/**
+ * Fidelity of |Ψ-⟩ after applyUniformNoise on one of its qubits, averaged over the random unitary.
+ * On average the channel is applyDepolarizing with p = 1 − this fidelity.
+ * @param noiseStrength Parameter from 0 to 1, as in applyUniformNoise
+ */
+export declare function uniformNoiseFidelity(noiseStrength: number): number;
 export declare const _testing: {
     applyKraus: typeof applyKraus;
     applyAmplitudeDamping: typeof applyAmplitudeDamping;
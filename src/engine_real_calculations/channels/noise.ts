@@ -1,23 +1,110 @@
 import { DensityMatrix } from '../matrix/densityMatrix';
 import { Matrix } from '../matrix/matrix';
 import { ComplexNum } from '../types/complex';
-import { pauliOperator } from '../gates/pauli';
+import { applyLocalGateInPlace, applyPaulisInPlace } from '../operations/kernels';
 import { randomUnitary } from '../utils/randomUnitary';
+import { RandomSource, defaultRandom } from '../utils/random';
 import { matrixExp, matrixLog } from '../utils/matrixExp';
 
 /**
  * Apply a set of Kraus operators to the density matrix.
+ * The operators act on the whole state, so they must have the same size as rho.
  */
-function applyKraus(
+export function applyKraus(
   rho: DensityMatrix,
   ks: Matrix[]
 ): DensityMatrix {
-  let result = Matrix.zeros(rho.rows, rho.cols);
+  const result = Matrix.zeros(rho.rows, rho.cols);
   for (const K of ks) {
-    const term = K.mul(rho).mul(K.dagger());
-    result = result.add(term);
+    result.addInPlace(K.mul(rho).mul(K.dagger()));
   }
-  return new DensityMatrix(result.data);
+  return new DensityMatrix(result);
+}
+
+type Pauli = 'I' | 'X' | 'Y' | 'Z';
+
+/**
+ * Mix of Pauli conjugations: ρ → (1 - Σw)ρ + Σ w·PρP†, computed with the in-place Pauli kernel.
+ */
+function applyPauliMixture(
+  rho: DensityMatrix,
+  targets: number[],
+  terms: { paulis: Pauli[]; weight: number }[]
+): DensityMatrix {
+  const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0);
+  const result = rho.clone().scaleInPlace(1 - totalWeight);
+  for (const { paulis, weight } of terms) {
+    result.addInPlace(applyPaulisInPlace(rho.clone(), targets, paulis), weight);
+  }
+  return result.normalize();
+}
+
+/**
+ * Apply single-qubit Kraus operators (2×2) to one qubit with the local gate kernel,
+ * without embedding them into the full space.
+ */
+function applyLocalKraus(
+  rho: DensityMatrix,
+  qubit: number,
+  ks: Matrix[]
+): DensityMatrix {
+  const result = rho.clone().scaleInPlace(0);
+  for (const K of ks) {
+    result.addInPlace(applyLocalGateInPlace(rho.clone(), qubit, K));
+  }
+  return result.normalize();
+}
+
+/**
+ * Check that Kraus operators describe a quantum channel: all 2×2 (one qubit) or all 4×4 (two qubits),
+ * and complete (Σ K†K = I within the tolerance). Throws an error naming the first problem found.
+ */
+export function validateKrausOperators(ks: Matrix[], tolerance: number = 1e-6): void {
+  if (ks.length === 0) {
+    throw new Error('At least one Kraus operator is required');
+  }
+  const size = ks[0].rows;
+  ks.forEach((K, index) => {
+    if (K.rows !== K.cols || (K.rows !== 2 && K.rows !== 4)) {
+      throw new Error(`Kraus operator ${index + 1} is ${K.rows}×${K.cols}, but operators must be 2×2 (one qubit) or 4×4 (two qubits)`);
+    }
+    if (K.rows !== size) {
+      throw new Error(`Kraus operator ${index + 1} is ${K.rows}×${K.cols}, but operator 1 is ${size}×${size}; all operators must have the same size`);
+    }
+  });
+
+  const sum = Matrix.zeros(size, size);
+  for (const K of ks) {
+    sum.addInPlace(K.dagger().mul(K));
+  }
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const { re, im } = sum.get(i, j);
+      const expected = i === j ? 1 : 0;
+      if (Math.hypot(re - expected, im) > tolerance) {
+        const value = Math.abs(im) > tolerance ? `${re.toFixed(4)}${im < 0 ? '-' : '+'}${Math.abs(im).toFixed(4)}i` : re.toFixed(4);
+        throw new Error(`Kraus operators are not complete: entry (${i + 1}, ${j + 1}) of Σ K†K is ${value} instead of ${expected}`);
+      }
+    }
+  }
+}
+
+/**
+ * User-defined channel: 2×2 Kraus operators act on the given qubit, 4×4 operators on the whole two-qubit state.
+ */
+export function applyCustomKraus(
+  rho: DensityMatrix,
+  qubit: number,
+  ks: Matrix[]
+): DensityMatrix {
+  validateKrausOperators(ks);
+  if (ks[0].rows === 2) {
+    return applyLocalKraus(rho, qubit, ks);
+  }
+  if (rho.rows !== ks[0].rows) {
+    throw new Error(`4×4 Kraus operators act on two qubits, but the state has ${Math.log2(rho.rows)}`);
+  }
+  return applyKraus(rho, ks);
 }
 
 /**
@@ -28,15 +115,40 @@ export function applyDepolarizing(
   qubit: number,
   p: number
 ): DensityMatrix {
-  const n = Math.log2(rho.rows);
-  const dim = rho.rows;
-  const sqrt = Math.sqrt;
-  const K0 = Matrix.identity(dim).scale(ComplexNum.fromReal(sqrt(1 - p)));
-  const factor = sqrt(p / 3);
-  const K1 = pauliOperator(n, [qubit], ['X']).scale(ComplexNum.fromReal(factor));
-  const K2 = pauliOperator(n, [qubit], ['Y']).scale(ComplexNum.fromReal(factor));
-  const K3 = pauliOperator(n, [qubit], ['Z']).scale(ComplexNum.fromReal(factor));
-  return applyKraus(rho, [K0, K1, K2, K3]);
+  const weight = p / 3;
+  return applyPauliMixture(rho, [qubit], [
+    { paulis: ['X'], weight },
+    { paulis: ['Y'], weight },
+    { paulis: ['Z'], weight }
+  ]);
+}
+
+/**
+ * Two-qubit depolarizing channel on qubits a and b with probability p:
+ * ρ → (1-p)ρ + p/15 Σ PρP†, summing over the 15 non-identity two-qubit Paulis.
+ * This is the standard error model for an imperfect two-qubit gate; it is completely depolarizing when p=15/16.
+ */
+export function applyTwoQubitDepolarizing(
+  rho: DensityMatrix,
+  qubitA: number,
+  qubitB: number,
+  p: number
+): DensityMatrix {
+  if (p < 0 || p > 1) {
+    throw new Error('Error probability must be between 0 and 1');
+  }
+  if (qubitA === qubitB) {
+    throw new Error('Two-qubit depolarizing requires two different qubits');
+  }
+  const paulis: Pauli[] = ['I', 'X', 'Y', 'Z'];
+  const terms: { paulis: Pauli[]; weight: number }[] = [];
+  for (const pa of paulis) {
+    for (const pb of paulis) {
+      if (pa === 'I' && pb === 'I') continue;
+      terms.push({ paulis: [pa, pb], weight: p / 15 });
+    }
+  }
+  return applyPauliMixture(rho, [qubitA, qubitB], terms);
 }
 
 /**
@@ -47,14 +159,69 @@ export function applyDephasing(
   qubit: number,
   p: number
 ): DensityMatrix {
-  const n = Math.log2(rho.rows);
-  const dim = rho.rows;
-  const I = Matrix.identity(dim);
-  const Z = pauliOperator(n, [qubit], ['Z']);
-  // Using 2 Kraus operators: K0 = sqrt(1 - p/2)*I, K1 = sqrt(p/2)*Z
-  const K0 = I.scale(ComplexNum.fromReal(Math.sqrt(1 - p / 2)));
-  const K1 = Z.scale(ComplexNum.fromReal(Math.sqrt(p / 2)));
-  return applyKraus(rho, [K0, K1]);
+  // Same as the 2 Kraus operators K0 = sqrt(1 - p/2)*I, K1 = sqrt(p/2)*Z
+  return applyPauliMixture(rho, [qubit], [{ paulis: ['Z'], weight: p / 2 }]);
+}
+
+/**
+ * Bit-flip channel on a single qubit, the X counterpart of applyDephasing: ρ → (1 - p/2)ρ + p/2 XρX.
+ * Like dephasing, p=1 is the strongest setting and leaves the qubit fully mixed in the Z basis.
+ */
+export function applyBitFlip(
+  rho: DensityMatrix,
+  qubit: number,
+  p: number
+): DensityMatrix {
+  return applyPauliMixture(rho, [qubit], [{ paulis: ['X'], weight: p / 2 }]);
+}
+
+/**
+ * Bit-phase-flip channel on a single qubit, the Y counterpart of applyDephasing: ρ → (1 - p/2)ρ + p/2 YρY.
+ */
+export function applyBitPhaseFlip(
+  rho: DensityMatrix,
+  qubit: number,
+  p: number
+): DensityMatrix {
+  return applyPauliMixture(rho, [qubit], [{ paulis: ['Y'], weight: p / 2 }]);
+}
+
+/**
+ * General Pauli channel on a single qubit: ρ → (1 - px - py - pz)ρ + px XρX + py YρY + pz ZρZ.
+ * Applied to either qubit of |Ψ-⟩ it gives any Bell-diagonal state: px moves weight to Φ-, py to Φ+ and pz to Ψ+.
+ */
+export function applyPauliChannel(
+  rho: DensityMatrix,
+  qubit: number,
+  px: number,
+  py: number,
+  pz: number
+): DensityMatrix {
+  if (px < 0 || py < 0 || pz < 0 || px + py + pz > 1 + 1e-12) {
+    throw new Error('Pauli probabilities must be non-negative and sum to at most 1');
+  }
+  return applyPauliMixture(rho, [qubit], [
+    { paulis: ['X'], weight: px },
+    { paulis: ['Y'], weight: py },
+    { paulis: ['Z'], weight: pz }
+  ]);
+}
+
+/**
+ * Correlated dephasing on two qubits with probability p: both qubits get the same phase kick,
+ * ρ → (1 - p/2)ρ + p/2 (Z⊗Z)ρ(Z⊗Z). Only coherences between states of different ZZ parity decay.
+ * The Bell states are eigenstates of Z⊗Z, so a pure Bell pair is immune; the channel matters together with other noise.
+ */
+export function applyCorrelatedDephasing(
+  rho: DensityMatrix,
+  qubitA: number,
+  qubitB: number,
+  p: number
+): DensityMatrix {
+  if (qubitA === qubitB) {
+    throw new Error('Correlated dephasing requires two different qubits');
+  }
+  return applyPauliMixture(rho, [qubitA, qubitB], [{ paulis: ['Z', 'Z'], weight: p / 2 }]);
 }
 
 // Amplitude-damping channel on a single qubit
@@ -77,18 +244,39 @@ export function applyAmplitudeDamping(
     [ComplexNum.zero(), ComplexNum.fromReal(sqrt(gamma))],
     [ComplexNum.zero(), ComplexNum.zero()]
   ]);
-  // Embed onto the full n-qubit space
-  function embed(localOp: Matrix): Matrix {
-    let op: Matrix | null = null;
-    for (let q = 0; q < n; q++) {
-      const m = q === qubit ? localOp : Matrix.identity(2);
-      op = op ? op.tensor(m) : m;
-    }
-    return op!;
+  return applyLocalKraus(rho, qubit, [K0_local, K1_local]);
+}
+
+/**
+ * Generalized amplitude damping: amplitude damping towards a bath at finite temperature.
+ * With probability 1 - n the qubit decays |1⟩ → |0⟩ at rate gamma, with probability n it is excited |0⟩ → |1⟩.
+ * For gamma=1 the qubit ends in the thermal state diag(1 - n, n); n=0 is plain amplitude damping.
+ * @param thermalPopulation Excited-state population n of the bath, from 0 (zero temperature) to 1
+ */
+export function applyGeneralizedAmplitudeDamping(
+  rho: DensityMatrix,
+  qubit: number,
+  gamma: number,
+  thermalPopulation: number
+): DensityMatrix {
+  if (gamma < 0 || gamma > 1) {
+    throw new Error('Damping rate must be between 0 and 1');
+  }
+  if (thermalPopulation < 0 || thermalPopulation > 1) {
+    throw new Error('Thermal population must be between 0 and 1');
   }
-  const K0 = embed(K0_local);
-  const K1 = embed(K1_local);
-  return applyKraus(rho, [K0, K1]);
+  const sqrt = Math.sqrt;
+  const ground = sqrt(1 - thermalPopulation);
+  const excited = sqrt(thermalPopulation);
+  const real = (x: number) => ComplexNum.fromReal(x);
+  const zero = ComplexNum.zero();
+  const ks = [
+    new Matrix([[real(ground), zero], [zero, real(ground * sqrt(1 - gamma))]]),
+    new Matrix([[zero, real(ground * sqrt(gamma))], [zero, zero]]),
+    new Matrix([[real(excited * sqrt(1 - gamma)), zero], [zero, real(excited)]]),
+    new Matrix([[zero, zero], [real(excited * sqrt(gamma)), zero]])
+  ];
+  return applyLocalKraus(rho, qubit, ks);
 }
 
 /**
@@ -96,11 +284,13 @@ export function applyAmplitudeDamping(
  * @param rho The density matrix to apply noise to
  * @param qubit The target qubit index to apply noise to
  * @param noiseStrength Parameter from 0 to 1, where 1 applies the full random unitary and 0 applies identity
+ * @param random Source used to draw the random unitary
  */
 export function applyUniformNoise(
   rho: DensityMatrix,
   qubit: number,
-  noiseStrength: number
+  noiseStrength: number,
+  random: RandomSource = defaultRandom
 ): DensityMatrix {
   if (noiseStrength < 0 || noiseStrength > 1) {
     throw new Error('Noise strength must be between 0 and 1');
@@ -121,39 +311,45 @@ export function applyUniformNoise(
   }
   
   // Generate a 2x2 random unitary for the single qubit
-  const localRandomU = randomUnitary(2);
-  
-  // Embed the local unitary into the full n-qubit space
-  function embedUnitary(localU: Matrix): Matrix {
-    let result: Matrix | null = null;
-    for (let q = 0; q < n; q++) {
-      const op = q === qubit ? localU : Matrix.identity(2);
-      result = result ? result.tensor(op) : op;
-    }
-    return result!;
-  }
+  const localRandomU = randomUnitary(2, random);
   
   // For fractional application, we use matrix logarithm and exponential
   // If U = exp(iH), then we want exp(i * noiseStrength * H)
+  let fractionalLocalU: Matrix;
   try {
     const logU = matrixLog(localRandomU);
     const fractionalLogU = logU.scale(ComplexNum.fromReal(noiseStrength));
-    const fractionalLocalU = matrixExp(fractionalLogU);
-    const fractionalU = embedUnitary(fractionalLocalU);
-    
-    // Apply the fractional unitary: U * ρ * U†
-    const result = fractionalU.mul(rho).mul(fractionalU.dagger());
-    return new DensityMatrix(result.data);
-  } catch (error) {
+    fractionalLocalU = matrixExp(fractionalLogU);
+  } catch {
     // Fallback: interpolate between identity and the random unitary
     const identity = Matrix.identity(2);
-    const interpolatedLocal = identity.scale(ComplexNum.fromReal(1 - noiseStrength))
+    fractionalLocalU = identity.scale(ComplexNum.fromReal(1 - noiseStrength))
       .add(localRandomU.scale(ComplexNum.fromReal(noiseStrength)));
-    const interpolatedU = embedUnitary(interpolatedLocal);
-    
-    const result = interpolatedU.mul(rho).mul(interpolatedU.dagger());
-    return new DensityMatrix(result.data);
   }
+  
+  // Apply the fractional unitary to the qubit: U * ρ * U†
+  return applyLocalGateInPlace(rho.clone(), qubit, fractionalLocalU).normalize();
+}
+
+/**
+ * Fidelity of |Ψ-⟩ after applyUniformNoise on one of its qubits, averaged over the random unitary.
+ * With eigenphases α, β of the Haar unitary, the fidelity is cos²(s(α−β)/2) for strength s; integrating over the
+ * Haar density of the phases gives 1/2 + sin²(πs)/(2π²)·(1/s² − 1/(2(1+s)²) − 1/(2(1−s)²)), from 1 at s=0 to 1/4 at s=1.
+ * The Haar measure is invariant under conjugation, so on average the channel is applyDepolarizing with p = 1 − this fidelity.
+ * @param noiseStrength Parameter from 0 to 1, as in applyUniformNoise
+ */
+export function uniformNoiseFidelity(noiseStrength: number): number {
+  if (noiseStrength < 0 || noiseStrength > 1) {
+    throw new Error('Noise strength must be between 0 and 1');
+  }
+  if (noiseStrength === 0) {
+    return 1;
+  }
+  if (noiseStrength === 1) {
+    return 0.25;
+  }
+  const s = noiseStrength;
+  return 0.5 + (Math.sin(Math.PI * s) ** 2 / (2 * Math.PI ** 2)) * (1 / s ** 2 - 1 / (2 * (1 + s) ** 2) - 1 / (2 * (1 - s) ** 2));
 }
 
 export const _testing = { applyKraus, applyAmplitudeDamping, applyUniformNoise }; 
\ No newline at end of file
@@ -15,16 +15,16 @@ export function cnotMatrix(
   const data: import('../types/complex').Complex[][] = Array.from({ length: dim }, () =>
       Array.from({ length: dim }, () => ComplexNum.zero())
   );
-  // TODO might be more readable but it works...
   for (let i = 0; i < dim; i++) {
-    // check target bit
-    const controlBit = (i >> target) & 1;
-    let j = i;
-    if (controlBit === 1) {
-      // flip control bit
-      j = i ^ (1 << control);
-    }
-    data[j][i] = ComplexNum.one();
+    data[cnotIndex(i, control, target)][i] = ComplexNum.one();
   }
   return new Matrix(data);
 }
+
+/**
+ * Basis state |j⟩ the CNOT of `cnotMatrix` maps |i⟩ to, so the gate can be applied as a permutation.
+ * Note that bit `target` is the one checked and bit `control` the one flipped.
+ */
+export function cnotIndex(i: number, control: number, target: number): number {
+  return ((i >> target) & 1) === 1 ? i ^ (1 << control) : i;
+}
@@ -3,14 +3,43 @@ import { Matrix } from './matrix/matrix';
 import { DensityMatrix } from './matrix/densityMatrix';
 import { bitstringToIndex, indexToBitstring } from './utils/indexing';
 import { pauliMatrix, pauliOperator } from './gates/pauli';
-import { cnotMatrix } from './gates/cnot';
-import { applyDepolarizing, applyDephasing, applyAmplitudeDamping } from './channels/noise';
+import { cnotIndex, cnotMatrix } from './gates/cnot';
+import {
+  applyDepolarizing,
+  applyTwoQubitDepolarizing,
+  applyDephasing,
+  applyBitFlip,
+  applyBitPhaseFlip,
+  applyPauliChannel,
+  applyAmplitudeDamping,
+  applyGeneralizedAmplitudeDamping,
+  applyKraus,
+  applyCustomKraus,
+  applyCorrelatedDephasing,
+  validateKrausOperators
+} from './channels/noise';
+import { parseComplex, parseKrausOperators } from './channels/krausParser';
 import { measureQubit } from './measurement/measure';
 import { applyGate } from './operations/applyGate';
 import { partialTrace } from './operations/partialTrace';
+import { applyLocalGateInPlace, applyPaulisInPlace, permuteInPlace } from './operations/kernels';
+import {
+  concurrence,
+  negativity,
+  logarithmicNegativity,
+  purity,
+  linearEntropy,
+  vonNeumannEntropy,
+  entanglementOfFormation,
+  entanglementMeasures,
+  fidelity,
+  traceDistance,
+  hilbertSchmidtDistance
+} from './measures/measures';
+import type { EntanglementMeasures } from './measures/measures';
 
 // Re-export core types and functions
-export type { Complex };
+export type { Complex, EntanglementMeasures };
 export {
   ComplexNum,
   Matrix,
@@ -20,12 +49,38 @@ export {
   pauliMatrix,
   pauliOperator,
   cnotMatrix,
+  cnotIndex,
   applyDepolarizing,
+  applyTwoQubitDepolarizing,
   applyDephasing,
+  applyBitFlip,
+  applyBitPhaseFlip,
+  applyPauliChannel,
   applyAmplitudeDamping,
+  applyGeneralizedAmplitudeDamping,
+  applyKraus,
+  applyCustomKraus,
+  applyCorrelatedDephasing,
+  validateKrausOperators,
+  parseComplex,
+  parseKrausOperators,
   measureQubit,
   applyGate,
-  partialTrace
+  partialTrace,
+  permuteInPlace,
+  applyPaulisInPlace,
+  applyLocalGateInPlace,
+  concurrence,
+  negativity,
+  logarithmicNegativity,
+  purity,
+  linearEntropy,
+  vonNeumannEntropy,
+  entanglementOfFormation,
+  entanglementMeasures,
+  fidelity,
+  traceDistance,
+  hilbertSchmidtDistance
 };
 
 /**
@@ -47,8 +102,7 @@ export function applyPauli(
   if (!Number.isInteger(n)) {
     throw new Error('DensityMatrix dimension must be power of 2');
   }
-  const U = pauliOperator(n, targets, paulis);
-  return applyGate(rho, U);
+  return applyPaulisInPlace(new DensityMatrix(rho), targets, paulis);
 }
 
 /**
@@ -63,6 +117,5 @@ export function applyCNOT(
   if (!Number.isInteger(n)) {
     throw new Error('DensityMatrix dimension must be power of 2');
   }
-  const U = cnotMatrix(n, control, target);
-  return applyGate(rho, U);
+  return permuteInPlace(new DensityMatrix(rho), i => cnotIndex(i, control, target));
 } 
\ No newline at end of file
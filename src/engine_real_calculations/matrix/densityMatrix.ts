@@ -1,17 +1,22 @@
-import { Matrix } from './matrix';
+import { Matrix, MatrixValues } from './matrix';
 import { ComplexNum } from '../types/complex';
 
+export type DensityMatrixOptions = {
+  // Rescale to trace 1 on construction (default). Turn off for intermediate results that are normalized later.
+  normalize?: boolean;
+};
+
 /**
  * DensityMatrix extends Matrix for quantum density operators (2^n x 2^n)
  */
 export class DensityMatrix extends Matrix {
-  constructor(data: ComplexNum[][] | Matrix) {
+  /**
+   * Nested entries and other matrices are copied; raw storage is adopted without a copy.
+   */
+  constructor(data: ComplexNum[][] | Matrix | MatrixValues, options: DensityMatrixOptions = {}) {
     if (data instanceof Matrix) {
-      // If data is already a Matrix, copy its elements
-      const matrixData = Array(data.rows).fill(0).map((_, i) => 
-        Array(data.cols).fill(0).map((_, j) => data.get(i, j))
-      );
-      super(matrixData);
+      // If data is already a Matrix, copy its storage
+      super({ rows: data.rows, cols: data.cols, values: data.values.slice() });
     } else {
       super(data);
     }
@@ -24,7 +29,14 @@ export class DensityMatrix extends Matrix {
       throw new Error('DensityMatrix dimension must be a power of 2');
     }
     // ensure normalized
-    this.normalize();
+    if (options.normalize !== false) {
+      this.normalize();
+    }
+  }
+
+  // Independent copy, without renormalizing
+  clone(): DensityMatrix {
+    return new DensityMatrix(this, { normalize: false });
   }
 
   /** Normalize the density matrix so trace = 1 */
@@ -69,17 +81,17 @@ export class DensityMatrix extends Matrix {
 
     // Proceed with normalization using the real part of the trace
     const inv = 1 / tr.re;
-    for (let i = 0; i < this.rows; i++) {
-      for (let j = 0; j < this.cols; j++) {
-        const elt = this.get(i, j);
-        const normalizedElt = ComplexNum.mul(elt, ComplexNum.fromReal(inv));
-        // Add check for NaN/Infinity post-multiplication as an extra safeguard
-        if (isNaN(normalizedElt.re) || isNaN(normalizedElt.im) || !isFinite(normalizedElt.re) || !isFinite(normalizedElt.im)) {
-             console.error(`DensityMatrix.normalize: Normalization step resulted in NaN/Infinity at [${i},${j}]`, { elt, inv, tr });
-             throw new Error(`Normalization resulted in NaN/Infinity at [${i},${j}] during multiplication.`);
-        }
-        this.set(i, j, normalizedElt);
+    const values = this.values;
+    for (let k = 0; k < values.length; k++) {
+      const normalized = values[k] * inv;
+      // Add check for NaN/Infinity post-multiplication as an extra safeguard
+      if (!isFinite(normalized)) {
+        const i = Math.floor(k / 2 / this.cols);
+        const j = Math.floor(k / 2) % this.cols;
+        console.error(`DensityMatrix.normalize: Normalization step resulted in NaN/Infinity at [${i},${j}]`, { elt: this.get(i, j), inv, tr });
+        throw new Error(`Normalization resulted in NaN/Infinity at [${i},${j}] during multiplication.`);
       }
+      values[k] = normalized;
     }
     return this;
   }
@@ -103,6 +115,22 @@ export class DensityMatrix extends Matrix {
     return true;
   }
 
+  /**
+   * Check that no eigenvalue is below -epsilon, from the eigendecomposition (Matrix.eigh).
+   * Assumes the matrix is Hermitian; check with validate first.
+   */
+  isPositiveSemidefinite(epsilon = 1e-8): boolean {
+    return this.eigh().values[0] >= -epsilon;
+  }
+
+  /**
+   * The state with every negative eigenvalue set to zero and the trace brought back to 1, e.g. for a matrix that
+   * rounding or measurement noise left slightly outside the positive semidefinite ones. Assumes the matrix is Hermitian.
+   */
+  positivePart(): DensityMatrix {
+    return new DensityMatrix(this.funm(value => Math.max(value, 0)));
+  }
+
   /** Create a density matrix from a state vector | psi>< psi| */
   static fromStateVector(vec: ComplexNum[]): DensityMatrix {
     const N = vec.length;
@@ -153,6 +181,6 @@ export class DensityMatrix extends Matrix {
   /** Tensor product of two density matrices */
   static tensor(a: DensityMatrix, b: DensityMatrix): DensityMatrix {
     const m = a.tensor(b);
-    return new DensityMatrix(m.data);
+    return new DensityMatrix({ rows: m.rows, cols: m.cols, values: m.values });
   }
 } 
\ No newline at end of file
@@ -1,82 +1,183 @@
 // Generic ComplexNum matrix class
 import { ComplexNum } from '../types/complex';
-import { kroneckerMatrix } from '../utils/tensor';
+import { hermitianEigen } from '../utils/hermitianEigen';
+
+// Raw matrix storage: entry (i, j) is values[2*(i*cols + j)] + i·values[2*(i*cols + j) + 1]
+export type MatrixValues = {
+  rows: number;
+  cols: number;
+  values: Float64Array;
+};
+
+// Eigendecomposition of a Hermitian matrix
+export type HermitianEigendecomposition = {
+  values: number[]; // Ascending
+  vectors: Matrix; // Unitary; column j is the eigenvector of values[j]
+};
+
+// Eigenvalues within this fraction of the largest one count as zero in matrix powers
+const EIGENVALUE_TOLERANCE = 1e-12;
+// Negative eigenvalues down to this fraction of the largest one are rounding in a positive semidefinite matrix
+// (the same margin as DensityMatrix.isPositiveSemidefinite)
+const PSD_TOLERANCE = 1e-8;
+
+// V·diag(f(λ))·V†
+function fromEigendecomposition({ values, vectors }: HermitianEigendecomposition, f: (eigenvalue: number) => number): Matrix {
+  const n = vectors.rows;
+  const scaled = vectors.copy();
+  for (let j = 0; j < n; j++) {
+    const factor = f(values[j]);
+    for (let i = 0; i < n; i++) {
+      const k = 2 * (i * n + j);
+      scaled.values[k] *= factor;
+      scaled.values[k + 1] *= factor;
+    }
+  }
+  return scaled.mul(vectors.dagger());
+}
 
 export class Matrix {
   readonly rows: number;
   readonly cols: number;
-  readonly data: ComplexNum[][];
-
-  constructor(data: ComplexNum[][]) {
-    if (data.length === 0 || data[0].length === 0) {
-      throw new Error('Matrix cannot have zero dimensions');
-    }
-    this.rows = data.length;
-    this.cols = data[0].length;
-    // ensure rectangular
-    for (const row of data) {
-      if (row.length !== this.cols) {
-        throw new Error('All rows must have the same length');
+  // Interleaved real/imaginary parts in row-major order; the hot paths work on this directly
+  readonly values: Float64Array;
+
+  /**
+   * Create a matrix from nested complex entries (copied) or from raw storage (adopted without a copy).
+   */
+  constructor(data: ComplexNum[][] | MatrixValues) {
+    if (Array.isArray(data)) {
+      if (data.length === 0 || data[0].length === 0) {
+        throw new Error('Matrix cannot have zero dimensions');
       }
+      this.rows = data.length;
+      this.cols = data[0].length;
+      // ensure rectangular
+      for (const row of data) {
+        if (row.length !== this.cols) {
+          throw new Error('All rows must have the same length');
+        }
+      }
+      this.values = new Float64Array(2 * this.rows * this.cols);
+      let k = 0;
+      for (const row of data) {
+        for (const val of row) {
+          this.values[k++] = val.re;
+          this.values[k++] = val.im;
+        }
+      }
+    } else {
+      if (data.rows <= 0 || data.cols <= 0) {
+        throw new Error('Matrix cannot have zero dimensions');
+      }
+      if (data.values.length !== 2 * data.rows * data.cols) {
+        throw new Error('Matrix storage does not match its dimensions');
+      }
+      this.rows = data.rows;
+      this.cols = data.cols;
+      this.values = data.values;
     }
-    this.data = data.map(row => row.map(val => ({ re: val.re, im: val.im })));
   }
 
   static zeros(rows: number, cols: number): Matrix {
-    const z = ComplexNum.zero();
-    const data: ComplexNum[][] = [];
-    for (let i = 0; i < rows; i++) {
-      data[i] = Array(cols).fill(z);
-    }
-    return new Matrix(data);
+    return new Matrix({ rows, cols, values: new Float64Array(2 * rows * cols) });
   }
 
   static identity(size: number): Matrix {
-    const data: ComplexNum[][] = [];
+    const values = new Float64Array(2 * size * size);
     for (let i = 0; i < size; i++) {
-      data[i] = [];
-      for (let j = 0; j < size; j++) {
-        data[i][j] = ComplexNum.fromReal(i === j ? 1 : 0);
+      values[2 * (i * size + i)] = 1;
+    }
+    return new Matrix({ rows: size, cols: size, values });
+  }
+
+  /**
+   * Entries as nested arrays, as they were stored before the Float64Array buffer. The arrays read the matrix
+   * live, and assigning an entry (`m.data[i][j] = v`) or a whole row writes through to it. The entry objects are
+   * copies, so change their `re` and `im` through `set` instead.
+   */
+  get data(): ComplexNum[][] {
+    // Accessors rather than a Proxy, so the arrays still survive structuredClone and postMessage
+    const rowView = (i: number): ComplexNum[] => {
+      const row = new Array<ComplexNum>(this.cols);
+      for (let j = 0; j < this.cols; j++) {
+        Object.defineProperty(row, j, {
+          get: () => this.get(i, j),
+          set: (value: ComplexNum) => this.set(i, j, value),
+          enumerable: true
+        });
       }
+      return row;
+    };
+    const data = new Array<ComplexNum[]>(this.rows);
+    for (let i = 0; i < this.rows; i++) {
+      const row = rowView(i);
+      Object.defineProperty(data, i, {
+        get: () => row,
+        set: (value: ComplexNum[]) => {
+          if (value.length !== this.cols) {
+            throw new Error('All rows must have the same length');
+          }
+          value.forEach((entry, j) => this.set(i, j, entry));
+        },
+        enumerable: true
+      });
     }
-    return new Matrix(data);
+    return data;
   }
 
   get(i: number, j: number): ComplexNum {
-    return this.data[i][j];
+    const k = 2 * (i * this.cols + j);
+    // Adding 0 turns -0 into 0, like the ComplexNum constructor does
+    return { re: this.values[k] + 0, im: this.values[k + 1] + 0 };
   }
 
   set(i: number, j: number, v: ComplexNum): void {
-    this.data[i][j] = { re: v.re, im: v.im };
+    const k = 2 * (i * this.cols + j);
+    this.values[k] = v.re;
+    this.values[k + 1] = v.im;
   }
 
   add(other: Matrix): Matrix {
-    return this.zip(other, (a, b) => ComplexNum.add(a, b));
+    return this.copy().addInPlace(other);
+  }
+
+  /**
+   * this → this + weight·other, without allocating a new matrix.
+   */
+  addInPlace(other: Matrix, weight: number = 1): this {
+    if (this.rows !== other.rows || this.cols !== other.cols) {
+      throw new Error('Matrix dimensions must match for zip');
+    }
+    const a = this.values;
+    const b = other.values;
+    for (let k = 0; k < a.length; k++) {
+      a[k] += weight * b[k];
+    }
+    return this;
   }
 
   map(fn: (val: ComplexNum, i: number, j: number) => ComplexNum): Matrix {
-    const data: ComplexNum[][] = [];
+    const result = Matrix.zeros(this.rows, this.cols);
     for (let i = 0; i < this.rows; i++) {
-      data[i] = [];
       for (let j = 0; j < this.cols; j++) {
-        data[i][j] = fn(this.data[i][j], i, j);
+        result.set(i, j, fn(this.get(i, j), i, j));
       }
     }
-    return new Matrix(data);
+    return result;
   }
 
   zip(other: Matrix, fn: (a: ComplexNum, b: ComplexNum, i: number, j: number) => ComplexNum): Matrix {
     if (this.rows !== other.rows || this.cols !== other.cols) {
       throw new Error('Matrix dimensions must match for zip');
     }
-    const data: ComplexNum[][] = [];
+    const result = Matrix.zeros(this.rows, this.cols);
     for (let i = 0; i < this.rows; i++) {
-      data[i] = [];
       for (let j = 0; j < this.cols; j++) {
-        data[i][j] = fn(this.data[i][j], other.data[i][j], i, j);
+        result.set(i, j, fn(this.get(i, j), other.get(i, j), i, j));
       }
     }
-    return new Matrix(data);
+    return result;
   }
 
   mul(other: Matrix): Matrix {
@@ -84,14 +185,23 @@ export class Matrix {
       throw new Error('Matrix dimensions do not align for multiplication');
     }
     const result = Matrix.zeros(this.rows, other.cols);
+    const a = this.values;
+    const b = other.values;
+    const c = result.values;
+    const n = this.cols;
+    const m = other.cols;
     for (let i = 0; i < this.rows; i++) {
-      for (let j = 0; j < other.cols; j++) {
-        let sum = ComplexNum.zero();
-        for (let k = 0; k < this.cols; k++) {
-          const prod = ComplexNum.mul(this.get(i, k), other.get(k, j));
-          sum = ComplexNum.add(sum, prod);
+      for (let k = 0; k < n; k++) {
+        const ak = 2 * (i * n + k);
+        const aRe = a[ak];
+        const aIm = a[ak + 1];
+        if (aRe === 0 && aIm === 0) continue;
+        for (let j = 0; j < m; j++) {
+          const bk = 2 * (k * m + j);
+          const ck = 2 * (i * m + j);
+          c[ck] += aRe * b[bk] - aIm * b[bk + 1];
+          c[ck + 1] += aRe * b[bk + 1] + aIm * b[bk];
         }
-        result.set(i, j, sum);
       }
     }
     return result;
@@ -101,30 +211,136 @@ export class Matrix {
     const result = Matrix.zeros(this.cols, this.rows);
     for (let i = 0; i < this.rows; i++) {
       for (let j = 0; j < this.cols; j++) {
-        result.set(j, i, ComplexNum.conj(this.get(i, j)));
+        const k = 2 * (i * this.cols + j);
+        const t = 2 * (j * this.rows + i);
+        result.values[t] = this.values[k];
+        result.values[t + 1] = -this.values[k + 1];
       }
     }
     return result;
   }
 
   tensor(other: Matrix): Matrix {
-    const data = kroneckerMatrix(this.data, other.data);
-    return new Matrix(data);
+    const rows = this.rows * other.rows;
+    const cols = this.cols * other.cols;
+    const values = new Float64Array(2 * rows * cols);
+    for (let i = 0; i < this.rows; i++) {
+      for (let j = 0; j < this.cols; j++) {
+        const ak = 2 * (i * this.cols + j);
+        const aRe = this.values[ak];
+        const aIm = this.values[ak + 1];
+        for (let ib = 0; ib < other.rows; ib++) {
+          for (let jb = 0; jb < other.cols; jb++) {
+            const bk = 2 * (ib * other.cols + jb);
+            const k = 2 * ((i * other.rows + ib) * cols + j * other.cols + jb);
+            values[k] = aRe * other.values[bk] - aIm * other.values[bk + 1];
+            values[k + 1] = aRe * other.values[bk + 1] + aIm * other.values[bk];
+          }
+        }
+      }
+    }
+    return new Matrix({ rows, cols, values });
   }
 
   trace(): ComplexNum {
     if (this.rows !== this.cols) {
       throw new Error('Matrix must be square to compute trace');
     }
-    let sum = ComplexNum.zero();
+    let re = 0;
+    let im = 0;
     for (let i = 0; i < this.rows; i++) {
-      sum = ComplexNum.add(sum, this.get(i, i));
+      const k = 2 * (i * this.cols + i);
+      re += this.values[k];
+      im += this.values[k + 1];
     }
-    return sum;
+    return new ComplexNum(re, im);
   }
 
   scale(s: ComplexNum): Matrix {
-    return this.map(val => ComplexNum.mul(val, s));
+    return this.copy().scaleInPlace(s);
+  }
+
+  /**
+   * this → s·this, without allocating a new matrix.
+   */
+  scaleInPlace(s: ComplexNum | number): this {
+    const sRe = typeof s === 'number' ? s : s.re;
+    const sIm = typeof s === 'number' ? 0 : s.im;
+    const v = this.values;
+    for (let k = 0; k < v.length; k += 2) {
+      const re = v[k];
+      const im = v[k + 1];
+      v[k] = re * sRe - im * sIm;
+      v[k + 1] = re * sIm + im * sRe;
+    }
+    return this;
+  }
+
+  // Plain Matrix with its own copy of the storage
+  copy(): Matrix {
+    return new Matrix({ rows: this.rows, cols: this.cols, values: this.values.slice() });
+  }
+
+  /**
+   * Whether this matrix equals its conjugate transpose within tolerance.
+   */
+  isHermitian(tolerance: number = 1e-10): boolean {
+    if (this.rows !== this.cols) {
+      return false;
+    }
+    const n = this.rows;
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        const a = 2 * (i * n + j);
+        const b = 2 * (j * n + i);
+        if (Math.abs(this.values[a] - this.values[b]) > tolerance || Math.abs(this.values[a + 1] + this.values[b + 1]) > tolerance) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Eigenvalues and eigenvectors of a Hermitian matrix (Jacobi rotations, see utils/hermitianEigen).
+   * Hermiticity is assumed, not checked.
+   */
+  eigh(): HermitianEigendecomposition {
+    const { values, vectors } = hermitianEigen(this);
+    return { values, vectors: new Matrix(vectors) };
+  }
+
+  /**
+   * f(A) = V·diag(f(λ))·V† of a Hermitian matrix A = V·diag(λ)·V†.
+   */
+  funm(f: (eigenvalue: number) => number): Matrix {
+    return fromEigendecomposition(this.eigh(), f);
+  }
+
+  /**
+   * A^p of a Hermitian matrix. Integer powers take any eigenvalues. Other powers need a positive semidefinite
+   * matrix; slightly negative eigenvalues from rounding count as zero. Negative powers need an invertible matrix.
+   */
+  powm(p: number): Matrix {
+    const decomposition = this.eigh();
+    const { values } = decomposition;
+    const scale = Math.max(0, ...values.map(Math.abs));
+    const integer = Number.isInteger(p);
+    if (!integer && values[0] < -PSD_TOLERANCE * scale) {
+      throw new Error('Non-integer matrix powers need a positive semidefinite matrix');
+    }
+    const zero = (value: number) => Math.abs(value) <= EIGENVALUE_TOLERANCE * scale || (!integer && value < 0);
+    if (p < 0 && values.some(zero)) {
+      throw new Error('Negative matrix powers need an invertible matrix');
+    }
+    return fromEigendecomposition(decomposition, value => (zero(value) ? (p === 0 ? 1 : 0) : value ** p));
+  }
+
+  /**
+   * Principal square root of a positive semidefinite Hermitian matrix, e.g. √ρ for a density matrix.
+   */
+  sqrtm(): Matrix {
+    return this.powm(0.5);
   }
 
   // Added method to compare matrices up to a global phase
@@ -139,9 +355,9 @@ export class Matrix {
         if (Math.abs(b.re) > tolerance || Math.abs(b.im) > tolerance) {
           const a = this.get(i, j);
           const denom = b.re * b.re + b.im * b.im;
-          factor = { 
-            re: (a.re * b.re + a.im * b.im) / denom, 
-            im: (a.im * b.re - a.re * b.im) / denom 
+          factor = {
+            re: (a.re * b.re + a.im * b.im) / denom,
+            im: (a.im * b.re - a.re * b.im) / denom
           };
           break;
         }
@@ -157,9 +373,9 @@ export class Matrix {
       for (let j = 0; j < this.cols; j++) {
         const a = this.get(i, j);
         const b = other.get(i, j);
-        const fb = { 
-          re: factor.re * b.re - factor.im * b.im, 
-          im: factor.re * b.im + factor.im * b.re 
+        const fb = {
+          re: factor.re * b.re - factor.im * b.im,
+          im: factor.re * b.im + factor.im * b.re
         };
         if (Math.abs(a.re - fb.re) > tolerance || Math.abs(a.im - fb.im) > tolerance) {
           return false;
@@ -179,22 +395,18 @@ export class Matrix {
     if (this.rows !== other.rows || this.cols !== other.cols) {
       return false;
     }
-    
-    for (let i = 0; i < this.rows; i++) {
-      for (let j = 0; j < this.cols; j++) {
-        const a = this.get(i, j);
-        const b = other.get(i, j);
-        if (Math.abs(a.re - b.re) > tolerance || Math.abs(a.im - b.im) > tolerance) {
-          return false;
-        }
+
+    for (let k = 0; k < this.values.length; k++) {
+      if (Math.abs(this.values[k] - other.values[k]) > tolerance) {
+        return false;
       }
     }
     return true;
   }
 
 toString(): string {
-  return this.data.map(row => 
+  return this.data.map(row =>
     row.map(({ re, im }) => `${re}${im >= 0 ? '+' : ''}${im}i`).join(' ')
   ).join('\n');
 }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { DensityMatrix } from '../matrix/densityMatrix';
+import { RandomSource, defaultRandom } from '../utils/random';
 
 /**
  * Measure a single qubit in computational basis, returning outcome, its probability, and the post-measurement state.
@@ -6,7 +7,8 @@ import { DensityMatrix } from '../matrix/densityMatrix';
  */
 export function measureQubit(
   rho: DensityMatrix,
-  qubit: number
+  qubit: number,
+  random: RandomSource = defaultRandom
 ): { outcome: 0 | 1; probability: number; postState: DensityMatrix } {
   const dim = rho.rows;
   let p0 = 0;
@@ -21,7 +23,7 @@ export function measureQubit(
   // clamp in [0,1]
   p0 = Math.min(Math.max(p0, 0), 1);
   const p1 = 1 - p0;
-  const r = Math.random();
+  const r = random.next();
   const outcome = r < p0 ? 0 : 1;
   const probability = outcome === 0 ? p0 : p1;
   const newMatrix: { re: number, im: number }[][] = [];
@@ -0,0 +1,216 @@
+import { Matrix } from '../matrix/matrix';
+import { DensityMatrix } from '../matrix/densityMatrix';
+
+// Eigenvalues this close to zero are rounding noise and count as zero
+const EPSILON = 1e-12;
+
+// Entanglement and quality figures of one two-qubit state
+export interface EntanglementMeasures {
+  concurrence: number;
+  negativity: number;
+  logarithmicNegativity: number; // In ebits (log base 2)
+  purity: number;
+  linearEntropy: number;
+  vonNeumannEntropy: number; // In bits
+  entanglementOfFormation: number; // In ebits
+}
+
+function assertTwoQubit(rho: Matrix): void {
+  if (rho.rows !== 4 || rho.cols !== 4) {
+    throw new Error('Entanglement measures need a two-qubit (4x4) density matrix');
+  }
+}
+
+/**
+ * Factor F with ρ = F·F†, by Cholesky steps that always pivot on the largest remaining diagonal entry.
+ * Steps stop once what is left is rounding noise, so a rank-r state gives r columns (a pure state one).
+ */
+function positiveFactor(rho: Matrix): Matrix {
+  const n = rho.rows;
+  const w = Float64Array.from(rho.values);
+  const columns: Float64Array[] = [];
+  for (let step = 0; step < n; step++) {
+    let k = -1;
+    let largest = EPSILON;
+    for (let i = 0; i < n; i++) {
+      if (w[2 * (i * n + i)] > largest) {
+        largest = w[2 * (i * n + i)];
+        k = i;
+      }
+    }
+    if (k < 0) {
+      break;
+    }
+    const root = Math.sqrt(largest);
+    const column = new Float64Array(2 * n);
+    for (let i = 0; i < n; i++) {
+      column[2 * i] = w[2 * (i * n + k)] / root;
+      column[2 * i + 1] = w[2 * (i * n + k) + 1] / root;
+    }
+    // w −= c·c†
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        w[2 * (i * n + j)] -= column[2 * i] * column[2 * j] + column[2 * i + 1] * column[2 * j + 1];
+        w[2 * (i * n + j) + 1] -= column[2 * i + 1] * column[2 * j] - column[2 * i] * column[2 * j + 1];
+      }
+    }
+    columns.push(column);
+  }
+  const factor = Matrix.zeros(n, Math.max(columns.length, 1));
+  columns.forEach((column, j) => {
+    for (let i = 0; i < n; i++) {
+      factor.values[2 * (i * factor.cols + j)] = column[2 * i];
+      factor.values[2 * (i * factor.cols + j) + 1] = column[2 * i + 1];
+    }
+  });
+  return factor;
+}
+
+function assertSameDimension(rho: Matrix, sigma: Matrix): void {
+  if (rho.rows !== sigma.rows || rho.cols !== sigma.cols) {
+    throw new Error('States must have the same dimension to be compared');
+  }
+}
+
+const binaryEntropy = (p: number): number =>
+  p <= EPSILON || p >= 1 - EPSILON ? 0 : -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+
+/**
+ * Tr(ρ²): 1 for a pure state, 1/d for the maximally mixed state of dimension d.
+ */
+export function purity(rho: Matrix): number {
+  let sum = 0;
+  for (const value of rho.values) {
+    sum += value * value;
+  }
+  return sum;
+}
+
+/**
+ * 1 − Tr(ρ²): 0 for a pure state, 3/4 for the maximally mixed two-qubit state.
+ */
+export function linearEntropy(rho: Matrix): number {
+  return 1 - purity(rho);
+}
+
+/**
+ * −Tr(ρ log₂ ρ) in bits, from the eigenvalues of ρ.
+ */
+export function vonNeumannEntropy(rho: Matrix): number {
+  return rho.eigh().values
+    .filter(value => value > EPSILON)
+    .reduce((entropy, value) => entropy - value * Math.log2(value), 0);
+}
+
+/**
+ * Partial transpose of a two-qubit state on the second qubit (bit 0 of the index).
+ * Transposing the other qubit gives the transpose of this, with the same spectrum.
+ */
+export function partialTranspose(rho: Matrix): Matrix {
+  assertTwoQubit(rho);
+  return rho.map((_entry, i, j) => rho.get((i & ~1) | (j & 1), (j & ~1) | (i & 1)));
+}
+
+/**
+ * Sum of the magnitudes of the negative eigenvalues of the partial transpose, (‖ρ^{T_B}‖₁ − 1)/2.
+ * Zero for separable two-qubit states (Peres–Horodecki), 1/2 for a Bell state.
+ */
+export function negativity(rho: Matrix): number {
+  return partialTranspose(rho).eigh().values
+    .filter(value => value < -EPSILON)
+    .reduce((sum, value) => sum - value, 0);
+}
+
+/**
+ * log₂ ‖ρ^{T_B}‖₁ = log₂(2N + 1): 0 for separable states, 1 for a Bell state.
+ */
+export function logarithmicNegativity(rho: Matrix): number {
+  return Math.log2(2 * negativity(rho) + 1);
+}
+
+/**
+ * Wootters concurrence max(0, λ₁ − λ₂ − λ₃ − λ₄), where λᵢ are the square roots of the eigenvalues of ρ·ρ̃
+ * in decreasing order and ρ̃ = (σy⊗σy)·ρ*·(σy⊗σy). With ρ = F·F†, the product F·F†·ρ̃ has the same nonzero
+ * eigenvalues as the Hermitian F†·ρ̃·F, which are the ones computed.
+ */
+export function concurrence(rho: Matrix): number {
+  assertTwoQubit(rho);
+  // σy⊗σy is anti-diagonal with signs (−1, 1, 1, −1), so ρ̃_ij = s_i·s_j·conj(ρ_{3−i,3−j})
+  const signs = [-1, 1, 1, -1];
+  const flipped = rho.map((_entry, i, j) => {
+    const entry = rho.get(3 - i, 3 - j);
+    const sign = signs[i] * signs[j];
+    return { re: sign * entry.re, im: -sign * entry.im };
+  });
+  const factor = positiveFactor(rho);
+  const lambdas = factor.dagger().mul(flipped).mul(factor).eigh().values
+    .map(value => Math.sqrt(Math.max(value, 0)))
+    .sort((a, b) => b - a);
+  while (lambdas.length < 4) {
+    lambdas.push(0);
+  }
+  return Math.max(0, lambdas[0] - lambdas[1] - lambdas[2] - lambdas[3]);
+}
+
+/**
+ * Entanglement of formation in ebits, from the concurrence: h((1 + √(1 − C²))/2) with h the binary entropy.
+ */
+export function entanglementOfFormation(rho: Matrix): number {
+  const c = Math.min(1, concurrence(rho));
+  return binaryEntropy((1 + Math.sqrt(1 - c * c)) / 2);
+}
+
+/**
+ * Uhlmann fidelity (Tr √(√ρ·σ·√ρ))², in the squared convention: ⟨ψ|ρ|ψ⟩ when σ = |ψ⟩⟨ψ| is pure,
+ * so it matches the Bell-state fidelities of the engines. Symmetric, and 1 exactly when ρ = σ.
+ * Both states are projected onto their positive parts first, so rounding noise cannot make the square root fail.
+ */
+export function fidelity(rho: DensityMatrix, sigma: DensityMatrix): number {
+  assertSameDimension(rho, sigma);
+  const sqrtRho = rho.positivePart().sqrtm();
+  const root = sqrtRho.mul(sigma.positivePart()).mul(sqrtRho).eigh().values
+    .reduce((sum, value) => sum + Math.sqrt(Math.max(value, 0)), 0);
+  return Math.min(1, root * root);
+}
+
+/**
+ * ½‖ρ − σ‖₁, half the sum of the magnitudes of the eigenvalues of ρ − σ: 0 for equal states,
+ * 1 for orthogonal ones. The largest chance of telling the two apart with one measurement is (1 + D)/2.
+ */
+export function traceDistance(rho: DensityMatrix, sigma: DensityMatrix): number {
+  assertSameDimension(rho, sigma);
+  return rho.copy().addInPlace(sigma, -1).eigh().values
+    .reduce((sum, value) => sum + Math.abs(value) / 2, 0);
+}
+
+/**
+ * √Tr((ρ − σ)²), the Frobenius norm of the difference: 0 for equal states, √2 for orthogonal pure ones.
+ */
+export function hilbertSchmidtDistance(rho: DensityMatrix, sigma: DensityMatrix): number {
+  assertSameDimension(rho, sigma);
+  let sum = 0;
+  for (let k = 0; k < rho.values.length; k++) {
+    const difference = rho.values[k] - sigma.values[k];
+    sum += difference * difference;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * All measures of a two-qubit state, given in the computational basis.
+ */
+export function entanglementMeasures(rho: DensityMatrix): EntanglementMeasures {
+  assertTwoQubit(rho);
+  const c = Math.min(1, concurrence(rho));
+  const n = negativity(rho);
+  const p = purity(rho);
+  return {
+    concurrence: c,
+    negativity: n,
+    logarithmicNegativity: Math.log2(2 * n + 1),
+    purity: p,
+    linearEntropy: 1 - p,
+    vonNeumannEntropy: vonNeumannEntropy(rho),
+    entanglementOfFormation: binaryEntropy((1 + Math.sqrt(1 - c * c)) / 2)
+  };
+}
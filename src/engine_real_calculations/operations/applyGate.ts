@@ -8,5 +8,5 @@ export function applyGate(
 ): DensityMatrix {
   const Urho = U.mul(rho);
   const UrhoUd = Urho.mul(U.dagger());
-  return new DensityMatrix(UrhoUd.data);
+  return new DensityMatrix(UrhoUd);
 } 
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { DensityMatrix } from '../matrix/densityMatrix';
+import { Matrix } from '../matrix/matrix';
+import { rx } from '../gates/rotations';
+import { applyLocalGateInPlace } from './kernels';
+
+/**
+ * Get the bilateral rotation operator used by the DEJMPS protocol.
+ *
+ * DEJMPS (Deutsch et al., 10.1103/PhysRevLett.77.2818) rotates Alice's qubit by R_x(π/2)
+ * and Bob's qubit by R_x(-π/2) while the pair is expressed relative to |Φ⁺⟩.
+ * Our pairs are rotated before the |Ψ⁻⟩ → |Φ⁺⟩ exchange (Y on Alice's qubit), and since
+ * Y R_x(θ) Y = R_x(-θ), the equivalent operator in the |Ψ⁻⟩ frame is R_x(-π/2) ⊗ R_x(-π/2).
+ *
+ * @returns Two-qubit rotation operator
+ */
+export function getDejmpsRotationOperator(): Matrix {
+  const R = rx(-Math.PI / 2);
+  return R.tensor(R);
+}
+
+/**
+ * Apply the DEJMPS bilateral rotation to a 2-qubit density matrix.
+ *
+ * Unlike the Pauli twirl, this is a fixed unitary: Bell-diagonal states stay Bell-diagonal
+ * but are not forced into Werner form, which is what gives DEJMPS its faster convergence.
+ *
+ * @param rho Two-qubit density matrix (computational basis, |Ψ⁻⟩ frame)
+ * @returns Rotated density matrix
+ */
+export function applyDejmpsRotation(rho: DensityMatrix): DensityMatrix {
+  // Same as applying getDejmpsRotationOperator(), but one qubit at a time
+  const R = rx(-Math.PI / 2);
+  const result = new DensityMatrix(rho);
+  applyLocalGateInPlace(result, 0, R);
+  applyLocalGateInPlace(result, 1, R);
+  return result.normalize();
+}
@@ -0,0 +1,142 @@
+import { Matrix } from '../matrix/matrix';
+
+/*
+ * In-place kernels for gates that only touch a few qubits.
+ *
+ * Instead of building the full 2^n × 2^n operator and doing two dense products, these update the
+ * entries of ρ directly with index arithmetic: O(4^n) work for a permutation or a Pauli string and
+ * O(2·4^n) for a single-qubit gate, instead of O(8^n). They all modify the matrix they are given,
+ * so callers that must keep the original pass a copy.
+ *
+ * Qubits follow the tensor order used everywhere else (qubit 0 = most significant bit).
+ */
+
+type Pauli = 'I' | 'X' | 'Y' | 'Z';
+
+function numQubits(rho: Matrix): number {
+  const n = Math.log2(rho.rows);
+  if (!Number.isInteger(n) || rho.rows !== rho.cols) {
+    throw new Error('DensityMatrix dimension must be power of 2');
+  }
+  return n;
+}
+
+// Bit of the matrix index that holds the given qubit
+function qubitMask(n: number, qubit: number): number {
+  if (!Number.isInteger(qubit) || qubit < 0 || qubit >= n) {
+    throw new Error(`Qubit index ${qubit} out of range for ${n}-qubit system`);
+  }
+  return 1 << (n - 1 - qubit);
+}
+
+const parity = (x: number): number => {
+  let p = 0;
+  while (x) {
+    p ^= 1;
+    x &= x - 1;
+  }
+  return p;
+};
+
+/**
+ * ρ → PρP† for a permutation unitary P|i⟩ = |perm(i)⟩.
+ */
+export function permuteInPlace<M extends Matrix>(rho: M, perm: (index: number) => number): M {
+  const dim = rho.rows;
+  const v = rho.values;
+  const old = v.slice();
+  const target = Array.from({ length: dim }, (_, i) => perm(i));
+  for (let i = 0; i < dim; i++) {
+    const row = target[i] * dim;
+    for (let j = 0; j < dim; j++) {
+      const from = 2 * (i * dim + j);
+      const to = 2 * (row + target[j]);
+      v[to] = old[from];
+      v[to + 1] = old[from + 1];
+    }
+  }
+  return rho;
+}
+
+/**
+ * ρ → PρP† for a Pauli string: X and Y flip bits, Z and Y add a sign.
+ * The ±i phases of Y cancel between P and P†, so only the signs remain.
+ */
+export function applyPaulisInPlace<M extends Matrix>(rho: M, targets: number[], paulis: Pauli[]): M {
+  if (targets.length !== paulis.length) {
+    throw new Error('Targets and Pauli arrays must have same length');
+  }
+  const n = numQubits(rho);
+  let flipMask = 0;
+  let signMask = 0;
+  targets.forEach((qubit, i) => {
+    const mask = qubitMask(n, qubit);
+    if (paulis[i] === 'X' || paulis[i] === 'Y') flipMask |= mask;
+    if (paulis[i] === 'Y' || paulis[i] === 'Z') signMask |= mask;
+  });
+  if (flipMask === 0 && signMask === 0) {
+    return rho;
+  }
+
+  const dim = rho.rows;
+  const v = rho.values;
+  const old = v.slice();
+  for (let i = 0; i < dim; i++) {
+    const row = (i ^ flipMask) * dim;
+    const rowSign = parity(i & signMask);
+    for (let j = 0; j < dim; j++) {
+      const from = 2 * (i * dim + j);
+      const to = 2 * (row + (j ^ flipMask));
+      const sign = rowSign === parity(j & signMask) ? 1 : -1;
+      v[to] = sign * old[from];
+      v[to + 1] = sign * old[from + 1];
+    }
+  }
+  return rho;
+}
+
+/**
+ * ρ → UρU† for a 2×2 unitary (or Kraus operator) U acting on one qubit.
+ * Rows are mixed pairwise by U, then columns by U†.
+ */
+export function applyLocalGateInPlace<M extends Matrix>(rho: M, qubit: number, U: Matrix): M {
+  if (U.rows !== 2 || U.cols !== 2) {
+    throw new Error('Local gate must be a 2x2 matrix');
+  }
+  const mask = qubitMask(numQubits(rho), qubit);
+  const dim = rho.rows;
+  const v = rho.values;
+  const [aRe, aIm, bRe, bIm, cRe, cIm, dRe, dIm] = U.values;
+
+  // Left multiplication: rows i0 (bit 0) and i1 (bit 1)
+  for (let i0 = 0; i0 < dim; i0++) {
+    if (i0 & mask) continue;
+    const r0 = 2 * i0 * dim;
+    const r1 = 2 * (i0 | mask) * dim;
+    for (let j = 0; j < 2 * dim; j += 2) {
+      const xRe = v[r0 + j], xIm = v[r0 + j + 1];
+      const yRe = v[r1 + j], yIm = v[r1 + j + 1];
+      v[r0 + j] = aRe * xRe - aIm * xIm + bRe * yRe - bIm * yIm;
+      v[r0 + j + 1] = aRe * xIm + aIm * xRe + bRe * yIm + bIm * yRe;
+      v[r1 + j] = cRe * xRe - cIm * xIm + dRe * yRe - dIm * yIm;
+      v[r1 + j + 1] = cRe * xIm + cIm * xRe + dRe * yIm + dIm * yRe;
+    }
+  }
+
+  // Right multiplication by U†: (ρU†)[i][j] = Σ_k ρ[i][k]·conj(U[j][k])
+  for (let i = 0; i < dim; i++) {
+    const row = 2 * i * dim;
+    for (let j0 = 0; j0 < dim; j0++) {
+      if (j0 & mask) continue;
+      const k0 = row + 2 * j0;
+      const k1 = row + 2 * (j0 | mask);
+      const xRe = v[k0], xIm = v[k0 + 1];
+      const yRe = v[k1], yIm = v[k1 + 1];
+      v[k0] = xRe * aRe + xIm * aIm + yRe * bRe + yIm * bIm;
+      v[k0 + 1] = xIm * aRe - xRe * aIm + yIm * bRe - yRe * bIm;
+      v[k1] = xRe * cRe + xIm * cIm + yRe * dRe + yIm * dIm;
+      v[k1 + 1] = xIm * cRe - xRe * cIm + yIm * dRe - yRe * dIm;
+    }
+  }
+  return rho;
+}
@@ -1,7 +1,8 @@
 import { DensityMatrix } from '../matrix/densityMatrix';
 import { Matrix } from '../matrix/matrix';
 import { rx, ry, rz } from '../gates/rotations';
-import { applyGate } from './applyGate';
+import { applyLocalGateInPlace } from './kernels';
+import { RandomSource, defaultRandom } from '../utils/random';
 
 // Define the 12 bilateral rotation sequences for Pauli twirling
 export const PAULI_TWIRL_SEQUENCES: Array<Array<'x'|'y'|'z'>> = [
@@ -20,18 +21,12 @@ export const PAULI_TWIRL_SEQUENCES: Array<Array<'x'|'y'|'z'>> = [
 ];
 
 /**
- * Get Pauli twirl operator for a specified rotation sequence.
+ * Get the single-qubit rotation U of a twirl rotation sequence.
  * 
  * @param sequence Array of 'x', 'y', 'z' indicating rotation axes
- * @returns Bilateral π/2 rotation operator (U ⊗ U)
+ * @returns Product of the π/2 rotations, applied in sequence order
  */
-export function getPauliTwirlOperator(sequence: Array<'x'|'y'|'z'>): Matrix {
-  // If empty sequence, return identity operator on 2 qubits
-  if (sequence.length === 0) {
-    const I = Matrix.identity(2);
-    return I.tensor(I);
-  }
-  
+export function getPauliTwirlRotation(sequence: Array<'x'|'y'|'z'>): Matrix {
   // Apply π/2 rotations as specified in sequence
   let U = Matrix.identity(2);
   for (const axis of sequence) {
@@ -40,8 +35,17 @@ export function getPauliTwirlOperator(sequence: Array<'x'|'y'|'z'>): Matrix {
               rz(Math.PI/2);
     U = R.mul(U);
   }
-  
-  // Return bilateral operator (U ⊗ U)
+  return U;
+}
+
+/**
+ * Get Pauli twirl operator for a specified rotation sequence.
+ * 
+ * @param sequence Array of 'x', 'y', 'z' indicating rotation axes
+ * @returns Bilateral π/2 rotation operator (U ⊗ U)
+ */
+export function getPauliTwirlOperator(sequence: Array<'x'|'y'|'z'>): Matrix {
+  const U = getPauliTwirlRotation(sequence);
   return U.tensor(U);
 }
 
@@ -52,16 +56,22 @@ export function getPauliTwirlOperator(sequence: Array<'x'|'y'|'z'>): Matrix {
  * In the Monte Carlo approach, we just need one random rotation rather than the average.
  * 
  * @param rho Two-qubit density matrix
+ * @param random Source used to pick the rotation
  * @returns Twirled density matrix
  */
-export function pauliTwirl(rho: DensityMatrix): DensityMatrix {
+export function pauliTwirl(rho: DensityMatrix, random: RandomSource = defaultRandom): DensityMatrix {
   // Select a random rotation sequence from the 12 possibilities
-  const randomIndex = Math.floor(Math.random() * PAULI_TWIRL_SEQUENCES.length);
+  const randomIndex = Math.floor(random.next() * PAULI_TWIRL_SEQUENCES.length);
   const sequence = PAULI_TWIRL_SEQUENCES[randomIndex];
   
-  // Get the corresponding unitary operator
-  const U = getPauliTwirlOperator(sequence);
+  if (sequence.length === 0) {
+    return new DensityMatrix(rho);
+  }
   
-  // Apply the unitary operation: ρ → U ρ U†
-  return applyGate(rho, U);
+  // Apply the bilateral rotation (U ⊗ U) one qubit at a time: ρ → U ρ U†
+  const U = getPauliTwirlRotation(sequence);
+  const result = new DensityMatrix(rho);
+  applyLocalGateInPlace(result, 0, U);
+  applyLocalGateInPlace(result, 1, U);
+  return result.normalize();
 } 
\ No newline at end of file
@@ -0,0 +1,120 @@
+import type { MatrixValues } from '../matrix/matrix';
+
+export interface HermitianEigen {
+  values: number[]; // Eigenvalues in ascending order
+  vectors: MatrixValues; // Unitary matrix whose column j is the eigenvector of values[j]
+}
+
+// Off-diagonal weight, relative to the whole matrix, below which the matrix counts as diagonal
+const TOLERANCE = 1e-14;
+const MAX_SWEEPS = 100;
+
+/**
+ * Eigenvalues and eigenvectors of a Hermitian matrix by cyclic Jacobi rotations.
+ *
+ * Each rotation first turns the phase of the pivot entry away, then zeroes it with a real plane rotation,
+ * so every step is unitary and the method stays accurate for degenerate and nearly singular matrices
+ * (e.g. Werner states). The matrix is assumed to be Hermitian; this is not checked.
+ */
+export function hermitianEigen(matrix: MatrixValues): HermitianEigen {
+  const n = matrix.rows;
+  if (matrix.cols !== n) {
+    throw new Error('Matrix must be square for an eigendecomposition');
+  }
+  const a = Float64Array.from(matrix.values);
+  const v = new Float64Array(2 * n * n);
+  for (let i = 0; i < n; i++) {
+    v[2 * (i * n + i)] = 1;
+  }
+
+  let norm = 0;
+  for (let k = 0; k < a.length; k++) {
+    norm += a[k] * a[k];
+  }
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const pq = 2 * (q * n + p);
+        offDiagonal += a[pq] * a[pq] + a[pq + 1] * a[pq + 1];
+      }
+    }
+    if (offDiagonal <= TOLERANCE * TOLERANCE * norm) {
+      break;
+    }
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        rotate(a, v, n, p, q);
+      }
+    }
+  }
+
+  const values = Array.from({ length: n }, (_, i) => a[2 * (i * n + i)]);
+  const order = values.map((_, i) => i).sort((i, j) => values[i] - values[j]);
+  const vectors = new Float64Array(2 * n * n);
+  order.forEach((column, j) => {
+    for (let i = 0; i < n; i++) {
+      vectors[2 * (i * n + j)] = v[2 * (i * n + column)];
+      vectors[2 * (i * n + j) + 1] = v[2 * (i * n + column) + 1];
+    }
+  });
+  return { values: order.map(i => values[i]), vectors: { rows: n, cols: n, values: vectors } };
+}
+
+// Zero entry (q, p) of a with the unitary U = diag(1, e^{-iφ})·[[c, s], [-s, c]] on rows/columns p and q: a → U†·a·U, v → v·U
+function rotate(a: Float64Array, v: Float64Array, n: number, p: number, q: number): void {
+  // a_qp = r·e^{-iφ}, so a_pq = r·e^{iφ}
+  const qp = 2 * (q * n + p);
+  const r = Math.hypot(a[qp], a[qp + 1]);
+  if (r === 0) {
+    return;
+  }
+  const phaseRe = a[qp] / r;
+  const phaseIm = -a[qp + 1] / r; // e^{iφ}
+  const app = a[2 * (p * n + p)];
+  const aqq = a[2 * (q * n + q)];
+  const theta = (aqq - app) / (2 * r);
+  const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+  const c = 1 / Math.sqrt(t * t + 1);
+  const s = t * c;
+
+  // Entries of U: U_pp = c, U_pq = s, U_qp = -s·e^{-iφ}, U_qq = c·e^{-iφ}
+  const upp = [c, 0];
+  const upq = [s, 0];
+  const uqp = [-s * phaseRe, s * phaseIm];
+  const uqq = [c * phaseRe, -c * phaseIm];
+
+  // Columns: x → x·U, for a and for v
+  const columns = (m: Float64Array) => {
+    for (let k = 0; k < n; k++) {
+      const kp = 2 * (k * n + p);
+      const kq = 2 * (k * n + q);
+      const xpRe = m[kp], xpIm = m[kp + 1], xqRe = m[kq], xqIm = m[kq + 1];
+      m[kp] = xpRe * upp[0] - xpIm * upp[1] + xqRe * uqp[0] - xqIm * uqp[1];
+      m[kp + 1] = xpRe * upp[1] + xpIm * upp[0] + xqRe * uqp[1] + xqIm * uqp[0];
+      m[kq] = xpRe * upq[0] - xpIm * upq[1] + xqRe * uqq[0] - xqIm * uqq[1];
+      m[kq + 1] = xpRe * upq[1] + xpIm * upq[0] + xqRe * uqq[1] + xqIm * uqq[0];
+    }
+  };
+  columns(a);
+  columns(v);
+
+  // Rows: a → U†·a, i.e. new row p = conj(U_pp)·row p + conj(U_qp)·row q, new row q = conj(U_pq)·row p + conj(U_qq)·row q
+  for (let k = 0; k < n; k++) {
+    const pk = 2 * (p * n + k);
+    const qk = 2 * (q * n + k);
+    const ypRe = a[pk], ypIm = a[pk + 1], yqRe = a[qk], yqIm = a[qk + 1];
+    a[pk] = ypRe * upp[0] + ypIm * upp[1] + yqRe * uqp[0] + yqIm * uqp[1];
+    a[pk + 1] = ypIm * upp[0] - ypRe * upp[1] + yqIm * uqp[0] - yqRe * uqp[1];
+    a[qk] = ypRe * upq[0] + ypIm * upq[1] + yqRe * uqq[0] + yqIm * uqq[1];
+    a[qk + 1] = ypIm * upq[0] - ypRe * upq[1] + yqIm * uqq[0] - yqRe * uqq[1];
+  }
+
+  // The rotation makes these exact; rounding would leave tiny residues
+  a[2 * (p * n + q)] = a[2 * (p * n + q) + 1] = 0;
+  a[qp] = a[qp + 1] = 0;
+  a[2 * (p * n + p) + 1] = 0;
+  a[2 * (q * n + q) + 1] = 0;
+}
@@ -5,8 +5,14 @@ import { Matrix } from '../matrix/matrix';
  */
 export declare function matrixExp(matrix: Matrix): Matrix;
 /**
- * Compute matrix logarithm using element-wise logarithm
- * Note: This is an approximation. True matrix logarithm requires eigenvalue decomposition
+ * Whether A·A† = A†·A within tolerance (relative to the largest entry of A·A†), e.g. for unitary or Hermitian matrices.
+ */
+export declare function isNormal(matrix: Matrix, tolerance?: number): boolean;
+/**
+ * Compute matrix logarithm from an eigendecomposition. Hermitian positive definite matrices (e.g. full-rank density
+ * matrices) use Matrix.funm; other normal matrices, such as unitaries, get the principal logarithm of each eigenvalue.
+ * Throws for singular normal matrices.
+ * Note: Non-normal matrices fall back to the element-wise logarithm, which is only an approximation
  */
 export declare function matrixLog(matrix: Matrix): Matrix;
 /**
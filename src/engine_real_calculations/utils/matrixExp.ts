@@ -31,11 +31,62 @@ export function matrixExp(matrix: Matrix): Matrix {
   return result;
 }
 
+// Weight of the anti-Hermitian part when diagonalizing a normal matrix; irrational, so that different
+// eigenvalues of the matrix do not end up equal in the Hermitian combination
+const NORMAL_MIX = Math.SQRT2 / Math.PI;
+
+/**
+ * Whether A·A† = A†·A within tolerance (relative to the largest entry of A·A†), e.g. for unitary or Hermitian matrices.
+ */
+export function isNormal(matrix: Matrix, tolerance: number = 1e-10): boolean {
+  if (matrix.rows !== matrix.cols) return false;
+
+  const left = matrix.mul(matrix.dagger());
+  const right = matrix.dagger().mul(matrix);
+  const scale = Math.max(1, ...Array.from(left.values, Math.abs));
+  return left.equals(right, tolerance * scale);
+}
+
+/**
+ * Principal logarithm of a normal matrix A = V·diag(λ)·V†. With A = H + iK for Hermitian H and K, which commute
+ * when A is normal, the Hermitian matrix H + c·K has the eigenvectors of A.
+ */
+function normalMatrixLog(matrix: Matrix): Matrix {
+  const adjoint = matrix.dagger();
+  const hermitianPart = matrix.add(adjoint).scale(ComplexNum.fromReal(0.5));
+  // (A - A†)/2i = -i·(A - A†)/2
+  const antiHermitianPart = matrix.add(adjoint.scale(ComplexNum.fromReal(-1))).scale(new ComplexNum(0, -0.5));
+  const vectors = hermitianPart.add(antiHermitianPart.scale(ComplexNum.fromReal(NORMAL_MIX))).eigh().vectors;
+  // The eigenvalues of A are the diagonal of V†·A·V
+  const diagonal = vectors.dagger().mul(matrix).mul(vectors);
+  const logarithms = Matrix.zeros(matrix.rows, matrix.cols);
+  for (let j = 0; j < matrix.rows; j++) {
+    const { re, im } = diagonal.get(j, j);
+    const magnitude = Math.sqrt(re * re + im * im);
+    if (magnitude === 0) {
+      throw new Error('Matrix logarithm needs an invertible matrix');
+    }
+    logarithms.set(j, j, new ComplexNum(Math.log(magnitude), Math.atan2(im, re)));
+  }
+  return vectors.mul(logarithms).mul(vectors.dagger());
+}
+
 /**
- * Compute matrix logarithm using element-wise logarithm
- * Note: This is an approximation. True matrix logarithm requires eigenvalue decomposition
+ * Compute matrix logarithm from an eigendecomposition. Hermitian positive definite matrices (e.g. full-rank density
+ * matrices) use Matrix.funm; other normal matrices, such as unitaries, get the principal logarithm of each eigenvalue.
+ * Throws for singular normal matrices.
+ * Note: Non-normal matrices fall back to the element-wise logarithm, which is only an approximation
  */
 export function matrixLog(matrix: Matrix): Matrix {
+  if (matrix.isHermitian()) {
+    const { values } = matrix.eigh();
+    if (values[0] > 0) {
+      return matrix.funm(Math.log);
+    }
+  }
+  if (isNormal(matrix)) {
+    return normalMatrixLog(matrix);
+  }
   return matrix.map((val) => {
     const magnitude = Math.sqrt(val.re * val.re + val.im * val.im);
     const phase = Math.atan2(val.im, val.re);
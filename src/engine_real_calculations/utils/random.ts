@@ -0,0 +1,61 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1).
+ * Every stochastic operation takes one, so a whole run can be replayed from a seed.
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Unseeded source backed by Math.random.
+ * Math.random is looked up on every call, so tests that replace it keep working.
+ */
+export const defaultRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Seeded pseudo-random generator (mulberry32).
+ * Not cryptographically secure, but fast, well distributed and identical on every platform.
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Internal generator state, e.g. to continue a run from a snapshot
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Create the random source for a run: seeded when a seed is given, Math.random otherwise.
+ */
+export function createRandomSource(seed?: number): RandomSource {
+  return seed === undefined ? defaultRandom : new SeededRandom(seed);
+}
+
+// Largest distinct seed: SeededRandom keeps only the low 32 bits of a seed
+export const MAX_SEED = 2 ** 32 - 1;
+
+/**
+ * Draw a fresh 32-bit seed, e.g. to pre-fill a seed input.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
@@ -1,16 +1,14 @@
 import { Matrix } from '../matrix/matrix';
 import { ComplexNum } from '../types/complex';
-
-// Module-level variable to store spare Gaussian random number
-let gaussianSpare: number | undefined;
+import { RandomSource, defaultRandom } from './random';
 
 /**
  * Generate a random unitary matrix using the Haar measure
  * This implementation uses the QR decomposition of a random Ginibre matrix
  */
-export function randomUnitary(size: number): Matrix {
+export function randomUnitary(size: number, random: RandomSource = defaultRandom): Matrix {
   // Step 1: Generate a random complex matrix with Gaussian entries
-  const gaussianMatrix = generateGaussianMatrix(size, size);
+  const gaussianMatrix = generateGaussianMatrix(size, size, random);
   
   // Step 2: Perform QR decomposition to get a unitary matrix
   const { Q } = qrDecomposition(gaussianMatrix);
@@ -21,16 +19,15 @@ export function randomUnitary(size: number): Matrix {
 /**
  * Generate a matrix with entries from complex Gaussian distribution
  */
-function generateGaussianMatrix(rows: number, cols: number): Matrix {
+function generateGaussianMatrix(rows: number, cols: number, random: RandomSource): Matrix {
   const data: ComplexNum[][] = [];
   
   for (let i = 0; i < rows; i++) {
     data[i] = [];
     for (let j = 0; j < cols; j++) {
       // Generate complex Gaussian: (N(0,1) + i*N(0,1)) / sqrt(2)
-      const realPart = gaussianRandom() / Math.sqrt(2);
-      const imagPart = gaussianRandom() / Math.sqrt(2);
-      data[i][j] = { re: realPart, im: imagPart };
+      const [z0, z1] = gaussianPair(random);
+      data[i][j] = { re: z0 / Math.sqrt(2), im: z1 / Math.sqrt(2) };
     }
   }
   
@@ -38,24 +35,15 @@ function generateGaussianMatrix(rows: number, cols: number): Matrix {
 }
 
 /**
- * Generate a random number from standard normal distribution using Box-Muller transform
+ * Generate two independent numbers from the standard normal distribution using the Box-Muller transform.
+ * Both values are returned instead of caching a spare, so the output only depends on the random source.
  */
-function gaussianRandom(): number {
-  // Use Box-Muller transform to generate Gaussian random numbers
-  if (gaussianSpare !== undefined) {
-    const spare = gaussianSpare;
-    gaussianSpare = undefined;
-    return spare;
-  }
-  
-  const u1 = Math.random();
-  const u2 = Math.random();
+function gaussianPair(random: RandomSource): [number, number] {
+  // 1 - u lies in (0, 1], which keeps the logarithm finite
+  const u1 = 1 - random.next();
+  const u2 = random.next();
   const mag = Math.sqrt(-2 * Math.log(u1));
-  const z0 = mag * Math.cos(2 * Math.PI * u2);
-  const z1 = mag * Math.sin(2 * Math.PI * u2);
-  
-  gaussianSpare = z1;
-  return z0;
+  return [mag * Math.cos(2 * Math.PI * u2), mag * Math.sin(2 * Math.PI * u2)];
 }
 
 /**
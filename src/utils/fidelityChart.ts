@@ -0,0 +1,51 @@
+import { PurificationStep, SimulationState } from '../engine/types';
+
+// One plotted state of a run
+export interface ChartPoint {
+  position: number; // Round plus the fraction of the round done, e.g. 2.5 after the CNOT of round 2
+  round: number;
+  step: PurificationStep;
+  averageFidelity: number;
+  minFidelity?: number; // Unset when no pairs are left
+  maxFidelity?: number;
+  pairs: number;
+}
+
+// Sub-steps of a round in protocol order; a round starts at 'initial' and ends after 'discard'
+const ROUND_STEPS: PurificationStep[] = ['initial', 'twirled', 'exchanged', 'cnot', 'measured', 'discard'];
+const STEP_WIDTH = 1 / ROUND_STEPS.length;
+
+// Where a state sits on the round axis; the completed state comes right after the step that ended the run
+function stepPosition(state: SimulationState, previous?: ChartPoint): number {
+  if (state.purificationStep === 'completed') {
+    return Math.max(state.round, previous ? previous.position + STEP_WIDTH : 0);
+  }
+  // The combined twirl and exchange of older runs sits where the twirl does
+  const step = state.purificationStep === 'twirlExchange' ? 'twirled' : state.purificationStep;
+  return state.round + ROUND_STEPS.indexOf(step) * STEP_WIDTH;
+}
+
+/**
+ * Chart points for the states of a run, in order. A state that lies before the previous point
+ * (stepping again after an undo) replaces the points it went back over, so the chart shows the latest path.
+ */
+export function chartPoints(states: SimulationState[]): ChartPoint[] {
+  const points: ChartPoint[] = [];
+  for (const state of states) {
+    const position = stepPosition(state, points[points.length - 1]);
+    while (points.length > 0 && points[points.length - 1].position >= position) {
+      points.pop();
+    }
+    const fidelities = state.pairs.map(pair => pair.fidelity);
+    points.push({
+      position,
+      round: state.round,
+      step: state.purificationStep,
+      averageFidelity: state.averageFidelity,
+      minFidelity: fidelities.length > 0 ? Math.min(...fidelities) : undefined,
+      maxFidelity: fidelities.length > 0 ? Math.max(...fidelities) : undefined,
+      pairs: state.pairs.length
+    });
+  }
+  return points;
+}
@@ -0,0 +1,69 @@
+/**
+ * Reference states that pairs can be measured against in place of the engine's target
+ */
+
+import { BellState } from '../engine_real_calculations/bell/bell-basis';
+import { DensityMatrix } from '../engine_real_calculations/matrix/densityMatrix';
+import { Matrix } from '../engine_real_calculations/matrix/matrix';
+import { rx, ry, rz } from '../engine_real_calculations/gates/rotations';
+import { PurificationStep } from '../engine/types';
+import { memoryReferenceState } from '../engine/memory';
+
+export type RotationAxis = 'x' | 'y' | 'z';
+
+// The engine's own target, which depends on the step: |Φ+⟩ while a round works in the Φ+ frame, |Ψ-⟩ otherwise
+export const ENGINE_TARGET = 'target';
+
+// A Bell state with a known local rotation applied to Bob's qubit, e.g. a frame rotation the receiver will undo
+export interface ReferenceState {
+  bellState: BellState | typeof ENGINE_TARGET;
+  axis: RotationAxis;
+  angle: number; // In degrees; 0 leaves the Bell state as it is
+}
+
+// The state the engines compare pairs with at each step
+export const DEFAULT_REFERENCE_STATE: ReferenceState = {
+  bellState: ENGINE_TARGET,
+  axis: 'z',
+  angle: 0
+};
+
+const BELL_STATE_LABELS: Record<BellState, string> = {
+  [BellState.PHI_PLUS]: 'Φ+',
+  [BellState.PHI_MINUS]: 'Φ-',
+  [BellState.PSI_PLUS]: 'Ψ+',
+  [BellState.PSI_MINUS]: 'Ψ-'
+};
+
+const BELL_STATES: Record<BellState, () => DensityMatrix> = {
+  [BellState.PHI_PLUS]: DensityMatrix.bellPhiPlus,
+  [BellState.PHI_MINUS]: DensityMatrix.bellPhiMinus,
+  [BellState.PSI_PLUS]: DensityMatrix.bellPsiPlus,
+  [BellState.PSI_MINUS]: DensityMatrix.bellPsiMinus
+};
+
+const ROTATIONS: Record<RotationAxis, (theta: number) => Matrix> = { x: rx, y: ry, z: rz };
+
+const bellStateAt = (reference: ReferenceState, step: PurificationStep): BellState =>
+  reference.bellState === ENGINE_TARGET ? memoryReferenceState(step) : reference.bellState;
+
+/**
+ * Density matrix of the reference state in the computational basis: (I⊗R)·|B⟩⟨B|·(I⊗R)†
+ * for the Bell state B and the rotation R on Bob's (second) qubit. The engine target resolves to the Bell state of `step`.
+ */
+export function referenceDensityMatrix(reference: ReferenceState, step: PurificationStep = 'initial'): DensityMatrix {
+  const bell = BELL_STATES[bellStateAt(reference, step)]();
+  if (reference.angle === 0) {
+    return bell;
+  }
+  const local = Matrix.identity(2).tensor(ROTATIONS[reference.axis]((reference.angle * Math.PI) / 180));
+  return new DensityMatrix(local.mul(bell).mul(local.dagger()));
+}
+
+/**
+ * Short name of the reference state at `step`, e.g. "Ψ-", "Φ+ (engine target)" or "Ψ- with Rz(90°) on Bob"
+ */
+export function referenceStateLabel(reference: ReferenceState, step: PurificationStep = 'initial'): string {
+  const bell = BELL_STATE_LABELS[bellStateAt(reference, step)] + (reference.bellState === ENGINE_TARGET ? ' (engine target)' : '');
+  return reference.angle === 0 ? bell : `${bell} with R${reference.axis}(${reference.angle}°) on Bob`;
+}
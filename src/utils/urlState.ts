@@ -0,0 +1,194 @@
+import {
+  Basis,
+  EngineType,
+  InitialStateMode,
+  NoiseChannel,
+  PairingStrategy,
+  PurificationScheme,
+  QubitNoise,
+  SimulationParameters
+} from '../engine/types';
+import { ComplexNum } from '../engine_real_calculations/types/complex';
+import { MAX_SEED } from '../engine_real_calculations/utils/random';
+
+// Everything needed to open the same simulation on another machine
+export interface Scenario {
+  params: SimulationParameters;
+  engineType: EngineType;
+  viewBasis: Basis;
+}
+
+export const DEFAULT_SCENARIO: Scenario = {
+  params: {
+    initialPairs: 32,
+    noiseParameter: 0.3,
+    targetFidelity: 0.95,
+    noiseChannel: NoiseChannel.UniformNoise
+  },
+  engineType: EngineType.MonteCarlo,
+  viewBasis: Basis.Bell
+};
+
+type Params = Record<string, unknown>;
+
+const NUMBER_KEYS = [
+  'noiseParameter', 'targetFidelity', 'wernerFidelity', 'thermalPopulation',
+  'cnotErrorProbability', 'readoutErrorProbability', 'memoryT1', 'memoryT2', 'stepDuration'
+];
+
+// Smallest and largest number of initial pairs, shared with the control panel
+export const INITIAL_PAIRS_RANGE: [number, number] = [2, 50];
+
+// Counts and seeds must be whole numbers within these bounds
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  initialPairs: INITIAL_PAIRS_RANGE,
+  seed: [0, MAX_SEED]
+};
+
+const ENUM_VALUES: Record<string, string[]> = {
+  // Correlated dephasing leaves the Bell pairs unchanged, so the control panel does not offer it either
+  noiseChannel: Object.values(NoiseChannel).filter(channel => channel !== NoiseChannel.CorrelatedDephasing),
+  initialStateMode: Object.values(InitialStateMode),
+  purificationScheme: Object.values(PurificationScheme),
+  pairingStrategy: Object.values(PairingStrategy)
+};
+
+// Readers for the parameters that travel as JSON; each throws on values of the wrong shape
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function readNumbers(value: unknown, length: number): number[] {
+  if (!Array.isArray(value) || value.length !== length || !value.every(isNumber)) {
+    throw new Error(`Expected ${length} numbers`);
+  }
+  return value;
+}
+
+// Complex numbers are written as [re, im]
+function readMatrix(value: unknown): ComplexNum[][] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Expected a matrix');
+  }
+  return value.map(row => {
+    if (!Array.isArray(row) || row.length !== value.length) {
+      throw new Error('Expected a square matrix');
+    }
+    return row.map(entry => {
+      const [re, im] = readNumbers(entry, 2);
+      return new ComplexNum(re, im);
+    });
+  });
+}
+
+function readKrausOperators(value: unknown): ComplexNum[][][] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Expected Kraus operators');
+  }
+  return value.map(readMatrix);
+}
+
+function readPauliProbabilities(value: unknown): SimulationParameters['pauliProbabilities'] {
+  const { x, y, z } = (value ?? {}) as Params;
+  const [px, py, pz] = readNumbers([x, y, z], 3);
+  return { x: px, y: py, z: pz };
+}
+
+function readQubitNoise(value: unknown): QubitNoise {
+  const noise = (value ?? {}) as Params;
+  if (!ENUM_VALUES.noiseChannel.includes(noise.channel as string) || !isNumber(noise.parameter)) {
+    throw new Error('Expected a noise channel and parameter');
+  }
+  return {
+    channel: noise.channel as NoiseChannel,
+    parameter: noise.parameter,
+    krausOperators: noise.krausOperators === undefined ? undefined : readKrausOperators(noise.krausOperators),
+    thermalPopulation: noise.thermalPopulation === undefined ? undefined : readNumbers([noise.thermalPopulation], 1)[0],
+    pauliProbabilities: noise.pauliProbabilities === undefined ? undefined : readPauliProbabilities(noise.pauliProbabilities)
+  };
+}
+
+const JSON_READERS: Record<string, (value: unknown) => unknown> = {
+  bellDiagonalWeights: value => readNumbers(value, 4),
+  importedState: readMatrix,
+  pairInitialStates: value => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error('Expected states by pair index');
+    }
+    return Object.fromEntries(Object.entries(value).map(([index, state]) => {
+      if (!/^\d+$/.test(index)) {
+        throw new Error(`"${index}" is not a pair index`);
+      }
+      return [Number(index), readMatrix(state)];
+    }));
+  },
+  krausOperators: readKrausOperators,
+  pauliProbabilities: readPauliProbabilities,
+  aliceNoise: readQubitNoise
+};
+
+const complexAsPair = (_key: string, value: unknown) =>
+  value instanceof ComplexNum ? [value.re, value.im] : value;
+
+/**
+ * Query string (without "?") for a scenario: the engine, the view basis and every parameter that is set.
+ * Numbers and choices are plain values, e.g. `noiseChannel=dephasing`; weights, matrices, Kraus operators and
+ * Alice's noise are JSON, with complex numbers as [re, im].
+ */
+export function encodeScenario(scenario: Scenario): string {
+  const query = new URLSearchParams();
+  query.set('engine', scenario.engineType);
+  query.set('basis', scenario.viewBasis);
+  for (const [key, value] of Object.entries(scenario.params)) {
+    if (value === undefined) {
+      continue;
+    }
+    query.set(key, typeof value === 'object' ? JSON.stringify(value, complexAsPair) : String(value));
+  }
+  return query.toString();
+}
+
+/**
+ * Read a scenario back from a query string. Anything missing or unreadable is left at its default, so a link
+ * from an older version or with a damaged value still opens. Whether the parameters can be simulated is not checked.
+ */
+export function decodeScenario(search: string): Scenario {
+  const query = new URLSearchParams(search);
+  const params: Params = { ...DEFAULT_SCENARIO.params };
+
+  for (const [key, text] of query) {
+    if (NUMBER_KEYS.includes(key) || key in INTEGER_RANGES) {
+      const value = Number(text);
+      const range = INTEGER_RANGES[key];
+      const valid = text !== '' && (range
+        ? Number.isInteger(value) && value >= range[0] && value <= range[1]
+        : Number.isFinite(value));
+      if (valid) {
+        params[key] = value;
+      }
+    } else if (key in ENUM_VALUES) {
+      if (ENUM_VALUES[key].includes(text)) {
+        params[key] = text;
+      }
+    } else if (key in JSON_READERS) {
+      try {
+        params[key] = JSON_READERS[key](JSON.parse(text));
+      } catch {
+        // Keep the default
+      }
+    }
+  }
+
+  const engine = query.get('engine') as EngineType;
+  const basis = query.get('basis') as Basis;
+  return {
+    params: params as SimulationParameters,
+    engineType: Object.values(EngineType).includes(engine) ? engine : DEFAULT_SCENARIO.engineType,
+    viewBasis: Object.values(Basis).includes(basis) ? basis : DEFAULT_SCENARIO.viewBasis
+  };
+}
+
+// Link to the page at `href` that opens the given scenario; the hash of `href` is kept
+export function scenarioLink(scenario: Scenario, href: string): string {
+  const url = new URL(href);
+  url.search = encodeScenario(scenario);
+  return url.toString();
+}
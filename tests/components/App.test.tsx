@@ -1,10 +1,14 @@
 import {beforeEach, describe, expect, test, vi} from 'vitest';
 import React from 'react';
-import {fireEvent, render, screen} from '@testing-library/react';
+import {act, fireEvent, render, screen, waitFor} from '@testing-library/react';
 import App from '../../src/components/App';
 import {SimulationController} from '../../src/controller/simulationController';
 import {Basis, EngineType, PurificationStep, SimulationParameters, SimulationState} from '../../src/engine/types';
-import {NoiseChannel} from '../../src/engine/types';
+import {InitialStateMode, NoiseChannel, PairingStrategy, PurificationScheme} from '../../src/engine/types';
+import {TRACE_CSV_COLUMNS} from '../../src/engine/traceExport';
+import {downloadTextFile} from '../../src/utils/download';
+import {DEFAULT_REFERENCE_STATE} from '../../src/utils/referenceState';
+import {BellState} from '../../src/engine_real_calculations/bell/bell-basis';
 
 // Mock the simulation controller
 vi.mock('../../src/controller/simulationController', () => {
@@ -16,7 +20,7 @@ vi.mock('../../src/controller/simulationController', () => {
 // Mock the EnsembleDisplay component
 vi.mock('../../src/components/EnsembleDisplay', () => ({
   default: (props: any) => (
-    <div data-testid="ensemble-display" data-view-basis={props.viewBasis}>
+    <div data-testid="ensemble-display" data-view-basis={props.viewBasis} data-reference-state={JSON.stringify(props.referenceState)}>
       <div className="participants">
         <div>Alice</div>
         <div>Bob</div>
@@ -32,6 +36,11 @@ vi.mock('../../src/components/EnsembleDisplay', () => ({
   )
 }));
 
+// Mock file downloads
+vi.mock('../../src/utils/download', () => ({
+  downloadTextFile: vi.fn()
+}));
+
 // Mock the Attribution component
 vi.mock('../../src/components/Attribution', () => ({
   default: () => <div data-testid="attribution-component">Attribution</div>
@@ -54,13 +63,28 @@ describe('App', () => {
   // Mock controller methods
   const mockNextStep = vi.fn();
   const mockCompleteRound = vi.fn();
-  const mockRunUntilComplete = vi.fn();
+  const mockRunUntilCompleteAsync = vi.fn();
+  const mockCancelRun = vi.fn();
   const mockReset = vi.fn();
   const mockUpdateParameters = vi.fn();
   const mockUpdateEngineType = vi.fn();
+  const mockUndo = vi.fn();
+  const mockRedo = vi.fn();
+  const mockGoTo = vi.fn();
+  const historyMethods = {
+    undo: mockUndo,
+    redo: mockRedo,
+    goTo: mockGoTo,
+    canUndo: () => true,
+    canRedo: () => true,
+    getHistoryIndex: () => 1,
+    getHistoryLength: () => 3
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
+    window.history.replaceState(null, '', '/');
+    mockRunUntilCompleteAsync.mockReturnValue(new Promise(() => {}));
     
     // Setup the controller mock to provide immediate state
     (SimulationController as unknown as ReturnType<typeof vi.fn>).mockImplementation(
@@ -72,10 +96,16 @@ describe('App', () => {
         return {
           nextStep: mockNextStep,
           completeRound: mockCompleteRound,
-          runUntilComplete: mockRunUntilComplete,
+          runUntilCompleteAsync: mockRunUntilCompleteAsync,
+          cancelRun: mockCancelRun,
           reset: mockReset,
           updateParameters: mockUpdateParameters,
-          updateEngineType: mockUpdateEngineType
+          updateEngineType: mockUpdateEngineType,
+          getTrace: () => [],
+          getTimeline: () => [],
+          getParameters: () => params,
+          getEngineType: () => EngineType.MonteCarlo,
+          ...historyMethods
         };
       }
     );
@@ -87,10 +117,12 @@ describe('App', () => {
       return {
         nextStep: mockNextStep,
         completeRound: mockCompleteRound,
-        runUntilComplete: mockRunUntilComplete,
+        runUntilCompleteAsync: mockRunUntilCompleteAsync,
+        cancelRun: mockCancelRun,
         reset: mockReset,
         updateParameters: mockUpdateParameters,
-        updateEngineType: mockUpdateEngineType
+        updateEngineType: mockUpdateEngineType,
+        ...historyMethods
       };
     });
     
@@ -110,6 +142,9 @@ describe('App', () => {
     // Should show the EnsembleDisplay component (check for participant labels)
     expect(screen.getByText('Alice')).toBeDefined();
     expect(screen.getByText('Bob')).toBeDefined();
+    
+    // Should show the fidelity chart below it
+    expect(screen.getByTestId('fidelity-chart')).toBeDefined();
   });
 
   test('passes correct props to ControlPanel from state', () => {
@@ -140,13 +175,50 @@ describe('App', () => {
     fireEvent.click(screen.getByText(/Complete Round/));
     expect(mockCompleteRound).toHaveBeenCalledTimes(1);
     
-    // Click Run All button - use regex to match with possible keyboard shortcut
-    fireEvent.click(screen.getByText(/Run All/));
-    expect(mockRunUntilComplete).toHaveBeenCalledTimes(1);
-    
     // Click Reset button - use regex to match with possible keyboard shortcut
     fireEvent.click(screen.getByText(/Reset/));
     expect(mockReset).toHaveBeenCalledTimes(1);
+    
+    // Click Run All button last, since the other controls are disabled while it runs
+    fireEvent.click(screen.getByText(/Run All/));
+    expect(mockRunUntilCompleteAsync).toHaveBeenCalledTimes(1);
+  });
+
+  test('runs in the background with progress and cancel', async () => {
+    let finishRun = () => {};
+    mockRunUntilCompleteAsync.mockImplementation((onProgress: (progress: object) => void) =>
+      new Promise<void>(resolve => {
+        onProgress({ state: mockState, completedRounds: 4, maxRounds: 100 });
+        finishRun = resolve;
+      })
+    );
+    render(<App />);
+    
+    fireEvent.click(screen.getByText(/Run All/));
+    expect(screen.getByText('Round 4')).toBeDefined();
+    expect(screen.getByText(/Next Step/)).toBeDisabled();
+    
+    fireEvent.click(screen.getByText('Cancel [Esc]'));
+    expect(mockCancelRun).toHaveBeenCalledTimes(1);
+    
+    await act(async () => finishRun());
+    expect(screen.queryByText('Cancel [Esc]')).toBeNull();
+    expect(screen.getByText(/Next Step/)).not.toBeDisabled();
+  });
+  
+  test('wires the history controls to the controller', () => {
+    render(<App />);
+    
+    expect(screen.getByText('History: 2 / 3')).toBeDefined();
+    
+    fireEvent.click(screen.getByText('Undo [U]'));
+    expect(mockUndo).toHaveBeenCalledTimes(1);
+    
+    fireEvent.click(screen.getByText('Redo [Y]'));
+    expect(mockRedo).toHaveBeenCalledTimes(1);
+    
+    fireEvent.change(screen.getByLabelText('History position'), { target: { value: '0' } });
+    expect(mockGoTo).toHaveBeenCalledWith(0);
   });
 
   test('updates parameters through controller when applied', () => {
@@ -171,8 +243,150 @@ describe('App', () => {
       initialPairs: 20,
       noiseParameter: 0.5,
       targetFidelity: 0.9,
-      noiseChannel: NoiseChannel.UniformNoise
+      noiseChannel: NoiseChannel.UniformNoise,
+      initialStateMode: InitialStateMode.Channel,
+      purificationScheme: PurificationScheme.Recurrence,
+      pairingStrategy: PairingStrategy.IndexOrder,
+      cnotErrorProbability: 0,
+      readoutErrorProbability: 0,
+      memoryT1: 0,
+      memoryT2: 0,
+      stepDuration: 0,
+      seed: expect.any(Number)
+    });
+  });
+
+  test('keeps the previous parameters when the engines reject the applied ones', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockUpdateParameters.mockImplementationOnce(() => {
+      throw new Error('The imported initial state needs a density matrix');
+    });
+    render(<App />);
+    const [initialParams] = (SimulationController as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+
+    fireEvent.change(screen.getByLabelText('Initial Pairs:'), { target: { value: '20' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+
+    expect(consoleError).toHaveBeenCalledWith('Cannot simulate these parameters, keeping the previous ones:', expect.any(Error));
+    expect(mockUpdateParameters).toHaveBeenCalledTimes(2);
+    expect(mockUpdateParameters).toHaveBeenLastCalledWith(initialParams);
+    expect(new URLSearchParams(window.location.search).get('initialPairs')).not.toBe('20');
+    consoleError.mockRestore();
+  });
+
+  test('downloads the trace from the controller', () => {
+    render(<App />);
+    
+    fireEvent.click(screen.getByRole('button', { name: 'JSON' }));
+    const [filename, json, mimeType] = vi.mocked(downloadTextFile).mock.calls[0];
+    expect(filename).toBe('simulation-trace.json');
+    expect(mimeType).toBe('application/json');
+    expect(JSON.parse(json)).toMatchObject({ engineType: EngineType.MonteCarlo, states: [] });
+    
+    fireEvent.click(screen.getByRole('button', { name: 'CSV' }));
+    expect(downloadTextFile).toHaveBeenLastCalledWith(
+      'simulation-trace.csv',
+      TRACE_CSV_COLUMNS.join(',') + '\n',
+      'text/csv'
+    );
+  });
+
+  test('opens the scenario of a shared link', () => {
+    window.history.replaceState(null, '', '/?engine=exact&basis=computational&initialPairs=8&noiseChannel=dephasing&seed=5');
+    render(<App />);
+    
+    expect(SimulationController).toHaveBeenCalledWith(
+      expect.objectContaining({ initialPairs: 8, noiseChannel: NoiseChannel.Dephasing, seed: 5 }),
+      expect.any(Function),
+      EngineType.Exact
+    );
+    expect(screen.getByLabelText('Initial Pairs:')).toHaveValue(8);
+    expect(screen.getByTestId('ensemble-display')).toHaveAttribute('data-view-basis', Basis.Computational);
+  });
+
+  test('keeps the address bar in sync and copies the link', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    render(<App />);
+    
+    fireEvent.change(screen.getByLabelText('Initial Pairs:'), { target: { value: '20' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(new URLSearchParams(window.location.search).get('initialPairs')).toBe('20');
+    
+    fireEvent.change(screen.getByLabelText('View Basis:'), { target: { value: Basis.Computational } });
+    expect(new URLSearchParams(window.location.search).get('basis')).toBe(Basis.Computational);
+    
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy Link' }));
+    });
+    // The mocked controller keeps its first parameters, so the link has those
+    expect(writeText).toHaveBeenCalledWith(expect.stringContaining('basis=computational'));
+    expect(screen.getByText(/Link copied/)).toBeDefined();
+  });
+
+  test('draws a seed for an unseeded run and puts it in the link', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    render(<App />);
+    
+    const [params] = (SimulationController as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(params.seed).toEqual(expect.any(Number));
+    
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy Link' }));
     });
+    expect(new URLSearchParams(new URL(writeText.mock.calls[0][0]).search).get('seed')).toBe(String(params.seed));
+  });
+
+  test('compares a second engine side by side and steps both runs', () => {
+    render(<App />);
+    
+    fireEvent.change(screen.getByLabelText('Compare With:'), { target: { value: EngineType.Average } });
+    
+    expect(SimulationController).toHaveBeenLastCalledWith(expect.any(Object), expect.any(Function), EngineType.Average);
+    expect(mockReset).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('comparison-delta')).toBeDefined();
+    expect(screen.queryByTestId('fidelity-chart')).toBeNull();
+    
+    fireEvent.click(screen.getByText(/Next Step/));
+    expect(mockNextStep).toHaveBeenCalledTimes(2);
+    
+    fireEvent.change(screen.getByLabelText('Compare With:'), { target: { value: '' } });
+    expect(screen.queryByTestId('comparison-delta')).toBeNull();
+    fireEvent.click(screen.getByText(/Next Step/));
+    expect(mockNextStep).toHaveBeenCalledTimes(3);
+  });
+
+  test('loads a configuration from the parameter sweep into the simulation', async () => {
+    // Let the mocked controller keep the parameters it is given, like the real one
+    const createController = (SimulationController as unknown as ReturnType<typeof vi.fn>).getMockImplementation()!;
+    (SimulationController as unknown as ReturnType<typeof vi.fn>).mockImplementation(
+      (params: SimulationParameters, callback: (state: SimulationState) => void, type: EngineType) => {
+        let current = params;
+        return {
+          ...createController(params, callback, type),
+          updateParameters: (next: SimulationParameters) => {
+            mockUpdateParameters(next);
+            current = next;
+          },
+          getParameters: () => current
+        };
+      }
+    );
+    render(<App />);
+    
+    fireEvent.click(screen.getByRole('button', { name: /Parameter Sweep/ }));
+    fireEvent.change(screen.getByLabelText('X minimum'), { target: { value: '0.1' } });
+    fireEvent.change(screen.getByLabelText('X maximum'), { target: { value: '0.2' } });
+    fireEvent.change(screen.getByLabelText('X steps'), { target: { value: '2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+    await waitFor(() => expect(screen.getByTestId('sweep-cell-0-1')).toBeInTheDocument());
+    
+    fireEvent.click(screen.getByTestId('sweep-cell-0-1'));
+    expect(mockUpdateParameters).toHaveBeenCalledWith(expect.objectContaining({ noiseParameter: 0.2, initialPairs: 32 }));
+    expect(new URLSearchParams(window.location.search).get('noiseParameter')).toBe('0.2');
+    // The control panel starts over from the loaded configuration
+    expect(screen.getByLabelText('Noise Parameter:')).toHaveValue('0.2');
   });
 
   test('passes correct props to EnsembleDisplay from state', () => {
@@ -220,6 +434,17 @@ describe('App', () => {
     const ensembleDisplay = screen.getByTestId('ensemble-display');
     expect(ensembleDisplay.getAttribute('data-view-basis')).toBe(Basis.Computational);
   });
+  
+  test('passes the chosen reference state to the ensemble', () => {
+    render(<App />);
+    
+    const reference = () => JSON.parse(screen.getByTestId('ensemble-display').getAttribute('data-reference-state')!);
+    expect(reference()).toEqual(DEFAULT_REFERENCE_STATE);
+    
+    fireEvent.change(screen.getByLabelText('Reference State:'), { target: { value: String(BellState.PHI_PLUS) } });
+    fireEvent.change(screen.getByLabelText('Rotation angle in degrees'), { target: { value: '90' } });
+    expect(reference()).toEqual({ ...DEFAULT_REFERENCE_STATE, bellState: BellState.PHI_PLUS, angle: 90 });
+  });
 
   test('toggles the control-panel drawer when the mobile toggle button is clicked', () => {
     render(<App />);
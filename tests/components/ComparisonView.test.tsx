@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import ComparisonView from '../../src/components/ComparisonView';
+import { Basis, EngineType, SimulationState } from '../../src/engine/types';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+
+describe('ComparisonView', () => {
+  const stateWith = (fidelities: number[], round = 1): SimulationState => ({
+    pairs: fidelities.map((fidelity, id) => ({ id, fidelity, densityMatrix: DensityMatrix.bellPsiMinus(), basis: Basis.Bell })),
+    round,
+    complete: false,
+    purificationStep: 'initial',
+    averageFidelity: fidelities.reduce((sum, f) => sum + f, 0) / fidelities.length
+  });
+
+  test('shows each run with its engine and the difference between them', () => {
+    render(
+      <ComparisonView
+        left={{ engineType: EngineType.Average, state: stateWith([0.8, 0.8, 0.8, 0.8]) }}
+        right={{ engineType: EngineType.MonteCarlo, state: stateWith([0.75, 0.79, 0.77]) }}
+        viewBasis={Basis.Bell}
+      />
+    );
+
+    expect(within(screen.getByTestId('comparison-left')).getByText('Average')).toBeInTheDocument();
+    expect(within(screen.getByTestId('comparison-right')).getByText('Monte Carlo')).toBeInTheDocument();
+    expect(screen.getByTestId('comparison-right')).toHaveTextContent('3 pairs');
+
+    const delta = screen.getByTestId('comparison-delta');
+    expect(delta).toHaveTextContent('Monte Carlo − Average:');
+    expect(delta).toHaveTextContent('Δ Average Fidelity: −0.030');
+    expect(delta).toHaveTextContent('Δ Pairs Remaining: −1');
+  });
+
+  test('gives each display its own element ids', () => {
+    const { container } = render(
+      <ComparisonView
+        left={{ engineType: EngineType.Average, state: stateWith([0.8]) }}
+        right={{ engineType: EngineType.Exact, state: stateWith([0.8]) }}
+        viewBasis={Basis.Bell}
+      />
+    );
+
+    expect(container.querySelector('#left-alice-0')).not.toBeNull();
+    expect(container.querySelector('#right-alice-0')).not.toBeNull();
+    expect(screen.getByTestId('comparison-delta')).toHaveTextContent('Δ Pairs Remaining: +0');
+  });
+});
@@ -2,7 +2,9 @@ import { beforeEach, describe, expect, test, vi } from 'vitest';
 import React from 'react';
 import { fireEvent, render, screen, act } from '@testing-library/react';
 import ControlPanel from '../../src/components/ControlPanel';
-import { EngineType, Basis, PurificationStep } from '../../src/engine/types';
+import { EngineType, Basis, PurificationStep, PurificationScheme, PairingStrategy, NoiseChannel, InitialStateMode } from '../../src/engine/types';
+import { BellState } from '../../src/engine_real_calculations/bell/bell-basis';
+import { DEFAULT_REFERENCE_STATE } from '../../src/utils/referenceState';
 
 // Mock react-hotkeys-hook
 vi.mock('react-hotkeys-hook', () => ({
@@ -165,6 +167,463 @@ describe('ControlPanel', () => {
 
 
 
+  test('passes the selected purification scheme with the parameters', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Purification Scheme:'), { target: { value: PurificationScheme.Pumping } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ purificationScheme: PurificationScheme.Pumping })
+    );
+  });
+
+  test('passes the selected pairing strategy and disables it for pumping', () => {
+    render(<ControlPanel {...defaultProps} />);
+    const strategySelect = screen.getByLabelText('Pairing Strategy:');
+    
+    fireEvent.change(strategySelect, { target: { value: PairingStrategy.BestWithWorst } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ pairingStrategy: PairingStrategy.BestWithWorst })
+    );
+    
+    fireEvent.change(screen.getByLabelText('Purification Scheme:'), { target: { value: PurificationScheme.Pumping } });
+    expect(strategySelect).toBeDisabled();
+  });
+
+  test('passes gate and readout error probabilities with the parameters', () => {
+    render(<ControlPanel {...defaultProps} engineType={EngineType.MonteCarlo} />);
+    
+    fireEvent.change(screen.getByLabelText('CNOT Error:'), { target: { value: '0.02' } });
+    fireEvent.change(screen.getByLabelText('Readout Error:'), { target: { value: '0.05' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ cnotErrorProbability: 0.02, readoutErrorProbability: 0.05 })
+    );
+  });
+
+  test('disables gate and readout errors for the average engine', () => {
+    render(<ControlPanel {...defaultProps} engineType={EngineType.Average} />);
+    
+    expect(screen.getByLabelText('CNOT Error:')).toBeDisabled();
+    expect(screen.getByLabelText('Readout Error:')).toBeDisabled();
+  });
+
+  test('passes memory coherence times and step duration with the parameters', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Memory T1 (0 = ∞):'), { target: { value: '100' } });
+    fireEvent.change(screen.getByLabelText('Memory T2 (0 = ∞):'), { target: { value: '50' } });
+    fireEvent.change(screen.getByLabelText('Step Duration:'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ memoryT1: 100, memoryT2: 50, stepDuration: 2 })
+    );
+  });
+
+  test('passes custom Kraus operators entered as text', () => {
+    render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByLabelText(/Kraus Operators/)).not.toBeInTheDocument();
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.CustomKraus } });
+    expect(screen.getByLabelText('Noise Parameter:')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText(/Kraus Operators/), { target: { value: '0 1\n1 0' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({
+        noiseChannel: NoiseChannel.CustomKraus,
+        krausOperators: [[[{ re: 0, im: 0 }, { re: 1, im: 0 }], [{ re: 1, im: 0 }, { re: 0, im: 0 }]]]
+      })
+    );
+  });
+
+  test('reports invalid Kraus operators and keeps the current parameters', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.CustomKraus } });
+    fireEvent.change(screen.getByLabelText(/Kraus Operators/), { target: { value: '1 0\n0 0.5' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('Kraus operators are not complete: entry (2, 2) of Σ K†K is 0.2500 instead of 1');
+    expect(defaultProps.onParametersChanged).not.toHaveBeenCalled();
+  });
+
+  test('reports a missing or out-of-range pair count and keeps the current parameters', () => {
+    render(<ControlPanel {...defaultProps} />);
+    const initialPairs = screen.getByLabelText('Initial Pairs:');
+    
+    fireEvent.change(initialPairs, { target: { value: '' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(screen.getByRole('alert')).toHaveTextContent('Initial pairs must be a whole number from 2 to 50');
+    
+    fireEvent.change(initialPairs, { target: { value: '51' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(defaultProps.onParametersChanged).not.toHaveBeenCalled();
+    
+    fireEvent.change(initialPairs, { target: { value: '50' } });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(defaultProps.onParametersChanged).toHaveBeenLastCalledWith(expect.objectContaining({ initialPairs: 50 }));
+  });
+
+  test('passes Werner initial states instead of the noise settings', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Initial State:'), { target: { value: InitialStateMode.Werner } });
+    expect(screen.queryByLabelText('Noise Channel:')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Werner Fidelity:'), { target: { value: '0.75' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ initialStateMode: InitialStateMode.Werner, wernerFidelity: 0.75 })
+    );
+  });
+
+  test('checks Bell-diagonal weights before passing them', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Initial State:'), { target: { value: InitialStateMode.BellDiagonal } });
+    fireEvent.change(screen.getByLabelText('Ψ- Weight:'), { target: { value: '0.8' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('Bell-diagonal weights must sum to 1, but they sum to 1.1000');
+    expect(defaultProps.onParametersChanged).not.toHaveBeenCalled();
+    
+    fireEvent.change(screen.getByLabelText('Φ+ Weight:'), { target: { value: '0' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ initialStateMode: InitialStateMode.BellDiagonal, bellDiagonalWeights: [0, 0.1, 0.1, 0.8] })
+    );
+  });
+
+  test('passes an imported density matrix for every pair', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Initial State:'), { target: { value: InitialStateMode.Imported } });
+    fireEvent.change(screen.getByLabelText('Matrix Basis:'), { target: { value: Basis.Bell } });
+    fireEvent.change(screen.getByLabelText('Density Matrix (JSON or CSV):'), {
+      target: { value: '[[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 1]]' }
+    });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    const params = defaultProps.onParametersChanged.mock.calls[0][0];
+    expect(params.initialStateMode).toBe(InitialStateMode.Imported);
+    expect(params.importedState[1][2].re).toBeCloseTo(-0.5);
+    expect(params.pairInitialStates).toBeUndefined();
+  });
+
+  test('imports a density matrix for listed pairs only', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Initial State:'), { target: { value: InitialStateMode.Imported } });
+    expect(screen.queryByLabelText('Noise Channel:')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Imported Pairs:'), { target: { value: '1, 3' } });
+    expect(screen.getByLabelText('Noise Channel:')).toBeInTheDocument();
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    const params = defaultProps.onParametersChanged.mock.calls[0][0];
+    expect(params.initialStateMode).toBe(InitialStateMode.Channel);
+    expect(Object.keys(params.pairInitialStates)).toEqual(['0', '2']);
+    expect(params.pairInitialStates[2][1][1].re).toBeCloseTo(0.4);
+  });
+
+  test('reports imported matrices that are not states', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Initial State:'), { target: { value: InitialStateMode.Imported } });
+    fireEvent.change(screen.getByLabelText('Density Matrix (JSON or CSV):'), {
+      target: { value: '[[0.5, 0, 0, 0.7], [0, 0, 0, 0], [0, 0, 0, 0], [0.7, 0, 0, 0.5]]' }
+    });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('The matrix is not positive semidefinite');
+    expect(defaultProps.onParametersChanged).not.toHaveBeenCalled();
+  });
+
+  test('passes the X, Y and Z probabilities of the Pauli channel', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.Pauli } });
+    expect(screen.getByLabelText('Noise Parameter:')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Y Error Probability:'), { target: { value: '0.2' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ noiseChannel: NoiseChannel.Pauli, pauliProbabilities: { x: 0.05, y: 0.2, z: 0.1 } })
+    );
+  });
+
+  test('reports Pauli probabilities that add up to more than 1', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.Pauli } });
+    fireEvent.change(screen.getByLabelText('X Error Probability:'), { target: { value: '0.9' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('The X, Y and Z probabilities add up to more than 1');
+    expect(defaultProps.onParametersChanged).not.toHaveBeenCalled();
+  });
+
+  test('passes the thermal population for generalized amplitude damping', () => {
+    render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByLabelText('Thermal Population:')).not.toBeInTheDocument();
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.GeneralizedAmplitudeDamping } });
+    fireEvent.change(screen.getByLabelText('Thermal Population:'), { target: { value: '0.25' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ noiseChannel: NoiseChannel.GeneralizedAmplitudeDamping, noiseParameter: 0.3, thermalPopulation: 0.25 })
+    );
+  });
+
+  test('passes a separate noise channel for Alice\'s qubit', () => {
+    render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByLabelText("Alice's Noise Parameter:")).not.toBeInTheDocument();
+    
+    fireEvent.change(screen.getByLabelText("Alice's Noise:"), { target: { value: NoiseChannel.Dephasing } });
+    fireEvent.change(screen.getByLabelText("Alice's Noise Parameter:"), { target: { value: '0.2' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ aliceNoise: { channel: NoiseChannel.Dephasing, parameter: 0.2 } })
+    );
+  });
+
+  test('copies Bob\'s channel to Alice unless it already acts on the pair', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.Depolarizing } });
+    fireEvent.change(screen.getByLabelText("Alice's Noise:"), { target: { value: 'same' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    expect(defaultProps.onParametersChanged).toHaveBeenCalledWith(
+      expect.objectContaining({
+        noiseChannel: NoiseChannel.Depolarizing,
+        aliceNoise: expect.objectContaining({ channel: NoiseChannel.Depolarizing, parameter: 0.3 })
+      })
+    );
+    
+    fireEvent.change(screen.getByLabelText('Noise Channel:'), { target: { value: NoiseChannel.CorrelatedDepolarizing } });
+    expect(screen.getByRole('option', { name: 'Same as Bob' })).toBeDisabled();
+  });
+
+  test('does not offer correlated dephasing, which leaves the Bell pairs unchanged', () => {
+    render(<ControlPanel {...defaultProps} />);
+
+    expect(screen.getByRole('option', { name: 'Correlated Depolarizing (pair)' })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Correlated Dephasing (pair)' })).not.toBeInTheDocument();
+  });
+
+  test('shows the fidelity lost to memory once there is any', () => {
+    const { rerender } = render(<ControlPanel {...defaultProps} memoryFidelityLoss={0} />);
+    expect(screen.queryByText('Lost to Memory:')).not.toBeInTheDocument();
+    
+    rerender(<ControlPanel {...defaultProps} memoryFidelityLoss={0.0421} />);
+    expect(screen.getByText('Lost to Memory:')).toBeInTheDocument();
+    expect(screen.getByText('0.042')).toBeInTheDocument();
+  });
+
+  test('passes the seed with the parameters and leaves it unset when empty', () => {
+    render(<ControlPanel {...defaultProps} />);
+    
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(defaultProps.onParametersChanged).toHaveBeenLastCalledWith(
+      expect.objectContaining({ seed: undefined })
+    );
+    
+    fireEvent.change(screen.getByLabelText('Random Seed (empty = new seed):'), { target: { value: '1234' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(defaultProps.onParametersChanged).toHaveBeenLastCalledWith(
+      expect.objectContaining({ seed: 1234 })
+    );
+
+    // Beyond 32 bits the generator would repeat the run of a smaller seed
+    fireEvent.change(screen.getByLabelText('Random Seed (empty = new seed):'), { target: { value: '4294967296' } });
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    expect(defaultProps.onParametersChanged).toHaveBeenLastCalledWith(
+      expect.objectContaining({ seed: undefined })
+    );
+  });
+
+  test('fills in a new seed and shows the seed of the current run', () => {
+    const { rerender } = render(<ControlPanel {...defaultProps} />);
+    expect(screen.getByText('unseeded')).toBeInTheDocument();
+    
+    fireEvent.click(screen.getByText('New Seed'));
+    const seedInput = screen.getByLabelText('Random Seed (empty = new seed):') as HTMLInputElement;
+    expect(seedInput.value).toMatch(/^\d+$/);
+    
+    rerender(<ControlPanel {...defaultProps} seed={42} />);
+    expect(screen.getByText('42')).toBeInTheDocument();
+  });
+
+  test('shows the outcome statistics of the exact engine', () => {
+    const { rerender } = render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByTestId('outcome-statistics')).not.toBeInTheDocument();
+    
+    rerender(
+      <ControlPanel
+        {...defaultProps}
+        engineType={EngineType.Exact}
+        statistics={{
+          expectedPairs: 1.5,
+          pairsVariance: 0.25,
+          expectedFidelity: 0.9123,
+          targetProbability: 0.375,
+          pairCountDistribution: [0.125, 0.25, 0.625],
+          configurations: 3
+        }}
+      />
+    );
+    
+    expect(screen.getByText('Expected Pairs:').parentElement).toHaveTextContent('1.50 ± 0.50');
+    expect(screen.getByText('Expected Fidelity:').parentElement).toHaveTextContent('0.912');
+    expect(screen.getByText('P(Target Reached):').parentElement).toHaveTextContent('0.375');
+    expect(screen.getByLabelText('CNOT Error:')).toBeDisabled();
+  });
+
+  test('disables the memory inputs for the exact engine', () => {
+    const { rerender } = render(<ControlPanel {...defaultProps} />);
+    expect(screen.getByLabelText('Memory T1 (0 = ∞):')).not.toBeDisabled();
+    expect(screen.queryByText('The Exact engine does not model memory decoherence.')).not.toBeInTheDocument();
+    
+    rerender(<ControlPanel {...defaultProps} engineType={EngineType.Exact} />);
+    expect(screen.getByLabelText('Memory T1 (0 = ∞):')).toBeDisabled();
+    expect(screen.getByLabelText('Memory T2 (0 = ∞):')).toBeDisabled();
+    expect(screen.getByLabelText('Step Duration:')).toBeDisabled();
+    expect(screen.getByText('The Exact engine does not model memory decoherence.')).toBeInTheDocument();
+    expect(screen.getByText('Only the Monte Carlo and DEJMPS engines model gate and readout errors.')).toBeInTheDocument();
+  });
+
+  test('exports the trace in the chosen format', () => {
+    const { rerender } = render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByText('Export Trace:')).not.toBeInTheDocument();
+    
+    const onExportTrace = vi.fn();
+    rerender(<ControlPanel {...defaultProps} onExportTrace={onExportTrace} />);
+    fireEvent.click(screen.getByRole('button', { name: 'JSON' }));
+    fireEvent.click(screen.getByRole('button', { name: 'CSV' }));
+    
+    expect(onExportTrace.mock.calls).toEqual([['json'], ['csv']]);
+  });
+
+  test('starts from the given parameters and applies them unchanged', () => {
+    const dephasing = [
+      [[{ re: Math.sqrt(0.9), im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: Math.sqrt(0.9), im: 0 }]],
+      [[{ re: 0, im: 0 }, { re: 0, im: -Math.sqrt(0.1) }], [{ re: 0, im: Math.sqrt(0.1) }, { re: 0, im: 0 }]]
+    ];
+    const werner = [
+      [0.1, 0, 0, 0],
+      [0, 0.4, -0.3, 0],
+      [0, -0.3, 0.4, 0],
+      [0, 0, 0, 0.1]
+    ].map(row => row.map(re => ({ re, im: 0 })));
+    const params = {
+      initialPairs: 12,
+      noiseParameter: 0.2,
+      targetFidelity: 0.9,
+      noiseChannel: NoiseChannel.CustomKraus,
+      initialStateMode: InitialStateMode.Channel,
+      pairInitialStates: { 1: werner, 4: werner },
+      krausOperators: dephasing,
+      aliceNoise: { channel: NoiseChannel.CustomKraus, parameter: 0.2, krausOperators: dephasing },
+      purificationScheme: PurificationScheme.Recurrence,
+      pairingStrategy: PairingStrategy.SortByFidelity,
+      cnotErrorProbability: 0.02,
+      readoutErrorProbability: 0,
+      memoryT1: 50,
+      memoryT2: 20,
+      stepDuration: 1,
+      seed: 99
+    };
+    render(<ControlPanel {...defaultProps} engineType={EngineType.MonteCarlo} initialParameters={params} />);
+    
+    expect(screen.getByLabelText('Imported Pairs:')).toHaveValue('2, 5');
+    expect(screen.getByLabelText("Alice's Noise:")).toHaveValue('same');
+    fireEvent.click(screen.getByText(/Apply Parameters/));
+    
+    // Matrices go through text, so their entries are compared with a tolerance
+    const { pairInitialStates, krausOperators, aliceNoise, ...settings } = params;
+    const applied = defaultProps.onParametersChanged.mock.calls[0][0];
+    expect(applied).toMatchObject(settings);
+    expect(applied.aliceNoise).toMatchObject({ channel: aliceNoise.channel, parameter: aliceNoise.parameter });
+    for (const operators of [applied.krausOperators, applied.aliceNoise.krausOperators]) {
+      operators.flat(2).forEach((entry: { re: number; im: number }, k: number) => {
+        expect(entry.re).toBeCloseTo(krausOperators.flat(2)[k].re, 12);
+        expect(entry.im).toBeCloseTo(krausOperators.flat(2)[k].im, 12);
+      });
+    }
+    expect(Object.keys(applied.pairInitialStates)).toEqual(Object.keys(pairInitialStates));
+    expect(applied.pairInitialStates[4][1][2].re).toBeCloseTo(-0.3, 12);
+  });
+
+  test('copies a link and reports whether it worked', async () => {
+    const onCopyLink = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('denied'));
+    render(<ControlPanel {...defaultProps} onCopyLink={onCopyLink} />);
+    
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy Link' }));
+    });
+    expect(screen.getByText(/Link copied/)).toBeInTheDocument();
+    
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy Link' }));
+    });
+    expect(screen.getByText(/Could not copy the link/)).toBeInTheDocument();
+  });
+
+  test('chooses a second engine to compare with, or none', () => {
+    const onComparisonEngineTypeChanged = vi.fn();
+    const { rerender } = render(<ControlPanel {...defaultProps} onComparisonEngineTypeChanged={onComparisonEngineTypeChanged} />);
+    
+    fireEvent.change(screen.getByLabelText('Compare With:'), { target: { value: EngineType.MonteCarlo } });
+    expect(onComparisonEngineTypeChanged).toHaveBeenLastCalledWith(EngineType.MonteCarlo);
+    
+    rerender(
+      <ControlPanel
+        {...defaultProps}
+        comparisonEngineType={EngineType.MonteCarlo}
+        onComparisonEngineTypeChanged={onComparisonEngineTypeChanged}
+      />
+    );
+    expect(screen.getByLabelText('Compare With:')).toHaveValue(EngineType.MonteCarlo);
+    fireEvent.change(screen.getByLabelText('Compare With:'), { target: { value: '' } });
+    expect(onComparisonEngineTypeChanged).toHaveBeenLastCalledWith(undefined);
+  });
+
+  test('chooses the reference state the pairs are compared with', () => {
+    const onReferenceStateChanged = vi.fn();
+    const reference = { bellState: BellState.PHI_PLUS, axis: 'y' as const, angle: 45 };
+    render(<ControlPanel {...defaultProps} referenceState={reference} onReferenceStateChanged={onReferenceStateChanged} />);
+    
+    expect(screen.getByLabelText('Reference State:')).toHaveValue(String(BellState.PHI_PLUS));
+    expect(screen.getByLabelText('Rotation angle in degrees')).toHaveValue(45);
+    
+    fireEvent.change(screen.getByLabelText('Reference State:'), { target: { value: String(BellState.PSI_PLUS) } });
+    expect(onReferenceStateChanged).toHaveBeenLastCalledWith({ ...reference, bellState: BellState.PSI_PLUS });
+    fireEvent.change(screen.getByLabelText('Rotation axis'), { target: { value: 'x' } });
+    expect(onReferenceStateChanged).toHaveBeenLastCalledWith({ ...reference, axis: 'x' });
+    fireEvent.change(screen.getByLabelText('Rotation angle in degrees'), { target: { value: '-90' } });
+    expect(onReferenceStateChanged).toHaveBeenLastCalledWith({ ...reference, angle: -90 });
+  });
+
+  test('starts the reference state at the engine target and hides it without a handler', () => {
+    const { unmount } = render(<ControlPanel {...defaultProps} onReferenceStateChanged={vi.fn()} />);
+    expect(screen.getByLabelText('Reference State:')).toHaveValue(String(DEFAULT_REFERENCE_STATE.bellState));
+    unmount();
+    
+    render(<ControlPanel {...defaultProps} />);
+    expect(screen.queryByLabelText('Reference State:')).not.toBeInTheDocument();
+  });
+
   test('toggles help panel when ? key is pressed', async () => {
     render(<ControlPanel {...defaultProps} />);
     
@@ -257,6 +716,10 @@ describe('ControlPanel', () => {
       const engineTypeSelect = screen.getByLabelText('Engine Type:');
       fireEvent.change(engineTypeSelect, { target: { value: EngineType.MonteCarlo } });
       expect(defaultProps.onEngineTypeChanged).toHaveBeenCalledWith(EngineType.MonteCarlo);
+      fireEvent.change(engineTypeSelect, { target: { value: EngineType.Dejmps } });
+      expect(defaultProps.onEngineTypeChanged).toHaveBeenCalledWith(EngineType.Dejmps);
+      fireEvent.change(engineTypeSelect, { target: { value: EngineType.Exact } });
+      expect(defaultProps.onEngineTypeChanged).toHaveBeenCalledWith(EngineType.Exact);
       
       // Change view basis
       const viewBasisSelect = screen.getByLabelText('View Basis:');
@@ -597,6 +597,39 @@ describe('EnsembleDisplay', () => {
     expect(container.textContent?.includes('⊕')).toBe(false);
     expect(container.textContent?.includes('●')).toBe(false);
   });
+
+  test('shows the pumped fidelity trajectory and raw pair count', () => {
+    render(
+      <EnsembleDisplay
+        pairs={createTestPairs(3)}
+        purificationStep="initial"
+        viewBasis={Basis.Bell}
+        pumpingHistory={[0.7, 0.75, 0.8]}
+        rawPairsConsumed={3}
+      />
+    );
+
+    const panel = screen.getByTestId('pumping-panel');
+    expect(panel).toHaveTextContent('Raw pairs consumed: 3');
+    expect(panel).toHaveTextContent('0.700');
+    expect(panel).toHaveTextContent('0.800');
+  });
+
+  test('hides the pumping panel without a trajectory', () => {
+    render(<EnsembleDisplay pairs={createTestPairs(2)} purificationStep="initial" viewBasis={Basis.Bell} />);
+
+    expect(screen.queryByTestId('pumping-panel')).not.toBeInTheDocument();
+  });
+
+  test('prefixes element ids so two displays can share a page', () => {
+    const { container } = render(
+      <EnsembleDisplay pairs={createTestPairs(1)} purificationStep="initial" viewBasis={Basis.Bell} idPrefix="left-" />
+    );
+    
+    expect(container.querySelector('#left-alice-1')).not.toBeNull();
+    expect(container.querySelector('#left-bob-1')).not.toBeNull();
+    expect(container.querySelector('#alice-1')).toBeNull();
+  });
 });
 
 describe('EnsembleDisplay connectors & responsiveness', () => {
@@ -683,4 +716,4 @@ describe('EnsembleDisplay connectors & responsiveness', () => {
     const pairsContainer = container.querySelector('.pairs-container');
     expect(pairsContainer).not.toBeNull();
   });
-}); 
\ No newline at end of file
+});
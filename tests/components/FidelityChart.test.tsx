@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import FidelityChart from '../../src/components/FidelityChart';
+import { Basis, PurificationStep, SimulationState } from '../../src/engine/types';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+
+describe('FidelityChart', () => {
+  const stateAt = (round: number, purificationStep: PurificationStep, fidelities: number[]): SimulationState => ({
+    pairs: fidelities.map((fidelity, id) => ({ id, fidelity, densityMatrix: DensityMatrix.bellPsiMinus(), basis: Basis.Bell })),
+    round,
+    complete: purificationStep === 'completed',
+    purificationStep,
+    averageFidelity: fidelities.length > 0 ? fidelities.reduce((sum, f) => sum + f, 0) / fidelities.length : 0
+  });
+
+  const run = [
+    stateAt(0, 'initial', [0.7, 0.8, 0.75, 0.65]),
+    stateAt(0, 'twirled', [0.7, 0.8, 0.75, 0.65]),
+    stateAt(1, 'initial', [0.85, 0.8]),
+    stateAt(2, 'initial', [0.9])
+  ];
+
+  // Number of points on a path: one move plus one line per further point
+  const pathPoints = (testId: string) => (screen.getByTestId(testId).getAttribute('d')!.match(/[ML]/g) ?? []).length;
+
+  test('shows a message before there is anything to plot', () => {
+    render(<FidelityChart states={[]} targetFidelity={0.95} />);
+    expect(screen.getByText('No states to plot yet.')).toBeInTheDocument();
+  });
+
+  test('plots average, minimum and maximum fidelity and the remaining pairs', () => {
+    render(<FidelityChart states={run} targetFidelity={0.95} />);
+
+    expect(pathPoints('average-fidelity-line')).toBe(4);
+    expect(pathPoints('min-fidelity-line')).toBe(4);
+    expect(pathPoints('max-fidelity-line')).toBe(4);
+    expect(screen.getByTestId('pairs-line').getAttribute('d')).toMatch(/^M/);
+    expect(screen.getByText('Round')).toBeInTheDocument();
+    expect(screen.getByText('Pairs (right axis)')).toBeInTheDocument();
+  });
+
+  test('draws the target fidelity above a lower fidelity', () => {
+    render(<FidelityChart states={run} targetFidelity={0.95} />);
+    const target = Number(screen.getByTestId('target-line').getAttribute('y1'));
+    const firstAverage = Number(screen.getByTestId('average-fidelity-line').getAttribute('d')!.split(',')[1].split(' ')[0]);
+
+    // SVG y grows downwards
+    expect(target).toBeLessThan(firstAverage);
+    expect(screen.getByText('Target 0.95')).toBeInTheDocument();
+  });
+
+  test('updates as new states arrive', () => {
+    const { container, rerender } = render(<FidelityChart states={run.slice(0, 2)} targetFidelity={0.9} />);
+    expect(container.querySelectorAll('circle')).toHaveLength(2);
+
+    rerender(<FidelityChart states={run} targetFidelity={0.9} />);
+    expect(container.querySelectorAll('circle')).toHaveLength(4);
+    expect(container.querySelectorAll('circle.current')).toHaveLength(1);
+  });
+
+  test('stops the fidelity lines when no pairs are left', () => {
+    render(<FidelityChart states={[...run, stateAt(3, 'completed', [])]} targetFidelity={0.95} />);
+
+    expect(pathPoints('average-fidelity-line')).toBe(4);
+    expect(screen.getByTestId('pairs-line').getAttribute('d')!.split('V')).toHaveLength(5);
+  });
+});
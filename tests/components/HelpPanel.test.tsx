@@ -23,6 +23,15 @@ describe('HelpPanel', () => {
     expect(screen.getByText('R')).toBeInTheDocument();
     expect(screen.getByText('Reset the simulation')).toBeInTheDocument();
     
+    expect(screen.getByText('U')).toBeInTheDocument();
+    expect(screen.getByText('Undo the last step')).toBeInTheDocument();
+    
+    expect(screen.getByText('Y')).toBeInTheDocument();
+    expect(screen.getByText('Redo an undone step')).toBeInTheDocument();
+    
+    expect(screen.getByText('Esc')).toBeInTheDocument();
+    expect(screen.getByText('Cancel a running simulation')).toBeInTheDocument();
+    
     expect(screen.getByText('P')).toBeInTheDocument();
     expect(screen.getByText('Apply parameter changes')).toBeInTheDocument();
     
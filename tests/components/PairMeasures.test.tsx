@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import PairMeasures from '../../src/components/PairMeasures';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+import { ComplexNum } from '../../src/engine_real_calculations/types/complex';
+import { toComputationalBasis } from '../../src/engine_real_calculations/bell/bell-basis';
+import { createWernerState } from '../../src/engine/quantumStates';
+import { BellState } from '../../src/engine_real_calculations/bell/bell-basis';
+
+describe('PairMeasures', () => {
+  const werner = (fidelity: number) => new DensityMatrix(toComputationalBasis(createWernerState(fidelity)));
+
+  const valueOf = (label: string) => screen.getByText(label).nextElementSibling?.textContent;
+
+  test('shows every measure of an entangled state', () => {
+    render(<PairMeasures matrix={DensityMatrix.bellPsiMinus()} />);
+
+    expect(screen.getByText('Entangled')).toBeInTheDocument();
+    expect(valueOf('Concurrence')).toBe('1.000');
+    expect(valueOf('Negativity')).toBe('0.500');
+    expect(valueOf('Log Negativity')).toBe('1.000');
+    expect(valueOf('Ent. of Formation')).toBe('1.000');
+    expect(valueOf('Purity')).toBe('1.000');
+    expect(valueOf('Linear Entropy')).toBe('0.000');
+    expect(valueOf('Von Neumann Entropy')).toBe('0.000');
+  });
+
+  test('marks separable states even when their fidelity is not low', () => {
+    render(<PairMeasures matrix={werner(0.5)} />);
+
+    expect(screen.getByText('Separable')).toBeInTheDocument();
+    expect(valueOf('Concurrence')).toBe('0.000');
+    expect(valueOf('Purity')).toBe('0.333');
+  });
+
+  test('handles a state that rounding left slightly outside the positive semidefinite ones', () => {
+    // Ψ- with an eigenvalue of -1e-6 on |11⟩, as numerical noise can leave it
+    const rho = DensityMatrix.bellPsiMinus();
+    rho.set(0, 0, ComplexNum.fromReal(1e-6));
+    rho.set(3, 3, ComplexNum.fromReal(-1e-6));
+    render(<PairMeasures matrix={rho} />);
+
+    expect(screen.getByText('Entangled')).toBeInTheDocument();
+    expect(valueOf('Concurrence')).toBe('1.000');
+    expect(valueOf('Negativity')).toBe('0.500');
+    expect(valueOf('Fidelity')).toBe('1.000');
+  });
+
+  test('shows n/a for measures that do not apply to the matrix', () => {
+    render(<PairMeasures matrix={new DensityMatrix([
+      [ComplexNum.fromReal(0.5), ComplexNum.zero()],
+      [ComplexNum.zero(), ComplexNum.fromReal(0.5)]
+    ])} />);
+
+    expect(screen.queryByText('Entangled')).not.toBeInTheDocument();
+    expect(screen.queryByText('Separable')).not.toBeInTheDocument();
+    expect(valueOf('Concurrence')).toBe('n/a');
+    expect(valueOf('Fidelity')).toBe('n/a');
+  });
+
+  test('explains each measure in its tooltip', () => {
+    render(<PairMeasures matrix={werner(0.8)} />);
+
+    expect(screen.getByText('Concurrence').parentElement).toHaveAttribute('title', expect.stringContaining('Wootters'));
+  });
+
+  test('compares the state with the engine target by default', () => {
+    render(<PairMeasures matrix={werner(0.8)} />);
+
+    expect(screen.getByText('Compared with Ψ- (engine target)')).toBeInTheDocument();
+    expect(valueOf('Fidelity')).toBe('0.800');
+    expect(valueOf('Trace Distance')).toBe('0.200');
+  });
+
+  test('compares the state with the Φ+ target while a round works in the Φ+ frame', () => {
+    render(<PairMeasures matrix={DensityMatrix.bellPhiPlus()} step="cnot" />);
+
+    expect(screen.getByText('Compared with Φ+ (engine target)')).toBeInTheDocument();
+    expect(valueOf('Fidelity')).toBe('1.000');
+    expect(valueOf('Trace Distance')).toBe('0.000');
+  });
+
+  test('compares the state with a chosen reference', () => {
+    render(<PairMeasures matrix={DensityMatrix.bellPsiPlus()} reference={{ bellState: BellState.PHI_PLUS, axis: 'x', angle: 180 }} />);
+
+    expect(screen.getByText('Compared with Φ+ with Rx(180°) on Bob')).toBeInTheDocument();
+    expect(valueOf('Fidelity')).toBe('1.000');
+    expect(valueOf('Trace Distance')).toBe('0.000');
+    expect(valueOf('HS Distance')).toBe('0.000');
+  });
+});
@@ -224,6 +224,25 @@ describe('QubitPair', () => {
     expect(container.querySelector('.matrix-popup')).toBeNull();
   });
 
+  test('shows the entanglement measures of the state in the popup', () => {
+    // Ψ⁻ stored in the Bell basis; the measures come from its computational-basis matrix
+    const pair = {
+      id: 7,
+      fidelity: 1,
+      densityMatrix: new DensityMatrix(toBellBasis(DensityMatrix.bellPsiMinus())),
+      basis: Basis.Bell
+    };
+
+    const { container } = render(
+      <QubitPair pair={pair} location="alice" purificationStep="initial" viewBasis={Basis.Bell} />
+    );
+    fireEvent.mouseEnter(container.firstChild as HTMLElement);
+
+    expect(screen.getByTestId('pair-measures')).toBeInTheDocument();
+    expect(screen.getByText('Concurrence').nextElementSibling?.textContent).toBe('1.000');
+    expect(screen.getByText('Entangled')).toBeInTheDocument();
+  });
+
   test('maps fidelity to appropriate color gradient', () => {
     // Test with perfect fidelity
     const perfectPair = {
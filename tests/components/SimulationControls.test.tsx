@@ -222,12 +222,111 @@ describe('SimulationControls', () => {
     });
   });
 
+  describe('History Controls', () => {
+    const pressKey = (key: string) =>
+      (window as unknown as { __hotkeyCallbacks: Record<string, () => void> }).__hotkeyCallbacks[key]();
+    const historyProps = {
+      ...mockProps,
+      onUndo: vi.fn(),
+      onRedo: vi.fn(),
+      onGoTo: vi.fn(),
+      canUndo: true,
+      canRedo: false,
+      historyIndex: 2,
+      historyLength: 3
+    };
+
+    it('calls onUndo and onRedo from the buttons', () => {
+      render(<SimulationControls {...historyProps} canRedo={true} />);
+      
+      fireEvent.click(screen.getByText('Undo [U]'));
+      fireEvent.click(screen.getByText('Redo [Y]'));
+      
+      expect(historyProps.onUndo).toHaveBeenCalledTimes(1);
+      expect(historyProps.onRedo).toHaveBeenCalledTimes(1);
+    });
+
+    it('disables undo and redo when there is nothing to restore', () => {
+      render(<SimulationControls {...mockProps} />);
+      
+      expect(screen.getByText('Undo [U]')).toBeDisabled();
+      expect(screen.getByText('Redo [Y]')).toBeDisabled();
+      expect(screen.queryByLabelText('History position')).not.toBeInTheDocument();
+    });
+
+    it('triggers undo with "u" and ignores "y" when nothing can be redone', () => {
+      render(<SimulationControls {...historyProps} />);
+      
+      pressKey('u');
+      pressKey('y');
+      
+      expect(historyProps.onUndo).toHaveBeenCalledTimes(1);
+      expect(historyProps.onRedo).not.toHaveBeenCalled();
+    });
+
+    it('jumps to a recorded state with the history slider', () => {
+      render(<SimulationControls {...historyProps} />);
+      
+      expect(screen.getByText('History: 3 / 3')).toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText('History position'), { target: { value: '1' } });
+      
+      expect(historyProps.onGoTo).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('Background Runs', () => {
+    const pressKey = (key: string) =>
+      (window as unknown as { __hotkeyCallbacks: Record<string, () => void> }).__hotkeyCallbacks[key]();
+    const runningProps = {
+      ...mockProps,
+      onCancel: vi.fn(),
+      onUndo: vi.fn(),
+      canUndo: true,
+      isRunning: true,
+      completedRounds: 3,
+      maxRounds: 100
+    };
+
+    it('shows the progress and a cancel button while running', () => {
+      render(<SimulationControls {...runningProps} />);
+      
+      expect(screen.getByText('Round 3')).toBeInTheDocument();
+      expect(screen.getByLabelText('Run progress')).toHaveAttribute('value', '3');
+      
+      fireEvent.click(screen.getByText('Cancel [Esc]'));
+      pressKey('escape');
+      expect(runningProps.onCancel).toHaveBeenCalledTimes(2);
+    });
+
+    it('disables the other controls while running', () => {
+      render(<SimulationControls {...runningProps} />);
+      
+      expect(screen.getByText(/Next Step/)).toBeDisabled();
+      expect(screen.getByText('Run All [A]')).toBeDisabled();
+      expect(screen.getByText('Reset [R]')).toBeDisabled();
+      expect(screen.getByText('Undo [U]')).toBeDisabled();
+      
+      pressKey('n');
+      pressKey('r');
+      pressKey('u');
+      expect(mockProps.onNextStep).not.toHaveBeenCalled();
+      expect(mockProps.onReset).not.toHaveBeenCalled();
+      expect(runningProps.onUndo).not.toHaveBeenCalled();
+    });
+
+    it('hides the cancel button when idle', () => {
+      render(<SimulationControls {...mockProps} />);
+      
+      expect(screen.queryByText('Cancel [Esc]')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Accessibility', () => {
     it('has proper button structure for screen readers', () => {
       render(<SimulationControls {...mockProps} />);
       
       const buttons = screen.getAllByRole('button');
-      expect(buttons).toHaveLength(4);
+      expect(buttons).toHaveLength(6);
       
       buttons.forEach(button => {
         expect(button).toHaveTextContent(/\[.\]/); // Each button should show its keyboard shortcut
@@ -262,6 +361,8 @@ describe('SimulationControls', () => {
       expect(buttons[1]).toHaveTextContent(/Complete Round/);
       expect(buttons[2]).toHaveTextContent(/Run All/);
       expect(buttons[3]).toHaveTextContent(/Reset/);
+      expect(buttons[4]).toHaveTextContent(/Undo/);
+      expect(buttons[5]).toHaveTextContent(/Redo/);
     });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { vi, describe, test, expect } from 'vitest';
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SweepPanel from '../../src/components/SweepPanel';
+import { EngineType, NoiseChannel, SimulationParameters } from '../../src/engine/types';
+
+describe('SweepPanel', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.9,
+    noiseChannel: NoiseChannel.Depolarizing,
+    seed: 7
+  };
+
+  const renderPanel = (onLoadConfiguration = vi.fn()) => {
+    render(<SweepPanel baseParameters={params} engineType={EngineType.Average} onLoadConfiguration={onLoadConfiguration} />);
+    return onLoadConfiguration;
+  };
+
+  const setAxis = (name: 'X' | 'Y', min: number, max: number, steps: number) => {
+    fireEvent.change(screen.getByLabelText(`${name} minimum`), { target: { value: String(min) } });
+    fireEvent.change(screen.getByLabelText(`${name} maximum`), { target: { value: String(max) } });
+    fireEvent.change(screen.getByLabelText(`${name} steps`), { target: { value: String(steps) } });
+  };
+
+  test('sweeps one axis into a single row of cells', async () => {
+    renderPanel();
+    setAxis('X', 0.1, 0.3, 3);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+
+    await waitFor(() => expect(screen.getByTestId('sweep-heatmap')).toBeInTheDocument());
+    expect(screen.getAllByRole('button', { name: /^\d\.\d{3}$/ })).toHaveLength(3);
+    expect(screen.getByText('Final Fidelity by Noise Parameter')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Run Sweep' })).toBeInTheDocument();
+  });
+
+  test('sweeps two axes into a grid and switches the metric', async () => {
+    renderPanel();
+    setAxis('X', 0.1, 0.2, 2);
+    fireEvent.change(screen.getByLabelText('Y Axis:'), { target: { value: 'initialPairs' } });
+    setAxis('Y', 2, 6, 3);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+
+    await waitFor(() => expect(screen.getByTestId('sweep-cell-2-1')).toBeInTheDocument());
+    expect(screen.getByText('Final Fidelity by Noise Parameter and Initial Pairs')).toBeInTheDocument();
+    expect(screen.getByRole('rowheader', { name: '6' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Show:'), { target: { value: 'survivingPairs' } });
+    expect(screen.getByText('Surviving Pairs by Noise Parameter and Initial Pairs')).toBeInTheDocument();
+    expect(screen.getByTestId('sweep-cell-0-0').textContent).toMatch(/^\d+\.\d$/);
+    expect(screen.getByTestId('sweep-cell-0-0').title).toMatch(/^Final fidelity \d\.\d{3} · .* rounds · .* pairs · success \d+%$/);
+  });
+
+  test('loads the configuration of a clicked cell', async () => {
+    const onLoadConfiguration = renderPanel();
+    setAxis('X', 0.1, 0.3, 3);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+
+    await waitFor(() => expect(screen.getByTestId('sweep-cell-0-2')).toBeInTheDocument());
+    fireEvent.click(screen.getByTestId('sweep-cell-0-2'));
+
+    expect(onLoadConfiguration).toHaveBeenCalledWith({ ...params, noiseParameter: 0.3 });
+    expect(screen.getByTestId('sweep-cell-0-2')).toHaveClass('loaded');
+  });
+
+  test('shows progress while running and can be cancelled', async () => {
+    renderPanel();
+    setAxis('X', 0.1, 0.3, 3);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('0 / 3 points');
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel Sweep' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Run Sweep' })).toBeInTheDocument());
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  test('reports invalid settings without running', () => {
+    renderPanel();
+    setAxis('X', 0.5, 0.1, 3);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Sweep' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The range of noiseParameter must go from a smaller to a larger number');
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  test('picks a default range for a newly chosen parameter', () => {
+    renderPanel();
+    fireEvent.change(screen.getByLabelText('X Axis:'), { target: { value: 'initialPairs' } });
+
+    expect(screen.getByLabelText('X minimum')).toHaveValue(8);
+    expect(screen.getByLabelText('X maximum')).toHaveValue(64);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import {
+  RunMessage,
+  RunRequest,
+  executeRun,
+  runRounds,
+  startBackgroundRun
+} from '../../src/controller/backgroundRun';
+import { MonteCarloSimulationEngine } from '../../src/engine/monteCarloSimulationEngine';
+import { EngineType, NoiseChannel, SimulationParameters, SimulationState } from '../../src/engine/types';
+
+describe('backgroundRun', () => {
+  const params: SimulationParameters = {
+    initialPairs: 8,
+    noiseParameter: 0.2,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.Depolarizing,
+    seed: 11
+  };
+
+  const request = (overrides: Partial<RunRequest> = {}): RunRequest => ({
+    engineType: EngineType.MonteCarlo,
+    params,
+    state: new MonteCarloSimulationEngine(params).getCurrentState(),
+    maxRounds: 100,
+    ...overrides
+  });
+
+  // The same run on the UI thread, round by round
+  const synchronousRun = (): SimulationState[] => {
+    const engine = new MonteCarloSimulationEngine(params);
+    const states: SimulationState[] = [];
+    let state = engine.getCurrentState();
+    while (!state.complete) {
+      state = engine.step();
+      states.push({ ...state, pairs: [...state.pairs] });
+    }
+    return states;
+  };
+
+  test('runRounds yields the same rounds as stepping the engine directly', () => {
+    const rounds = [...runRounds(request())].map(state => state.pairs.map(pair => pair.fidelity));
+    const expected = synchronousRun().map(state => state.pairs.map(pair => pair.fidelity));
+
+    expect(rounds.length).toBeGreaterThan(0);
+    expect(rounds).toEqual(expected);
+  });
+
+  test('runRounds continues from the given state and stops at maxRounds', () => {
+    const engine = new MonteCarloSimulationEngine(params);
+    engine.step();
+    const rounds = [...runRounds(request({ state: engine.getCurrentState(), maxRounds: 1 }))];
+
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0].round).toBe(2);
+  });
+
+  test('executeRun posts progress after every round and then the final state', () => {
+    const messages: RunMessage[] = [];
+    executeRun(request(), message => messages.push(message));
+
+    const last = messages[messages.length - 1];
+    expect(last.type).toBe('done');
+    expect(messages.slice(0, -1).every(message => message.type === 'progress')).toBe(true);
+    if (last.type === 'done') {
+      expect(last.completedRounds).toBe(messages.length - 1);
+      expect(last.state.complete).toBe(true);
+    }
+  });
+
+  test('executeRun reports failures as an error message', () => {
+    const messages: RunMessage[] = [];
+    const broken = request({ state: { ...request().state, pairs: undefined as unknown as [] } });
+    executeRun(broken, message => messages.push(message));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].type).toBe('error');
+  });
+
+  test('without Worker, runs in the page and reports progress', async () => {
+    expect(typeof Worker).toBe('undefined');
+    const progress: number[] = [];
+    const run = startBackgroundRun(request(), update => progress.push(update.completedRounds));
+    const result = await run.result;
+
+    expect(result.cancelled).toBe(false);
+    expect(result.state.complete).toBe(true);
+    expect(progress).toEqual(Array.from({ length: result.completedRounds }, (_, i) => i + 1));
+  });
+
+  test('cancel() stops the run at the last finished round', async () => {
+    const run = startBackgroundRun(request(), update => {
+      if (update.completedRounds === 1) {
+        run.cancel();
+      }
+    });
+    const result = await run.result;
+
+    expect(result.cancelled).toBe(true);
+    expect(result.completedRounds).toBe(1);
+    expect(result.state.round).toBe(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { vi, describe, expect, test } from 'vitest';
+import { runBatch, summarize } from '../../src/controller/batchRunner';
+import { EngineType, NoiseChannel, SimulationParameters } from '../../src/engine/types';
+
+describe('batchRunner', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.9,
+    noiseChannel: NoiseChannel.Depolarizing,
+    seed: 7
+  };
+
+  describe('summarize', () => {
+    test('computes mean, sample standard deviation and range', () => {
+      const summary = summarize([1, 2, 3, 4]);
+
+      expect(summary.mean).toBe(2.5);
+      expect(summary.std).toBeCloseTo(Math.sqrt(5 / 3));
+      expect(summary.min).toBe(1);
+      expect(summary.max).toBe(4);
+    });
+
+    test('handles empty and single-value inputs', () => {
+      expect(summarize([])).toEqual({ mean: 0, std: 0, min: 0, max: 0 });
+      expect(summarize([0.7])).toEqual({ mean: 0.7, std: 0, min: 0.7, max: 0.7 });
+    });
+  });
+
+  describe('runBatch', () => {
+    test('runs the requested number of Monte Carlo trials with distinct seeds', () => {
+      const result = runBatch(params, 5);
+
+      expect(result.engineType).toBe(EngineType.MonteCarlo);
+      expect(result.trials).toBe(5);
+      expect(result.seeds).toEqual([7, 8, 9, 10, 11]);
+      expect(result.parameters).toBe(params);
+    });
+
+    test('aggregates every trial in every round', () => {
+      const result = runBatch(params, 8);
+      const initial = result.rounds[0];
+
+      expect(initial.round).toBe(0);
+      expect(initial.survivors).toMatchObject({ mean: 4, std: 0 });
+      expect(initial.completedTrials).toBe(0);
+
+      const last = result.rounds[result.rounds.length - 1];
+      expect(last.completedTrials).toBe(result.completedTrials);
+      // Survivor counts never grow between rounds
+      for (let i = 1; i < result.rounds.length; i++) {
+        expect(result.rounds[i].survivors.mean).toBeLessThanOrEqual(result.rounds[i - 1].survivors.mean);
+      }
+    });
+
+    test('reports completion rounds and success rate', () => {
+      const result = runBatch(params, 10);
+
+      expect(result.completedTrials).toBe(10);
+      expect(result.roundsToCompletion.min).toBeGreaterThanOrEqual(1);
+      expect(result.roundsToCompletion.max).toBe(result.rounds.length - 1);
+      expect(result.successRate).toBeGreaterThanOrEqual(0);
+      expect(result.successRate).toBeLessThanOrEqual(1);
+    });
+
+    test('is reproducible for seeded parameters', () => {
+      expect(runBatch(params, 4)).toEqual(runBatch(params, 4));
+    });
+
+    test('stops trials at maxRounds', () => {
+      const result = runBatch({ ...params, initialPairs: 16, targetFidelity: 0.9999 }, 2, { maxRounds: 1 });
+
+      expect(result.rounds).toHaveLength(2);
+      expect(result.completedTrials).toBe(0);
+      expect(result.roundsToCompletion.mean).toBe(0);
+    });
+
+    test('supports other engines and reports progress', () => {
+      const onProgress = vi.fn();
+      const result = runBatch(params, 3, { engineType: EngineType.Average, onProgress });
+
+      expect(result.engineType).toBe(EngineType.Average);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    });
+
+    test('leaves trials unseeded when the parameters have no seed', () => {
+      expect(runBatch({ ...params, seed: undefined }, 2).seeds).toEqual([undefined, undefined]);
+    });
+
+    test('rejects invalid trial counts', () => {
+      expect(() => runBatch(params, 0)).toThrow('Number of trials must be a positive integer');
+      expect(() => runBatch(params, 1.5)).toThrow('Number of trials must be a positive integer');
+    });
+  });
+});
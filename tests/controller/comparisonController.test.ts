@@ -0,0 +1,78 @@
+import { describe, expect, test, vi } from 'vitest';
+import { ComparisonController, compareStates } from '../../src/controller/comparisonController';
+import { SimulationController } from '../../src/controller/simulationController';
+import { EngineType, NoiseChannel, SimulationParameters, SimulationState } from '../../src/engine/types';
+
+describe('ComparisonController', () => {
+  const params: SimulationParameters = {
+    initialPairs: 8,
+    noiseParameter: 0.2,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.Depolarizing,
+    seed: 3
+  };
+
+  // An Average and a Monte Carlo run with the latest state of each
+  const setup = () => {
+    const latest: { left?: SimulationState; right?: SimulationState } = {};
+    const left = new SimulationController(params, state => (latest.left = state), EngineType.Average);
+    const right = new SimulationController(params, state => (latest.right = state), EngineType.MonteCarlo);
+    return { latest, left, right, comparison: new ComparisonController(left, right) };
+  };
+
+  test('steps both runs in lockstep', () => {
+    const { latest, comparison } = setup();
+    comparison.nextStep();
+    comparison.nextStep();
+
+    expect(latest.left!.purificationStep).toBe('exchanged');
+    expect(latest.right!.purificationStep).toBe('exchanged');
+
+    comparison.completeRound();
+    expect(latest.left!.round).toBe(1);
+    expect(latest.right!.round).toBe(1);
+  });
+
+  test('undo, redo and reset move both runs', () => {
+    const { latest, comparison } = setup();
+    comparison.nextStep();
+    comparison.undo();
+
+    expect(latest.left!.purificationStep).toBe('initial');
+    expect(latest.right!.purificationStep).toBe('initial');
+    expect(comparison.canRedo()).toBe(true);
+
+    comparison.redo();
+    comparison.reset();
+    expect(comparison.canUndo()).toBe(false);
+  });
+
+  test('passes new parameters to both runs', () => {
+    const { latest, left, right, comparison } = setup();
+    comparison.updateParameters({ ...params, initialPairs: 4 });
+
+    expect(latest.left!.pairs).toHaveLength(4);
+    expect(latest.right!.pairs).toHaveLength(4);
+    expect(left.getParameters()).toEqual(right.getParameters());
+  });
+
+  test('runs both to completion and reports the progress of the left run', async () => {
+    const { latest, comparison } = setup();
+    const onProgress = vi.fn();
+    const [leftResult, rightResult] = await comparison.runUntilCompleteAsync(onProgress);
+
+    expect(latest.left!.complete).toBe(true);
+    expect(latest.right!.complete).toBe(true);
+    expect(onProgress).toHaveBeenCalledTimes(leftResult.completedRounds);
+    expect(rightResult.cancelled).toBe(false);
+  });
+
+  test('compareStates gives the right run minus the left run', () => {
+    const { latest, comparison } = setup();
+    comparison.completeRound();
+    const difference = compareStates(latest.left!, latest.right!);
+
+    expect(difference.averageFidelity).toBeCloseTo(latest.right!.averageFidelity - latest.left!.averageFidelity, 12);
+    expect(difference.pairsRemaining).toBe(latest.right!.pairs.length - latest.left!.pairs.length);
+  });
+});
@@ -0,0 +1,191 @@
+import { vi, afterEach, describe, expect, test } from 'vitest';
+import {
+  MAX_SWEEP_STEPS,
+  SweepMessage,
+  SweepRequest,
+  executeSweep,
+  startSweep,
+  sweepValues
+} from '../../src/controller/parameterSweep';
+import { runBatch } from '../../src/controller/batchRunner';
+import { EngineType, NoiseChannel, SimulationParameters } from '../../src/engine/types';
+
+describe('parameterSweep', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.9,
+    noiseChannel: NoiseChannel.Depolarizing,
+    seed: 7
+  };
+
+  describe('sweepValues', () => {
+    test('spaces the values evenly from min to max', () => {
+      const values = sweepValues({ parameter: 'noiseParameter', min: 0, max: 0.3, steps: 4 });
+
+      expect(values).toHaveLength(4);
+      values.forEach((value, i) => expect(value).toBeCloseTo(i * 0.1));
+      expect(sweepValues({ parameter: 'noiseParameter', min: 0.2, max: 0.4, steps: 1 })).toEqual([0.2]);
+    });
+
+    test('rounds whole-number parameters and drops repeats', () => {
+      expect(sweepValues({ parameter: 'initialPairs', min: 2, max: 4, steps: 5 })).toEqual([2, 3, 4]);
+    });
+
+    test('rejects invalid ranges and step counts', () => {
+      expect(() => sweepValues({ parameter: 'noiseParameter', min: 0.5, max: 0.1, steps: 3 }))
+        .toThrow('The range of noiseParameter must go from a smaller to a larger number');
+      expect(() => sweepValues({ parameter: 'noiseParameter', min: NaN, max: 0.1, steps: 3 })).toThrow();
+      expect(() => sweepValues({ parameter: 'noiseParameter', min: 0, max: 0.1, steps: 0 }))
+        .toThrow(`The steps of noiseParameter must be a whole number from 1 to ${MAX_SWEEP_STEPS}`);
+      expect(() => sweepValues({ parameter: 'noiseParameter', min: 0, max: 0.1, steps: MAX_SWEEP_STEPS + 1 })).toThrow();
+      expect(() => sweepValues({ parameter: 'noiseParameter', min: 0, max: 0.1, steps: 2.5 })).toThrow();
+    });
+  });
+
+  describe('executeSweep', () => {
+    const request = (overrides: Partial<SweepRequest> = {}): SweepRequest => ({
+      engineType: EngineType.Average,
+      trials: 2,
+      maxRounds: 100,
+      rows: [[{ x: 0.1, params: { ...params, noiseParameter: 0.1 } }, { x: 0.2, params: { ...params, noiseParameter: 0.2 } }]],
+      ...overrides
+    });
+
+    test('posts a cell after every point and then done', () => {
+      const messages: SweepMessage[] = [];
+      executeSweep(request(), message => messages.push(message));
+
+      expect(messages.map(message => message.type)).toEqual(['cell', 'cell', 'done']);
+      expect(messages[1]).toMatchObject({ row: 0, cell: { x: 0.2, params: { noiseParameter: 0.2 } } });
+    });
+
+    test('reports failures as an error message', () => {
+      const messages: SweepMessage[] = [];
+      // The Pauli channel without its probabilities cannot build the initial pairs
+      const broken = request({ rows: [[{ x: 0, params: { ...params, noiseChannel: NoiseChannel.Pauli } }]] });
+      executeSweep(broken, message => messages.push(message));
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].type).toBe('error');
+    });
+  });
+
+  describe('startSweep', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const xAxis = { parameter: 'noiseParameter' as const, min: 0.1, max: 0.3, steps: 3 };
+
+    test('runs one row of points along a single axis without blocking', async () => {
+      const onProgress = vi.fn();
+      const sweep = startSweep(params, xAxis, undefined, {}, onProgress);
+
+      expect(sweep.totalPoints).toBe(3);
+      expect(onProgress).not.toHaveBeenCalled();
+      const result = await sweep.result;
+      expect(result.engineType).toBe(EngineType.MonteCarlo);
+      expect(result.trials).toBe(1);
+      expect(result.yValues).toEqual([]);
+      expect(result.cells).toHaveLength(1);
+      expect(result.cells[0].map(cell => cell.params.noiseParameter)).toEqual(result.xValues);
+      expect(result.cells[0].every(cell => cell.y === undefined && cell.params.initialPairs === 4)).toBe(true);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({ completedPoints: 3, totalPoints: 3 });
+    });
+
+    test('fills a grid with a row per y value', async () => {
+      const result = await startSweep(
+        params,
+        { parameter: 'noiseParameter', min: 0.1, max: 0.2, steps: 2 },
+        { parameter: 'initialPairs', min: 2, max: 6, steps: 3 }
+      ).result;
+
+      expect(result.yValues).toEqual([2, 4, 6]);
+      expect(result.cells).toHaveLength(3);
+      result.cells.forEach((row, i) => {
+        expect(row).toHaveLength(2);
+        row.forEach((cell, j) => {
+          expect(cell.params).toMatchObject({ initialPairs: result.yValues[i], noiseParameter: result.xValues[j] });
+          expect(cell).toMatchObject({ x: result.xValues[j], y: result.yValues[i] });
+        });
+      });
+    });
+
+    test('matches a batch run of the same configuration', async () => {
+      const result = await startSweep(params, { parameter: 'noiseParameter', min: 0.2, max: 0.2, steps: 1 }, undefined, {
+        engineType: EngineType.Average,
+        trials: 3
+      }).result;
+      const batch = runBatch(params, 3, { engineType: EngineType.Average });
+      const cell = result.cells[0][0];
+
+      expect(cell.finalFidelity).toBeCloseTo(batch.rounds[batch.rounds.length - 1].fidelity.mean, 12);
+      expect(cell.survivingPairs).toBe(batch.rounds[batch.rounds.length - 1].survivors.mean);
+      expect(cell.roundsUsed).toBe(batch.roundsToCompletion.mean);
+      expect(cell.successRate).toBe(batch.successRate);
+    });
+
+    test('counts every round run when no trial completes', async () => {
+      const result = await startSweep(
+        { ...params, initialPairs: 16, targetFidelity: 0.9999 },
+        { parameter: 'noiseParameter', min: 0.2, max: 0.2, steps: 1 },
+        undefined,
+        { maxRounds: 1 }
+      ).result;
+
+      expect(result.cells[0][0].roundsUsed).toBe(1);
+    });
+
+    test('is reproducible for seeded parameters', async () => {
+      const first = await startSweep(params, xAxis, undefined, { trials: 2 }).result;
+      expect(await startSweep(params, xAxis, undefined, { trials: 2 }).result).toEqual(first);
+    });
+
+    test('posts the whole grid to one worker and collects the cells it streams back', async () => {
+      const requests: SweepRequest[] = [];
+      // Runs the worker body when the sweep is posted, like the real worker would
+      class FakeWorker {
+        onmessage: ((event: MessageEvent<SweepMessage>) => void) | null = null;
+        onerror: ((event: ErrorEvent) => void) | null = null;
+        postMessage(request: SweepRequest) {
+          requests.push(request);
+          setTimeout(() => executeSweep(request, data => this.onmessage?.({ data } as MessageEvent<SweepMessage>)), 0);
+        }
+        terminate() {}
+      }
+      vi.stubGlobal('Worker', FakeWorker);
+      const options = { engineType: EngineType.Average, trials: 2 };
+      const onProgress = vi.fn();
+
+      const result = await startSweep(params, xAxis, undefined, options, onProgress).result;
+      vi.unstubAllGlobals();
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({ engineType: EngineType.Average, trials: 2, maxRounds: 100 });
+      expect(requests[0].rows[0].map(point => point.params.noiseParameter)).toEqual(result.xValues);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(result).toEqual(await startSweep(params, xAxis, undefined, options).result);
+    });
+
+    test('stops after the current point when cancelled', async () => {
+      const sweep = startSweep(params, xAxis, undefined, {}, ({ completedPoints }) => {
+        if (completedPoints === 1) {
+          sweep.cancel();
+        }
+      });
+
+      const result = await sweep.result;
+      expect(result.cells).toEqual([[expect.objectContaining({ x: result.xValues[0] })]]);
+    });
+
+    test('rejects sweeping one parameter on both axes and invalid trial counts', () => {
+      expect(() => startSweep(params, xAxis, xAxis)).toThrow('The two axes must sweep different parameters');
+      expect(() => startSweep(params, xAxis, undefined, { trials: 0 })).toThrow('Number of trials must be a positive integer');
+    });
+
+    test('throws right away for invalid axes', () => {
+      expect(() => startSweep(params, { ...xAxis, steps: 0 })).toThrow('The steps of noiseParameter');
+    });
+  });
+});
@@ -40,6 +40,7 @@ describe('SimulationController', () => {
       nextStep: vi.fn(),
       step: vi.fn(),
       reset: vi.fn(),
+      restoreState: vi.fn(),
       updateParams: vi.fn()
     };
 
@@ -286,6 +287,66 @@ describe('SimulationController', () => {
     });
   });
   
+  describe('runUntilCompleteAsync()', () => {
+    const stateAt = (round: number, complete = false): SimulationState => ({ ...mockInitialState, round, complete });
+
+    beforeEach(() => {
+      controller = new SimulationController(mockInitialParams, onStateChange);
+      vi.mocked(onStateChange).mockClear();
+    });
+
+    test('streams every round and records only the final state', async () => {
+      vi.mocked(mockEngine.step)
+        .mockReturnValueOnce(stateAt(1))
+        .mockReturnValueOnce(stateAt(2, true));
+      const progress: number[] = [];
+      
+      const result = await controller.runUntilCompleteAsync(update => progress.push(update.completedRounds));
+      
+      expect(result.cancelled).toBe(false);
+      expect(progress).toEqual([1, 2]);
+      expect(onStateChange).toHaveBeenCalledWith(stateAt(1));
+      expect(onStateChange).toHaveBeenLastCalledWith(stateAt(2, true));
+      expect(mockEngine.restoreState).toHaveBeenLastCalledWith(stateAt(2, true));
+      expect(controller.getHistoryLength()).toBe(2);
+      expect(controller.isRunning()).toBe(false);
+    });
+
+    test('cancelRun() keeps the last finished round', async () => {
+      vi.mocked(mockEngine.step).mockImplementation(() => stateAt(1));
+      
+      const run = controller.runUntilCompleteAsync(() => controller.cancelRun());
+      expect(controller.isRunning()).toBe(true);
+      const result = await run;
+      
+      expect(result.cancelled).toBe(true);
+      expect(result.completedRounds).toBe(1);
+      expect(mockEngine.restoreState).toHaveBeenLastCalledWith(stateAt(1));
+      expect(controller.isRunning()).toBe(false);
+    });
+
+    test('rejects a second run while one is in progress', async () => {
+      vi.mocked(mockEngine.step).mockReturnValue(stateAt(1, true));
+      
+      const run = controller.runUntilCompleteAsync();
+      await expect(controller.runUntilCompleteAsync()).rejects.toThrow('A simulation run is already in progress');
+      await run;
+    });
+
+    test('reset() abandons a run in progress', async () => {
+      vi.mocked(mockEngine.step).mockReturnValue(stateAt(1));
+      vi.mocked(mockEngine.reset).mockReturnValue(stateAt(0));
+      
+      const run = controller.runUntilCompleteAsync();
+      controller.reset();
+      await run;
+      
+      expect(controller.isRunning()).toBe(false);
+      expect(onStateChange).toHaveBeenLastCalledWith(stateAt(0));
+      expect(controller.getHistoryLength()).toBe(1);
+    });
+  });
+  
   describe('Engine Switching', () => {
     test('should be able to switch engine types by recreating controller', () => {
       // Create controller with Average engine
@@ -307,6 +368,7 @@ describe('SimulationController', () => {
         nextStep: vi.fn(),
         step: vi.fn(),
         reset: vi.fn(),
+        restoreState: vi.fn(),
         updateParams: vi.fn()
       };
       
@@ -340,6 +402,7 @@ describe('SimulationController', () => {
         nextStep: vi.fn(),
         step: vi.fn(),
         reset: vi.fn(),
+        restoreState: vi.fn(),
         updateParams: vi.fn()
       };
       
@@ -388,4 +451,188 @@ describe('SimulationController', () => {
       expect(createEngine).toHaveBeenCalledWith(EngineType.MonteCarlo, updatedParams);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('runBatch()', () => {
+    test('runs trials of the current parameters without touching the displayed state', () => {
+      controller = new SimulationController(mockInitialParams, onStateChange);
+      vi.mocked(createEngine).mockClear();
+      vi.mocked(onStateChange).mockClear();
+      vi.mocked(mockEngine.getCurrentState).mockReturnValue({ ...mockInitialState, complete: true });
+      
+      const result = controller.runBatch(3);
+      
+      expect(result.trials).toBe(3);
+      expect(createEngine).toHaveBeenCalledTimes(3);
+      expect(createEngine).toHaveBeenCalledWith(EngineType.MonteCarlo, { ...mockInitialParams, seed: undefined });
+      expect(onStateChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('History', () => {
+    const stateAt = (round: number): SimulationState => ({ ...mockInitialState, round });
+
+    beforeEach(() => {
+      controller = new SimulationController(mockInitialParams, onStateChange);
+      vi.mocked(mockEngine.step)
+        .mockReturnValueOnce(stateAt(1))
+        .mockReturnValueOnce(stateAt(2));
+      controller.step();
+      controller.step();
+      vi.mocked(onStateChange).mockClear();
+    });
+
+    test('undo() restores the previous state in the engine and notifies it', () => {
+      controller.undo();
+      
+      expect(mockEngine.restoreState).toHaveBeenCalledWith(stateAt(1));
+      expect(onStateChange).toHaveBeenCalledWith(stateAt(1));
+      expect(controller.getHistoryIndex()).toBe(1);
+      expect(controller.canRedo()).toBe(true);
+    });
+
+    test('redo() moves forward again after undo()', () => {
+      controller.undo();
+      controller.undo();
+      controller.redo();
+      
+      expect(onStateChange).toHaveBeenLastCalledWith(stateAt(1));
+      expect(controller.canUndo()).toBe(true);
+      expect(controller.canRedo()).toBe(true);
+    });
+
+    test('goTo() jumps to any recorded state', () => {
+      controller.goTo(0);
+      
+      expect(mockEngine.restoreState).toHaveBeenCalledWith(stateAt(0));
+      expect(controller.canUndo()).toBe(false);
+      expect(() => controller.goTo(3)).toThrow('History index 3 is out of range');
+    });
+
+    test('stepping after undo() discards the redo states', () => {
+      vi.mocked(mockEngine.step).mockReturnValueOnce(stateAt(5));
+      controller.undo();
+      controller.step();
+      
+      expect(controller.getHistoryLength()).toBe(3);
+      expect(controller.canRedo()).toBe(false);
+    });
+
+    test('undo() does nothing at the start of the history', () => {
+      controller.goTo(0);
+      vi.mocked(onStateChange).mockClear();
+      vi.mocked(mockEngine.restoreState).mockClear();
+      
+      controller.undo();
+      
+      expect(mockEngine.restoreState).not.toHaveBeenCalled();
+      expect(onStateChange).not.toHaveBeenCalled();
+    });
+
+    test('reset() and parameter changes start a new history', () => {
+      vi.mocked(mockEngine.reset).mockReturnValue(stateAt(0));
+      controller.reset();
+      
+      expect(controller.getHistoryLength()).toBe(1);
+      expect(controller.canUndo()).toBe(false);
+      
+      vi.mocked(mockEngine.step).mockReturnValue(stateAt(1));
+      controller.step();
+      controller.updateParameters({ ...mockInitialParams, initialPairs: 8 });
+      expect(controller.getHistoryLength()).toBe(1);
+    });
+
+    test('keeps at most historyLimit states', () => {
+      controller = new SimulationController(mockInitialParams, onStateChange, EngineType.Average, 2);
+      vi.mocked(mockEngine.nextStep).mockReturnValue(stateAt(1));
+      controller.nextStep();
+      controller.nextStep();
+      
+      expect(controller.getHistoryLength()).toBe(2);
+    });
+  });
+
+  describe('Trace', () => {
+    const stateAt = (round: number, complete = false): SimulationState => ({ ...mockInitialState, round, complete });
+
+    beforeEach(() => {
+      controller = new SimulationController(mockInitialParams, onStateChange);
+    });
+
+    test('records every state the engine produces, but not undo and redo', () => {
+      vi.mocked(mockEngine.nextStep).mockReturnValueOnce(stateAt(1));
+      vi.mocked(mockEngine.step).mockReturnValueOnce(stateAt(2));
+      controller.nextStep();
+      controller.step();
+      controller.undo();
+      controller.redo();
+      
+      expect(controller.getTrace().map(state => state.round)).toEqual([0, 1, 2]);
+    });
+
+    test('runUntilComplete() records each round', () => {
+      vi.mocked(mockEngine.getCurrentState).mockReturnValueOnce(stateAt(0));
+      vi.mocked(mockEngine.step)
+        .mockReturnValueOnce(stateAt(1))
+        .mockReturnValueOnce(stateAt(2, true));
+      controller.runUntilComplete();
+      
+      expect(controller.getTrace().map(state => state.round)).toEqual([0, 1, 2]);
+    });
+
+    test('keeps copies, so later engine updates do not change it', () => {
+      const state = stateAt(1);
+      vi.mocked(mockEngine.step).mockReturnValueOnce(state);
+      controller.step();
+      state.round = 7;
+      
+      expect(controller.getTrace()[1].round).toBe(1);
+    });
+
+    test('the timeline follows undo and history jumps and drops abandoned branches', () => {
+      vi.mocked(mockEngine.step)
+        .mockReturnValueOnce(stateAt(1))
+        .mockReturnValueOnce(stateAt(2))
+        .mockReturnValueOnce(stateAt(5));
+      controller.step();
+      controller.step();
+      
+      controller.undo();
+      expect(controller.getTimeline().map(state => state.round)).toEqual([0, 1]);
+      controller.redo();
+      expect(controller.getTimeline().map(state => state.round)).toEqual([0, 1, 2]);
+      
+      controller.goTo(0);
+      controller.step();
+      expect(controller.getTimeline().map(state => state.round)).toEqual([0, 5]);
+      expect(controller.getTrace().map(state => state.round)).toEqual([0, 1, 2, 5]);
+    });
+
+    test('the timeline keeps the rounds of a run to completion', () => {
+      vi.mocked(mockEngine.step)
+        .mockReturnValueOnce(stateAt(1))
+        .mockReturnValueOnce(stateAt(2))
+        .mockReturnValueOnce(stateAt(3, true));
+      controller.step();
+      controller.runUntilComplete();
+      
+      expect(controller.getTimeline().map(state => state.round)).toEqual([0, 1, 2, 3]);
+      controller.undo();
+      expect(controller.getTimeline().map(state => state.round)).toEqual([0, 1]);
+    });
+
+    test('reset() and parameter changes start a new trace', () => {
+      vi.mocked(mockEngine.step).mockReturnValue(stateAt(1));
+      controller.step();
+      vi.mocked(mockEngine.reset).mockReturnValue(stateAt(0));
+      controller.reset();
+      
+      expect(controller.getTrace()).toHaveLength(1);
+      
+      controller.step();
+      controller.updateParameters({ ...mockInitialParams, initialPairs: 8 });
+      expect(controller.getTrace()).toHaveLength(1);
+      expect(controller.getParameters().initialPairs).toBe(8);
+      expect(controller.getEngineType()).toBe(EngineType.Average);
+    });
+  });
+});
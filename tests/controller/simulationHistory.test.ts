@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest';
+import { SimulationHistory } from '../../src/controller/simulationHistory';
+import { SimulationState } from '../../src/engine/types';
+
+describe('SimulationHistory', () => {
+  const stateAt = (round: number): SimulationState => ({
+    pairs: [],
+    round,
+    complete: false,
+    purificationStep: 'initial',
+    averageFidelity: 0
+  });
+
+  const historyWith = (rounds: number[], limit?: number): SimulationHistory => {
+    const history = new SimulationHistory(limit);
+    history.clear(stateAt(rounds[0]));
+    rounds.slice(1).forEach(round => history.record(stateAt(round)));
+    return history;
+  };
+
+  test('undo and redo move the cursor through recorded states', () => {
+    const history = historyWith([0, 1, 2]);
+
+    expect(history.undo()!.round).toBe(1);
+    expect(history.undo()!.round).toBe(0);
+    expect(history.undo()).toBeNull();
+    expect(history.redo()!.round).toBe(1);
+    expect(history.getIndex()).toBe(1);
+  });
+
+  test('recording after undo drops the states that could be redone', () => {
+    const history = historyWith([0, 1, 2]);
+    history.undo();
+    history.record(stateAt(7));
+
+    expect(history.getLength()).toBe(3);
+    expect(history.canRedo()).toBe(false);
+    expect(history.goTo(2).round).toBe(7);
+  });
+
+  test('drops the oldest states beyond the limit', () => {
+    const history = historyWith([0, 1, 2, 3], 3);
+
+    expect(history.getLength()).toBe(3);
+    expect(history.goTo(0).round).toBe(1);
+  });
+
+  test('returns copies, so snapshots cannot be changed from outside', () => {
+    const history = historyWith([0, 1]);
+    history.goTo(0).round = 42;
+
+    expect(history.goTo(0).round).toBe(0);
+  });
+
+  test('rejects invalid limits and indices', () => {
+    expect(() => new SimulationHistory(0)).toThrow('History limit must be a positive integer');
+    expect(() => historyWith([0]).goTo(1)).toThrow('History index 1 is out of range');
+  });
+});
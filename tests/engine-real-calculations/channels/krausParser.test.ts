@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { parseComplex, parseKrausOperators } from '../../../src/engine_real_calculations/channels/krausParser';
+
+describe('parseComplex', () => {
+  test('accepts real, imaginary and complex entries', () => {
+    expect(parseComplex('0.5')).toEqual({ re: 0.5, im: 0 });
+    expect(parseComplex('-i')).toEqual({ re: 0, im: -1 });
+    expect(parseComplex('0.3-0.2i')).toEqual({ re: 0.3, im: -0.2 });
+    expect(parseComplex('1e-3')).toEqual({ re: 0.001, im: 0 });
+  });
+
+  test('evaluates expressions', () => {
+    expect(parseComplex('sqrt(0.25)').re).toBeCloseTo(0.5);
+    const phase = parseComplex('exp(i*pi/2)');
+    expect(phase.re).toBeCloseTo(0);
+    expect(phase.im).toBeCloseTo(1);
+  });
+
+  test('rejects anything that is not a finite complex number', () => {
+    expect(() => parseComplex('abc')).toThrow('"abc" is not a number');
+    expect(() => parseComplex('1/0')).toThrow('"1/0" is not a finite complex number');
+    expect(() => parseComplex('[1,2]')).toThrow('is not a finite complex number');
+  });
+});
+
+describe('parseKrausOperators', () => {
+  test('splits operators at blank lines and rows at new lines', () => {
+    const operators = parseKrausOperators('1 0\n0 0.5i\n\n0, 0\n0, 1');
+
+    expect(operators).toHaveLength(2);
+    expect(operators[0]).toEqual([
+      [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+      [{ re: 0, im: 0 }, { re: 0, im: 0.5 }]
+    ]);
+    expect(operators[1][1][1]).toEqual({ re: 1, im: 0 });
+  });
+
+  test('accepts bracketed operators with semicolons between rows', () => {
+    const operators = parseKrausOperators('[1, 0; 0, 1]\n\n  \n[0 1; 1 0]\n');
+
+    expect(operators).toHaveLength(2);
+    expect(operators[1][0][1]).toEqual({ re: 1, im: 0 });
+  });
+
+  test('names the operator and row of a bad entry', () => {
+    expect(() => parseKrausOperators('1 0\n0 1\n\n1 x\n0 1'))
+      .toThrow('Kraus operator 2, row 1: "x" is not a number');
+  });
+
+  test('rejects ragged rows and empty input', () => {
+    expect(() => parseKrausOperators('1 0\n0')).toThrow('Kraus operator 1: row 2 has 1 entries, but row 1 has 2');
+    expect(() => parseKrausOperators('  \n\n ')).toThrow('At least one Kraus operator is required');
+  });
+});
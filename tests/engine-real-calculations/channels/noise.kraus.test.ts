@@ -1,5 +1,13 @@
 import { describe, test, expect } from 'vitest';
-import { _testing } from '../../../src/engine_real_calculations/channels/noise';
+import {
+  _testing,
+  applyCustomKraus,
+  applyDepolarizing,
+  applyDephasing,
+  applyTwoQubitDepolarizing,
+  validateKrausOperators
+} from '../../../src/engine_real_calculations/channels/noise';
+import { pauliOperator } from '../../../src/engine_real_calculations/gates/pauli';
 import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
 import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix';
 import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
@@ -91,4 +99,96 @@ describe('Advanced applyKraus tests', () => {
     expect(newRho.get(0, 1).re).toBeCloseTo(0);
     expect(newRho.get(1, 0).re).toBeCloseTo(0);
   });
-}); 
\ No newline at end of file
+});
+
+describe('Pauli channels match their dense Kraus form', () => {
+  // Mixed 3-qubit state with coherences: |ψ⟩ = (|000⟩ + i|011⟩ + |101⟩ - |110⟩)/2, mixed with I/8
+  const psi = Array.from({ length: 8 }, () => ComplexNum.zero());
+  psi[0] = ComplexNum.fromReal(0.5);
+  psi[3] = new ComplexNum(0, 0.5);
+  psi[5] = ComplexNum.fromReal(0.5);
+  psi[6] = ComplexNum.fromReal(-0.5);
+  const pure = DensityMatrix.fromStateVector(psi);
+  const rho = new DensityMatrix(pure.scale(ComplexNum.fromReal(0.8)).add(Matrix.identity(8).scale(ComplexNum.fromReal(0.2 / 8))));
+
+  const pauliKraus = (targets: number[], paulis: ('I' | 'X' | 'Y' | 'Z')[], weight: number) =>
+    pauliOperator(3, targets, paulis).scale(ComplexNum.fromReal(Math.sqrt(weight)));
+
+  test('single-qubit depolarizing', () => {
+    const p = 0.3;
+    const expected = _testing.applyKraus(rho, [
+      pauliKraus([1], ['I'], 1 - p),
+      pauliKraus([1], ['X'], p / 3),
+      pauliKraus([1], ['Y'], p / 3),
+      pauliKraus([1], ['Z'], p / 3)
+    ]);
+
+    expect(applyDepolarizing(rho, 1, p).equals(expected)).toBe(true);
+  });
+
+  test('dephasing', () => {
+    const p = 0.4;
+    const expected = _testing.applyKraus(rho, [pauliKraus([2], ['I'], 1 - p / 2), pauliKraus([2], ['Z'], p / 2)]);
+
+    expect(applyDephasing(rho, 2, p).equals(expected)).toBe(true);
+  });
+
+  test('two-qubit depolarizing', () => {
+    const p = 0.2;
+    const paulis: ('I' | 'X' | 'Y' | 'Z')[] = ['I', 'X', 'Y', 'Z'];
+    const ks = paulis.flatMap(pa => paulis.map(pb =>
+      pauliKraus([0, 2], [pa, pb], pa === 'I' && pb === 'I' ? 1 - p : p / 15)
+    ));
+
+    expect(applyTwoQubitDepolarizing(rho, 0, 2, p).equals(_testing.applyKraus(rho, ks))).toBe(true);
+  });
+});
+
+describe('custom Kraus channels', () => {
+  const p = 0.2;
+  const dephasingKraus = [
+    Matrix.identity(2).scale(ComplexNum.fromReal(Math.sqrt(1 - p / 2))),
+    pauliOperator(1, [0], ['Z']).scale(ComplexNum.fromReal(Math.sqrt(p / 2)))
+  ];
+
+  test('validateKrausOperators accepts complete sets', () => {
+    expect(() => validateKrausOperators(dephasingKraus)).not.toThrow();
+    expect(() => validateKrausOperators([Matrix.identity(4)])).not.toThrow();
+  });
+
+  test('validateKrausOperators reports incomplete sets with the failing entry', () => {
+    expect(() => validateKrausOperators([dephasingKraus[0]]))
+      .toThrow('Kraus operators are not complete: entry (1, 1) of Σ K†K is 0.9000 instead of 1');
+    const offDiagonal = new Matrix([
+      [ComplexNum.one(), new ComplexNum(0, 0.5)],
+      [ComplexNum.zero(), ComplexNum.one()]
+    ]);
+    expect(() => validateKrausOperators([offDiagonal])).toThrow('entry (1, 2) of Σ K†K is 0.0000+0.5000i instead of 0');
+  });
+
+  test('validateKrausOperators reports bad sizes', () => {
+    expect(() => validateKrausOperators([])).toThrow('At least one Kraus operator is required');
+    expect(() => validateKrausOperators([Matrix.identity(3)]))
+      .toThrow('Kraus operator 1 is 3×3, but operators must be 2×2 (one qubit) or 4×4 (two qubits)');
+    expect(() => validateKrausOperators([Matrix.identity(2), Matrix.identity(4)]))
+      .toThrow('Kraus operator 2 is 4×4, but operator 1 is 2×2; all operators must have the same size');
+  });
+
+  test('2×2 operators act on one qubit', () => {
+    const rho = DensityMatrix.bellPsiMinus();
+
+    expect(applyCustomKraus(rho, 1, dephasingKraus).equals(applyDephasing(rho, 1, p))).toBe(true);
+  });
+
+  test('4×4 operators act on the whole pair', () => {
+    const rho = DensityMatrix.bellPsiMinus();
+    const ks = [
+      Matrix.identity(4).scale(ComplexNum.fromReal(Math.sqrt(1 - p))),
+      pauliOperator(2, [0, 1], ['X', 'X']).scale(ComplexNum.fromReal(Math.sqrt(p)))
+    ];
+
+    expect(applyCustomKraus(rho, 1, ks).equals(_testing.applyKraus(rho, ks))).toBe(true);
+    expect(() => applyCustomKraus(new DensityMatrix(Matrix.identity(8)), 1, ks))
+      .toThrow('4×4 Kraus operators act on two qubits, but the state has 3');
+  });
+});
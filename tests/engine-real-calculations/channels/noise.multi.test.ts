@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { applyDephasing, applyDepolarizing } from '../../../src/engine_real_calculations/channels/noise';
+import { applyDephasing, applyDepolarizing, applyTwoQubitDepolarizing } from '../../../src/engine_real_calculations/channels/noise';
 import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
 import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
 
@@ -56,4 +56,37 @@ describe('Multi-qubit noise channels', () => {
     expect(newState.get(0, 0).re).toBeLessThan(1);
     expect(newState.get(1, 1).re).toBeGreaterThan(0);
   });
-}); 
\ No newline at end of file
+
+  test('applyTwoQubitDepolarizing mixes a Bell pair towards the maximally mixed state', () => {
+    const bell = DensityMatrix.bellPsiMinus();
+    const p = 0.3;
+    const newState = applyTwoQubitDepolarizing(bell, 0, 1, p);
+
+    expect(newState.trace().re).toBeCloseTo(1);
+    // ρ' = (1 - 16p/15) ρ + (16p/15) I/4, so the Bell overlap is 1 - 12p/15
+    const overlap = newState.mul(bell).trace().re;
+    expect(overlap).toBeCloseTo(1 - 12 * p / 15);
+  });
+
+  test('applyTwoQubitDepolarizing only acts on the selected qubits', () => {
+    // |000> with the channel on qubits 1 and 2 leaves qubit 0 in |0>
+    const dim = 8;
+    const data = Array.from({ length: dim }, (_, i) =>
+      Array.from({ length: dim }, (_, j) => (i === 0 && j === 0 ? ComplexNum.one() : ComplexNum.zero()))
+    );
+    const newState = applyTwoQubitDepolarizing(new DensityMatrix(data), 1, 2, 0.5);
+
+    let probQubit0_0 = 0;
+    for (let i = 0; i < 4; i++) {
+      probQubit0_0 += newState.get(i, i).re;
+    }
+    expect(probQubit0_0).toBeCloseTo(1);
+    expect(newState.get(0, 0).re).toBeCloseTo(1 - 0.5 * 12 / 15);
+  });
+
+  test('applyTwoQubitDepolarizing rejects invalid arguments', () => {
+    const bell = DensityMatrix.bellPsiMinus();
+    expect(() => applyTwoQubitDepolarizing(bell, 0, 0, 0.1)).toThrow();
+    expect(() => applyTwoQubitDepolarizing(bell, 0, 1, 1.5)).toThrow();
+  });
+});
@@ -1,7 +1,20 @@
 import { describe, test, expect } from 'vitest';
-import { applyDepolarizing, applyDephasing, applyAmplitudeDamping, applyUniformNoise } from '../../../src/engine_real_calculations/channels/noise';
+import {
+  applyDepolarizing,
+  applyDephasing,
+  applyAmplitudeDamping,
+  applyUniformNoise,
+  applyCorrelatedDephasing,
+  applyBitFlip,
+  applyBitPhaseFlip,
+  applyGeneralizedAmplitudeDamping,
+  applyPauliChannel,
+  uniformNoiseFidelity
+} from '../../../src/engine_real_calculations/channels/noise';
 import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
 import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
+import { BellState, fidelityFromComputationalBasisMatrix } from '../../../src/engine_real_calculations/bell/bell-basis';
+import { SeededRandom } from '../../../src/engine_real_calculations/utils/random';
 
 describe('Quantum Noise Channels', () => {
   test('applyDephasing preserves traces', () => {
@@ -210,6 +223,18 @@ describe('Quantum Noise Channels', () => {
     expect(result1.equals(result2, 1e-5)).toBe(false);
   });
 
+  test('applyUniformNoise applies a unitary, so pure states stay pure', () => {
+    const plus = DensityMatrix.fromStateVector([
+      { re: Math.SQRT1_2, im: 0 },
+      { re: Math.SQRT1_2, im: 0 }
+    ]);
+
+    for (const strength of [0.3, 0.7, 1]) {
+      const result = applyUniformNoise(plus, 0, strength);
+      expect(result.mul(result).trace().re).toBeCloseTo(1, 10);
+    }
+  });
+
   test('applyUniformNoise produces valid density matrices', () => {
     // Create |+⟩ state
     const plus = [
@@ -230,6 +255,24 @@ describe('Quantum Noise Channels', () => {
     }
   });
 
+  test('uniformNoiseFidelity is the fidelity of uniform noise averaged over its random unitary', () => {
+    expect(uniformNoiseFidelity(0)).toBe(1);
+    expect(uniformNoiseFidelity(1)).toBe(0.25);
+    expect(uniformNoiseFidelity(1 - 1e-9)).toBeCloseTo(0.25, 6);
+    expect(() => uniformNoiseFidelity(1.1)).toThrow('Noise strength must be between 0 and 1');
+
+    const random = new SeededRandom(3);
+    const samples = 2000;
+    [0.3, 0.7].forEach(strength => {
+      let sum = 0;
+      for (let i = 0; i < samples; i++) {
+        const rho = applyUniformNoise(DensityMatrix.bellPsiMinus(), 1, strength, random);
+        sum += fidelityFromComputationalBasisMatrix(rho, BellState.PSI_MINUS);
+      }
+      expect(Math.abs(sum / samples - uniformNoiseFidelity(strength))).toBeLessThan(0.015);
+    });
+  });
+
   test('uniform noise channel tells Alice\'s story', () => {
     // Alice has a quantum state |+⟩ that she wants to transmit
     const plus = [
@@ -299,4 +342,67 @@ describe('Quantum Noise Channels', () => {
     // With 1% noise, the maximum change in any matrix element should be small
     expect(maxDiff).toBeLessThan(0.1);
   });
-}); 
\ No newline at end of file
+
+  test('applyCorrelatedDephasing leaves Bell states alone', () => {
+    const rho = DensityMatrix.bellPsiMinus();
+
+    expect(applyCorrelatedDephasing(rho, 0, 1, 1).equals(rho)).toBe(true);
+  });
+
+  test('applyCorrelatedDephasing removes coherences between different ZZ parities', () => {
+    // |0⟩|+⟩ mixes even (|00⟩) and odd (|01⟩) parity
+    const half = 1 / Math.sqrt(2);
+    const rho = DensityMatrix.fromStateVector([
+      ComplexNum.fromReal(half), ComplexNum.fromReal(half), ComplexNum.zero(), ComplexNum.zero()
+    ]);
+    const p = 0.6;
+    const result = applyCorrelatedDephasing(rho, 0, 1, p);
+
+    expect(result.get(0, 1).re).toBeCloseTo(0.5 * (1 - p));
+    expect(result.get(0, 0).re).toBeCloseTo(0.5);
+    expect(() => applyCorrelatedDephasing(rho, 1, 1, p)).toThrow('Correlated dephasing requires two different qubits');
+  });
+
+  test('applyBitFlip and applyBitPhaseFlip mix |0⟩ with |1⟩', () => {
+    const zero = DensityMatrix.fromStateVector([ComplexNum.one(), ComplexNum.zero()]);
+
+    const flipped = applyBitFlip(zero, 0, 0.6);
+    expect(flipped.get(1, 1).re).toBeCloseTo(0.3);
+    expect(flipped.get(0, 0).re).toBeCloseTo(0.7);
+    expect(applyBitPhaseFlip(zero, 0, 0.6).equals(flipped)).toBe(true);
+  });
+
+  test('applyBitFlip keeps |+⟩ but applyBitPhaseFlip does not', () => {
+    const half = 1 / Math.sqrt(2);
+    const plus = DensityMatrix.fromStateVector([ComplexNum.fromReal(half), ComplexNum.fromReal(half)]);
+
+    expect(applyBitFlip(plus, 0, 1).equals(plus)).toBe(true);
+    expect(applyBitPhaseFlip(plus, 0, 1).get(0, 1).re).toBeCloseTo(0);
+  });
+
+  test('applyGeneralizedAmplitudeDamping reduces to amplitude damping at zero temperature', () => {
+    const half = 1 / Math.sqrt(2);
+    const plus = DensityMatrix.fromStateVector([ComplexNum.fromReal(half), ComplexNum.fromReal(half)]);
+
+    expect(applyGeneralizedAmplitudeDamping(plus, 0, 0.4, 0).equals(applyAmplitudeDamping(plus, 0, 0.4))).toBe(true);
+  });
+
+  test('applyGeneralizedAmplitudeDamping with γ=1 leaves the thermal state', () => {
+    const one = DensityMatrix.fromStateVector([ComplexNum.zero(), ComplexNum.one()]);
+    const result = applyGeneralizedAmplitudeDamping(one, 0, 1, 0.2);
+
+    expect(result.get(0, 0).re).toBeCloseTo(0.8);
+    expect(result.get(1, 1).re).toBeCloseTo(0.2);
+    expect(() => applyGeneralizedAmplitudeDamping(one, 0, 1, 1.5)).toThrow('Thermal population must be between 0 and 1');
+  });
+
+  test('applyPauliChannel applies each Pauli with its own probability', () => {
+    const zero = DensityMatrix.fromStateVector([ComplexNum.one(), ComplexNum.zero()]);
+    const result = applyPauliChannel(zero, 0, 0.1, 0.2, 0.3);
+
+    // X and Y flip |0⟩, Z does not
+    expect(result.get(1, 1).re).toBeCloseTo(0.3);
+    expect(applyPauliChannel(zero, 0, 0, 0, 0.5).equals(applyDephasing(zero, 0, 1))).toBe(true);
+    expect(() => applyPauliChannel(zero, 0, 0.5, 0.5, 0.5)).toThrow('Pauli probabilities must be non-negative and sum to at most 1');
+  });
+});
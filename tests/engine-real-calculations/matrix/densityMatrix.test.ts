@@ -58,6 +58,38 @@ describe('DensityMatrix', () => {
     expect(nonHermitian.validate()).toBe(false);
   });
 
+  test('isPositiveSemidefinite accepts states and rejects negative eigenvalues', () => {
+    expect(DensityMatrix.bellPsiMinus().isPositiveSemidefinite()).toBe(true);
+    expect(new DensityMatrix([
+      [{ re: 0.5, im: 0 }, { re: 0, im: 0.5 }],
+      [{ re: 0, im: -0.5 }, { re: 0.5, im: 0 }]
+    ]).isPositiveSemidefinite()).toBe(true);
+
+    // Hermitian with trace 1, but the eigenvalues are 1.2 and -0.2
+    const negative = new DensityMatrix([
+      [{ re: 0.5, im: 0 }, { re: 0.7, im: 0 }],
+      [{ re: 0.7, im: 0 }, { re: 0.5, im: 0 }]
+    ]);
+    expect(negative.validate()).toBe(true);
+    expect(negative.isPositiveSemidefinite()).toBe(false);
+    expect(negative.isPositiveSemidefinite(0.2)).toBe(true);
+  });
+
+  test('positivePart drops negative eigenvalues and renormalizes', () => {
+    // Eigenvalues 1.2 and -0.2 with eigenvectors |+⟩ and |-⟩
+    const negative = new DensityMatrix([
+      [{ re: 0.5, im: 0 }, { re: 0.7, im: 0 }],
+      [{ re: 0.7, im: 0 }, { re: 0.5, im: 0 }]
+    ]);
+    const plus = new DensityMatrix([
+      [{ re: 0.5, im: 0 }, { re: 0.5, im: 0 }],
+      [{ re: 0.5, im: 0 }, { re: 0.5, im: 0 }]
+    ]);
+
+    expect(negative.positivePart().equals(plus, 1e-12)).toBe(true);
+    expect(DensityMatrix.bellPsiMinus().positivePart().equals(DensityMatrix.bellPsiMinus(), 1e-12)).toBe(true);
+  });
+
   test('Bell states have correct properties', () => {
     const phiPlus = DensityMatrix.bellPhiPlus();
     const phiMinus = DensityMatrix.bellPhiMinus();
@@ -118,4 +150,23 @@ describe('DensityMatrix', () => {
     expect(result.trace().re).toBeCloseTo(1);
     expect(result.rows).toBe(16);
   });
-}); 
\ No newline at end of file
+
+  test('normalization can be turned off', () => {
+    const data = [
+      [{ re: 2, im: 0 }, { re: 0, im: 0 }],
+      [{ re: 0, im: 0 }, { re: 2, im: 0 }]
+    ];
+    const raw = new DensityMatrix(data, { normalize: false });
+    expect(raw.trace().re).toBeCloseTo(4);
+    expect(new DensityMatrix(raw).trace().re).toBeCloseTo(1);
+  });
+
+  test('clone copies without renormalizing', () => {
+    const rho = DensityMatrix.bellPsiMinus().scaleInPlace(3);
+    const clone = rho.clone();
+    expect(clone).toBeInstanceOf(DensityMatrix);
+    expect(clone.trace().re).toBeCloseTo(3);
+    clone.set(0, 0, { re: 1, im: 0 });
+    expect(rho.get(0, 0).re).toBeCloseTo(0);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, test, expect } from 'vitest';
 import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix';
 import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
+import { randomUnitary } from '../../../src/engine_real_calculations/utils/randomUnitary';
+import { SeededRandom } from '../../../src/engine_real_calculations/utils/random';
 
 describe('Matrix', () => {
   test('constructor and dimensions', () => {
@@ -125,4 +127,127 @@ describe('Matrix', () => {
     expect(scaled.get(0, 0)).toEqual({ re: 2, im: 0 });
     expect(scaled.get(0, 1)).toEqual({ re: 4, im: 0 });
   });
-}); 
\ No newline at end of file
+
+  test('stores entries as interleaved real and imaginary parts', () => {
+    const m = new Matrix([
+      [{ re: 1, im: 2 }, { re: 3, im: 4 }],
+      [{ re: 5, im: 6 }, { re: 7, im: 8 }]
+    ]);
+    expect(Array.from(m.values)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  test('adopts raw storage without copying', () => {
+    const values = new Float64Array([1, 0, 0, 0, 0, 0, 1, 0]);
+    const m = new Matrix({ rows: 2, cols: 2, values });
+    values[0] = 9;
+    expect(m.get(0, 0)).toEqual({ re: 9, im: 0 });
+    expect(() => new Matrix({ rows: 2, cols: 2, values: new Float64Array(6) }))
+      .toThrow('Matrix storage does not match its dimensions');
+  });
+
+  test('data writes assigned entries and rows through to the matrix', () => {
+    const m = Matrix.identity(2);
+    const data = m.data;
+    data[0][0] = { re: 5, im: 0 };
+    expect(data[0][0]).toEqual({ re: 5, im: 0 });
+    expect(m.get(0, 0)).toEqual({ re: 5, im: 0 });
+
+    m.data[1] = [{ re: 2, im: 1 }, { re: 3, im: 0 }];
+    expect(m.get(1, 0)).toEqual({ re: 2, im: 1 });
+    expect(m.data[1][1]).toEqual({ re: 3, im: 0 });
+    expect(() => {
+      m.data[0] = [ComplexNum.one()];
+    }).toThrow('All rows must have the same length');
+    expect(structuredClone(m.data)).toEqual([[{ re: 5, im: 0 }, { re: 0, im: 0 }], [{ re: 2, im: 1 }, { re: 3, im: 0 }]]);
+  });
+
+  test('addInPlace and scaleInPlace update the matrix itself', () => {
+    const m = Matrix.identity(2);
+    const result = m.scaleInPlace({ re: 0, im: 2 }).addInPlace(Matrix.identity(2), 0.5);
+    expect(result).toBe(m);
+    expect(m.get(0, 0)).toEqual({ re: 0.5, im: 2 });
+    expect(m.get(0, 1)).toEqual({ re: 0, im: 0 });
+  });
+
+  test('copy has its own storage', () => {
+    const m = Matrix.identity(2);
+    const copy = m.copy();
+    copy.set(0, 0, { re: 3, im: 0 });
+    expect(m.get(0, 0)).toEqual({ re: 1, im: 0 });
+  });
+
+  describe('Hermitian matrix functions', () => {
+    // U·diag(values)·U† for a random unitary U
+    const withSpectrum = (values: number[], seed = 1): Matrix => {
+      const u = randomUnitary(values.length, new SeededRandom(seed));
+      const scaled = u.map((entry, _i, j) => ({ re: entry.re * values[j], im: entry.im * values[j] }));
+      return scaled.mul(u.dagger());
+    };
+
+    test('isHermitian compares the matrix with its conjugate transpose', () => {
+      expect(withSpectrum([0.2, 0.8]).isHermitian()).toBe(true);
+      expect(new Matrix([
+        [ComplexNum.zero(), new ComplexNum(0, 1)],
+        [new ComplexNum(0, 1), ComplexNum.zero()]
+      ]).isHermitian()).toBe(false);
+      expect(Matrix.zeros(2, 3).isHermitian()).toBe(false);
+    });
+
+    test('eigh returns ascending eigenvalues and unitary eigenvectors', () => {
+      const m = withSpectrum([1.5, -0.5, 0.25]);
+      const { values, vectors } = m.eigh();
+
+      expect(values[0]).toBeCloseTo(-0.5, 12);
+      expect(values[1]).toBeCloseTo(0.25, 12);
+      expect(values[2]).toBeCloseTo(1.5, 12);
+      expect(vectors.mul(vectors.dagger()).equals(Matrix.identity(3), 1e-12)).toBe(true);
+      // Columns are eigenvectors: M·V = V·diag(λ)
+      const scaled = vectors.map((entry, _i, j) => ({ re: entry.re * values[j], im: entry.im * values[j] }));
+      expect(m.mul(vectors).equals(scaled, 1e-12)).toBe(true);
+    });
+
+    test('funm applies a function to the eigenvalues', () => {
+      const m = withSpectrum([0.1, 0.3, 0.6]);
+
+      expect(m.funm(value => value).equals(m, 1e-12)).toBe(true);
+      expect(m.funm(value => value * value).equals(m.mul(m), 1e-12)).toBe(true);
+      expect(m.funm(() => 1).equals(Matrix.identity(3), 1e-12)).toBe(true);
+    });
+
+    test('sqrtm squares back to the matrix, also for singular matrices', () => {
+      const m = withSpectrum([0, 0.25, 0.75], 2);
+      const root = m.sqrtm();
+
+      expect(root.mul(root).equals(m, 1e-12)).toBe(true);
+      expect(root.eigh().values[2]).toBeCloseTo(Math.sqrt(0.75), 12);
+    });
+
+    test('powm takes integer, fractional and negative powers', () => {
+      const m = withSpectrum([0.2, 0.5, 2], 3);
+
+      expect(m.powm(0).equals(Matrix.identity(3), 1e-12)).toBe(true);
+      expect(m.powm(3).equals(m.mul(m).mul(m), 1e-10)).toBe(true);
+      expect(m.powm(-1).mul(m).equals(Matrix.identity(3), 1e-10)).toBe(true);
+      const cubeRoot = m.powm(1 / 3);
+      expect(cubeRoot.mul(cubeRoot).mul(cubeRoot).equals(m, 1e-10)).toBe(true);
+      // Integer powers work for indefinite matrices too
+      const indefinite = withSpectrum([-1, 2], 4);
+      expect(indefinite.powm(2).equals(indefinite.mul(indefinite), 1e-12)).toBe(true);
+    });
+
+    test('powm rejects powers that do not exist', () => {
+      expect(() => withSpectrum([-0.5, 1]).sqrtm())
+        .toThrow('Non-integer matrix powers need a positive semidefinite matrix');
+      expect(() => withSpectrum([0, 1]).powm(-1))
+        .toThrow('Negative matrix powers need an invertible matrix');
+    });
+
+    test('powm treats rounding-level negative eigenvalues as zero', () => {
+      const m = withSpectrum([-1e-12, 1]);
+      const root = m.sqrtm();
+
+      expect(root.eigh().values[0]).toBeCloseTo(0, 12);
+      expect(root.eigh().values[1]).toBeCloseTo(1, 12);
+    });
+  });
+});
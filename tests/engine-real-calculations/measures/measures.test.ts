@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
+import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
+import { toComputationalBasis } from '../../../src/engine_real_calculations/bell/bell-basis';
+import { createWernerState } from '../../../src/engine/quantumStates';
+import { randomUnitary } from '../../../src/engine_real_calculations/utils/randomUnitary';
+import { SeededRandom } from '../../../src/engine_real_calculations/utils/random';
+import {
+  concurrence,
+  entanglementMeasures,
+  entanglementOfFormation,
+  fidelity,
+  hilbertSchmidtDistance,
+  linearEntropy,
+  logarithmicNegativity,
+  negativity,
+  partialTranspose,
+  purity,
+  traceDistance,
+  vonNeumannEntropy
+} from '../../../src/engine_real_calculations/measures/measures';
+
+// Werner state with the given |Ψ-⟩ fidelity, in the computational basis
+const werner = (fidelity: number) => new DensityMatrix(toComputationalBasis(createWernerState(fidelity)));
+
+// cos θ|00⟩ + e^{iφ} sin θ|11⟩
+const partiallyEntangled = (theta: number, phase = 0) => DensityMatrix.fromStateVector([
+  ComplexNum.fromReal(Math.cos(theta)),
+  ComplexNum.zero(),
+  ComplexNum.zero(),
+  new ComplexNum(Math.sin(theta) * Math.cos(phase), Math.sin(theta) * Math.sin(phase))
+]);
+
+// Diagonal state with the given populations of |00⟩, |01⟩, |10⟩, |11⟩
+const diagonal = (populations: number[]) => new DensityMatrix(
+  populations.map((p, i) => populations.map((_, j) => ComplexNum.fromReal(i === j ? p : 0)))
+);
+
+// Mixed state with random eigenvectors and the given eigenvalues
+const randomMixed = (random: SeededRandom, eigenvalues: number[]) => {
+  const u = randomUnitary(4, random);
+  return new DensityMatrix(u.mul(diagonal(eigenvalues)).mul(u.dagger()));
+};
+
+const binaryEntropy = (p: number) => -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+
+describe('Entanglement measures', () => {
+  it('gives the maximal values for a Bell state', () => {
+    const bell = DensityMatrix.bellPsiMinus();
+
+    expect(concurrence(bell)).toBeCloseTo(1, 10);
+    expect(negativity(bell)).toBeCloseTo(0.5, 10);
+    expect(logarithmicNegativity(bell)).toBeCloseTo(1, 10);
+    expect(entanglementOfFormation(bell)).toBeCloseTo(1, 10);
+    expect(purity(bell)).toBeCloseTo(1, 12);
+    expect(linearEntropy(bell)).toBeCloseTo(0, 12);
+    expect(vonNeumannEntropy(bell)).toBeCloseTo(0, 10);
+  });
+
+  it('finds no entanglement in a product state', () => {
+    // |0⟩ ⊗ |+⟩
+    const s = 1 / Math.sqrt(2);
+    const product = DensityMatrix.fromStateVector([
+      ComplexNum.fromReal(s), ComplexNum.fromReal(s), ComplexNum.zero(), ComplexNum.zero()
+    ]);
+
+    expect(concurrence(product)).toBeCloseTo(0, 10);
+    expect(negativity(product)).toBeCloseTo(0, 10);
+    expect(entanglementOfFormation(product)).toBeCloseTo(0, 10);
+    expect(purity(product)).toBeCloseTo(1, 12);
+  });
+
+  it('matches the closed forms for pure partially entangled states', () => {
+    const theta = 0.3;
+    const rho = partiallyEntangled(theta, 0.7);
+    const c = Math.sin(2 * theta);
+
+    expect(concurrence(rho)).toBeCloseTo(c, 10);
+    expect(negativity(rho)).toBeCloseTo(c / 2, 10);
+    expect(entanglementOfFormation(rho)).toBeCloseTo(binaryEntropy(Math.cos(theta) ** 2), 10);
+    expect(vonNeumannEntropy(rho)).toBeCloseTo(0, 10);
+  });
+
+  it('matches the closed forms for Werner states', () => {
+    const f = 0.8;
+    const rho = werner(f);
+
+    expect(concurrence(rho)).toBeCloseTo(2 * f - 1, 10);
+    expect(negativity(rho)).toBeCloseTo(f - 0.5, 10);
+    expect(logarithmicNegativity(rho)).toBeCloseTo(Math.log2(2 * f), 10);
+    expect(purity(rho)).toBeCloseTo(f * f + 3 * ((1 - f) / 3) ** 2, 12);
+    expect(vonNeumannEntropy(rho)).toBeCloseTo(-f * Math.log2(f) - (1 - f) * Math.log2((1 - f) / 3), 10);
+  });
+
+  it('shows that Werner states up to fidelity 1/2 are separable', () => {
+    for (const f of [0.25, 0.4, 0.5]) {
+      expect(concurrence(werner(f))).toBeCloseTo(0, 10);
+      expect(negativity(werner(f))).toBeCloseTo(0, 10);
+      expect(entanglementOfFormation(werner(f))).toBeCloseTo(0, 10);
+    }
+    // The maximally mixed state
+    expect(vonNeumannEntropy(werner(0.25))).toBeCloseTo(2, 10);
+    expect(linearEntropy(werner(0.25))).toBeCloseTo(0.75, 12);
+  });
+
+  it('transposes the second qubit', () => {
+    const rho = partiallyEntangled(0.3);
+    const transposed = partialTranspose(rho);
+
+    // ⟨00|ρ|11⟩ moves to ⟨01|ρ^{T_B}|10⟩
+    expect(transposed.get(1, 2).re).toBeCloseTo(rho.get(0, 3).re, 12);
+    expect(transposed.get(0, 3).re).toBeCloseTo(0, 12);
+    expect(transposed.get(0, 0)).toEqual(rho.get(0, 0));
+  });
+
+  it('collects all measures of a state', () => {
+    const rho = werner(0.9);
+
+    expect(entanglementMeasures(rho)).toEqual({
+      concurrence: expect.closeTo(concurrence(rho), 12),
+      negativity: expect.closeTo(negativity(rho), 12),
+      logarithmicNegativity: expect.closeTo(logarithmicNegativity(rho), 12),
+      purity: expect.closeTo(purity(rho), 12),
+      linearEntropy: expect.closeTo(linearEntropy(rho), 12),
+      vonNeumannEntropy: expect.closeTo(vonNeumannEntropy(rho), 12),
+      entanglementOfFormation: expect.closeTo(entanglementOfFormation(rho), 12)
+    });
+  });
+
+  it('rejects states that are not two-qubit states', () => {
+    const qubit = DensityMatrix.fromStateVector([ComplexNum.one(), ComplexNum.zero()]);
+
+    expect(() => concurrence(qubit)).toThrow('Entanglement measures need a two-qubit (4x4) density matrix');
+    expect(() => negativity(qubit)).toThrow();
+    expect(purity(qubit)).toBeCloseTo(1, 12);
+  });
+});
+
+describe('State distances', () => {
+  it('gives ⟨ψ|ρ|ψ⟩ as the fidelity with a pure state', () => {
+    const rho = werner(0.8);
+    const bell = DensityMatrix.bellPsiMinus();
+
+    expect(fidelity(rho, bell)).toBeCloseTo(0.8, 8);
+    expect(fidelity(bell, rho)).toBeCloseTo(0.8, 8);
+    expect(fidelity(rho, DensityMatrix.bellPhiPlus())).toBeCloseTo(0.2 / 3, 8);
+  });
+
+  it('matches the classical fidelity for commuting states', () => {
+    const p = [0.5, 0.3, 0.2, 0];
+    const q = [0.1, 0.2, 0.3, 0.4];
+    const bhattacharyya = p.reduce((sum, pi, i) => sum + Math.sqrt(pi * q[i]), 0);
+
+    expect(fidelity(diagonal(p), diagonal(q))).toBeCloseTo(bhattacharyya ** 2, 8);
+    expect(traceDistance(diagonal(p), diagonal(q))).toBeCloseTo(0.5, 10);
+    expect(hilbertSchmidtDistance(diagonal(p), diagonal(q))).toBeCloseTo(Math.sqrt(0.16 + 0.01 + 0.01 + 0.16), 12);
+  });
+
+  it('keeps the fidelity defined for a state that rounding left slightly non-positive', () => {
+    const rho = DensityMatrix.bellPsiMinus();
+    rho.set(0, 0, ComplexNum.fromReal(1e-6));
+    rho.set(3, 3, ComplexNum.fromReal(-1e-6));
+
+    expect(fidelity(rho, DensityMatrix.bellPsiMinus())).toBeCloseTo(1, 5);
+    expect(fidelity(DensityMatrix.bellPsiMinus(), rho)).toBeCloseTo(1, 5);
+  });
+
+  it('tells equal states from orthogonal ones', () => {
+    const rho = werner(0.7);
+
+    expect(fidelity(rho, rho)).toBeCloseTo(1, 8);
+    expect(traceDistance(rho, rho)).toBeCloseTo(0, 12);
+    expect(hilbertSchmidtDistance(rho, rho)).toBe(0);
+
+    const phi = DensityMatrix.bellPhiPlus();
+    const psi = DensityMatrix.bellPsiMinus();
+    expect(fidelity(phi, psi)).toBeCloseTo(0, 8);
+    expect(traceDistance(phi, psi)).toBeCloseTo(1, 10);
+    expect(hilbertSchmidtDistance(phi, psi)).toBeCloseTo(Math.SQRT2, 12);
+  });
+
+  it('gives 1 − F as the trace distance of a Werner state from its target', () => {
+    [0.4, 0.7, 0.95].forEach(f => {
+      expect(traceDistance(werner(f), DensityMatrix.bellPsiMinus())).toBeCloseTo(1 - f, 10);
+    });
+  });
+
+  it('keeps random mixed states within the Fuchs–van de Graaf bounds', () => {
+    const random = new SeededRandom(11);
+    for (let trial = 0; trial < 5; trial++) {
+      const rho = randomMixed(random, [0.4, 0.3, 0.2, 0.1]);
+      const sigma = randomMixed(random, [0.7, 0.2, 0.1, 0]);
+      const f = fidelity(rho, sigma);
+      const d = traceDistance(rho, sigma);
+
+      expect(f).toBeCloseTo(fidelity(sigma, rho), 7);
+      expect(d).toBeCloseTo(traceDistance(sigma, rho), 10);
+      expect(1 - Math.sqrt(f)).toBeLessThanOrEqual(d + 1e-9);
+      expect(d).toBeLessThanOrEqual(Math.sqrt(1 - f) + 1e-9);
+    }
+  });
+
+  it('rejects states of different dimensions', () => {
+    const qubit = DensityMatrix.fromStateVector([ComplexNum.one(), ComplexNum.zero()]);
+    const pair = DensityMatrix.bellPsiMinus();
+
+    expect(() => fidelity(qubit, pair)).toThrow('States must have the same dimension to be compared');
+    expect(() => traceDistance(pair, qubit)).toThrow();
+    expect(() => hilbertSchmidtDistance(pair, qubit)).toThrow();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  getDejmpsRotationOperator,
+  applyDejmpsRotation
+} from '../../../src/engine_real_calculations/operations/dejmpsRotation.ts';
+import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix.ts';
+import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix.ts';
+import { ComplexNum } from '../../../src/engine_real_calculations/types/complex.ts';
+import { applyPauli } from '../../../src/engine_real_calculations';
+import { toBellBasis, toComputationalBasis } from '../../../src/engine_real_calculations/bell/bell-basis.ts';
+
+// Build a Bell-diagonal state from weights ordered (Φ⁺, Φ⁻, Ψ⁺, Ψ⁻)
+const bellDiagonal = (weights: number[]): DensityMatrix => {
+  const data = weights.map((_, i) =>
+    weights.map((w, j) => ComplexNum.fromReal(i === j ? w : 0))
+  );
+  return new DensityMatrix(toComputationalBasis(new DensityMatrix(data)));
+};
+
+describe('DEJMPS Rotation', () => {
+  describe('getDejmpsRotationOperator', () => {
+    it('should return a unitary 4x4 operator', () => {
+      const U = getDejmpsRotationOperator();
+
+      expect(U.rows).toBe(4);
+      expect(U.cols).toBe(4);
+      expect(U.mul(U.dagger()).equals(Matrix.identity(4), 1e-10)).toBe(true);
+    });
+  });
+
+  describe('applyDejmpsRotation', () => {
+    it('should leave |Ψ⁻⟩ invariant', () => {
+      const rho = DensityMatrix.bellPsiMinus();
+      const rotated = applyDejmpsRotation(rho);
+
+      expect(rotated.equals(rho, 1e-10)).toBe(true);
+    });
+
+    it('should keep Bell-diagonal states Bell-diagonal without making them Werner', () => {
+      const rho = bellDiagonal([0.1, 0.05, 0.15, 0.7]);
+      const rotatedBell = toBellBasis(applyDejmpsRotation(rho));
+
+      for (let i = 0; i < 4; i++) {
+        for (let j = 0; j < 4; j++) {
+          if (i !== j) {
+            expect(Math.abs(rotatedBell.get(i, j).re)).toBeLessThan(1e-10);
+            expect(Math.abs(rotatedBell.get(i, j).im)).toBeLessThan(1e-10);
+          }
+        }
+      }
+
+      // Target weight is untouched and the error weights are not balanced
+      expect(rotatedBell.get(3, 3).re).toBeCloseTo(0.7, 10);
+      const errors = [0, 1, 2].map(i => rotatedBell.get(i, i).re);
+      expect(new Set(errors.map(e => e.toFixed(6))).size).toBeGreaterThan(1);
+    });
+
+    it('should swap |Φ⁻⟩ and |Ψ⁻⟩ weights in the |Φ⁺⟩ frame after the exchange', () => {
+      // Weights in the |Ψ⁻⟩ frame: (Φ⁺, Φ⁻, Ψ⁺, Ψ⁻)
+      const rho = bellDiagonal([0.1, 0.05, 0.15, 0.7]);
+
+      const exchangedOnly = toBellBasis(applyPauli(rho, [0], ['Y']));
+      const rotatedThenExchanged = toBellBasis(applyPauli(applyDejmpsRotation(rho), [0], ['Y']));
+
+      expect(rotatedThenExchanged.get(0, 0).re).toBeCloseTo(exchangedOnly.get(0, 0).re, 10);
+      expect(rotatedThenExchanged.get(2, 2).re).toBeCloseTo(exchangedOnly.get(2, 2).re, 10);
+      expect(rotatedThenExchanged.get(1, 1).re).toBeCloseTo(exchangedOnly.get(3, 3).re, 10);
+      expect(rotatedThenExchanged.get(3, 3).re).toBeCloseTo(exchangedOnly.get(1, 1).re, 10);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from 'vitest';
+import {
+  applyLocalGateInPlace,
+  applyPaulisInPlace,
+  permuteInPlace
+} from '../../../src/engine_real_calculations/operations/kernels';
+import { applyGate } from '../../../src/engine_real_calculations/operations/applyGate';
+import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
+import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix';
+import { cnotIndex, cnotMatrix } from '../../../src/engine_real_calculations/gates/cnot';
+import { pauliOperator } from '../../../src/engine_real_calculations/gates/pauli';
+import { rx, ry } from '../../../src/engine_real_calculations/gates/rotations';
+import { SeededRandom } from '../../../src/engine_real_calculations/utils/random';
+
+// Random full-rank density matrix ρ = AA†/tr(AA†)
+function randomDensityMatrix(numQubits: number, seed: number): DensityMatrix {
+  const random = new SeededRandom(seed);
+  const dim = 1 << numQubits;
+  const A = new Matrix(Array.from({ length: dim }, () =>
+    Array.from({ length: dim }, () => ({ re: random.next() - 0.5, im: random.next() - 0.5 }))
+  ));
+  return new DensityMatrix(A.mul(A.dagger()));
+}
+
+// Dense embedding of a single-qubit gate (qubit 0 = first tensor factor)
+function embed(U: Matrix, numQubits: number, qubit: number): Matrix {
+  let op: Matrix | null = null;
+  for (let q = 0; q < numQubits; q++) {
+    const m = q === qubit ? U : Matrix.identity(2);
+    op = op ? op.tensor(m) : m;
+  }
+  return op!;
+}
+
+describe('In-place gate kernels', () => {
+  test('permuteInPlace with the CNOT index map matches the dense CNOT', () => {
+    for (const [control, target] of [[0, 2], [1, 3], [2, 0]]) {
+      const rho = randomDensityMatrix(4, 1);
+      const expected = applyGate(rho, cnotMatrix(4, control, target));
+      const result = permuteInPlace(new DensityMatrix(rho), i => cnotIndex(i, control, target));
+
+      expect(result.equals(expected)).toBe(true);
+    }
+  });
+
+  test('applyPaulisInPlace matches the dense Pauli operator', () => {
+    const rho = randomDensityMatrix(3, 2);
+    const cases: [number[], ('I' | 'X' | 'Y' | 'Z')[]][] = [
+      [[0], ['X']],
+      [[1], ['Y']],
+      [[2], ['Z']],
+      [[0, 2], ['Y', 'Z']],
+      [[0, 1, 2], ['X', 'Y', 'Z']]
+    ];
+    for (const [targets, paulis] of cases) {
+      const expected = applyGate(rho, pauliOperator(3, targets, paulis));
+      const result = applyPaulisInPlace(new DensityMatrix(rho), targets, paulis);
+
+      expect(result.equals(expected)).toBe(true);
+    }
+  });
+
+  test('applyPaulisInPlace leaves ρ unchanged for identities', () => {
+    const rho = randomDensityMatrix(2, 3);
+    const result = applyPaulisInPlace(new DensityMatrix(rho), [0, 1], ['I', 'I']);
+
+    expect(result.equals(rho)).toBe(true);
+  });
+
+  test('applyLocalGateInPlace matches the embedded dense gate on every qubit', () => {
+    const rho = randomDensityMatrix(3, 4);
+    const U = rx(0.7).mul(ry(-1.3));
+    for (let qubit = 0; qubit < 3; qubit++) {
+      const expected = applyGate(rho, embed(U, 3, qubit));
+      const result = applyLocalGateInPlace(new DensityMatrix(rho), qubit, U);
+
+      expect(result.equals(expected)).toBe(true);
+    }
+  });
+
+  test('kernels modify the matrix they are given', () => {
+    const rho = randomDensityMatrix(2, 5);
+    const result = applyPaulisInPlace(rho, [0], ['X']);
+
+    expect(result).toBe(rho);
+  });
+
+  test('rejects qubits outside the system and non-2x2 gates', () => {
+    const rho = randomDensityMatrix(2, 6);
+
+    expect(() => applyPaulisInPlace(rho, [2], ['X'])).toThrow('Qubit index 2 out of range for 2-qubit system');
+    expect(() => applyLocalGateInPlace(rho, 0, Matrix.identity(4))).toThrow('Local gate must be a 2x2 matrix');
+  });
+});
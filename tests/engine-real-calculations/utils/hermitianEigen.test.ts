@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix';
+import { ComplexNum } from '../../../src/engine_real_calculations/types/complex';
+import { hermitianEigen } from '../../../src/engine_real_calculations/utils/hermitianEigen';
+import { randomUnitary } from '../../../src/engine_real_calculations/utils/randomUnitary';
+import { SeededRandom } from '../../../src/engine_real_calculations/utils/random';
+
+// V·diag(values)·V†
+const reconstruct = (values: number[], vectors: Matrix): Matrix =>
+  vectors.map((entry, _i, j) => ({ re: entry.re * values[j], im: entry.im * values[j] })).mul(vectors.dagger());
+
+// U·diag(values)·U† for a random unitary U: a Hermitian matrix with known eigenvalues
+const withSpectrum = (values: number[], seed: number): Matrix => {
+  const u = randomUnitary(values.length, new SeededRandom(seed));
+  return reconstruct(values, u);
+};
+
+describe('hermitianEigen', () => {
+  it('returns the diagonal of a diagonal matrix in ascending order', () => {
+    const diagonal = new Matrix([
+      [ComplexNum.fromReal(0.7), ComplexNum.zero()],
+      [ComplexNum.zero(), ComplexNum.fromReal(0.3)]
+    ]);
+    const { values, vectors } = hermitianEigen(diagonal);
+
+    expect(values).toEqual([0.3, 0.7]);
+    expect(new Matrix(vectors).equalsUpToGlobalPhase(new Matrix([
+      [ComplexNum.zero(), ComplexNum.one()],
+      [ComplexNum.one(), ComplexNum.zero()]
+    ]))).toBe(true);
+  });
+
+  it('diagonalizes a complex Hermitian matrix', () => {
+    // σy has eigenvalues ±1
+    const sigmaY = new Matrix([
+      [ComplexNum.zero(), new ComplexNum(0, -1)],
+      [new ComplexNum(0, 1), ComplexNum.zero()]
+    ]);
+    const { values, vectors } = hermitianEigen(sigmaY);
+
+    expect(values[0]).toBeCloseTo(-1, 12);
+    expect(values[1]).toBeCloseTo(1, 12);
+    expect(reconstruct(values, new Matrix(vectors)).equals(sigmaY, 1e-12)).toBe(true);
+  });
+
+  it('recovers a known spectrum with unitary eigenvectors', () => {
+    const spectrum = [-0.4, 0.05, 0.25, 1.1, 2];
+    const matrix = withSpectrum(spectrum, 11);
+    const { values, vectors } = hermitianEigen(matrix);
+    const v = new Matrix(vectors);
+
+    values.forEach((value, i) => expect(value).toBeCloseTo(spectrum[i], 10));
+    expect(v.mul(v.dagger()).equals(Matrix.identity(5), 1e-10)).toBe(true);
+    expect(reconstruct(values, v).equals(matrix, 1e-10)).toBe(true);
+  });
+
+  it('handles degenerate and singular spectra', () => {
+    // Like a Werner state: one eigenvalue and a threefold degenerate one
+    const spectrum = [0.05, 0.05, 0.05, 0.85];
+    const matrix = withSpectrum(spectrum, 3);
+    const { values, vectors } = hermitianEigen(matrix);
+    const v = new Matrix(vectors);
+
+    values.forEach((value, i) => expect(value).toBeCloseTo(spectrum[i], 12));
+    expect(v.mul(v.dagger()).equals(Matrix.identity(4), 1e-10)).toBe(true);
+
+    const singular = hermitianEigen(withSpectrum([0, 0, 0, 1], 5));
+    expect(singular.values[0]).toBeCloseTo(0, 12);
+    expect(singular.values[3]).toBeCloseTo(1, 12);
+  });
+
+  it('rejects non-square matrices', () => {
+    expect(() => hermitianEigen(Matrix.zeros(2, 3))).toThrow('Matrix must be square for an eigendecomposition');
+  });
+});
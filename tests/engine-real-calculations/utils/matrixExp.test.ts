@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { Matrix } from '../../../src/engine_real_calculations/matrix/matrix.ts';
 import { ComplexNum } from '../../../src/engine_real_calculations/types/complex.ts';
-import { matrixExp, matrixLog, isUnitary } from '../../../src/engine_real_calculations/utils/matrixExp.ts';
+import { matrixExp, matrixLog, isNormal, isUnitary } from '../../../src/engine_real_calculations/utils/matrixExp.ts';
 
 describe('Matrix Exponential and Logarithm Utilities', () => {
   describe('matrixExp', () => {
@@ -70,10 +70,10 @@ describe('Matrix Exponential and Logarithm Utilities', () => {
   });
 
   describe('matrixLog', () => {
-    it('should compute logarithm element-wise', () => {
+    it('should compute logarithm element-wise for non-Hermitian matrices', () => {
       const matrix = new Matrix([
         [ComplexNum.fromReal(Math.E), ComplexNum.fromReal(1)],
-        [ComplexNum.fromReal(1), ComplexNum.fromReal(Math.E * Math.E)]
+        [ComplexNum.fromReal(Math.E), ComplexNum.fromReal(Math.E * Math.E)]
       ]);
       
       const result = matrixLog(matrix);
@@ -81,9 +81,21 @@ describe('Matrix Exponential and Logarithm Utilities', () => {
       // Should give approximately [1, 0; 0, 2] for diagonal elements
       expect(Math.abs(result.get(0, 0).re - 1)).toBeLessThan(1e-10);
       expect(Math.abs(result.get(1, 1).re - 2)).toBeLessThan(1e-10);
-      // Off-diagonal elements should be log(1) = 0
+      // Off-diagonal elements should be log(1) = 0 and log(e) = 1
       expect(Math.abs(result.get(0, 1).re)).toBeLessThan(1e-10);
-      expect(Math.abs(result.get(1, 0).re)).toBeLessThan(1e-10);
+      expect(Math.abs(result.get(1, 0).re - 1)).toBeLessThan(1e-10);
+    });
+
+    it('should compute the exact logarithm of Hermitian positive definite matrices', () => {
+      const matrix = new Matrix([
+        [ComplexNum.fromReal(Math.E), new ComplexNum(1, -0.5)],
+        [new ComplexNum(1, 0.5), ComplexNum.fromReal(Math.E * Math.E)]
+      ]);
+
+      const result = matrixLog(matrix);
+
+      expect(result.isHermitian(1e-12)).toBe(true);
+      expect(matrixExp(result).equals(matrix, 1e-8)).toBe(true);
     });
 
     it('should handle complex numbers correctly', () => {
@@ -108,12 +120,60 @@ describe('Matrix Exponential and Logarithm Utilities', () => {
         [ComplexNum.fromReal(Math.sin(0.5)), ComplexNum.fromReal(Math.cos(0.5))]
       ]);
       
-      // She wants to find the generator (approximately)
+      // She wants to find the generator
       const generator = matrixLog(unitaryGate);
       
-      // The result should be a valid matrix
-      expect(generator.rows).toBe(2);
-      expect(generator.cols).toBe(2);
+      // A rotation by 0.5 is generated by 0.5·(-iY), and exponentiating gives the gate back
+      expect(generator.equals(new Matrix([
+        [ComplexNum.zero(), ComplexNum.fromReal(-0.5)],
+        [ComplexNum.fromReal(0.5), ComplexNum.zero()]
+      ]), 1e-12)).toBe(true);
+      expect(matrixExp(generator).equals(unitaryGate, 1e-10)).toBe(true);
+    });
+
+    it('should give fractional powers of a unitary that are unitary', () => {
+      // Hadamard, with eigenvalues 1 and -1
+      const s = Math.SQRT1_2;
+      const hadamard = new Matrix([
+        [ComplexNum.fromReal(s), ComplexNum.fromReal(s)],
+        [ComplexNum.fromReal(s), ComplexNum.fromReal(-s)]
+      ]);
+      const phase = new Matrix([
+        [ComplexNum.one(), ComplexNum.zero()],
+        [ComplexNum.zero(), new ComplexNum(0, 1)]
+      ]).mul(hadamard);
+
+      for (const unitary of [hadamard, phase]) {
+        const root = matrixExp(matrixLog(unitary).scale(ComplexNum.fromReal(0.5)));
+        expect(isUnitary(root, 1e-10)).toBe(true);
+        expect(root.mul(root).equals(unitary, 1e-10)).toBe(true);
+      }
+    });
+
+    it('should reject singular normal matrices', () => {
+      const projector = new Matrix([
+        [ComplexNum.one(), ComplexNum.zero()],
+        [ComplexNum.zero(), ComplexNum.zero()]
+      ]);
+      expect(() => matrixLog(projector)).toThrow('Matrix logarithm needs an invertible matrix');
+    });
+  });
+
+  describe('isNormal', () => {
+    it('should accept unitary and Hermitian matrices and reject others', () => {
+      const rotation = new Matrix([
+        [ComplexNum.fromReal(Math.cos(0.5)), ComplexNum.fromReal(-Math.sin(0.5))],
+        [ComplexNum.fromReal(Math.sin(0.5)), ComplexNum.fromReal(Math.cos(0.5))]
+      ]);
+      const shear = new Matrix([
+        [ComplexNum.one(), ComplexNum.one()],
+        [ComplexNum.zero(), ComplexNum.one()]
+      ]);
+
+      expect(isNormal(rotation)).toBe(true);
+      expect(isNormal(Matrix.identity(4))).toBe(true);
+      expect(isNormal(shear)).toBe(false);
+      expect(isNormal(Matrix.zeros(2, 3))).toBe(false);
     });
   });
 
@@ -0,0 +1,74 @@
+import { SeededRandom, createRandomSource, defaultRandom, randomSeed } from '../../../src/engine_real_calculations/utils/random';
+import { randomUnitary } from '../../../src/engine_real_calculations/utils/randomUnitary';
+import { pauliTwirl } from '../../../src/engine_real_calculations/operations/pauliTwirling';
+import { measureQubit } from '../../../src/engine_real_calculations/measurement/measure';
+import { DensityMatrix } from '../../../src/engine_real_calculations/matrix/densityMatrix';
+
+describe('Random sources', () => {
+  test('SeededRandom produces the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const sequenceA = Array.from({ length: 10 }, () => a.next());
+    const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+    expect(sequenceA.every(x => x >= 0 && x < 1)).toBe(true);
+    expect(new SeededRandom(43).next()).not.toBe(sequenceA[0]);
+  });
+
+  test('SeededRandom can continue from a saved state', () => {
+    const random = new SeededRandom(7);
+    random.next();
+    const saved = random.getState();
+    const expected = [random.next(), random.next()];
+
+    const resumed = new SeededRandom(0);
+    resumed.setState(saved);
+    expect([resumed.next(), resumed.next()]).toEqual(expected);
+  });
+
+  test('SeededRandom is roughly uniform', () => {
+    const random = new SeededRandom(2024);
+    const n = 10000;
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += random.next();
+    }
+    expect(sum / n).toBeCloseTo(0.5, 1);
+  });
+
+  test('createRandomSource falls back to Math.random without a seed', () => {
+    expect(createRandomSource()).toBe(defaultRandom);
+    expect(createRandomSource(5)).toBeInstanceOf(SeededRandom);
+
+    const originalRandom = Math.random;
+    Math.random = () => 0.25;
+    try {
+      expect(defaultRandom.next()).toBe(0.25);
+    } finally {
+      Math.random = originalRandom;
+    }
+  });
+
+  test('randomSeed returns a non-negative 32-bit integer', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(2 ** 32);
+  });
+
+  test('seeded sources make stochastic operations reproducible', () => {
+    expect(randomUnitary(2, new SeededRandom(1)).equals(randomUnitary(2, new SeededRandom(1)))).toBe(true);
+
+    // |00⟩ is not invariant under the twirl rotations, so the chosen rotation matters
+    const zero = { re: 0, im: 0 };
+    const rho = DensityMatrix.fromStateVector([{ re: 1, im: 0 }, zero, zero, zero]);
+    const twirledA = pauliTwirl(rho, new SeededRandom(3));
+    const twirledB = pauliTwirl(rho, new SeededRandom(3));
+    expect(twirledA.equals(twirledB)).toBe(true);
+
+    const outcomesA = Array.from({ length: 5 }, (_, i) => measureQubit(DensityMatrix.bellPsiMinus(), 0, new SeededRandom(i)).outcome);
+    const outcomesB = Array.from({ length: 5 }, (_, i) => measureQubit(DensityMatrix.bellPsiMinus(), 0, new SeededRandom(i)).outcome);
+    expect(outcomesA).toEqual(outcomesB);
+  });
+});
@@ -1,8 +1,9 @@
 // import { jest } from '@jest/globals';
 import {vi} from 'vitest';
 import {AverageSimulationEngine} from '../../src/engine/averageSimulationEngine';
-import {Basis, SimulationParameters, NoiseChannel} from '../../src/engine/types';
+import {Basis, SimulationParameters, NoiseChannel, PairingStrategy, PurificationScheme} from '../../src/engine/types';
 import {expectMatrixClose} from "../_test_utils.ts";
+import {ComplexNum} from '../../src/engine_real_calculations/types/complex';
 
 // Helper function to calculate fidelity wrt |Φ⁺⟩ directly from Bell basis rho
 describe('AverageSimulationEngine', () => {
@@ -53,6 +54,25 @@ describe('AverageSimulationEngine', () => {
             });
         });
 
+        test('initializes pairs with a custom Kraus channel', () => {
+            const gamma = 0.3;
+            const c = (re: number) => ComplexNum.fromReal(re);
+            // Amplitude damping written out as Kraus operators
+            const custom = new AverageSimulationEngine({
+                ...initialParams,
+                noiseParameter: 0,
+                noiseChannel: NoiseChannel.CustomKraus,
+                krausOperators: [
+                    [[c(1), c(0)], [c(0), c(Math.sqrt(1 - gamma))]],
+                    [[c(0), c(Math.sqrt(gamma))], [c(0), c(0)]]
+                ]
+            });
+            const builtIn = new AverageSimulationEngine({ ...initialParams, noiseParameter: gamma });
+
+            expect(custom.getCurrentState().pairs[0].fidelity)
+                .toBeCloseTo(builtIn.getCurrentState().pairs[0].fidelity, 10);
+        });
+
         test('getCurrentState returns the current state', () => {
             const state1 = engine.getCurrentState();
             const state2 = engine.getCurrentState();
@@ -368,4 +388,130 @@ describe('AverageSimulationEngine', () => {
         const state2 = engine.getCurrentState();
         expect(state2.averageFidelity).toBeGreaterThan(0);
     });
-}); 
\ No newline at end of file
+
+    describe('Pumping scheme', () => {
+        const pumpingParams: SimulationParameters = {
+            ...initialParams,
+            initialPairs: 5,
+            targetFidelity: 0.999,
+            purificationScheme: PurificationScheme.Pumping
+        };
+
+        test('starts the pumped fidelity trajectory with the accumulating pair', () => {
+            const pumpingEngine = new AverageSimulationEngine(pumpingParams);
+            const state = pumpingEngine.getCurrentState();
+
+            expect(state.pumpingHistory).toEqual([state.pairs[0].fidelity]);
+            expect(state.rawPairsConsumed).toBe(0);
+        });
+
+        test('only the accumulating pair and one elementary pair take part in a round', () => {
+            const pumpingEngine = new AverageSimulationEngine(pumpingParams);
+            pumpingEngine.nextStep(); // twirl
+            pumpingEngine.nextStep(); // exchange
+            const state = pumpingEngine.nextStep(); // cnot
+
+            expect(state.pendingPairs?.controlPairs.map(p => p.id)).toEqual([0]);
+            expect(state.pendingPairs?.targetPairs.map(p => p.id)).toEqual([1]);
+            expect(state.pendingPairs?.unpairedPairs?.map(p => p.id)).toEqual([2, 3, 4]);
+            expect(state.rawPairsConsumed).toBe(2);
+        });
+
+        test('consumes one raw pair per successful round and records the trajectory', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0); // every measurement succeeds
+            const pumpingEngine = new AverageSimulationEngine(pumpingParams);
+
+            let state = pumpingEngine.step();
+            expect(state.pairs.length).toBe(4);
+            expect(state.pairs[0].id).toBe(0);
+            expect(state.pairs[0].generation).toBe(1);
+            expect(state.rawPairsConsumed).toBe(2);
+
+            state = pumpingEngine.step();
+            expect(state.rawPairsConsumed).toBe(3);
+            expect(state.pairs[0].generation).toBe(2);
+            expect(state.pumpingHistory).toHaveLength(3);
+            expect(state.pumpingHistory![2]).toBeGreaterThan(state.pumpingHistory![1]);
+
+            vi.restoreAllMocks();
+        });
+
+        test('does not record a trajectory in recurrence mode', () => {
+            expect(engine.getCurrentState().pumpingHistory).toBeUndefined();
+        });
+    });
+
+    describe('Pairing strategy', () => {
+        test('matches pairs according to the configured strategy', () => {
+            const strategyEngine = new AverageSimulationEngine({
+                ...initialParams,
+                pairingStrategy: PairingStrategy.BestWithWorst
+            });
+            strategyEngine.nextStep(); // twirl
+            strategyEngine.nextStep(); // exchange
+            const state = strategyEngine.nextStep(); // cnot
+
+            const controls = state.pendingPairs!.controlPairs;
+            const targets = state.pendingPairs!.targetPairs;
+            expect(controls).toHaveLength(2);
+            controls.forEach((control, i) => {
+                expect(control.fidelity).toBeGreaterThanOrEqual(targets[i].fidelity);
+            });
+        });
+    });
+});
+
+describe('AverageSimulationEngine - Memory decoherence', () => {
+    test('waiting in memory lowers fidelity compared to ideal memory', () => {
+        const params: SimulationParameters = {
+            initialPairs: 4,
+            noiseParameter: 0.1,
+            targetFidelity: 0.999,
+            noiseChannel: NoiseChannel.Depolarizing
+        };
+        const ideal = new AverageSimulationEngine(params).nextStep();
+        const stored = new AverageSimulationEngine({ ...params, memoryT1: 20, memoryT2: 10, stepDuration: 1 }).nextStep();
+
+        expect(stored.pairs[0].fidelity).toBeLessThan(ideal.pairs[0].fidelity);
+        expect(stored.memoryFidelityLoss).toBeGreaterThan(0);
+        expect(ideal.memoryFidelityLoss).toBe(0);
+    });
+});
+
+describe('AverageSimulationEngine - Seeded runs', () => {
+    test('two engines with the same seed produce identical runs', () => {
+        const params: SimulationParameters = {
+            initialPairs: 8,
+            noiseParameter: 0.3,
+            targetFidelity: 0.99,
+            noiseChannel: NoiseChannel.UniformNoise,
+            seed: 99
+        };
+        const a = new AverageSimulationEngine(params);
+        const b = new AverageSimulationEngine(params);
+        a.step();
+        b.step();
+
+        expect(a.getCurrentState().pairs.map(p => p.fidelity)).toEqual(b.getCurrentState().pairs.map(p => p.fidelity));
+        expect(a.getCurrentState().seed).toBe(99);
+    });
+});
+
+describe('AverageSimulationEngine - Unmatched ensembles', () => {
+    test('completes when no two pairs share a generation', () => {
+        const engine = new AverageSimulationEngine({
+            initialPairs: 3,
+            noiseParameter: 0.1,
+            targetFidelity: 0.9999,
+            noiseChannel: NoiseChannel.Depolarizing,
+            pairingStrategy: PairingStrategy.SameGeneration
+        });
+
+        let state = engine.getCurrentState();
+        for (let i = 0; i < 10 && !state.complete; i++) {
+            state = engine.step();
+        }
+
+        expect(state.complete).toBe(true);
+    });
+});
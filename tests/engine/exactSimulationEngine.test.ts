@@ -0,0 +1,180 @@
+import {vi} from 'vitest';
+import {ExactSimulationEngine} from '../../src/engine/exactSimulationEngine';
+import {AverageSimulationEngine} from '../../src/engine/averageSimulationEngine';
+import {purificationOutcome} from '../../src/engine/operations';
+import {createNoisyEPRWithChannel} from '../../src/engine/quantumStates';
+import {
+  EngineType,
+  NoiseChannel,
+  PairingStrategy,
+  PurificationScheme,
+  SimulationParameters,
+  createEngine
+} from '../../src/engine/types';
+import {BellState, fidelityFromComputationalBasisMatrix} from '../../src/engine_real_calculations/bell/bell-basis';
+import {uniformNoiseFidelity} from '../../src/engine_real_calculations/channels/noise';
+
+describe('ExactSimulationEngine', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.Depolarizing
+  };
+  const initialFidelity = fidelityFromComputationalBasisMatrix(
+    createNoisyEPRWithChannel(params.noiseParameter, params.noiseChannel),
+    BellState.PSI_MINUS
+  );
+
+  test('is created by the engine factory', () => {
+    expect(createEngine(EngineType.Exact, params)).toBeInstanceOf(ExactSimulationEngine);
+  });
+
+  test('starts from a single certain configuration', () => {
+    const state = new ExactSimulationEngine(params).getCurrentState();
+
+    expect(state.pairs).toHaveLength(4);
+    state.pairs.forEach(pair => expect(pair.fidelity).toBeCloseTo(initialFidelity));
+    expect(state.statistics).toMatchObject({
+      expectedPairs: 4,
+      pairsVariance: 0,
+      targetProbability: 0,
+      configurations: 1
+    });
+    expect(state.statistics!.pairCountDistribution[4]).toBe(1);
+  });
+
+  test('keeps the fidelity of pairs given in pairInitialStates', () => {
+    const state = new ExactSimulationEngine({
+      ...params,
+      pairInitialStates: { 2: createNoisyEPRWithChannel(0, NoiseChannel.Dephasing).data }
+    }).getCurrentState();
+
+    const fidelities = state.pairs.map(pair => pair.fidelity);
+    expect(fidelities[2]).toBeCloseTo(1);
+    [0, 1, 3].forEach(i => expect(fidelities[i]).toBeCloseTo(initialFidelity));
+  });
+
+  test('propagates a binomial distribution over the first round', () => {
+    const engine = new ExactSimulationEngine(params);
+    const { successProbability: p, fidelity } = purificationOutcome(initialFidelity, initialFidelity);
+
+    const state = engine.nextStep();
+
+    expect(state.round).toBe(1);
+    expect(state.statistics!.expectedPairs).toBeCloseTo(2 * p);
+    expect(state.statistics!.pairsVariance).toBeCloseTo(2 * p * (1 - p));
+    expect(state.statistics!.pairCountDistribution[2]).toBeCloseTo(p * p);
+    expect(state.statistics!.pairCountDistribution[1]).toBeCloseTo(2 * p * (1 - p));
+    expect(state.statistics!.pairCountDistribution[0]).toBeCloseTo((1 - p) * (1 - p));
+    expect(state.statistics!.expectedFidelity).toBeCloseTo(fidelity);
+    expect(state.rawPairsConsumed).toBeCloseTo(4);
+  });
+
+  test('keeps the distribution normalised and shows the most likely ensemble', () => {
+    const engine = new ExactSimulationEngine({ ...params, initialPairs: 9 });
+    let state = engine.getCurrentState();
+    for (let i = 0; i < 3; i++) {
+      state = engine.nextStep();
+      const total = state.statistics!.pairCountDistribution.reduce((sum, p) => sum + p, 0);
+      expect(total).toBeCloseTo(1, 10);
+    }
+
+    // The displayed ensemble is one of the possible outcomes
+    expect(state.statistics!.pairCountDistribution[state.pairs.length]).toBeGreaterThan(0);
+  });
+
+  test('reports the probability of reaching the target fidelity', () => {
+    const { successProbability: p, fidelity } = purificationOutcome(initialFidelity, initialFidelity);
+    const engine = new ExactSimulationEngine({ ...params, initialPairs: 2, targetFidelity: fidelity - 1e-6 });
+
+    const state = engine.nextStep();
+
+    expect(state.statistics!.targetProbability).toBeCloseTo(p);
+    // Every outcome is final: either the target was reached or no pairs are left
+    expect(state.complete).toBe(true);
+    expect(state.purificationStep).toBe('completed');
+  });
+
+  test('matches the mean yield of many sampled average-engine runs', () => {
+    const exact = new ExactSimulationEngine(params).nextStep().statistics!.expectedPairs;
+
+    const runs = 400;
+    let survivors = 0;
+    for (let seed = 0; seed < runs; seed++) {
+      survivors += new AverageSimulationEngine({ ...params, seed }).step().pairs.length;
+    }
+
+    expect(Math.abs(survivors / runs - exact)).toBeLessThan(0.15);
+  });
+
+  test('does not depend on the seed with uniform noise', () => {
+    const uniform = { ...params, noiseChannel: NoiseChannel.UniformNoise, noiseParameter: 0.3 };
+    const run = (seed: number) => {
+      const engine = new ExactSimulationEngine({ ...uniform, seed });
+      return [engine.getCurrentState(), engine.nextStep()].map(state => ({ pairs: state.pairs, statistics: state.statistics }));
+    };
+
+    expect(run(1)).toEqual(run(2));
+    run(1)[0].pairs.forEach(pair => expect(pair.fidelity).toBeCloseTo(uniformNoiseFidelity(0.3), 12));
+  });
+
+  test('does not sample for deterministic noise channels', () => {
+    const randomSpy = vi.spyOn(Math, 'random');
+    const engine = new ExactSimulationEngine(params);
+    engine.nextStep();
+    engine.nextStep();
+
+    expect(randomSpy).not.toHaveBeenCalled();
+    randomSpy.mockRestore();
+  });
+
+  test('supports pumping and treats random pairing as index order', () => {
+    const pumping = new ExactSimulationEngine({ ...params, purificationScheme: PurificationScheme.Pumping }).nextStep();
+    const { successProbability: p } = purificationOutcome(initialFidelity, initialFidelity);
+    // Only one match per round: 4 pairs become 3 on success and 2 on failure
+    expect(pumping.statistics!.expectedPairs).toBeCloseTo(3 * p + 2 * (1 - p));
+
+    const random = new ExactSimulationEngine({ ...params, pairingStrategy: PairingStrategy.Random }).nextStep();
+    const indexOrder = new ExactSimulationEngine(params).nextStep();
+    expect(random.statistics).toEqual(indexOrder.statistics);
+  });
+
+  test('completes when no pair has a partner of the same generation', () => {
+    const engine = new ExactSimulationEngine({
+      ...params,
+      initialPairs: 3,
+      pairingStrategy: PairingStrategy.SameGeneration,
+      targetFidelity: 0.9999
+    });
+
+    let state = engine.getCurrentState();
+    for (let i = 0; i < 10 && !state.complete; i++) {
+      state = engine.nextStep();
+    }
+
+    expect(state.complete).toBe(true);
+  });
+
+  test('reset and updateParams start over from the initial ensemble', () => {
+    const engine = new ExactSimulationEngine(params);
+    engine.nextStep();
+
+    expect(engine.reset().statistics!.configurations).toBe(1);
+    engine.updateParams({ ...params, initialPairs: 6 });
+    expect(engine.getCurrentState().statistics!.expectedPairs).toBe(6);
+    expect(engine.getCurrentState().round).toBe(0);
+  });
+
+  test('restoreState rebuilds the outcome distribution of an earlier round', () => {
+    const engine = new ExactSimulationEngine(params);
+    const afterOneRound = engine.nextStep();
+    engine.nextStep();
+
+    engine.restoreState(afterOneRound);
+
+    expect(engine.getCurrentState().round).toBe(1);
+    expect(engine.getCurrentState().statistics).toEqual(afterOneRound.statistics);
+  });
+});
+
@@ -0,0 +1,116 @@
+import {applyMemoryDecoherence, getMemoryDecay, mapStoredPairs, memoryReferenceState} from '../../src/engine/memory';
+import {Basis, NoiseChannel, SimulationParameters, SimulationState} from '../../src/engine/types';
+import {DensityMatrix} from '../../src/engine_real_calculations/matrix/densityMatrix';
+import {BellState, fidelityFromComputationalBasisMatrix} from '../../src/engine_real_calculations/bell/bell-basis';
+import {partialTrace} from '../../src/engine_real_calculations/operations/partialTrace';
+
+describe('Memory decoherence', () => {
+  const baseParams: SimulationParameters = {
+    initialPairs: 2,
+    noiseParameter: 0.1,
+    targetFidelity: 0.9,
+    noiseChannel: NoiseChannel.Depolarizing
+  };
+
+  describe('getMemoryDecay', () => {
+    test('returns null for ideal memory', () => {
+      expect(getMemoryDecay(baseParams)).toBeNull();
+      expect(getMemoryDecay({ ...baseParams, memoryT1: 10, memoryT2: 5 })).toBeNull();
+      expect(getMemoryDecay({ ...baseParams, memoryT1: 10, stepDuration: 0 })).toBeNull();
+    });
+
+    test('converts T1 and T2 into per-step channel strengths', () => {
+      const decay = getMemoryDecay({ ...baseParams, memoryT1: 10, memoryT2: 4, stepDuration: 1 })!;
+
+      expect(decay.gamma).toBeCloseTo(1 - Math.exp(-1 / 10));
+      // Pure dephasing rate: 1/T2 - 1/(2·T1)
+      expect(decay.dephasing).toBeCloseTo(1 - Math.exp(-(1 / 4 - 1 / 20)));
+    });
+
+    test('applies no extra dephasing when T2 is limited by T1', () => {
+      const decay = getMemoryDecay({ ...baseParams, memoryT1: 10, memoryT2: 20, stepDuration: 1 })!;
+
+      expect(decay.gamma).toBeGreaterThan(0);
+      expect(decay.dephasing).toBe(0);
+    });
+
+    test('supports pure dephasing without relaxation', () => {
+      const decay = getMemoryDecay({ ...baseParams, memoryT2: 5, stepDuration: 1 })!;
+
+      expect(decay.gamma).toBe(0);
+      expect(decay.dephasing).toBeCloseTo(1 - Math.exp(-1 / 5));
+    });
+  });
+
+  describe('applyMemoryDecoherence', () => {
+    test('decays the Bell state coherence with T2 on both qubits', () => {
+      const T2 = 5;
+      const t = 1;
+      const decay = getMemoryDecay({ ...baseParams, memoryT2: T2, stepDuration: t })!;
+      const decayed = applyMemoryDecoherence(DensityMatrix.bellPsiMinus(), decay);
+
+      // Each qubit scales the |01⟩⟨10| coherence by exp(-t/T2)
+      const coherence = Math.exp(-2 * t / T2);
+      expect(fidelityFromComputationalBasisMatrix(decayed, BellState.PSI_MINUS)).toBeCloseTo((1 + coherence) / 2);
+      expect(decayed.trace().re).toBeCloseTo(1);
+    });
+  });
+
+  test('memoryReferenceState follows the frame of the purification step', () => {
+    expect(memoryReferenceState('initial')).toBe(BellState.PSI_MINUS);
+    expect(memoryReferenceState('twirled')).toBe(BellState.PSI_MINUS);
+    expect(memoryReferenceState('exchanged')).toBe(BellState.PHI_PLUS);
+    expect(memoryReferenceState('measured')).toBe(BellState.PHI_PLUS);
+    expect(memoryReferenceState('discard')).toBe(BellState.PHI_PLUS);
+  });
+
+  test('mapStoredPairs updates pairs of a round in progress', () => {
+    const pair = (id: number) => ({
+      id,
+      densityMatrix: DensityMatrix.bellPsiMinus(),
+      fidelity: 1,
+      basis: Basis.Computational
+    });
+    const state: SimulationState = {
+      pairs: [pair(0), pair(1), pair(2)],
+      round: 0,
+      complete: false,
+      purificationStep: 'measured',
+      averageFidelity: 1,
+      pendingPairs: {
+        controlPairs: [pair(0)],
+        targetPairs: [pair(1)],
+        unpairedPairs: [pair(2)],
+        results: [{ control: pair(0), successful: true }]
+      }
+    };
+
+    const updated = mapStoredPairs(state, p => ({ ...p, fidelity: 0.5 }));
+
+    expect(updated.pairs.every(p => p.fidelity === 0.5)).toBe(true);
+    expect(updated.pendingPairs!.controlPairs[0].fidelity).toBe(0.5);
+    expect(updated.pendingPairs!.targetPairs[0].fidelity).toBe(0.5);
+    expect(updated.pendingPairs!.unpairedPairs![0].fidelity).toBe(0.5);
+    expect(updated.pendingPairs!.results![0].control.fidelity).toBe(0.5);
+    expect(state.pairs[0].fidelity).toBe(1);
+  });
+
+  test('mapStoredPairs updates joint states only through their own update', () => {
+    const joint = DensityMatrix.tensor(DensityMatrix.bellPhiPlus(), DensityMatrix.bellPhiPlus());
+    const state: SimulationState = {
+      pairs: [],
+      round: 0,
+      complete: false,
+      purificationStep: 'cnot',
+      averageFidelity: 1,
+      pendingPairs: { controlPairs: [], targetPairs: [], jointStates: [joint] }
+    };
+    const decay = getMemoryDecay({ ...baseParams, memoryT1: 10, memoryT2: 5, stepDuration: 1 })!;
+
+    expect(mapStoredPairs(state, p => p).pendingPairs!.jointStates![0]).toBe(joint);
+    const decayed = mapStoredPairs(state, p => p, j => applyMemoryDecoherence(j, decay)).pendingPairs!.jointStates![0];
+    // Local channels commute with the partial trace, so each half decays like a stored pair
+    const half = new DensityMatrix(partialTrace(decayed, [2, 3]));
+    expect(half.equals(applyMemoryDecoherence(DensityMatrix.bellPhiPlus(), decay), 1e-12)).toBe(true);
+  });
+});
@@ -1,11 +1,14 @@
 import {vi} from 'vitest';
-import {MonteCarloSimulationEngine} from '../../src/engine/monteCarloSimulationEngine';
-import {Basis, SimulationParameters, NoiseChannel} from '../../src/engine/types';
+import {MonteCarloSimulationEngine, DejmpsSimulationEngine} from '../../src/engine/monteCarloSimulationEngine';
+import {Basis, SimulationParameters, NoiseChannel, EngineType, PairingStrategy, PurificationScheme, createEngine} from '../../src/engine/types';
 import {DensityMatrix} from '../../src/engine_real_calculations/matrix/densityMatrix';
+import {ComplexNum} from '../../src/engine_real_calculations/types/complex';
 import * as PauliTwirling from '../../src/engine_real_calculations/operations/pauliTwirling';
+import * as DejmpsRotation from '../../src/engine_real_calculations/operations/dejmpsRotation';
 import * as RealCalculations from '../../src/engine_real_calculations';
 import * as PartialTrace from '../../src/engine_real_calculations/operations/partialTrace';
-import {BellState, fidelityFromComputationalBasisMatrix} from '../../src/engine_real_calculations/bell/bell-basis';
+import {BellState, fidelityFromComputationalBasisMatrix, toBellBasis} from '../../src/engine_real_calculations/bell/bell-basis';
+import {applyMemoryDecoherence, getMemoryDecay} from '../../src/engine/memory';
 
 function expectFidelityRange(fidelity: number, min: number, max: number, message?: string) {
   expect(fidelity).toBeGreaterThanOrEqual(min);
@@ -115,6 +118,44 @@ describe('MonteCarloSimulationEngine - Noise Channel Tests', () => {
       new MonteCarloSimulationEngine(invalidParams);
     }).toThrow('Unknown noise channel: invalid');
   });
+
+  test('uses two-qubit custom Kraus operators on the whole pair', () => {
+    const p = 0.25;
+    const c = (re: number) => ComplexNum.fromReal(re);
+    // √(1-p)·I and √p·Z⊗I: the phase flip turns |Ψ-⟩ into |Ψ+⟩
+    const a = Math.sqrt(1 - p);
+    const b = Math.sqrt(p);
+    const krausOperators = [
+      [[c(a), c(0), c(0), c(0)], [c(0), c(a), c(0), c(0)], [c(0), c(0), c(a), c(0)], [c(0), c(0), c(0), c(a)]],
+      [[c(b), c(0), c(0), c(0)], [c(0), c(b), c(0), c(0)], [c(0), c(0), c(-b), c(0)], [c(0), c(0), c(0), c(-b)]]
+    ];
+    const engine = new MonteCarloSimulationEngine({
+      initialPairs: 2,
+      noiseParameter: 0,
+      targetFidelity: 0.95,
+      noiseChannel: NoiseChannel.CustomKraus,
+      krausOperators
+    });
+
+    engine.getCurrentState().pairs.forEach(pair => {
+      expect(pair.fidelity).toBeCloseTo(1 - p, 10);
+    });
+  });
+
+  test('starts pairs given in pairInitialStates from their own state', () => {
+    const engine = new MonteCarloSimulationEngine({
+      initialPairs: 3,
+      noiseParameter: 0.4,
+      targetFidelity: 0.95,
+      noiseChannel: NoiseChannel.Dephasing,
+      pairInitialStates: { 1: DensityMatrix.bellPsiMinus().data }
+    });
+
+    const fidelities = engine.getCurrentState().pairs.map(pair => pair.fidelity);
+    expect(fidelities[0]).toBeCloseTo(0.8);
+    expect(fidelities[1]).toBeCloseTo(1);
+    expect(fidelities[2]).toBeCloseTo(0.8);
+  });
 });
 
 describe('MonteCarloSimulationEngine', () => {
@@ -940,4 +981,307 @@ describe('MonteCarloSimulationEngine', () => {
       twirlSpy.mockRestore();
     });
   });
-}); 
\ No newline at end of file
+});
+
+describe('DejmpsSimulationEngine', () => {
+  let engine: DejmpsSimulationEngine;
+  const initialParams: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.3,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.Dephasing
+  };
+
+  beforeEach(() => {
+    engine = new DejmpsSimulationEngine(initialParams);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('is created by createEngine for EngineType.Dejmps', () => {
+    const created = createEngine(EngineType.Dejmps, initialParams);
+    expect(created).toBeInstanceOf(DejmpsSimulationEngine);
+    expect(created).toBeInstanceOf(MonteCarloSimulationEngine);
+  });
+
+  test('initializes pairs in the computational basis', () => {
+    const state = engine.getCurrentState();
+    expect(state.pairs.length).toBe(initialParams.initialPairs);
+    expect(state.purificationStep).toBe('initial');
+    state.pairs.forEach(pair => expect(pair.basis).toBe(Basis.Computational));
+  });
+
+  test('uses the DEJMPS rotation instead of the Pauli twirl', () => {
+    const twirlSpy = vi.spyOn(PauliTwirling, 'pauliTwirl');
+    const rotationSpy = vi.spyOn(DejmpsRotation, 'applyDejmpsRotation');
+
+    const state = engine.nextStep();
+
+    expect(state.purificationStep).toBe('twirled');
+    expect(twirlSpy).not.toHaveBeenCalled();
+    expect(rotationSpy).toHaveBeenCalledTimes(initialParams.initialPairs);
+  });
+
+  test('keeps pairs out of Werner form between rounds', () => {
+    // Dephasing on Bob's qubit gives a Bell-diagonal state with a single error component
+    let state = engine.step();
+
+    while (!state.complete && state.pairs.length > 0) {
+      state.pairs.forEach(pair => {
+        const bell = toBellBasis(pair.densityMatrix);
+        const errors = [0, 1, 2].map(i => bell.get(i, i).re);
+        // A Werner state would have three equal error weights
+        expect(Math.max(...errors) - Math.min(...errors)).toBeGreaterThan(1e-6);
+      });
+      state = engine.step();
+    }
+  });
+
+  test('successful rounds increase fidelity with respect to |Ψ⁻⟩', () => {
+    const initialFidelity = engine.getCurrentState().pairs[0].fidelity;
+    const state = engine.step();
+
+    expect(state.round).toBe(1);
+    state.pairs.forEach(pair => {
+      expect(pair.fidelity).toBeGreaterThan(initialFidelity);
+    });
+  });
+});
+
+describe('MonteCarloSimulationEngine - Pumping scheme', () => {
+  const pumpingParams: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.999,
+    noiseChannel: NoiseChannel.Depolarizing,
+    purificationScheme: PurificationScheme.Pumping
+  };
+
+  test('purifies the accumulating pair with one elementary pair per round', () => {
+    const engine = new MonteCarloSimulationEngine(pumpingParams);
+    engine.nextStep(); // twirl
+    engine.nextStep(); // exchange
+    const state = engine.nextStep(); // cnot
+
+    expect(state.pendingPairs?.controlPairs.map(p => p.id)).toEqual([0]);
+    expect(state.pendingPairs?.targetPairs.map(p => p.id)).toEqual([1]);
+    expect(state.pendingPairs?.jointStates).toHaveLength(1);
+    expect(state.rawPairsConsumed).toBe(2);
+  });
+
+  test('keeps waiting pairs and records the pumped fidelity after each round', () => {
+    const engine = new MonteCarloSimulationEngine(pumpingParams);
+    const state = engine.step();
+
+    // Either the accumulating pair survived (3 pairs) or both were discarded (2 pairs)
+    expect([2, 3]).toContain(state.pairs.length);
+    expect(state.pairs.slice(-2).map(p => p.id)).toEqual([2, 3]);
+    expect(state.pumpingHistory).toHaveLength(2);
+    expect(state.pumpingHistory![1]).toBeCloseTo(state.pairs[0].fidelity, 10);
+  });
+});
+
+describe('MonteCarloSimulationEngine - Pairing strategy', () => {
+  test('uses the same-generation strategy from the parameters', () => {
+    const engine = new MonteCarloSimulationEngine({
+      initialPairs: 9,
+      noiseParameter: 0.05,
+      targetFidelity: 0.999,
+      noiseChannel: NoiseChannel.Depolarizing,
+      pairingStrategy: PairingStrategy.SameGeneration,
+      seed: 1 // Some unlucky draws leave a single purified pair, and nothing to match in the second round
+    });
+    // After one round the leftover raw pair must not be matched with a purified one
+    engine.step();
+
+    engine.nextStep(); // twirl
+    engine.nextStep(); // exchange
+    const state = engine.nextStep(); // cnot
+    state.pendingPairs!.controlPairs.forEach((control, i) => {
+      expect(control.generation).toBe(state.pendingPairs!.targetPairs[i].generation);
+    });
+  });
+});
+
+describe('MonteCarloSimulationEngine - Imperfect local operations', () => {
+  const baseParams: SimulationParameters = {
+    initialPairs: 2,
+    noiseParameter: 0.1,
+    targetFidelity: 0.999,
+    noiseChannel: NoiseChannel.Depolarizing
+  };
+
+  const advanceToCNOT = (engine: MonteCarloSimulationEngine) => {
+    engine.nextStep(); // twirl
+    engine.nextStep(); // exchange
+    return engine.nextStep(); // cnot
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('applies a two-qubit depolarizing error after each CNOT', () => {
+    vi.spyOn(PauliTwirling, 'pauliTwirl').mockImplementation((rho) => rho);
+    const ideal = advanceToCNOT(new MonteCarloSimulationEngine(baseParams));
+    const noisy = advanceToCNOT(new MonteCarloSimulationEngine({ ...baseParams, cnotErrorProbability: 0.1 }));
+
+    expect(noisy.pairs[0].fidelity).toBeLessThan(ideal.pairs[0].fidelity);
+    expect(noisy.pendingPairs!.jointStates![0].trace().re).toBeCloseTo(1);
+  });
+
+  test('flips a measurement outcome with the readout error probability', () => {
+    const engine = new MonteCarloSimulationEngine({ ...baseParams, readoutErrorProbability: 0.5 });
+    const state = advanceToCNOT(engine);
+    const jointState = state.pendingPairs!.jointStates![0];
+
+    const measureSpy = vi.spyOn(RealCalculations, 'measureQubit');
+    measureSpy.mockReturnValue({ outcome: 0, probability: 1.0, postState: jointState });
+    // Alice's readout is flipped, Bob's is not
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+
+    engine['performMeasurement']();
+
+    expect(engine.getCurrentState().pendingPairs!.results![0].successful).toBe(false);
+  });
+
+  test('does not draw random numbers for readout when the error is zero', () => {
+    const engine = new MonteCarloSimulationEngine(baseParams);
+    const state = advanceToCNOT(engine);
+    const jointState = state.pendingPairs!.jointStates![0];
+
+    vi.spyOn(RealCalculations, 'measureQubit')
+      .mockReturnValue({ outcome: 1, probability: 1.0, postState: jointState });
+    const randomSpy = vi.spyOn(Math, 'random');
+
+    engine['performMeasurement']();
+
+    expect(randomSpy).not.toHaveBeenCalled();
+    expect(engine.getCurrentState().pendingPairs!.results![0].successful).toBe(true);
+  });
+});
+
+describe('MonteCarloSimulationEngine - Memory decoherence', () => {
+  const baseParams: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.1,
+    targetFidelity: 0.999,
+    noiseChannel: NoiseChannel.Depolarizing
+  };
+
+  test('leaves pairs untouched with ideal memory', () => {
+    vi.spyOn(PauliTwirling, 'pauliTwirl').mockImplementation((rho) => rho);
+    const engine = new MonteCarloSimulationEngine(baseParams);
+    const initialFidelity = engine.getCurrentState().pairs[0].fidelity;
+
+    const state = engine.nextStep();
+
+    expect(state.pairs[0].fidelity).toBeCloseTo(initialFidelity);
+    expect(state.memoryFidelityLoss).toBe(0);
+    vi.restoreAllMocks();
+  });
+
+  test('decoheres every stored pair on each step and tracks the loss', () => {
+    vi.spyOn(PauliTwirling, 'pauliTwirl').mockImplementation((rho) => rho);
+    const engine = new MonteCarloSimulationEngine({
+      ...baseParams,
+      memoryT1: 20,
+      memoryT2: 10,
+      stepDuration: 1
+    });
+    const initialFidelity = engine.getCurrentState().pairs[0].fidelity;
+
+    let state = engine.nextStep(); // twirl (identity here), after one step in memory
+    expect(state.pairs[0].fidelity).toBeLessThan(initialFidelity);
+    const lossAfterOneStep = state.memoryFidelityLoss!;
+    expect(lossAfterOneStep).toBeCloseTo(initialFidelity - state.averageFidelity);
+
+    state = engine.nextStep(); // exchange
+    expect(state.memoryFidelityLoss!).toBeGreaterThan(lossAfterOneStep);
+    vi.restoreAllMocks();
+  });
+
+  test('decoheres the joint states of the bilateral CNOT before they are measured', () => {
+    const params = { ...baseParams, memoryT1: 20, memoryT2: 10, stepDuration: 1 };
+    const engine = new MonteCarloSimulationEngine(params);
+    for (let i = 0; i < 3; i++) {
+      engine.nextStep(); // twirl, exchange, CNOT
+    }
+    const jointBefore = engine.getCurrentState().pendingPairs!.jointStates![0];
+
+    const measured = engine.nextStep();
+
+    const expected = applyMemoryDecoherence(jointBefore, getMemoryDecay(params)!);
+    expect(measured.pendingPairs!.jointStates![0].equals(expected, 1e-12)).toBe(true);
+  });
+});
+
+describe('MonteCarloSimulationEngine - Seeded runs', () => {
+  const seededParams: SimulationParameters = {
+    initialPairs: 6,
+    noiseParameter: 0.3,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.UniformNoise,
+    seed: 1234
+  };
+
+  const runRounds = (engine: MonteCarloSimulationEngine, rounds: number) => {
+    let state = engine.getCurrentState();
+    for (let i = 0; i < rounds; i++) {
+      state = engine.step();
+    }
+    return state;
+  };
+
+  test('two engines with the same seed produce identical runs', () => {
+    const a = runRounds(new MonteCarloSimulationEngine(seededParams), 2);
+    const b = runRounds(new MonteCarloSimulationEngine(seededParams), 2);
+
+    expect(a.seed).toBe(1234);
+    expect(a.pairs.map(p => p.id)).toEqual(b.pairs.map(p => p.id));
+    expect(a.pairs.map(p => p.fidelity)).toEqual(b.pairs.map(p => p.fidelity));
+  });
+
+  test('reset replays the seeded run from the start', () => {
+    const engine = new MonteCarloSimulationEngine(seededParams);
+    const first = runRounds(engine, 2);
+    engine.reset();
+    const replay = runRounds(engine, 2);
+
+    expect(replay.pairs.map(p => p.fidelity)).toEqual(first.pairs.map(p => p.fidelity));
+  });
+
+  test('does not touch Math.random when seeded', () => {
+    const randomSpy = vi.spyOn(Math, 'random');
+    runRounds(new MonteCarloSimulationEngine(seededParams), 1);
+
+    expect(randomSpy).not.toHaveBeenCalled();
+    randomSpy.mockRestore();
+  });
+
+  test('restoreState continues a seeded run exactly as before', () => {
+    const engine = new MonteCarloSimulationEngine(seededParams);
+    const earlier = engine.step();
+    const original = engine.step();
+
+    engine.restoreState(earlier);
+    expect(engine.getCurrentState().round).toBe(earlier.round);
+    const replay = engine.step();
+
+    expect(earlier.randomState).toBeDefined();
+    expect(replay.pairs.map(p => p.fidelity)).toEqual(original.pairs.map(p => p.fidelity));
+  });
+
+  test('restoreState does not share pairs with the restored state', () => {
+    const engine = new MonteCarloSimulationEngine(seededParams);
+    const initial = engine.getCurrentState();
+    engine.restoreState(initial);
+    engine.nextStep(); // twirl replaces the density matrices
+
+    expect(engine.getCurrentState().pairs[0]).not.toBe(initial.pairs[0]);
+    expect(initial.purificationStep).toBe('initial');
+  });
+});
+
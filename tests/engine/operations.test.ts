@@ -1,10 +1,11 @@
-import {bilateralCNOT, depolarize, exchangePsiMinusPhiPlus} from '../../src/engine/operations';
+import {bilateralCNOT, countRawPairs, depolarize, exchangePsiMinusPhiPlus, preparePairsForCNOT, purificationOutcome} from '../../src/engine/operations';
 import {createNoisyEPRWithChannel} from '../../src/engine/quantumStates';
 import {ComplexNum} from '../../src/engine_real_calculations/types/complex';
 import {DensityMatrix} from '../../src/engine_real_calculations/matrix/densityMatrix';
 import {fidelityFromBellBasisMatrix} from "../../src/engine_real_calculations/bell/bell-basis";
 import {expectMatrixClose} from "../_test_utils.ts";
-import { NoiseChannel } from '../../src/engine/types';
+import { Basis, NoiseChannel, PairingStrategy, PurificationScheme, QubitPair } from '../../src/engine/types';
+import { vi } from 'vitest';
 
 // Helper function to calculate fidelity wrt |Φ⁺⟩ directly from Bell basis rho
 describe('operations', () => {
@@ -137,4 +138,152 @@ describe('operations', () => {
       // or via statistical analysis if the exact BCNOT+measurement implementation is confirmed.
     });
   });
-}); 
\ No newline at end of file
+
+  describe('bilateralCNOT with unequal fidelities', () => {
+    const werner = (f: number) => {
+      const nonTarget = (1 - f) / 3;
+      const weights = [f, nonTarget, nonTarget, nonTarget]; // |Φ⁺⟩ first, as after the exchange step
+      return new DensityMatrix(weights.map((_, i) => weights.map((w, j) => ComplexNum.fromReal(i === j ? w : 0))));
+    };
+
+    test('uses both control and target fidelities for the purified fidelity', () => {
+      const originalRandom = Math.random;
+      Math.random = () => 0; // force success
+      const result = bilateralCNOT(werner(0.9), werner(0.7));
+      Math.random = originalRandom;
+
+      const f1 = 0.9;
+      const f2 = 0.7;
+      const expected = (f1 * f2 + (1 - f1) * (1 - f2) / 9) /
+        (f1 * f2 + f1 * (1 - f2) / 3 + (1 - f1) * f2 / 3 + 5 * (1 - f1) * (1 - f2) / 9);
+      expect(fidelityFromBellBasisMatrix(result.afterMeasurement.controlPair)).toBeCloseTo(expected, 10);
+    });
+
+    test('purificationOutcome matches the success draw of bilateralCNOT', () => {
+      const { successProbability, fidelity } = purificationOutcome(0.9, 0.7);
+
+      const originalRandom = Math.random;
+      try {
+        Math.random = () => successProbability - 1e-9;
+        expect(bilateralCNOT(werner(0.9), werner(0.7)).afterMeasurement.successful).toBe(true);
+        Math.random = () => successProbability + 1e-9;
+        expect(bilateralCNOT(werner(0.9), werner(0.7)).afterMeasurement.successful).toBe(false);
+      } finally {
+        Math.random = originalRandom;
+      }
+      expect(fidelity).toBeGreaterThan(0.9 * 0.7);
+    });
+
+    test('purificationOutcome of perfect pairs always succeeds', () => {
+      expect(purificationOutcome(1, 1)).toEqual({ successProbability: 1, fidelity: 1 });
+    });
+  });
+
+  describe('preparePairsForCNOT', () => {
+    const makePairs = (count: number): QubitPair[] =>
+      Array.from({ length: count }, (_, i) => ({
+        id: i,
+        densityMatrix: DensityMatrix.bellPsiMinus(),
+        fidelity: 0.8,
+        basis: Basis.Computational,
+        generation: 0
+      }));
+
+    test('pairs neighbours in recurrence mode and reports the unpaired pair', () => {
+      const pairs = makePairs(5);
+      const result = preparePairsForCNOT(pairs);
+
+      expect(result.controlPairs.map(p => p.id)).toEqual([0, 2]);
+      expect(result.targetPairs.map(p => p.id)).toEqual([1, 3]);
+      expect(result.unpairedPairs.map(p => p.id)).toEqual([4]);
+      expect(result.hasUnpairedPair).toBe(true);
+    });
+
+    test('pairs the accumulating pair with the next elementary pair in pumping mode', () => {
+      const pairs = makePairs(5);
+      const result = preparePairsForCNOT(pairs, { scheme: PurificationScheme.Pumping });
+
+      expect(result.controlPairs.map(p => p.id)).toEqual([0]);
+      expect(result.targetPairs.map(p => p.id)).toEqual([1]);
+      expect(result.unpairedPairs.map(p => p.id)).toEqual([2, 3, 4]);
+      expect(result.hasUnpairedPair).toBe(true);
+    });
+
+    test('leaves a single pair unpaired in pumping mode', () => {
+      const result = preparePairsForCNOT(makePairs(1), { scheme: PurificationScheme.Pumping });
+
+      expect(result.controlPairs).toHaveLength(0);
+      expect(result.targetPairs).toHaveLength(0);
+      expect(result.unpairedPairs).toHaveLength(1);
+    });
+
+    describe('pairing strategies', () => {
+      // Fidelities deliberately out of order: ids 0..4
+      const fidelities = [0.7, 0.95, 0.6, 0.85, 0.8];
+      const makeRankedPairs = (): QubitPair[] =>
+        makePairs(fidelities.length).map((pair, i) => ({ ...pair, fidelity: fidelities[i] }));
+
+      test('index order pairs neighbours regardless of fidelity', () => {
+        const result = preparePairsForCNOT(makeRankedPairs(), { strategy: PairingStrategy.IndexOrder });
+
+        expect(result.controlPairs.map(p => p.id)).toEqual([0, 2]);
+        expect(result.targetPairs.map(p => p.id)).toEqual([1, 3]);
+        expect(result.unpairedPairs.map(p => p.id)).toEqual([4]);
+      });
+
+      test('sort by fidelity pairs the best with the second best and leaves the worst out', () => {
+        const result = preparePairsForCNOT(makeRankedPairs(), { strategy: PairingStrategy.SortByFidelity });
+
+        expect(result.controlPairs.map(p => p.id)).toEqual([1, 4]);
+        expect(result.targetPairs.map(p => p.id)).toEqual([3, 0]);
+        expect(result.unpairedPairs.map(p => p.id)).toEqual([2]);
+      });
+
+      test('best with worst pairs opposite ends and leaves the median out', () => {
+        const result = preparePairsForCNOT(makeRankedPairs(), { strategy: PairingStrategy.BestWithWorst });
+
+        expect(result.controlPairs.map(p => p.id)).toEqual([1, 3]);
+        expect(result.targetPairs.map(p => p.id)).toEqual([2, 0]);
+        expect(result.unpairedPairs.map(p => p.id)).toEqual([4]);
+      });
+
+      test('random pairing uses the supplied random source and keeps every pair once', () => {
+        const random = { next: vi.fn(() => 0) };
+        const result = preparePairsForCNOT(makeRankedPairs(), { strategy: PairingStrategy.Random, random });
+
+        expect(random.next).toHaveBeenCalledTimes(4);
+        const ids = [...result.controlPairs, ...result.targetPairs, ...result.unpairedPairs].map(p => p.id);
+        expect(ids.sort()).toEqual([0, 1, 2, 3, 4]);
+        // Always swapping with index 0 rotates the array: [1, 2, 3, 4, 0]
+        expect(result.controlPairs.map(p => p.id)).toEqual([1, 3]);
+      });
+
+      test('same generation only pairs within a generation', () => {
+        const pairs = makeRankedPairs().map((pair, i) => ({ ...pair, generation: i < 3 ? 0 : 1 }));
+        const result = preparePairsForCNOT(pairs, { strategy: PairingStrategy.SameGeneration });
+
+        expect(result.controlPairs.map(p => p.id)).toEqual([0, 3]);
+        expect(result.targetPairs.map(p => p.id)).toEqual([1, 4]);
+        expect(result.unpairedPairs.map(p => p.id)).toEqual([2]);
+      });
+
+      test('pumping ignores the pairing strategy', () => {
+        const result = preparePairsForCNOT(makeRankedPairs(), {
+          scheme: PurificationScheme.Pumping,
+          strategy: PairingStrategy.SortByFidelity
+        });
+
+        expect(result.controlPairs.map(p => p.id)).toEqual([0]);
+        expect(result.targetPairs.map(p => p.id)).toEqual([1]);
+      });
+    });
+
+    test('countRawPairs only counts generation 0 pairs', () => {
+      const pairs = makePairs(3);
+      pairs[1] = { ...pairs[1], generation: 2 };
+      const legacyPair: QubitPair = { id: 2, densityMatrix: pairs[2].densityMatrix, fidelity: 0.8, basis: Basis.Computational };
+
+      expect(countRawPairs([pairs[0], pairs[1], legacyPair])).toBe(2);
+    });
+  });
+});
@@ -1,6 +1,10 @@
-import {createNoisyEPRWithChannel} from '../../src/engine/quantumStates';
+import {createBellDiagonalState, createInitialPair, createNoisyEPRWithChannel, createWernerState, validateBellDiagonalWeights} from '../../src/engine/quantumStates';
 import {fidelityFromBellBasisMatrix, BellState, fidelityFromComputationalBasisMatrix} from '../../src/engine_real_calculations/bell/bell-basis';
-import { NoiseChannel } from '../../src/engine/types';
+import { InitialStateMode, NoiseChannel, SimulationParameters } from '../../src/engine/types';
+import { toBellBasis } from '../../src/engine_real_calculations/bell/bell-basis';
+import { SeededRandom } from '../../src/engine_real_calculations/utils/random';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+import { ComplexNum } from '../../src/engine_real_calculations/types/complex';
 
 function expectFidelityRange(fidelity: number, min: number, max: number, message?: string) {
   expect(fidelity).toBeGreaterThanOrEqual(min);
@@ -90,6 +94,24 @@ describe('createNoisyEPRWithChannel', () => {
     });
   });
 
+  describe('custom Kraus channel', () => {
+    test('applies the given operators to Bob\'s qubit', () => {
+      const p = 0.3;
+      const kraus = [
+        [[{ re: Math.sqrt(1 - p / 2), im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: Math.sqrt(1 - p / 2), im: 0 }]],
+        [[{ re: Math.sqrt(p / 2), im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: -Math.sqrt(p / 2), im: 0 }]]
+      ];
+      const rho = createNoisyEPRWithChannel(0, NoiseChannel.CustomKraus, undefined, kraus as ComplexNum[][][]);
+
+      expect(rho.equals(createNoisyEPRWithChannel(p, NoiseChannel.Dephasing))).toBe(true);
+    });
+
+    test('requires operators', () => {
+      expect(() => createNoisyEPRWithChannel(0, NoiseChannel.CustomKraus))
+        .toThrow('The custom Kraus channel needs Kraus operators');
+    });
+  });
+
   test('zero noise parameter should preserve Bell state for all channels', () => {
     const channels = [
       NoiseChannel.AmplitudeDamping,
@@ -136,4 +158,145 @@ describe('createNoisyEPRWithChannel', () => {
     
     expect(foundDifference).toBe(true); // At least some channels should produce different results
   });
-}); 
\ No newline at end of file
+});
+
+describe('createInitialPair', () => {
+  const params: SimulationParameters = {
+    initialPairs: 2,
+    noiseParameter: 0.2,
+    targetFidelity: 0.9,
+    noiseChannel: NoiseChannel.Dephasing
+  };
+
+  // Diagonal of the pair in the Bell basis: Φ+, Φ-, Ψ+, Ψ-
+  const bellWeights = (params: SimulationParameters): number[] => {
+    const bell = toBellBasis(createInitialPair(params));
+    return [0, 1, 2, 3].map(i => bell.get(i, i).re);
+  };
+
+  test('without Alice\'s noise it is the one-sided pair', () => {
+    const seeded = { ...params, noiseChannel: NoiseChannel.UniformNoise, seed: 5 };
+
+    expect(createInitialPair(seeded, new SeededRandom(5)).equals(
+      createNoisyEPRWithChannel(0.2, NoiseChannel.UniformNoise, new SeededRandom(5))
+    )).toBe(true);
+  });
+
+  test('applies independent noise to both qubits', () => {
+    const p = 0.2;
+    const q = 0.4;
+    const weights = bellWeights({ ...params, aliceNoise: { channel: NoiseChannel.Dephasing, parameter: q } });
+
+    // The pair ends up in |Ψ+⟩ when exactly one side flips its phase
+    const flip = (p / 2) * (1 - q / 2) + (q / 2) * (1 - p / 2);
+    expect(weights[2]).toBeCloseTo(flip);
+    expect(weights[3]).toBeCloseTo(1 - flip);
+  });
+
+  test('symmetric noise gives different Bell weights than one-sided noise', () => {
+    const p = 0.3;
+    const oneSided = bellWeights({ ...params, noiseChannel: NoiseChannel.Depolarizing, noiseParameter: p });
+    const symmetric = bellWeights({
+      ...params,
+      noiseChannel: NoiseChannel.Depolarizing,
+      noiseParameter: p,
+      aliceNoise: { channel: NoiseChannel.Depolarizing, parameter: p }
+    });
+
+    expect(oneSided[3]).toBeCloseTo(1 - p);
+    expect(symmetric[3]).toBeCloseTo((1 - p) ** 2 + p ** 2 / 3);
+    expect(symmetric[0]).toBeCloseTo((1 - symmetric[3]) / 3);
+  });
+
+  test('Bell-diagonal and Werner modes ignore the noise settings', () => {
+    const bellDiagonal = bellWeights({
+      ...params,
+      initialStateMode: InitialStateMode.BellDiagonal,
+      bellDiagonalWeights: [0.1, 0.2, 0.3, 0.4]
+    });
+    [0.1, 0.2, 0.3, 0.4].forEach((weight, i) => expect(bellDiagonal[i]).toBeCloseTo(weight));
+
+    const werner = bellWeights({ ...params, initialStateMode: InitialStateMode.Werner, wernerFidelity: 0.7 });
+    [0.1, 0.1, 0.1, 0.7].forEach((weight, i) => expect(werner[i]).toBeCloseTo(weight));
+    expect(() => createInitialPair({ ...params, initialStateMode: InitialStateMode.Werner }))
+      .toThrow('The Werner initial state needs a fidelity between 0 and 1');
+  });
+
+  test('imported states replace the noise channel for every pair or for single pairs', () => {
+    const werner = createInitialPair({ ...params, initialStateMode: InitialStateMode.Werner, wernerFidelity: 0.7 });
+    const imported = { ...params, initialStateMode: InitialStateMode.Imported, importedState: werner.data };
+
+    expect(createInitialPair(imported).equals(werner)).toBe(true);
+    expect(() => createInitialPair({ ...imported, importedState: undefined }))
+      .toThrow('The imported initial state needs a density matrix');
+
+    const single = { ...params, pairInitialStates: { 1: werner.data } };
+    expect(createInitialPair(single, undefined, 1).equals(werner)).toBe(true);
+    expect(createInitialPair(single, undefined, 0).equals(createInitialPair(params))).toBe(true);
+  });
+
+  test('the Pauli channel prepares any Bell-diagonal pair', () => {
+    const pauli = { ...params, noiseChannel: NoiseChannel.Pauli, pauliProbabilities: { x: 0.1, y: 0.05, z: 0.15 } };
+
+    const weights = bellWeights(pauli);
+    [0.05, 0.1, 0.15, 0.7].forEach((weight, i) => expect(weights[i]).toBeCloseTo(weight));
+    expect(() => createInitialPair({ ...params, noiseChannel: NoiseChannel.Pauli }))
+      .toThrow('The Pauli channel needs X, Y and Z probabilities');
+  });
+
+  test('generalized amplitude damping uses the thermal population', () => {
+    const damping = { ...params, noiseChannel: NoiseChannel.GeneralizedAmplitudeDamping, noiseParameter: 0.3 };
+
+    expect(createInitialPair(damping).equals(createNoisyEPRWithChannel(0.3, NoiseChannel.AmplitudeDamping))).toBe(true);
+    expect(createInitialPair({ ...damping, thermalPopulation: 0.5 }).equals(createInitialPair(damping))).toBe(false);
+  });
+
+  test('correlated dephasing acts on the whole pair', () => {
+    // ZZ leaves every Bell state unchanged, while Z on one qubit alone turns Ψ- into Ψ+
+    const correlated = createInitialPair(
+      { ...params, noiseChannel: NoiseChannel.CorrelatedDephasing, noiseParameter: 1 },
+      new SeededRandom(3)
+    );
+    const oneSided = createInitialPair(
+      { ...params, noiseChannel: NoiseChannel.Dephasing, noiseParameter: 1 },
+      new SeededRandom(3)
+    );
+
+    expect(correlated.equals(DensityMatrix.bellPsiMinus())).toBe(true);
+    expect(oneSided.equals(DensityMatrix.bellPsiMinus())).toBe(false);
+  });
+
+  test('correlated depolarizing lowers the Ψ- fidelity', () => {
+    // X⊗X, Y⊗Y and Z⊗Z keep Ψ-; the other 12 of the 15 two-qubit Paulis move it to another Bell state
+    const weights = bellWeights({ ...params, noiseChannel: NoiseChannel.CorrelatedDepolarizing, noiseParameter: 0.5 });
+
+    expect(weights[3]).toBeCloseTo(0.6);
+    [0, 1, 2].forEach(i => expect(weights[i]).toBeCloseTo(0.4 / 3));
+  });
+});
+
+describe('createWernerState', () => {
+  test('puts the fidelity on |Ψ-⟩ and spreads the rest evenly', () => {
+    const rho = createWernerState(0.7);
+
+    expect(fidelityFromBellBasisMatrix(rho, BellState.PSI_MINUS)).toBeCloseTo(0.7);
+    expect(fidelityFromBellBasisMatrix(rho, BellState.PHI_PLUS)).toBeCloseTo(0.1);
+    expect(rho.trace().re).toBeCloseTo(1);
+    expect(rho.get(0, 3).re).toBe(0);
+  });
+});
+
+describe('createBellDiagonalState', () => {
+  test('puts the weights on the diagonal of the Bell basis', () => {
+    const rho = createBellDiagonalState([0.1, 0.1, 0.1, 0.7]);
+
+    expect(rho.equals(createWernerState(0.7))).toBe(true);
+    expect(fidelityFromBellBasisMatrix(rho, BellState.PSI_MINUS)).toBeCloseTo(0.7);
+  });
+
+  test('rejects weights that do not describe a state', () => {
+    expect(() => validateBellDiagonalWeights([0.5, 0.5, 0.5, -0.5])).toThrow('Bell-diagonal weights must be non-negative numbers');
+    expect(() => validateBellDiagonalWeights([0.5, 0.5, 0.5, NaN])).toThrow('Bell-diagonal weights must be non-negative numbers');
+    expect(() => createBellDiagonalState([0.3, 0.3, 0.3, 0.3])).toThrow('Bell-diagonal weights must sum to 1, but they sum to 1.2000');
+  });
+});
@@ -0,0 +1,51 @@
+import {cloneSimulationState, reviveSimulationState} from '../../src/engine/snapshot';
+import {DensityMatrix} from '../../src/engine_real_calculations/matrix/densityMatrix';
+import {MonteCarloSimulationEngine} from '../../src/engine/monteCarloSimulationEngine';
+import {NoiseChannel, SimulationParameters} from '../../src/engine/types';
+
+describe('cloneSimulationState', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.UniformNoise,
+    seed: 7
+  };
+
+  test('copies pairs and density matrices', () => {
+    const state = new MonteCarloSimulationEngine(params).getCurrentState();
+    const copy = cloneSimulationState(state);
+
+    expect(copy).toEqual(state);
+    expect(copy.pairs).not.toBe(state.pairs);
+    expect(copy.pairs[0].densityMatrix).not.toBe(state.pairs[0].densityMatrix);
+
+    copy.pairs[0].densityMatrix.set(0, 0, { re: 42, im: 0 });
+    expect(state.pairs[0].densityMatrix.get(0, 0).re).not.toBe(42);
+  });
+
+  test('copies the pairs and joint states of a round in progress', () => {
+    const engine = new MonteCarloSimulationEngine(params);
+    engine.nextStep(); // twirl
+    engine.nextStep(); // exchange
+    const state = engine.nextStep(); // bilateral CNOT
+    const copy = cloneSimulationState(state);
+
+    expect(copy.pendingPairs).toEqual(state.pendingPairs);
+    expect(copy.pendingPairs!.controlPairs[0]).not.toBe(state.pendingPairs!.controlPairs[0]);
+    expect(copy.pendingPairs!.jointStates![0]).not.toBe(state.pendingPairs!.jointStates![0]);
+  });
+
+  test('reviveSimulationState rebuilds density matrices after structured cloning', () => {
+    const engine = new MonteCarloSimulationEngine(params);
+    engine.nextStep(); // twirl
+    engine.nextStep(); // exchange
+    const state = engine.nextStep(); // bilateral CNOT
+    const revived = reviveSimulationState(structuredClone(state));
+
+    expect(revived.pairs[0].densityMatrix).toBeInstanceOf(DensityMatrix);
+    expect(revived.pendingPairs!.jointStates![0]).toBeInstanceOf(DensityMatrix);
+    expect(revived.pairs[0].densityMatrix.equals(state.pairs[0].densityMatrix, 0)).toBe(true);
+    expect(revived.pendingPairs!.jointStates![0].equals(state.pendingPairs!.jointStates![0], 0)).toBe(true);
+  });
+});
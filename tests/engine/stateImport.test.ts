@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'vitest';
+import {
+  checkDensityMatrix,
+  detectImportFormat,
+  importDensityMatrix,
+  parseDensityMatrixCsv,
+  parseDensityMatrixJson
+} from '../../src/engine/stateImport';
+import { Basis } from '../../src/engine/types';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+import { BellState, fidelityFromComputationalBasisMatrix } from '../../src/engine_real_calculations/bell/bell-basis';
+
+// The F = 0.7 Werner state in the computational basis
+const WERNER_JSON = '[[0.1, 0, 0, 0], [0, 0.4, -0.3, 0], [0, -0.3, 0.4, 0], [0, 0, 0, 0.1]]';
+
+describe('parseDensityMatrixJson', () => {
+  test('reads rows of numbers, [re, im] pairs, {re, im} objects and strings', () => {
+    const entries = parseDensityMatrixJson(
+      '{"matrix": [[0.5, [0, 0.1], {"re": 0, "im": 0}, "0"], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, "0.5-0.2i"]]}'
+    );
+
+    expect(entries[0][0]).toEqual({ re: 0.5, im: 0 });
+    expect(entries[0][1]).toEqual({ re: 0, im: 0.1 });
+    expect(entries[3][3]).toEqual({ re: 0.5, im: -0.2 });
+  });
+
+  test('reads 16 entries in row-major order', () => {
+    const flat = JSON.stringify(JSON.parse(WERNER_JSON).flat());
+
+    expect(parseDensityMatrixJson(flat)).toEqual(parseDensityMatrixJson(WERNER_JSON));
+  });
+
+  test('reports invalid JSON, shapes and entries', () => {
+    expect(() => parseDensityMatrixJson('[[1, 0]')).toThrow('The text is not valid JSON');
+    expect(() => parseDensityMatrixJson('[[1, 0], [0, 0]]')).toThrow('Expected 4 rows of 4 entries (or 16 entries in row-major order)');
+    expect(() => parseDensityMatrixJson('[[1, 0, 0, 0], [0, true, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]'))
+      .toThrow('Entry (2, 2) is not a complex number');
+  });
+});
+
+describe('parseDensityMatrixCsv', () => {
+  test('reads re,im lines in row-major order', () => {
+    const lines = JSON.parse(WERNER_JSON).flat().map((re: number) => `${re},0`);
+
+    expect(parseDensityMatrixCsv(['re,im', ...lines].join('\n'))).toEqual(parseDensityMatrixJson(WERNER_JSON));
+    expect(parseDensityMatrixCsv(lines.join('\n'))).toEqual(parseDensityMatrixJson(WERNER_JSON));
+  });
+
+  test('reads entries by row and column, in any order', () => {
+    const lines: string[] = [];
+    JSON.parse(WERNER_JSON).forEach((row: number[], i: number) =>
+      row.forEach((re, j) => lines.push(`${i};${j};${re};0`))
+    );
+
+    expect(parseDensityMatrixCsv(['# sparse export', 'row;col;re;im', ...lines.reverse()].join('\n')))
+      .toEqual(parseDensityMatrixJson(WERNER_JSON));
+  });
+
+  test('reports missing, repeated and invalid entries', () => {
+    expect(() => parseDensityMatrixCsv('0,0,1,0')).toThrow('Entry (0, 1) is missing');
+    expect(() => parseDensityMatrixCsv('0,0,1,0\n0,0,1,0')).toThrow('Line 2: entry (0, 0) is given twice');
+    expect(() => parseDensityMatrixCsv('row,col,re,im\n0,0,1,x')).toThrow('Line 2: "x" is not a number');
+    expect(() => parseDensityMatrixCsv('1,0\n0,0')).toThrow('Expected 16 entries in row-major order, but the CSV has 2');
+  });
+});
+
+describe('importDensityMatrix', () => {
+  test('returns the state in the computational basis', () => {
+    const rho = importDensityMatrix(WERNER_JSON, Basis.Computational);
+
+    expect(detectImportFormat(WERNER_JSON)).toBe('json');
+    expect(fidelityFromComputationalBasisMatrix(rho, BellState.PSI_MINUS)).toBeCloseTo(0.7);
+  });
+
+  test('converts states given in the Bell basis', () => {
+    const psiMinus = '0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n0,0\n1,0';
+
+    expect(detectImportFormat(psiMinus)).toBe('csv');
+    expect(importDensityMatrix(psiMinus, Basis.Bell).equals(DensityMatrix.bellPsiMinus())).toBe(true);
+  });
+
+  test('rejects matrices that are not states', () => {
+    expect(() => importDensityMatrix('[[0.5, 0, 0, 0], [0, 0.4, 0, 0], [0, 0, 0.4, 0], [0, 0, 0, 0.1]]', Basis.Computational))
+      .toThrow('The trace is 1.4000 instead of 1');
+    expect(() => importDensityMatrix('[[0.25, 0.1, 0, 0], [0, 0.25, 0, 0], [0, 0, 0.25, 0], [0, 0, 0, 0.25]]', Basis.Computational))
+      .toThrow('The matrix is not Hermitian: entry (2, 1) is not the complex conjugate of entry (1, 2)');
+    expect(() => importDensityMatrix('[[0.5, 0, 0, 0.7], [0, 0, 0, 0], [0, 0, 0, 0], [0.7, 0, 0, 0.5]]', Basis.Computational))
+      .toThrow('The matrix is not positive semidefinite: it has a negative eigenvalue');
+  });
+
+  test('accepts rounding in measured data', () => {
+    const rho = new DensityMatrix(parseDensityMatrixJson(
+      '[[0.10004, 0, 0, 0], [0, 0.4, -0.3, 0], [0, -0.3, 0.4, 0], [0, 0, 0, 0.1]]'
+    ), { normalize: false });
+
+    expect(() => checkDensityMatrix(rho)).not.toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import {TRACE_CSV_COLUMNS, TRACE_FORMAT_VERSION, TraceExport, createTraceCsv, createTraceJson, exportState} from '../../src/engine/traceExport';
+import {MonteCarloSimulationEngine} from '../../src/engine/monteCarloSimulationEngine';
+import {cloneSimulationState} from '../../src/engine/snapshot';
+import {Basis, EngineType, NoiseChannel, SimulationParameters, SimulationState} from '../../src/engine/types';
+import {toBellBasis} from '../../src/engine_real_calculations/bell/bell-basis';
+import {DensityMatrix} from '../../src/engine_real_calculations/matrix/densityMatrix';
+
+describe('trace export', () => {
+  const params: SimulationParameters = {
+    initialPairs: 4,
+    noiseParameter: 0.2,
+    targetFidelity: 0.99,
+    noiseChannel: NoiseChannel.UniformNoise,
+    seed: 7
+  };
+
+  // Initial state, then every step up to the measurement of the first round
+  function trace(): SimulationState[] {
+    const engine = new MonteCarloSimulationEngine(params);
+    const states = [cloneSimulationState(engine.getCurrentState())];
+    for (let i = 0; i < 4; i++) {
+      states.push(cloneSimulationState(engine.nextStep()));
+    }
+    return states;
+  }
+
+  test('exportState writes density matrices in the computational basis', () => {
+    const state = trace()[0];
+    const rho = state.pairs[0].densityMatrix;
+    // The same pair stored in the Bell basis exports the same matrix
+    const bellState: SimulationState = {
+      ...state,
+      pairs: [{...state.pairs[0], basis: Basis.Bell, densityMatrix: new DensityMatrix(toBellBasis(rho), {normalize: false})}]
+    };
+
+    for (const exported of [exportState(state, 0), exportState(bellState, 0)]) {
+      expect(exported.pairs[0].densityMatrix).toHaveLength(4);
+      exported.pairs[0].densityMatrix.forEach((row, i) => row.forEach(([re, im], j) => {
+        expect(re).toBeCloseTo(rho.get(i, j).re, 12);
+        expect(im).toBeCloseTo(rho.get(i, j).im, 12);
+      }));
+    }
+  });
+
+  test('exportState lists the matches and measurement results of a round in progress', () => {
+    const state = trace()[4];
+    const pending = exportState(state, 4).pending!;
+
+    expect(pending.matches).toEqual(state.pendingPairs!.controlPairs.map((control, i) => ({
+      control: control.id,
+      target: state.pendingPairs!.targetPairs[i].id
+    })));
+    expect(pending.results).toHaveLength(pending.matches.length);
+  });
+
+  test('createTraceJson has the format, version, parameters and every state', () => {
+    const states = trace();
+    const json = JSON.parse(createTraceJson(states, params, EngineType.MonteCarlo, new Date('2024-01-02T03:04:05Z'))) as TraceExport;
+
+    expect(json.format).toBe('epp-simulation-trace');
+    expect(json.version).toBe(TRACE_FORMAT_VERSION);
+    expect(json.exportedAt).toBe('2024-01-02T03:04:05.000Z');
+    expect(json.engineType).toBe(EngineType.MonteCarlo);
+    expect(json.parameters).toEqual(params);
+    expect(json.states.map(state => state.purificationStep)).toEqual(states.map(state => state.purificationStep));
+    expect(json.states[0].pairs[0].fidelity).toBe(states[0].pairs[0].fidelity);
+  });
+
+  test('createTraceCsv has one line per pair per state', () => {
+    const states = trace();
+    const lines = createTraceCsv(states).trimEnd().split('\n');
+    const rows = lines.slice(1).map(line => line.split(','));
+
+    expect(lines[0]).toBe(TRACE_CSV_COLUMNS.join(','));
+    expect(TRACE_CSV_COLUMNS).toHaveLength(10 + 32);
+    expect(rows).toHaveLength(states.reduce((sum, state) => sum + state.pairs.length, 0));
+    rows.forEach(row => expect(row).toHaveLength(TRACE_CSV_COLUMNS.length));
+  });
+
+  test('createTraceCsv marks control and target pairs with their partner and outcome', () => {
+    const state = trace()[4];
+    const rows = createTraceCsv([state]).trimEnd().split('\n').slice(1).map(line => line.split(','));
+    const column = (name: string) => TRACE_CSV_COLUMNS.indexOf(name);
+    const control = state.pendingPairs!.controlPairs[0];
+    const target = state.pendingPairs!.targetPairs[0];
+    const result = state.pendingPairs!.results!.find(r => r.control.id === control.id)!;
+    const outcome = result.successful ? 'success' : 'failure';
+
+    const controlRow = rows.find(row => row[column('pair_id')] === String(control.id))!;
+    expect(controlRow[column('role')]).toBe('control');
+    expect(controlRow[column('partner_id')]).toBe(String(target.id));
+    expect(controlRow[column('result')]).toBe(outcome);
+
+    const targetRow = rows.find(row => row[column('pair_id')] === String(target.id));
+    if (targetRow) {
+      expect(targetRow[column('role')]).toBe('target');
+      expect(targetRow[column('partner_id')]).toBe(String(control.id));
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { chartPoints } from '../../src/utils/fidelityChart';
+import { Basis, PurificationStep, SimulationState } from '../../src/engine/types';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+
+describe('chartPoints', () => {
+  const stateAt = (round: number, purificationStep: PurificationStep, fidelities: number[]): SimulationState => ({
+    pairs: fidelities.map((fidelity, id) => ({ id, fidelity, densityMatrix: DensityMatrix.bellPsiMinus(), basis: Basis.Bell })),
+    round,
+    complete: purificationStep === 'completed',
+    purificationStep,
+    averageFidelity: fidelities.length > 0 ? fidelities.reduce((sum, f) => sum + f, 0) / fidelities.length : 0
+  });
+
+  test('places sub-steps within their round and summarizes the pair fidelities', () => {
+    const points = chartPoints([
+      stateAt(0, 'initial', [0.7, 0.8, 0.9, 0.6]),
+      stateAt(0, 'cnot', [0.7, 0.8, 0.9, 0.6]),
+      stateAt(1, 'initial', [0.85, 0.95])
+    ]);
+
+    expect(points.map(point => point.position)).toEqual([0, 0.5, 1]);
+    expect(points[0]).toMatchObject({ minFidelity: 0.6, maxFidelity: 0.9, pairs: 4 });
+    expect(points[0].averageFidelity).toBeCloseTo(0.75, 12);
+    expect(points[2]).toMatchObject({ round: 1, step: 'initial', minFidelity: 0.85, maxFidelity: 0.95, pairs: 2 });
+  });
+
+  test('puts the completed state after the step that ended the run', () => {
+    const early = chartPoints([stateAt(2, 'twirled', [0.9]), stateAt(2, 'completed', [0.9])]);
+    const afterRound = chartPoints([stateAt(2, 'discard', [0.9, 0.8]), stateAt(3, 'completed', [0.95])]);
+
+    expect(early[1].position).toBeCloseTo(2 + 2 / 6, 12);
+    expect(afterRound[1].position).toBe(3);
+  });
+
+  test('has no minimum or maximum once no pairs are left', () => {
+    const [point] = chartPoints([stateAt(1, 'completed', [])]);
+
+    expect(point.pairs).toBe(0);
+    expect(point.minFidelity).toBeUndefined();
+    expect(point.maxFidelity).toBeUndefined();
+  });
+
+  test('a state before the previous point replaces the path it went back over', () => {
+    const points = chartPoints([
+      stateAt(0, 'initial', [0.7, 0.7]),
+      stateAt(0, 'twirled', [0.7, 0.7]),
+      stateAt(0, 'exchanged', [0.7, 0.7]),
+      stateAt(0, 'twirled', [0.72, 0.72]) // Stepped again after two undos
+    ]);
+
+    expect(points.map(point => point.step)).toEqual(['initial', 'twirled']);
+    expect(points[1].maxFidelity).toBe(0.72);
+  });
+});
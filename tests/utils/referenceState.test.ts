@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_REFERENCE_STATE,
+  referenceDensityMatrix,
+  referenceStateLabel
+} from '../../src/utils/referenceState';
+import { BellState, fidelityFromComputationalBasisMatrix } from '../../src/engine_real_calculations/bell/bell-basis';
+import { DensityMatrix } from '../../src/engine_real_calculations/matrix/densityMatrix';
+import { expectMatrixClose } from '../_test_utils';
+
+describe('referenceState', () => {
+  test('defaults to the engine target Ψ-', () => {
+    expectMatrixClose(referenceDensityMatrix(DEFAULT_REFERENCE_STATE), DensityMatrix.bellPsiMinus());
+    expect(referenceStateLabel(DEFAULT_REFERENCE_STATE)).toBe('Ψ- (engine target)');
+  });
+
+  test('follows the engine target into the Φ+ frame from the exchange to the end of a round', () => {
+    (['exchanged', 'cnot', 'measured', 'discard'] as const).forEach(step => {
+      expectMatrixClose(referenceDensityMatrix(DEFAULT_REFERENCE_STATE, step), DensityMatrix.bellPhiPlus());
+      expect(referenceStateLabel(DEFAULT_REFERENCE_STATE, step)).toBe('Φ+ (engine target)');
+    });
+    expectMatrixClose(referenceDensityMatrix(DEFAULT_REFERENCE_STATE, 'completed'), DensityMatrix.bellPsiMinus());
+  });
+
+  test('keeps a chosen Bell state at every step', () => {
+    const reference = { bellState: BellState.PSI_MINUS, axis: 'z' as const, angle: 0 };
+
+    expectMatrixClose(referenceDensityMatrix(reference, 'cnot'), DensityMatrix.bellPsiMinus());
+    expect(referenceStateLabel(reference, 'cnot')).toBe('Ψ-');
+  });
+
+  test('gives each Bell state without a rotation', () => {
+    const phiMinus = referenceDensityMatrix({ bellState: BellState.PHI_MINUS, axis: 'x', angle: 0 });
+
+    expect(fidelityFromComputationalBasisMatrix(phiMinus, BellState.PHI_MINUS)).toBeCloseTo(1, 12);
+  });
+
+  test('rotates Bob\'s qubit into another Bell state', () => {
+    // Rx(180°) = −iX, and (I⊗X)|Φ+⟩ = |Ψ+⟩; (I⊗Z)|Φ+⟩ = |Φ-⟩
+    const flipped = referenceDensityMatrix({ bellState: BellState.PHI_PLUS, axis: 'x', angle: 180 });
+    const phased = referenceDensityMatrix({ bellState: BellState.PHI_PLUS, axis: 'z', angle: 180 });
+
+    expectMatrixClose(flipped, DensityMatrix.bellPsiPlus());
+    expectMatrixClose(phased, DensityMatrix.bellPhiMinus());
+  });
+
+  test('keeps a partly rotated reference pure and between the Bell states', () => {
+    const reference = { bellState: BellState.PSI_MINUS, axis: 'z' as const, angle: 90 };
+    const rho = referenceDensityMatrix(reference);
+
+    expect(rho.validate()).toBe(true);
+    expect(fidelityFromComputationalBasisMatrix(rho, BellState.PSI_MINUS)).toBeCloseTo(0.5, 12);
+    expect(fidelityFromComputationalBasisMatrix(rho, BellState.PSI_PLUS)).toBeCloseTo(0.5, 12);
+    expect(referenceStateLabel(reference)).toBe('Ψ- with Rz(90°) on Bob');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'vitest';
+import { DEFAULT_SCENARIO, Scenario, decodeScenario, encodeScenario, scenarioLink } from '../../src/utils/urlState';
+import { Basis, EngineType, InitialStateMode, NoiseChannel, PairingStrategy, PurificationScheme } from '../../src/engine/types';
+import { ComplexNum } from '../../src/engine_real_calculations/types/complex';
+
+describe('urlState', () => {
+  const c = (re: number, im = 0) => new ComplexNum(re, im);
+  const werner = [
+    [c(0.1), c(0), c(0), c(0)],
+    [c(0), c(0.4), c(-0.3, 0.1), c(0)],
+    [c(0), c(-0.3, -0.1), c(0.4), c(0)],
+    [c(0), c(0), c(0), c(0.1)]
+  ];
+
+  const scenario: Scenario = {
+    params: {
+      initialPairs: 16,
+      noiseParameter: 0.25,
+      targetFidelity: 0.9,
+      noiseChannel: NoiseChannel.CustomKraus,
+      initialStateMode: InitialStateMode.Channel,
+      pairInitialStates: { 0: werner, 3: werner },
+      krausOperators: [
+        [[c(Math.sqrt(0.9)), c(0)], [c(0), c(Math.sqrt(0.9))]],
+        [[c(0), c(0, -Math.sqrt(0.1))], [c(0, Math.sqrt(0.1)), c(0)]]
+      ],
+      aliceNoise: { channel: NoiseChannel.Pauli, parameter: 0, pauliProbabilities: { x: 0.1, y: 0, z: 0.05 } },
+      purificationScheme: PurificationScheme.Pumping,
+      pairingStrategy: PairingStrategy.SortByFidelity,
+      cnotErrorProbability: 0.01,
+      memoryT1: 100,
+      stepDuration: 1,
+      seed: 1234
+    },
+    engineType: EngineType.Dejmps,
+    viewBasis: Basis.Computational
+  };
+
+  test('a scenario survives encoding and decoding', () => {
+    expect(decodeScenario(encodeScenario(scenario))).toEqual(scenario);
+  });
+
+  test('writes numbers and choices as readable values and leaves out unset parameters', () => {
+    const query = new URLSearchParams(encodeScenario({ ...DEFAULT_SCENARIO, params: { ...DEFAULT_SCENARIO.params, seed: 7 } }));
+
+    expect(query.get('engine')).toBe(EngineType.MonteCarlo);
+    expect(query.get('basis')).toBe(Basis.Bell);
+    expect(query.get('noiseChannel')).toBe(NoiseChannel.UniformNoise);
+    expect(query.get('seed')).toBe('7');
+    expect(query.has('memoryT1')).toBe(false);
+  });
+
+  test('accepts a leading "?" and opens the default scenario without a query', () => {
+    expect(decodeScenario('')).toEqual(DEFAULT_SCENARIO);
+    expect(decodeScenario('?initialPairs=8&engine=exact').params.initialPairs).toBe(8);
+    expect(decodeScenario('?initialPairs=8&engine=exact').engineType).toBe(EngineType.Exact);
+  });
+
+  test('keeps the defaults for unreadable values', () => {
+    const decoded = decodeScenario(
+      'initialPairs=2.5&noiseParameter=abc&noiseChannel=loud&seed=-1&engine=quantum&basis=diagonal' +
+      '&bellDiagonalWeights=[0.5,0.5]&importedState={&aliceNoise={"channel":"dephasing"}&wernerFidelity=0.8'
+    );
+
+    expect(decoded).toEqual({
+      ...DEFAULT_SCENARIO,
+      params: { ...DEFAULT_SCENARIO.params, wernerFidelity: 0.8 }
+    });
+  });
+
+  test('keeps the default for correlated dephasing, which the control panel does not offer', () => {
+    expect(decodeScenario('noiseChannel=correlated-dephasing').params.noiseChannel).toBe(DEFAULT_SCENARIO.params.noiseChannel);
+    expect(decodeScenario('noiseChannel=correlated-depolarizing').params.noiseChannel).toBe(NoiseChannel.CorrelatedDepolarizing);
+  });
+
+  test('keeps seeds only within the 32 bits the generator uses', () => {
+    expect(decodeScenario('seed=4294967295').params.seed).toBe(2 ** 32 - 1);
+    expect(decodeScenario('seed=4294967296').params.seed).toBeUndefined();
+  });
+
+  test('keeps the default pair count when it is outside the control panel\'s range', () => {
+    expect(decodeScenario('initialPairs=1').params.initialPairs).toBe(DEFAULT_SCENARIO.params.initialPairs);
+    expect(decodeScenario('initialPairs=51').params.initialPairs).toBe(DEFAULT_SCENARIO.params.initialPairs);
+    expect(decodeScenario('initialPairs=2').params.initialPairs).toBe(2);
+    expect(decodeScenario('initialPairs=50').params.initialPairs).toBe(50);
+  });
+
+  test('scenarioLink replaces the query and keeps the page and hash', () => {
+    const link = scenarioLink(DEFAULT_SCENARIO, 'https://example.org/sim/?old=1#help');
+
+    expect(link.startsWith('https://example.org/sim/?engine=monte-carlo&basis=bell&')).toBe(true);
+    expect(link).not.toContain('old=1');
+    expect(link.endsWith('#help')).toBe(true);
+  });
+});